@@ -62,6 +62,7 @@ export const workspace = {
   onDidChangeTextDocument: (listener: (e: any) => any) => ({ dispose: () => {} }),
   onDidOpenTextDocument: (listener: (document: any) => any) => ({ dispose: () => {} }),
   onDidSaveTextDocument: (listener: (document: any) => any) => ({ dispose: () => {} }),
+  onDidChangeConfiguration: (listener: (e: any) => any) => ({ dispose: () => {} }),
   getConfiguration: (section?: string) => ({
     get: (key: string, defaultValue?: any) => defaultValue
   }),
@@ -79,10 +80,29 @@ export const DiagnosticSeverity = {
   Hint: 3,
 };
 
-export const CodeActionKind = {
-  RefactorRewrite: 'refactor.rewrite',
-  QuickFix: 'quickfix',
-};
+// Shared by every vscode mock, so code action kinds look the same in all tests
+export class CodeActionKind {
+  static readonly Empty = new CodeActionKind('');
+  static readonly QuickFix = new CodeActionKind('quickfix');
+  static readonly Refactor = new CodeActionKind('refactor');
+  static readonly RefactorRewrite = new CodeActionKind('refactor.rewrite');
+  static readonly Source = new CodeActionKind('source');
+  static readonly SourceFixAll = new CodeActionKind('source.fixAll');
+
+  constructor(public readonly value: string) {}
+
+  append(part: string): CodeActionKind {
+    return new CodeActionKind(this.value ? `${this.value}.${part}` : part);
+  }
+
+  contains(other: CodeActionKind): boolean {
+    return this.value === other.value || other.value.startsWith(`${this.value}.`);
+  }
+
+  intersects(other: CodeActionKind): boolean {
+    return this.contains(other) || other.contains(this);
+  }
+}
 
 export const ProgressLocation = {
   Notification: 15,
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CliUsageError, discoverFiles, formatSummary, parseAuditArgs, runAudit } from './cli';
+import { globToRegExp } from './core/glob';
+import type { BaselineDataManager } from './core/baselineData';
+
+describe('CLI', () => {
+  describe('parseAuditArgs', () => {
+    it('should parse the directory and options', () => {
+      const options = parseAuditArgs([
+        'site', '--include', 'src/**/*.css', '--exclude=**/vendor/**', '--target', 'widely', '--fail-on', 'error'
+      ]);
+
+      expect(options).toEqual({
+        directory: 'site',
+        include: ['src/**/*.css'],
+        exclude: ['**/vendor/**'],
+        target: 'widely',
+        failOn: 'error',
+        format: 'text'
+      });
+    });
+
+    it('should parse the report format and output path', () => {
+      const options = parseAuditArgs(['.', '--format', 'sarif', '--output', 'baseline.sarif']);
+      expect(options.format).toBe('sarif');
+      expect(options.output).toBe('baseline.sarif');
+    });
+
+    it('should leave the target to the project config and fail on warnings by default', () => {
+      const options = parseAuditArgs(['.']);
+      expect(options.target).toBeUndefined();
+      expect(options.failOn).toBe('warning');
+      expect(parseAuditArgs(['.', '--config', 'ci/.baselinerc.json']).config).toBe('ci/.baselinerc.json');
+    });
+
+    it('should reject invalid usage', () => {
+      expect(() => parseAuditArgs([])).toThrow(CliUsageError);
+      expect(() => parseAuditArgs(['.', '--fail-on', 'fatal'])).toThrow(CliUsageError);
+      expect(() => parseAuditArgs(['.', '--unknown'])).toThrow(CliUsageError);
+      expect(() => parseAuditArgs(['.', '--target'])).toThrow(CliUsageError);
+      expect(() => parseAuditArgs(['.', '--format', 'xml'])).toThrow(CliUsageError);
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it('should match globstar, star and brace patterns', () => {
+      expect(globToRegExp('**/*.css').test('a.css')).toBe(true);
+      expect(globToRegExp('**/*.css').test('src/deep/a.css')).toBe(true);
+      expect(globToRegExp('src/*.js').test('src/deep/a.js')).toBe(false);
+      expect(globToRegExp('**/node_modules/**').test('packages/x/node_modules/')).toBe(true);
+      expect(globToRegExp('**/*.{js,ts}').test('lib/a.ts')).toBe(true);
+      expect(globToRegExp('**/*.{js,ts}').test('lib/a.css')).toBe(false);
+    });
+  });
+
+  describe('with a project on disk', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-cli-'));
+      const write = (file: string, content: string) => {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), content);
+      };
+      write('src/app.css', '.card { container-type: inline-size; }');
+      write('src/app.js', 'console.log("ok");');
+      write('src/vendor/lib.js', 'const copy = structuredClone(value);');
+      write('node_modules/pkg/index.css', '.x { container-type: size; }');
+      write('README.md', '# Project');
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should discover files honoring include and exclude globs', () => {
+      expect(discoverFiles(root, ['**/*.css', '**/*.js'], ['**/node_modules/**']))
+        .toEqual(['src/app.css', 'src/app.js', 'src/vendor/lib.js']);
+      expect(discoverFiles(root, ['**/*.js'], ['**/vendor/**'])).toEqual(['src/app.js']);
+    });
+
+    it('should audit files with the configured target', async () => {
+      const manager = {
+        initialize: vi.fn().mockResolvedValue(undefined),
+        setTarget: vi.fn(),
+        isBaselineSupported: vi.fn((id: string) => id !== 'css.properties.container-type'),
+        getFeatureData: vi.fn(() => ({ name: 'Container queries', status: { baseline: 'low' } }))
+      } as unknown as BaselineDataManager;
+
+      const result = await runAudit(
+        { directory: root, include: [], exclude: ['**/vendor/**'], target: 'widely', failOn: 'warning', format: 'text' },
+        manager
+      );
+
+      expect(manager.setTarget).toHaveBeenCalledWith('widely');
+      expect(result.files).toEqual(['src/app.css', 'src/app.js']);
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0]).toMatchObject({ filePath: 'src/app.css', lineNumber: 1, severity: 'warning' });
+
+      const summary = formatSummary(result, 'Baseline Widely Available');
+      expect(summary).toContain('src/app.css');
+      expect(summary).toContain('Issues found: 1 (0 errors, 1 warnings, 0 info)');
+    });
+
+    it('should apply the project config target, rules and ignored paths', async () => {
+      fs.writeFileSync(path.join(root, '.baselinerc.json'), JSON.stringify({
+        target: '2022',
+        rules: { 'container-queries': 'error' },
+        ignorePaths: ['src/vendor/**']
+      }));
+      const manager = {
+        initialize: vi.fn().mockResolvedValue(undefined),
+        setTarget: vi.fn(),
+        resolveFeatureId: vi.fn((id: string) => (id === 'css.properties.container-type' ? 'container-queries' : undefined)),
+        isBaselineSupported: vi.fn((id: string) => id !== 'css.properties.container-type'),
+        getFeatureData: vi.fn(() => ({ name: 'Container queries', status: { baseline: 'low' } }))
+      } as unknown as BaselineDataManager;
+
+      const result = await runAudit({ directory: root, include: [], exclude: [], failOn: 'warning', format: 'text' }, manager);
+
+      expect(manager.setTarget).toHaveBeenCalledWith('2022');
+      expect(result.files).toEqual(['src/app.css', 'src/app.js']);
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0].severity).toBe('error');
+
+      await runAudit({ directory: root, include: [], exclude: [], target: 'widely', failOn: 'warning', format: 'text' }, manager);
+      expect(manager.setTarget).toHaveBeenLastCalledWith('widely');
+    });
+
+    it('should reject invalid project configs', async () => {
+      fs.writeFileSync(path.join(root, '.baselinerc.json'), JSON.stringify({ rules: { 'container-queries': 'fatal' } }));
+      const manager = { initialize: vi.fn(), setTarget: vi.fn() } as unknown as BaselineDataManager;
+
+      await expect(runAudit({ directory: root, include: [], exclude: [], failOn: 'warning', format: 'text' }, manager))
+        .rejects.toThrow(/Invalid severity "fatal"/);
+    });
+
+    it('should reject missing directories and invalid targets', async () => {
+      const manager = { initialize: vi.fn(), setTarget: vi.fn() } as unknown as BaselineDataManager;
+
+      await expect(runAudit(
+        { directory: path.join(root, 'missing'), include: [], exclude: [], target: 'newly', failOn: 'warning', format: 'text' },
+        manager
+      )).rejects.toThrow(CliUsageError);
+      await expect(runAudit(
+        { directory: root, include: [], exclude: [], target: 'not a real query', failOn: 'warning', format: 'text' },
+        manager
+      )).rejects.toThrow(CliUsageError);
+    });
+  });
+});
@@ -0,0 +1,380 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { BaselineDataManager } from './core/baselineData';
+import { BaselineTargetResolver, DEFAULT_BASELINE_TARGET } from './core/baselineTarget';
+import { Logger, LogLevel } from './core/errorHandler';
+import {
+  AuditEngine,
+  CompatibilityIssue,
+  DEFAULT_EXCLUDE_PATTERNS,
+  DEFAULT_INCLUDE_PATTERNS,
+  DEFAULT_MAX_FILE_SIZE,
+  FileAuditResult,
+  IssueSeverity
+} from './core/auditEngine';
+import { globToRegExp } from './core/glob';
+import { BaselineProjectConfig, ProjectConfigError, ProjectConfigLoader } from './core/projectConfig';
+import { renderStructuredReport, STRUCTURED_REPORT_FORMATS, StructuredReportFormat } from './core/reportFormats';
+
+/**
+ * Options accepted by `baseline-sidekick audit`
+ */
+export interface AuditCliOptions {
+  directory: string;
+  include: string[];
+  exclude: string[];
+  /** Overrides the project config target; defaults to it, then to "newly" */
+  target?: string;
+  /** Project config file; defaults to the one in the audited directory */
+  config?: string;
+  failOn: IssueSeverity | 'none';
+  format: AuditOutputFormat;
+  output?: string;
+}
+
+/**
+ * Report formats the CLI can emit
+ */
+export type AuditOutputFormat = 'text' | StructuredReportFormat;
+
+const OUTPUT_FORMATS: AuditOutputFormat[] = ['text', ...STRUCTURED_REPORT_FORMATS];
+
+/**
+ * Result of a headless audit run
+ */
+export interface AuditCliResult {
+  files: string[];
+  fileResults: FileAuditResult[];
+  issues: CompatibilityIssue[];
+}
+
+/**
+ * Process exit codes used by the CLI
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  ISSUES_FOUND: 1,
+  USAGE_ERROR: 2
+} as const;
+
+const USAGE = `Usage: baseline-sidekick audit <dir> [options]
+
+Audits CSS, JavaScript and HTML files for features that are not Baseline.
+
+Options:
+  --include <glob>     Only audit files matching the glob (repeatable)
+  --exclude <glob>     Skip files matching the glob, in addition to the defaults (repeatable)
+  --target <target>    "widely", "newly", a Baseline year or a browserslist query
+                       (default: the project config target, then ${DEFAULT_BASELINE_TARGET})
+  --config <file>      Project config to use (default: .baselinerc.json or the "baseline" key
+                       of package.json in <dir>)
+  --fail-on <level>    Exit non-zero for issues at or above "info", "warning", "error" or "none" (default: warning)
+  --format <format>    Report format: "text", "json", "junit" or "sarif" (default: text)
+  --output <file>      Write the report to a file instead of stdout
+  -h, --help           Show this help`;
+
+/**
+ * Error raised for invalid command-line usage
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * Parses `audit` command arguments
+ * @param args Arguments following the `audit` command
+ * @returns Parsed audit options
+ * @throws CliUsageError if the arguments are invalid
+ */
+export function parseAuditArgs(args: string[]): AuditCliOptions {
+  const options: AuditCliOptions = {
+    directory: '',
+    include: [],
+    exclude: [],
+    failOn: 'warning',
+    format: 'text'
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+
+    const takeValue = (): string => {
+      const value = inlineValue ?? args[++i];
+      if (value === undefined || value === '') {
+        throw new CliUsageError(`Missing value for ${flag}`);
+      }
+      return value;
+    };
+
+    switch (flag) {
+      case '--include':
+        options.include.push(takeValue());
+        break;
+      case '--exclude':
+        options.exclude.push(takeValue());
+        break;
+      case '--target':
+        options.target = takeValue();
+        break;
+      case '--config':
+        options.config = takeValue();
+        break;
+      case '--fail-on': {
+        const value = takeValue();
+        if (value !== 'none' && !AuditEngine.isIssueSeverity(value)) {
+          throw new CliUsageError(`Invalid --fail-on value "${value}"; expected info, warning, error or none`);
+        }
+        options.failOn = value;
+        break;
+      }
+      case '--format': {
+        const value = takeValue() as AuditOutputFormat;
+        if (!OUTPUT_FORMATS.includes(value)) {
+          throw new CliUsageError(`Invalid --format value "${value}"; expected ${OUTPUT_FORMATS.join(', ')}`);
+        }
+        options.format = value;
+        break;
+      }
+      case '--output':
+        options.output = takeValue();
+        break;
+      default:
+        if (flag.startsWith('-')) {
+          throw new CliUsageError(`Unknown option ${flag}`);
+        }
+        if (options.directory) {
+          throw new CliUsageError(`Unexpected argument ${flag}`);
+        }
+        options.directory = flag;
+    }
+  }
+
+  if (!options.directory) {
+    throw new CliUsageError('Missing directory to audit');
+  }
+
+  return options;
+}
+
+/**
+ * Recursively discovers files under a directory that match the include globs
+ * and none of the exclude globs
+ * @param root Directory to search
+ * @param include Include globs, relative to root
+ * @param exclude Exclude globs, relative to root
+ * @returns Sorted forward-slash paths relative to root
+ */
+export function discoverFiles(root: string, include: string[], exclude: string[]): string[] {
+  const includeMatchers = include.map(globToRegExp);
+  const excludeMatchers = exclude.map(globToRegExp);
+  const files: string[] = [];
+
+  const isExcluded = (relativePath: string): boolean =>
+    excludeMatchers.some(matcher => matcher.test(relativePath));
+
+  const walk = (directory: string, relativeDirectory: string): void => {
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      const relativePath = relativeDirectory ? `${relativeDirectory}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        // A trailing segment lets "**/node_modules/**" prune the whole directory
+        if (!isExcluded(`${relativePath}/`)) {
+          walk(path.join(directory, entry.name), relativePath);
+        }
+      } else if (entry.isFile()
+        && includeMatchers.some(matcher => matcher.test(relativePath))
+        && !isExcluded(relativePath)) {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  walk(root, '');
+  return files.sort();
+}
+
+/**
+ * Audits files on disk for Baseline compatibility issues
+ * @param options Audit options
+ * @param baselineDataManager Data manager used to evaluate features
+ * @returns Audited files, their per-file results and all issues found
+ */
+export async function runAudit(
+  options: AuditCliOptions,
+  baselineDataManager: BaselineDataManager = BaselineDataManager.getInstance()
+): Promise<AuditCliResult> {
+  const root = path.resolve(options.directory);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new CliUsageError(`Not a directory: ${options.directory}`);
+  }
+
+  const projectConfig = loadProjectConfig(root, options.config);
+  const target = options.target ?? projectConfig?.target?.value ?? DEFAULT_BASELINE_TARGET;
+
+  try {
+    BaselineTargetResolver.parse(target);
+  } catch (error) {
+    throw new CliUsageError(`Invalid target "${target}": ${error instanceof Error ? error.message : error}`);
+  }
+
+  await baselineDataManager.initialize();
+  baselineDataManager.setTarget(target);
+
+  // The manager already evaluates against the effective target, which --target may override
+  const config = projectConfig && { ...projectConfig, target: undefined };
+
+  const engine = new AuditEngine(baselineDataManager);
+  const include = options.include.length > 0 ? options.include : DEFAULT_INCLUDE_PATTERNS;
+  const exclude = [...DEFAULT_EXCLUDE_PATTERNS, ...options.exclude];
+  const files = discoverFiles(root, include, exclude)
+    .filter(file => AuditEngine.getLanguageTypeForPath(file) !== undefined)
+    .filter(file => !ProjectConfigLoader.isIgnoredPath(config, path.join(root, file)));
+
+  const fileResults: FileAuditResult[] = [];
+  for (const file of files) {
+    const absolutePath = path.join(root, file);
+    if (fs.statSync(absolutePath).size > DEFAULT_MAX_FILE_SIZE) {
+      console.warn(`Skipping ${file} due to size limits`);
+      continue;
+    }
+
+    const content = fs.readFileSync(absolutePath, 'utf8');
+    fileResults.push(engine.auditContent(content, AuditEngine.getLanguageTypeForPath(file)!, file, config, absolutePath));
+  }
+
+  return { files, fileResults, issues: fileResults.flatMap(result => result.issues) };
+}
+
+/**
+ * Loads the project config for an audit
+ * @param root Audited directory
+ * @param configPath Explicit config file, if given
+ * @returns Project config, or undefined if there is none
+ * @throws CliUsageError if the config is missing or invalid
+ */
+function loadProjectConfig(root: string, configPath?: string): BaselineProjectConfig | undefined {
+  try {
+    if (!configPath) {
+      return ProjectConfigLoader.loadFromDirectory(root);
+    }
+
+    const source = path.resolve(configPath);
+    if (!fs.existsSync(source)) {
+      throw new CliUsageError(`Config file not found: ${configPath}`);
+    }
+    return ProjectConfigLoader.parseConfigFile(fs.readFileSync(source, 'utf8'), source)
+      ?? ProjectConfigLoader.validate({}, source);
+  } catch (error) {
+    if (error instanceof ProjectConfigError) {
+      throw new CliUsageError(`Invalid project config ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Formats a plain-text summary of an audit run
+ * @param result Audit result
+ * @param targetLabel Label of the target the audit ran against
+ * @returns Summary text
+ */
+export function formatSummary(result: AuditCliResult, targetLabel: string): string {
+  const { files, issues } = result;
+  const lines: string[] = [];
+
+  const issuesByFile = new Map<string, CompatibilityIssue[]>();
+  for (const issue of issues) {
+    if (!issuesByFile.has(issue.filePath)) {
+      issuesByFile.set(issue.filePath, []);
+    }
+    issuesByFile.get(issue.filePath)!.push(issue);
+  }
+
+  for (const [filePath, fileIssues] of issuesByFile) {
+    lines.push(filePath);
+    for (const issue of fileIssues) {
+      lines.push(`  ${issue.lineNumber}:${issue.columnNumber}  ${issue.severity.padEnd(7)}  ${issue.featureName} (${issue.featureId})`);
+    }
+    lines.push('');
+  }
+
+  const countBySeverity = (severity: IssueSeverity) => issues.filter(issue => issue.severity === severity).length;
+  lines.push(`Target: ${targetLabel}`);
+  lines.push(`Files scanned: ${files.length}`);
+  lines.push(`Issues found: ${issues.length} (${countBySeverity('error')} errors, ${countBySeverity('warning')} warnings, ${countBySeverity('info')} info)`);
+
+  return lines.join('\n');
+}
+
+/**
+ * CLI entry point
+ * @param argv Arguments after the executable and script name
+ * @returns Process exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return command ? EXIT_CODES.SUCCESS : EXIT_CODES.USAGE_ERROR;
+  }
+
+  try {
+    if (command !== 'audit') {
+      throw new CliUsageError(`Unknown command "${command}"`);
+    }
+
+    const options = parseAuditArgs(args);
+
+    // Keep stdout for the report; warnings and errors still reach stderr
+    Logger.getInstance().setLogLevel(LogLevel.WARN);
+    const baselineDataManager = BaselineDataManager.getInstance();
+    const result = await runAudit(options, baselineDataManager);
+
+    const summary = formatSummary(result, baselineDataManager.getTarget().label);
+    const report = options.format === 'text'
+      ? summary
+      : renderStructuredReport(
+        options.format,
+        result.fileResults,
+        baselineDataManager,
+        pathToFileURL(path.resolve(options.directory)).href
+      );
+
+    if (options.output) {
+      fs.writeFileSync(options.output, `${report}\n`, 'utf8');
+      console.log(`${summary}\n\nReport written to ${options.output}`);
+    } else {
+      console.log(report);
+    }
+
+    const failOn = options.failOn;
+    const failing = failOn !== 'none'
+      && result.issues.some(issue => AuditEngine.meetsSeverity(issue.severity, failOn));
+    return failing ? EXIT_CODES.ISSUES_FOUND : EXIT_CODES.SUCCESS;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`Error: ${error.message}\n\n${USAGE}`);
+      return EXIT_CODES.USAGE_ERROR;
+    }
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    code => { process.exitCode = code; },
+    error => {
+      console.error(error instanceof Error ? error.stack || error.message : error);
+      process.exitCode = EXIT_CODES.USAGE_ERROR;
+    }
+  );
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { AIModernizationAssistant, AIModernizationSolution, ModernizationStrategy, BaselineIssue } from '../ai/modernizationAssistant';
 import { BaselineScoreManager } from '../gamification/scoreManager';
+import { PolyfillCatalog } from '../fixes/polyfillCatalog';
 
 /**
  * Command handlers for AI-powered modernization features
@@ -84,6 +85,7 @@ export class AICommandHandlers {
 
   /**
    * Generate AI-powered polyfill
+   * Features with a well-known polyfill in the bundled catalog are offered that first, which needs no API key
    */
   private async handleGeneratePolyfill(
     codeSnippet: string,
@@ -93,6 +95,21 @@ export class AICommandHandlers {
     documentUri: vscode.Uri
   ): Promise<void> {
     try {
+      const polyfill = PolyfillCatalog.get(feature);
+      if (polyfill) {
+        const choice = await vscode.window.showInformationMessage(
+          `${polyfill.packageName} (${polyfill.size}) is a well-known polyfill for ${this.getFeatureName(feature)}.`,
+          'Add Polyfill',
+          'Generate with AI'
+        );
+        if (choice === 'Add Polyfill') {
+          await vscode.commands.executeCommand('baseline.addPolyfill', feature, documentUri);
+        }
+        if (choice !== 'Generate with AI') {
+          return;
+        }
+      }
+
       await vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
         title: `Generating polyfill for ${this.getFeatureName(feature)}...`,
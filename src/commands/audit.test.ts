@@ -14,7 +14,12 @@ vi.mock('vscode', () => ({
   workspace: {
     findFiles: vi.fn(),
     openTextDocument: vi.fn(),
-    asRelativePath: vi.fn()
+    asRelativePath: vi.fn(),
+    workspaceFolders: [{ uri: { path: '/project', toString: () => 'file:///project' } }],
+    fs: {
+      createDirectory: vi.fn(),
+      writeFile: vi.fn()
+    }
   },
   commands: {
     registerCommand: vi.fn()
@@ -32,7 +37,9 @@ vi.mock('vscode', () => ({
     constructor(public line: number, public character: number) {}
   },
   Uri: {
-    parse: vi.fn()
+    parse: vi.fn(),
+    file: vi.fn((path: string) => ({ path })),
+    joinPath: vi.fn((base: any, ...segments: string[]) => ({ path: [base.path, ...segments].join('/') }))
   }
 }));
 
@@ -88,7 +95,10 @@ describe('WorkspaceAuditor', () => {
       initialize: vi.fn(),
       isBaselineSupported: vi.fn(),
       getFeatureData: vi.fn(),
-      getMdnUrl: vi.fn()
+      getMdnUrl: vi.fn(),
+      resolveFeatureId: vi.fn((id: string) => id),
+      getTarget: vi.fn(() => ({ value: 'widely', label: 'Baseline Widely Available' })),
+      getDataVersion: vi.fn(() => '3.0.0')
     };
     
     (BaselineDataManager.getInstance as any).mockReturnValue(mockBaselineDataManager);
@@ -336,7 +346,7 @@ describe('WorkspaceAuditor', () => {
 
       await auditor.auditWorkspace();
 
-      expect(CssParser.parseCss).toHaveBeenCalledWith('.container { display: grid; gap: 10px; }', mockDocument);
+      expect(CssParser.parseCss).toHaveBeenCalledWith('.container { display: grid; gap: 10px; }', mockDocument, undefined);
     });
 
     it('should scan JavaScript files correctly', async () => {
@@ -371,7 +381,7 @@ describe('WorkspaceAuditor', () => {
 
       await auditor.auditWorkspace();
 
-      expect(JsParser.parseJavaScript).toHaveBeenCalledWith('navigator.clipboard.writeText("test");', mockDocument);
+      expect(JsParser.parseJavaScript).toHaveBeenCalledWith('navigator.clipboard.writeText("test");', mockDocument, undefined);
     });
 
     it('should scan HTML files correctly', async () => {
@@ -406,7 +416,7 @@ describe('WorkspaceAuditor', () => {
 
       await auditor.auditWorkspace();
 
-      expect(HtmlParser.parseHtml).toHaveBeenCalledWith('<dialog><p>Hello</p></dialog>', mockDocument);
+      expect(HtmlParser.parseHtml).toHaveBeenCalledWith('<dialog><p>Hello</p></dialog>', mockDocument, undefined);
     });
 
     it('should handle file parsing errors gracefully', async () => {
@@ -558,4 +568,74 @@ describe('WorkspaceAuditor', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('report formats', () => {
+    beforeEach(async () => {
+      (vscode.workspace.findFiles as any).mockResolvedValue([{ fsPath: '/project/styles.css' }]);
+      const mockDocument = {
+        languageId: 'css',
+        getText: vi.fn().mockReturnValue('.card { container-type: size; }')
+      };
+      (vscode.workspace.openTextDocument as any).mockImplementation((options: any) =>
+        Promise.resolve(options.content !== undefined ? {} : mockDocument)
+      );
+      (vscode.workspace.asRelativePath as any).mockImplementation((uri: any) =>
+        typeof uri === 'string' ? uri : (uri.path || uri.fsPath).replace('/project/', '')
+      );
+
+      const { CssParser } = await import('../core/cssParser');
+      (CssParser.parseCss as any).mockReturnValue({
+        features: ['css.properties.container-type', 'css.properties.color'],
+        locations: new Map([
+          ['css.properties.container-type', [new vscode.Range(new vscode.Position(0, 8), new vscode.Position(0, 22))]]
+        ])
+      });
+
+      mockBaselineDataManager.isBaselineSupported.mockImplementation((id: string) => id === 'css.properties.color');
+      mockBaselineDataManager.getFeatureData.mockReturnValue({ name: 'Container queries', status: { baseline: 'low' } });
+
+      (vscode.window.withProgress as any).mockImplementation(async (options: any, callback: any) => {
+        return await callback(mockProgress, mockToken);
+      });
+    });
+
+    it('should open a JSON report when requested by the command argument', async () => {
+      await auditor.auditWorkspace({ format: 'json' });
+
+      const call = (vscode.workspace.openTextDocument as any).mock.calls.find(([options]: any[]) => options.content);
+      expect(call[0].language).toBe('json');
+
+      const report = JSON.parse(call[0].content);
+      expect(report.dataVersion).toBe('3.0.0');
+      expect(report.summary.byLanguage).toEqual({ CSS: 1, JavaScript: 0, HTML: 0 });
+      expect(report.files).toEqual([
+        { path: 'styles.css', languageType: 'CSS', score: 50, totalFeatures: 2, baselineFeatures: 1, issues: 1 }
+      ]);
+      expect(report.issues[0]).toMatchObject({ featureId: 'css.properties.container-type', lineNumber: 1, columnNumber: 9 });
+    });
+
+    it('should write a JUnit report to a workspace path', async () => {
+      await auditor.auditWorkspace({ format: 'junit', outputPath: 'reports/baseline.xml' });
+
+      expect(vscode.workspace.fs.createDirectory).toHaveBeenCalledWith({ path: '/project/reports/baseline.xml/..' });
+      const [uri, content] = (vscode.workspace.fs.writeFile as any).mock.calls[0];
+      expect(uri).toEqual({ path: '/project/reports/baseline.xml' });
+
+      const xml = Buffer.from(content).toString('utf8');
+      expect(xml).toContain('<testcase classname="CSS" name="styles.css"');
+      expect(xml).toContain('<failure type="css.properties.container-type"');
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'Baseline audit report written to reports/baseline.xml',
+        'Open Report'
+      );
+    });
+
+    it('should report unsupported formats', async () => {
+      await auditor.auditWorkspace({ format: 'pdf' as any });
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        'Failed to audit workspace: Unsupported report format "pdf"'
+      );
+    });
+  });
+});
@@ -4,18 +4,68 @@ import { CssParser } from '../core/cssParser';
 import { JsParser } from '../core/jsParser';
 import { HtmlParser } from '../core/htmlParser';
 import { PerformanceOptimizer } from '../core/performanceOptimizer';
+import { BaselineProjectConfig, ProjectConfigLoader } from '../core/projectConfig';
+import { ProjectConfigManager } from '../core/projectConfigManager';
+import {
+  AuditEngine,
+  CompatibilityIssue,
+  DEFAULT_EXCLUDE_PATTERNS,
+  DEFAULT_INCLUDE_PATTERNS,
+  FileAuditResult
+} from '../core/auditEngine';
+import {
+  renderStructuredReport,
+  STRUCTURED_REPORT_FORMATS,
+  STRUCTURED_REPORT_LANGUAGE_IDS,
+  StructuredReportFormat
+} from '../core/reportFormats';
+
+export type { CompatibilityIssue } from '../core/auditEngine';
 
 /**
- * Interface representing a compatibility issue found during workspace audit
+ * Formats the workspace audit report can be produced in
  */
-export interface CompatibilityIssue {
-  featureId: string;
-  featureName: string;
-  filePath: string;
-  lineNumber: number;
-  columnNumber: number;
-  languageType: 'CSS' | 'JavaScript' | 'HTML';
-  severity: 'error' | 'warning' | 'info';
+export type AuditReportFormat = 'markdown' | StructuredReportFormat;
+
+/**
+ * Options for a workspace audit run, passed as the `baseline.auditWorkspace` command argument
+ * Unset options fall back to the `baselineSidekick.audit.*` settings
+ */
+export interface AuditReportOptions {
+  format?: AuditReportFormat;
+  /** Workspace-relative or absolute path to write the report to; opened in an editor when empty */
+  outputPath?: string;
+}
+
+/**
+ * Discovers all CSS, JavaScript, HTML and component (Vue, Svelte, Astro) files in the workspace
+ * Excludes node_modules and other common ignore patterns
+ * @returns Array of file URIs to scan
+ */
+export async function discoverWorkspaceFiles(): Promise<vscode.Uri[]> {
+  const files: vscode.Uri[] = [];
+
+  // File patterns to include and exclude are shared with the CLI
+  const includePatterns = DEFAULT_INCLUDE_PATTERNS;
+  const excludePattern = `{${DEFAULT_EXCLUDE_PATTERNS.join(',')}}`;
+
+  // Use VS Code's workspace.findFiles to discover files
+  for (const pattern of includePatterns) {
+    try {
+      const foundFiles = await vscode.workspace.findFiles(pattern, excludePattern);
+      files.push(...foundFiles);
+    } catch (error) {
+      console.error(`Error finding files with pattern ${pattern}:`, error);
+      // Continue with other patterns
+    }
+  }
+
+  // Remove duplicates (in case a file matches multiple patterns)
+  const uniqueFiles = files.filter((file, index, array) => 
+    array.findIndex(f => f.fsPath === file.fsPath) === index
+  );
+
+  return uniqueFiles;
 }
 
 /**
@@ -25,18 +75,25 @@ export interface CompatibilityIssue {
 export class WorkspaceAuditor {
   private baselineDataManager: BaselineDataManager;
   private performanceOptimizer: PerformanceOptimizer;
+  private auditEngine: AuditEngine;
+  private projectConfigManager: ProjectConfigManager;
 
   constructor() {
     this.baselineDataManager = BaselineDataManager.getInstance();
     this.performanceOptimizer = PerformanceOptimizer.getInstance();
+    this.auditEngine = new AuditEngine(this.baselineDataManager);
+    this.projectConfigManager = ProjectConfigManager.getInstance();
   }
 
   /**
    * Main method to audit the entire workspace for Baseline compatibility issues
-   * Implements progress notification and generates a Markdown report
+   * Implements progress notification and generates a report in the configured format
+   * @param options Optional report format and output path overriding the settings
    */
-  public async auditWorkspace(): Promise<void> {
+  public async auditWorkspace(options?: AuditReportOptions): Promise<void> {
     try {
+      const reportOptions = this.getReportOptions(options);
+
       // Ensure baseline data is loaded
       if (!this.baselineDataManager.isInitialized()) {
         await this.baselineDataManager.initialize();
@@ -53,7 +110,7 @@ export class WorkspaceAuditor {
           // Discover all supported files in the workspace
           progress.report({ increment: 0, message: 'Discovering files...' });
           
-          const files = await this.discoverFiles();
+          const files = await discoverWorkspaceFiles();
           
           if (files.length === 0) {
             vscode.window.showInformationMessage('No CSS, JavaScript, or HTML files found in workspace.');
@@ -68,7 +125,7 @@ export class WorkspaceAuditor {
           progress.report({ increment: 20, message: `Found ${files.length} files. Scanning...` });
 
           // Scan each file and collect issues
-          const allIssues: CompatibilityIssue[] = [];
+          const fileResults: FileAuditResult[] = [];
           const progressIncrement = 70 / files.length; // Reserve 70% for scanning
 
           // Process files in batches to prevent memory issues
@@ -93,13 +150,15 @@ export class WorkspaceAuditor {
                 );
               } catch (error) {
                 console.error(`Error scanning file ${file.fsPath}:`, error);
-                return []; // Return empty array on error
+                return undefined; // Skip the file on error
               }
             });
 
             const batchResults = await Promise.all(batchPromises);
-            for (const issues of batchResults) {
-              allIssues.push(...issues);
+            for (const result of batchResults) {
+              if (result) {
+                fileResults.push(result);
+              }
             }
 
             // Yield control between batches
@@ -113,8 +172,8 @@ export class WorkspaceAuditor {
           progress.report({ increment: 10, message: 'Generating report...' });
 
           // Generate and display the report
-          const report = this.generateReport(allIssues, files.length);
-          await this.openReport(report);
+          const allIssues = fileResults.flatMap(result => result.issues);
+          await this.deliverReport(reportOptions, allIssues, fileResults, files.length);
 
           // Show completion message
           const issueCount = allIssues.length;
@@ -133,58 +192,19 @@ export class WorkspaceAuditor {
     }
   }
 
-  /**
-   * Discovers all CSS, JavaScript, and HTML files in the workspace
-   * Excludes node_modules and other common ignore patterns
-   * @returns Array of file URIs to scan
-   */
-  private async discoverFiles(): Promise<vscode.Uri[]> {
-    const files: vscode.Uri[] = [];
-
-    // Define file patterns to include
-    const includePatterns = [
-      '**/*.css',
-      '**/*.scss',
-      '**/*.sass',
-      '**/*.less',
-      '**/*.js',
-      '**/*.jsx',
-      '**/*.ts',
-      '**/*.tsx',
-      '**/*.html',
-      '**/*.htm',
-      '**/*.xml'
-    ];
-
-    // Define patterns to exclude (common ignore patterns)
-    const excludePattern = '{**/node_modules/**,**/dist/**,**/build/**,**/out/**,**/.git/**,**/coverage/**,**/*.min.js,**/*.min.css}';
-
-    // Use VS Code's workspace.findFiles to discover files
-    for (const pattern of includePatterns) {
-      try {
-        const foundFiles = await vscode.workspace.findFiles(pattern, excludePattern);
-        files.push(...foundFiles);
-      } catch (error) {
-        console.error(`Error finding files with pattern ${pattern}:`, error);
-        // Continue with other patterns
-      }
-    }
-
-    // Remove duplicates (in case a file matches multiple patterns)
-    const uniqueFiles = files.filter((file, index, array) => 
-      array.findIndex(f => f.fsPath === file.fsPath) === index
-    );
-
-    return uniqueFiles;
-  }
-
   /**
    * Scans a single file for Baseline compatibility issues
    * @param uri File URI to scan
-   * @returns Array of compatibility issues found in the file
+   * @returns Audit result for the file, or undefined if it was skipped
    */
-  private async scanFile(uri: vscode.Uri): Promise<CompatibilityIssue[]> {
-    const issues: CompatibilityIssue[] = [];
+  private async scanFile(uri: vscode.Uri): Promise<FileAuditResult | undefined> {
+    let result: FileAuditResult | undefined;
+
+    // Files matched by the project config's ignorePaths are left out of the audit
+    const config = this.projectConfigManager.getConfigForUri(uri);
+    if (ProjectConfigLoader.isIgnoredPath(config, uri.fsPath)) {
+      return undefined;
+    }
 
     try {
       // Read file content
@@ -193,7 +213,7 @@ export class WorkspaceAuditor {
       // Check if file should be processed based on size limits
       if (!this.performanceOptimizer.shouldProcessFile(document)) {
         console.warn(`Skipping ${uri.fsPath} due to size limits`);
-        return issues;
+        return undefined;
       }
 
       const content = document.getText();
@@ -209,11 +229,11 @@ export class WorkspaceAuditor {
         const languageId = document.languageId;
         
         if (this.isCssFile(languageId)) {
-          await this.scanCssFile(content, document, filePath, issues);
+          result = await this.scanCssFile(content, document, filePath, config);
         } else if (this.isJavaScriptFile(languageId)) {
-          await this.scanJavaScriptFile(content, document, filePath, issues);
+          result = await this.scanJavaScriptFile(content, document, filePath, config);
         } else if (this.isHtmlFile(languageId)) {
-          await this.scanHtmlFile(content, document, filePath, issues);
+          result = await this.scanHtmlFile(content, document, filePath, config);
         }
       } finally {
         // Release memory tracking
@@ -224,7 +244,7 @@ export class WorkspaceAuditor {
       // Don't throw, just log and continue
     }
 
-    return issues;
+    return result;
   }
 
   /**
@@ -234,37 +254,20 @@ export class WorkspaceAuditor {
     content: string,
     document: vscode.TextDocument,
     filePath: string,
-    issues: CompatibilityIssue[]
-  ): Promise<void> {
+    config?: BaselineProjectConfig
+  ): Promise<FileAuditResult | undefined> {
     try {
       // Use memoized parser for better performance
       const memoizedParser = this.performanceOptimizer.memoize(
-        (content: string, document: vscode.TextDocument) => CssParser.parseCss(content, document),
+        (content: string, document: vscode.TextDocument) => CssParser.parseCss(content, document, ProjectConfigLoader.getParseOptions(config)),
         (content: string, document: vscode.TextDocument) => `audit-css-${document.uri.fsPath}-${this.hashContent(content)}`
       );
       
       const parseResult = memoizedParser(content, document);
-      
-      for (const featureId of parseResult.features) {
-        if (!this.baselineDataManager.isBaselineSupported(featureId)) {
-          const featureData = this.baselineDataManager.getFeatureData(featureId);
-          const locations = parseResult.locations.get(featureId) || [];
-          
-          for (const range of locations) {
-            issues.push({
-              featureId,
-              featureName: featureData?.name || featureId,
-              filePath,
-              lineNumber: range.start.line + 1, // Convert to 1-based
-              columnNumber: range.start.character + 1, // Convert to 1-based
-              languageType: 'CSS',
-              severity: 'warning'
-            });
-          }
-        }
-      }
+      return this.auditEngine.auditParseResult(parseResult, 'CSS', filePath, config);
     } catch (error) {
       console.error(`Error parsing CSS file ${filePath}:`, error);
+      return undefined;
     }
   }
 
@@ -275,37 +278,24 @@ export class WorkspaceAuditor {
     content: string,
     document: vscode.TextDocument,
     filePath: string,
-    issues: CompatibilityIssue[]
-  ): Promise<void> {
+    config?: BaselineProjectConfig
+  ): Promise<FileAuditResult | undefined> {
     try {
       // Use memoized parser for better performance
       const memoizedParser = this.performanceOptimizer.memoize(
-        (content: string, document: vscode.TextDocument) => JsParser.parseJavaScript(content, document),
+        (content: string, document: vscode.TextDocument) => JsParser.parseJavaScript(
+          content,
+          document,
+          ProjectConfigLoader.getParseOptions(config, config && { filePath: document.uri.fsPath, content })
+        ),
         (content: string, document: vscode.TextDocument) => `audit-js-${document.uri.fsPath}-${this.hashContent(content)}`
       );
       
       const parseResult = memoizedParser(content, document);
-      
-      for (const featureId of parseResult.features) {
-        if (!this.baselineDataManager.isBaselineSupported(featureId)) {
-          const featureData = this.baselineDataManager.getFeatureData(featureId);
-          const locations = parseResult.locations.get(featureId) || [];
-          
-          for (const range of locations) {
-            issues.push({
-              featureId,
-              featureName: featureData?.name || featureId,
-              filePath,
-              lineNumber: range.start.line + 1, // Convert to 1-based
-              columnNumber: range.start.character + 1, // Convert to 1-based
-              languageType: 'JavaScript',
-              severity: 'warning'
-            });
-          }
-        }
-      }
+      return this.auditEngine.auditParseResult(parseResult, 'JavaScript', filePath, config);
     } catch (error) {
       console.error(`Error parsing JavaScript file ${filePath}:`, error);
+      return undefined;
     }
   }
 
@@ -316,37 +306,20 @@ export class WorkspaceAuditor {
     content: string,
     document: vscode.TextDocument,
     filePath: string,
-    issues: CompatibilityIssue[]
-  ): Promise<void> {
+    config?: BaselineProjectConfig
+  ): Promise<FileAuditResult | undefined> {
     try {
       // Use memoized parser for better performance
       const memoizedParser = this.performanceOptimizer.memoize(
-        (content: string, document: vscode.TextDocument) => HtmlParser.parseHtml(content, document),
+        (content: string, document: vscode.TextDocument) => HtmlParser.parseHtml(content, document, ProjectConfigLoader.getParseOptions(config)),
         (content: string, document: vscode.TextDocument) => `audit-html-${document.uri.fsPath}-${this.hashContent(content)}`
       );
       
       const parseResult = memoizedParser(content, document);
-      
-      for (const featureId of parseResult.features) {
-        if (!this.baselineDataManager.isBaselineSupported(featureId)) {
-          const featureData = this.baselineDataManager.getFeatureData(featureId);
-          const locations = parseResult.locations.get(featureId) || [];
-          
-          for (const range of locations) {
-            issues.push({
-              featureId,
-              featureName: featureData?.name || featureId,
-              filePath,
-              lineNumber: range.start.line + 1, // Convert to 1-based
-              columnNumber: range.start.character + 1, // Convert to 1-based
-              languageType: 'HTML',
-              severity: 'warning'
-            });
-          }
-        }
-      }
+      return this.auditEngine.auditParseResult(parseResult, 'HTML', filePath, config);
     } catch (error) {
       console.error(`Error parsing HTML file ${filePath}:`, error);
+      return undefined;
     }
   }
 
@@ -455,16 +428,102 @@ export class WorkspaceAuditor {
     return report;
   }
 
+  /**
+   * Resolves report options from the command argument and the `baselineSidekick.audit.*` settings
+   * @param options Options passed to the command
+   * @returns Report format and output path
+   */
+  private getReportOptions(options?: AuditReportOptions): Required<AuditReportOptions> {
+    // Test doubles of the vscode module may leave out getConfiguration
+    const config = typeof vscode.workspace?.getConfiguration === 'function'
+      ? vscode.workspace.getConfiguration('baselineSidekick.audit')
+      : { get: <T>(_key: string, def: T) => def };
+
+    const format = options?.format ?? config.get<string>('reportFormat', 'markdown');
+    if (format !== 'markdown' && !STRUCTURED_REPORT_FORMATS.includes(format as StructuredReportFormat)) {
+      throw new Error(`Unsupported report format "${format}"`);
+    }
+
+    return {
+      format: format as AuditReportFormat,
+      outputPath: (options?.outputPath ?? config.get<string>('reportPath', '')).trim()
+    };
+  }
+
+  /**
+   * Renders the report in the requested format and writes it to disk or opens it in an editor
+   * @param options Resolved report options
+   * @param issues All compatibility issues found
+   * @param fileResults Per-file audit results
+   * @param totalFiles Total number of files discovered
+   */
+  private async deliverReport(
+    options: Required<AuditReportOptions>,
+    issues: CompatibilityIssue[],
+    fileResults: FileAuditResult[],
+    totalFiles: number
+  ): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const content = options.format === 'markdown'
+      ? this.generateReport(issues, totalFiles)
+      : renderStructuredReport(options.format, fileResults, this.baselineDataManager, workspaceFolder?.uri.toString());
+    const languageId = options.format === 'markdown' ? 'markdown' : STRUCTURED_REPORT_LANGUAGE_IDS[options.format];
+
+    if (options.outputPath) {
+      await this.saveReport(content, options.outputPath, workspaceFolder);
+    } else {
+      await this.openReport(content, languageId);
+    }
+  }
+
+  /**
+   * Writes the report to a file in the workspace
+   * @param reportContent Rendered report
+   * @param outputPath Workspace-relative or absolute path
+   * @param workspaceFolder Workspace folder relative paths are resolved against
+   */
+  private async saveReport(
+    reportContent: string,
+    outputPath: string,
+    workspaceFolder: vscode.WorkspaceFolder | undefined
+  ): Promise<void> {
+    try {
+      const isAbsolute = /^([a-zA-Z]:)?[\\/]/.test(outputPath);
+      if (!isAbsolute && !workspaceFolder) {
+        throw new Error('A workspace folder is required for relative report paths');
+      }
+
+      const uri = isAbsolute
+        ? vscode.Uri.file(outputPath)
+        : vscode.Uri.joinPath(workspaceFolder!.uri, ...outputPath.split(/[\\/]/));
+
+      await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(reportContent, 'utf8'));
+
+      const choice = await vscode.window.showInformationMessage(
+        `Baseline audit report written to ${vscode.workspace.asRelativePath(uri)}`,
+        'Open Report'
+      );
+      if (choice === 'Open Report') {
+        await vscode.window.showTextDocument(uri, { preview: false });
+      }
+    } catch (error) {
+      console.error('Error writing report:', error);
+      vscode.window.showErrorMessage(`Failed to write audit report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Opens the generated report in a new VS Code editor tab
-   * @param reportContent Markdown content of the report
+   * @param reportContent Rendered report
+   * @param language Language ID of the report document
    */
-  private async openReport(reportContent: string): Promise<void> {
+  private async openReport(reportContent: string, language: string = 'markdown'): Promise<void> {
     try {
       // Create a new untitled document with the report content
       const document = await vscode.workspace.openTextDocument({
         content: reportContent,
-        language: 'markdown'
+        language
       });
 
       // Show the document in a new editor tab
@@ -482,21 +541,21 @@ export class WorkspaceAuditor {
    * Helper method to check if a language ID represents a CSS file
    */
   private isCssFile(languageId: string): boolean {
-    return ['css', 'scss', 'sass', 'less'].includes(languageId);
+    return AuditEngine.getLanguageTypeForLanguageId(languageId) === 'CSS';
   }
 
   /**
    * Helper method to check if a language ID represents a JavaScript file
    */
   private isJavaScriptFile(languageId: string): boolean {
-    return ['javascript', 'typescript', 'javascriptreact', 'typescriptreact'].includes(languageId);
+    return AuditEngine.getLanguageTypeForLanguageId(languageId) === 'JavaScript';
   }
 
   /**
    * Helper method to check if a language ID represents an HTML file
    */
   private isHtmlFile(languageId: string): boolean {
-    return ['html', 'xml'].includes(languageId);
+    return AuditEngine.getLanguageTypeForLanguageId(languageId) === 'HTML';
   }
 
   /**
@@ -520,8 +579,8 @@ export class WorkspaceAuditor {
 export function registerAuditCommand(context: vscode.ExtensionContext): void {
   const auditor = new WorkspaceAuditor();
   
-  const command = vscode.commands.registerCommand('baseline.auditWorkspace', async () => {
-    await auditor.auditWorkspace();
+  const command = vscode.commands.registerCommand('baseline.auditWorkspace', async (options?: AuditReportOptions) => {
+    await auditor.auditWorkspace(options);
   });
 
   context.subscriptions.push(command);
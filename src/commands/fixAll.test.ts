@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { formatFixSummary } from './fixAll';
+
+describe('formatFixSummary', () => {
+  it('should list files with fixes, most first, followed by the total', () => {
+    expect(formatFixSummary([
+      { filePath: 'src/a.css', fixes: 1 },
+      { filePath: 'src/b.js', fixes: 3 },
+      { filePath: 'src/c.js', fixes: 0 }
+    ])).toEqual([
+      'src/b.js: 3 fixes',
+      'src/a.css: 1 fix',
+      'Total: 4 fixes in 2 files'
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import { BaselineDataManager } from '../core/baselineData';
+import { Logger } from '../core/errorHandler';
+import { PerformanceOptimizer } from '../core/performanceOptimizer';
+import { DocumentFixes, FixAllBuilder } from '../fixes/fixAll';
+import type { FeatureFix } from '../fixes/fixRegistry';
+import { discoverWorkspaceFiles } from './audit';
+
+/**
+ * Number of fixes found in one file
+ */
+export interface FileFixCount {
+  filePath: string;
+  fixes: number;
+}
+
+/**
+ * Formats the per-file fix counts of a workspace fix run
+ * @param counts Fix counts by file
+ * @returns One line per file with fixes, most fixes first, followed by the total
+ */
+export function formatFixSummary(counts: FileFixCount[]): string[] {
+  const fixedFiles = counts.filter(count => count.fixes > 0).sort((a, b) => b.fixes - a.fixes);
+  const total = fixedFiles.reduce((sum, count) => sum + count.fixes, 0);
+  return [
+    ...fixedFiles.map(count => `${count.filePath}: ${count.fixes} fix${count.fixes === 1 ? '' : 'es'}`),
+    `Total: ${total} fix${total === 1 ? '' : 'es'} in ${fixedFiles.length} file${fixedFiles.length === 1 ? '' : 's'}`
+  ];
+}
+
+/**
+ * WorkspaceFixer applies automated Baseline fixes or vendor-prefix cleanups across the workspace as one edit
+ * The edit opens in the refactor preview, so each change can be reviewed before it is applied
+ */
+export class WorkspaceFixer {
+  private baselineDataManager: BaselineDataManager;
+  private performanceOptimizer: PerformanceOptimizer;
+  private fixAllBuilder: FixAllBuilder;
+  private logger: Logger;
+
+  constructor() {
+    this.baselineDataManager = BaselineDataManager.getInstance();
+    this.performanceOptimizer = PerformanceOptimizer.getInstance();
+    this.fixAllBuilder = FixAllBuilder.getInstance();
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Gathers the fixes of every supported file, previews them as one edit and reports per-file counts
+   */
+  public async fixWorkspace(): Promise<void> {
+    await this.applyToWorkspace(
+      'Collecting Baseline fixes',
+      document => this.fixAllBuilder.getDocumentFixes(document),
+      'No automated Baseline fixes found in the workspace.'
+    );
+  }
+
+  /**
+   * Cleans up the vendor prefixes of every stylesheet, previews the changes as one edit and reports per-file counts
+   */
+  public async cleanUpVendorPrefixes(): Promise<void> {
+    await this.applyToWorkspace(
+      'Collecting vendor prefix cleanups',
+      document => this.fixAllBuilder.getPrefixCleanups(document),
+      'No vendor-prefixed declarations to clean up in the workspace.'
+    );
+  }
+
+  /**
+   * Collects fixes from every supported file and applies them as one edit through the refactor preview
+   * @param title Progress notification title
+   * @param getFixes Computes the fixes for one document
+   * @param emptyMessage Message shown when no file has fixes
+   */
+  private async applyToWorkspace(
+    title: string,
+    getFixes: (document: vscode.TextDocument) => Array<Omit<FeatureFix, 'featureId'>>,
+    emptyMessage: string
+  ): Promise<void> {
+    try {
+      if (!this.baselineDataManager.isInitialized()) {
+        await this.baselineDataManager.initialize();
+      }
+
+      const documentFixes = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title,
+          cancellable: true
+        },
+        async (progress, token) => {
+          progress.report({ increment: 0, message: 'Discovering files...' });
+          const files = await discoverWorkspaceFiles();
+          const collected: DocumentFixes[] = [];
+
+          for (const file of files) {
+            if (token.isCancellationRequested) {
+              return undefined;
+            }
+            progress.report({ increment: 100 / files.length, message: file.fsPath.split(/[/\\]/).pop() });
+
+            const fixes = await this.collectFixes(file, getFixes);
+            if (fixes) {
+              collected.push(fixes);
+            }
+          }
+          return collected;
+        }
+      );
+
+      if (!documentFixes) {
+        return;
+      }
+      if (documentFixes.length === 0) {
+        vscode.window.showInformationMessage(emptyMessage);
+        return;
+      }
+
+      const summary = formatFixSummary(documentFixes.map(({ document, fixes }) => ({
+        filePath: vscode.workspace.asRelativePath(document.uri),
+        fixes: fixes.length
+      })));
+      this.logger.info(`${title}, by file:\n${summary.join('\n')}`);
+
+      const applied = await vscode.workspace.applyEdit(
+        this.fixAllBuilder.createWorkspaceEdit(documentFixes),
+        { isRefactoring: true }
+      );
+      if (!applied) {
+        return;
+      }
+
+      const choice = await vscode.window.showInformationMessage(
+        `🔧 ${summary[summary.length - 1]}.`,
+        'Show Details'
+      );
+      if (choice === 'Show Details') {
+        this.logger.show();
+      }
+    } catch (error) {
+      console.error('Error fixing workspace:', error);
+      vscode.window.showErrorMessage(`Failed to fix workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Computes the fixes for a single file
+   * @param uri File URI
+   * @param getFixes Computes the fixes for the opened document
+   * @returns Fixes for the file, or undefined if it has none or was skipped
+   */
+  private async collectFixes(
+    uri: vscode.Uri,
+    getFixes: (document: vscode.TextDocument) => Array<Omit<FeatureFix, 'featureId'>>
+  ): Promise<DocumentFixes | undefined> {
+    try {
+      const document = await vscode.workspace.openTextDocument(uri);
+      if (!this.performanceOptimizer.shouldProcessFile(document)) {
+        return undefined;
+      }
+
+      const fixes = getFixes(document);
+      return fixes.length > 0 ? { document, fixes } : undefined;
+    } catch (error) {
+      console.error(`Error collecting fixes for ${uri.fsPath}:`, error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Registers the workspace fix and vendor-prefix cleanup commands with VS Code
+ * @param context VS Code extension context
+ */
+export function registerFixCommands(context: vscode.ExtensionContext): void {
+  const fixer = new WorkspaceFixer();
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('baseline.fixAllInWorkspace', async () => {
+      await fixer.fixWorkspace();
+    }),
+    vscode.commands.registerCommand('baseline.cleanUpVendorPrefixes', async () => {
+      await fixer.cleanUpVendorPrefixes();
+    })
+  );
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { addDependency, getEntryCandidates, getImportInsertion, isCommonJsModule } from './polyfill';
+
+describe('getEntryCandidates', () => {
+  it('should prefer package.json fields that point at sources, then conventional entry files', () => {
+    const candidates = getEntryCandidates({ main: 'dist/index.js', module: './src/app.ts', browser: { './a': false } });
+
+    expect(candidates[0]).toBe('src/app.ts');
+    expect(candidates).not.toContain('dist/index.js');
+    expect(candidates.slice(1, 3)).toEqual(['src/main.ts', 'src/main.tsx']);
+    expect(getEntryCandidates()).toContain('index.js');
+  });
+});
+
+describe('getImportInsertion', () => {
+  const imports = ["import 'core-js/actual/array/at';"];
+
+  it('should insert before the first import, after directives and comments', () => {
+    const content = "#!/usr/bin/env node\n'use strict';\n// App entry\nimport { app } from './app';\napp();\n";
+
+    expect(getImportInsertion(content, imports)).toEqual({
+      start: content.indexOf('import {'),
+      end: content.indexOf('import {'),
+      newText: "import 'core-js/actual/array/at';\n"
+    });
+  });
+
+  it('should append after the directives of a file without statements', () => {
+    expect(getImportInsertion("'use strict';", imports)).toEqual({
+      start: 13,
+      end: 13,
+      newText: "\nimport 'core-js/actual/array/at';"
+    });
+  });
+
+  it('should only add statements the file does not have yet', () => {
+    const content = "import 'core-js/actual/array/at';\n";
+
+    expect(getImportInsertion(content, imports)).toBeNull();
+    expect(getImportInsertion(content, [...imports, "import 'core-js/actual/array/with';"])?.newText)
+      .toBe("import 'core-js/actual/array/with';\n");
+  });
+
+  it('should write require() calls into CommonJS entry files', () => {
+    const content = "'use strict';\nconst app = require('./app');\n";
+    const statements = [
+      "import 'core-js/actual/array/at';",
+      "import smoothscroll from 'smoothscroll-polyfill';",
+      "import { ResizeObserver as ResizeObserverPolyfill } from '@juggle/resize-observer';",
+      'smoothscroll.polyfill();'
+    ];
+
+    expect(getImportInsertion(content, statements, true)).toEqual({
+      start: 14,
+      end: 14,
+      newText: [
+        "require('core-js/actual/array/at');",
+        "const smoothscroll = require('smoothscroll-polyfill').default || require('smoothscroll-polyfill');",
+        "const { ResizeObserver: ResizeObserverPolyfill } = require('@juggle/resize-observer');",
+        'smoothscroll.polyfill();',
+        ''
+      ].join('\n')
+    });
+    expect(getImportInsertion("require('core-js/actual/array/at');\n", imports, true)).toBeNull();
+  });
+});
+
+describe('isCommonJsModule', () => {
+  it('should go by the extension, then the syntax of the file, then the package type', () => {
+    expect(isCommonJsModule("import './app';", 'index.cjs')).toBe(true);
+    expect(isCommonJsModule("require('./app');", 'index.mjs')).toBe(false);
+    expect(isCommonJsModule("const app = require('./app');\nmodule.exports = app;", 'index.js', 'module')).toBe(true);
+    expect(isCommonJsModule("import { app } from './app';\nrequire('./legacy');", 'index.js', 'commonjs')).toBe(false);
+    expect(isCommonJsModule('app();', 'index.js', 'commonjs')).toBe(true);
+    expect(isCommonJsModule('app();', 'src/main.ts')).toBe(false);
+  });
+});
+
+describe('addDependency', () => {
+  it('should add the package in order and leave the rest of the file as it is', () => {
+    const packageJson = '{\n    "name": "app",\n    "dependencies": {\n        "axios": "^1.0.0",\n        "react": "^18.0.0"\n    },\n' +
+      '    "scripts": { "build": "vite build" }\n}\n';
+
+    expect(addDependency(packageJson, 'core-js', '^3.38.0')).toBe(
+      '{\n    "name": "app",\n    "dependencies": {\n        "axios": "^1.0.0",\n        "core-js": "^3.38.0",\n        "react": "^18.0.0"\n    },\n' +
+      '    "scripts": { "build": "vite build" }\n}\n'
+    );
+    expect(addDependency('{\n  "dependencies": {\n    "react": "^18.0.0",\n    "axios": "^1.0.0"\n  }\n}', 'zod', '^3.0.0')).toBe(
+      '{\n  "dependencies": {\n    "react": "^18.0.0",\n    "axios": "^1.0.0",\n    "zod": "^3.0.0"\n  }\n}'
+    );
+  });
+
+  it('should create the dependencies in the layout of the file', () => {
+    expect(addDependency('{\n\t"name": "app",\n\t"devDependencies": {\n\t\t"vite": "^5.0.0"\n\t}\n}\n', 'whatwg-fetch', '^3.6.20')).toBe(
+      '{\n\t"name": "app",\n\t"dependencies": {\n\t\t"whatwg-fetch": "^3.6.20"\n\t},\n\t"devDependencies": {\n\t\t"vite": "^5.0.0"\n\t}\n}\n'
+    );
+    expect(addDependency('{\r\n  "name": "app",\r\n  "dependencies": {}\r\n}\r\n', 'core-js', '^3.38.0')).toBe(
+      '{\r\n  "name": "app",\r\n  "dependencies": {\r\n    "core-js": "^3.38.0"\r\n  }\r\n}\r\n'
+    );
+    expect(addDependency('{"name":"app"}', 'whatwg-fetch', '^3.6.20')).toBe('{"name":"app","dependencies":{"whatwg-fetch":"^3.6.20"}}');
+  });
+
+  it('should leave packages that are already listed', () => {
+    expect(addDependency('{"devDependencies":{"core-js":"^3.0.0"}}', 'core-js', '^3.38.0')).toBeNull();
+  });
+});
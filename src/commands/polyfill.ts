@@ -0,0 +1,482 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ErrorHandler, Logger } from '../core/errorHandler';
+import { JsParser } from '../core/jsParser';
+import { POLYFILL_CATALOG, PolyfillCatalog } from '../fixes/polyfillCatalog';
+import type { TextReplacement } from '../fixes/fixRegistry';
+
+/**
+ * Conventional entry files of bundler and framework templates, relative to the package root
+ */
+const CONVENTIONAL_ENTRY_FILES = [
+  'src/main.ts', 'src/main.tsx', 'src/main.js', 'src/main.jsx',
+  'src/index.ts', 'src/index.tsx', 'src/index.js', 'src/index.jsx',
+  'main.js', 'index.js'
+];
+
+/**
+ * Lists the files that may be the entry of a package, most likely first
+ * `source`, `browser`, `module` and `main` are used when they point at script sources rather than build output
+ * @param packageJson Parsed package.json, if the package has one
+ * @returns Paths relative to the package root
+ */
+export function getEntryCandidates(packageJson?: Record<string, unknown>): string[] {
+  const fields = ['source', 'browser', 'module', 'main']
+    .map(field => packageJson?.[field])
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => path.posix.normalize(value.replace(/\\/g, '/')))
+    .filter(value => /\.(?:[cm]?[jt]sx?)$/.test(value) && !/^(?:dist|build|lib|out)\//.test(value));
+
+  return [...new Set([...fields, ...CONVENTIONAL_ENTRY_FILES])];
+}
+
+/**
+ * Position of one `"key": value` member of a JSON object
+ */
+interface JsonMember {
+  key: string;
+  keyStart: number;
+  keyEnd: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+/**
+ * Checks whether an entry file is a CommonJS module, which cannot load polyfills with `import`
+ * The extension decides first, then the syntax of the file, then the `type` field of package.json
+ * @param content Entry file content
+ * @param fileName Entry file path
+ * @param packageType `type` field of package.json, if any
+ * @returns true if the file loads its dependencies with `require()`
+ */
+export function isCommonJsModule(content: string, fileName: string, packageType?: unknown): boolean {
+  if (/\.c[jt]s$/.test(fileName)) {
+    return true;
+  }
+  if (/\.m[jt]s$/.test(fileName)) {
+    return false;
+  }
+
+  try {
+    const { program } = JsParser.parseAst(content);
+    if (program.body.some(statement => /^(?:Import|Export\w+)Declaration$/.test(statement.type))) {
+      return false;
+    }
+  } catch {
+    // Unparseable entry files are judged by their text alone
+  }
+  return /\brequire\s*\(|\bmodule\.exports\b|\bexports\.\w+\s*=/.test(content) || packageType === 'commonjs';
+}
+
+/**
+ * Rewrites a catalog `import` statement to its `require()` equivalent; other statements are kept as they are
+ * Default imports fall back to the module itself for packages that do not set `exports.default`
+ * @param statement Catalog statement, e.g. `import { A as B } from 'x';`
+ * @returns CommonJS statement
+ */
+function toRequireStatement(statement: string): string {
+  const sideEffect = statement.match(/^import\s+(['"][^'"]+['"]);$/);
+  if (sideEffect) {
+    return `require(${sideEffect[1]});`;
+  }
+  const defaultImport = statement.match(/^import\s+([\w$]+)\s+from\s+(['"][^'"]+['"]);$/);
+  if (defaultImport) {
+    return `const ${defaultImport[1]} = require(${defaultImport[2]}).default || require(${defaultImport[2]});`;
+  }
+  const namedImport = statement.match(/^import\s+\{([^}]*)\}\s+from\s+(['"][^'"]+['"]);$/);
+  if (namedImport) {
+    const bindings = namedImport[1].split(',').map(binding => binding.trim().replace(/\s+as\s+/, ': ')).filter(Boolean);
+    return `const { ${bindings.join(', ')} } = require(${namedImport[2]});`;
+  }
+  return statement;
+}
+
+/**
+ * Computes where polyfill statements go in an entry file: before its first import, so they load first
+ * @param content Entry file content
+ * @param imports Statements to add
+ * @param commonJs Whether the entry file is a CommonJS module, so imports are written as `require()` calls
+ * @returns Insertion of the statements the file does not have yet, or null if it has them all
+ */
+export function getImportInsertion(content: string, imports: string[], commonJs = false): TextReplacement | null {
+  const missing = imports
+    .map(statement => commonJs ? toRequireStatement(statement) : statement)
+    .filter(statement => !content.includes(statement));
+  if (missing.length === 0) {
+    return null;
+  }
+
+  // After a shebang, and after directives such as 'use strict'
+  let offset = content.startsWith('#!') ? content.indexOf('\n') + 1 || content.length : 0;
+  try {
+    const { program } = JsParser.parseAst(content);
+    const first = program.body.find(statement => statement.type === 'ImportDeclaration') ?? program.body[0];
+    const lastDirective = program.directives[program.directives.length - 1];
+    if (first?.start != null) {
+      offset = first.start;
+    } else if (lastDirective?.end != null) {
+      return { start: lastDirective.end, end: lastDirective.end, newText: `\n${missing.join('\n')}` };
+    }
+  } catch {
+    // Unparseable entry files get the statements at the top
+  }
+
+  return { start: offset, end: offset, newText: `${missing.join('\n')}\n` };
+}
+
+/**
+ * Adds a dependency to package.json text, editing only the dependencies block so the rest of the file keeps
+ * its formatting and key order. The package goes before the first dependency that sorts after it, as npm sorts them,
+ * and a missing block is added before `devDependencies` or at the end
+ * @param packageJsonText package.json content
+ * @param packageName Package to add
+ * @param version Version range
+ * @returns Updated content, or null if the package is already a dependency of any kind
+ */
+export function addDependency(packageJsonText: string, packageName: string, version: string): string | null {
+  const packageJson = JSON.parse(packageJsonText) as Record<string, Record<string, string> | undefined>;
+  const dependencyFields = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+  if (dependencyFields.some(field => packageJson[field]?.[packageName] !== undefined)) {
+    return null;
+  }
+
+  const newline = packageJsonText.includes('\r\n') ? '\r\n' : '\n';
+  const indent = packageJsonText.match(/^[ \t]+(?=")/m)?.[0] ?? '  ';
+  const rootStart = packageJsonText.indexOf('{');
+  const root = readJsonObject(packageJsonText, rootStart);
+  const firstMember = root.members[0];
+  const colon = firstMember ? packageJsonText.slice(firstMember.keyEnd, firstMember.valueStart) : ': ';
+  const multiline = packageJsonText.trim().includes('\n');
+  const entry = `${JSON.stringify(packageName)}${colon}${JSON.stringify(version)}`;
+
+  const dependencies = root.members.find(member => member.key === 'dependencies');
+  if (dependencies && packageJsonText[dependencies.valueStart] === '{') {
+    const block = readJsonObject(packageJsonText, dependencies.valueStart);
+    const index = block.members.findIndex(member => member.key.localeCompare(packageName) > 0);
+    const layout = { multiline, indent, newline, ownIndent: getLineIndentation(packageJsonText, dependencies.keyStart) };
+    return insertJsonMember(packageJsonText, dependencies.valueStart, block, index === -1 ? block.members.length : index, entry, layout);
+  }
+
+  const rootIndent = firstMember ? getLineIndentation(packageJsonText, firstMember.keyStart) : indent;
+  const blockText = multiline
+    ? `{${newline}${rootIndent}${indent}${entry}${newline}${rootIndent}}`
+    : `{${entry}}`;
+  if (dependencies) {
+    // "dependencies": null
+    return packageJsonText.slice(0, dependencies.valueStart) + blockText + packageJsonText.slice(dependencies.valueEnd);
+  }
+
+  const devDependencies = root.members.findIndex(member => member.key === 'devDependencies');
+  const layout = { multiline, indent, newline, ownIndent: '' };
+  return insertJsonMember(
+    packageJsonText,
+    rootStart,
+    root,
+    devDependencies === -1 ? root.members.length : devDependencies,
+    `"dependencies"${colon}${blockText}`,
+    layout
+  );
+}
+
+/**
+ * Inserts a member into a JSON object, laid out like the members around it
+ * @param text JSON text
+ * @param open Offset of the opening brace of the object
+ * @param object Members and closing brace offset of the object
+ * @param index Position of the new member among the existing ones
+ * @param member Member text, e.g. `"core-js": "^3.38.0"`
+ * @param layout Whether the file puts members on their own lines, its indentation unit and line break, and the indentation of the object's line
+ * @returns Updated text
+ */
+function insertJsonMember(
+  text: string,
+  open: number,
+  object: { members: JsonMember[]; close: number },
+  index: number,
+  member: string,
+  layout: { multiline: boolean; indent: string; newline: string; ownIndent: string }
+): string {
+  const { members, close } = object;
+  const memberIndent = members[0] ? getLineIndentation(text, members[0].keyStart) : layout.ownIndent + layout.indent;
+  const separator = layout.multiline ? `${layout.newline}${memberIndent}` : members.length > 1
+    ? text.slice(members[0].valueEnd, members[1].keyStart).replace(',', '')
+    : '';
+
+  if (members.length === 0) {
+    const body = layout.multiline ? `${layout.newline}${memberIndent}${member}${layout.newline}${layout.ownIndent}` : member;
+    return text.slice(0, open + 1) + body + text.slice(close);
+  }
+  if (index < members.length) {
+    const at = members[index].keyStart;
+    return `${text.slice(0, at)}${member},${separator}${text.slice(at)}`;
+  }
+  const at = members[members.length - 1].valueEnd;
+  return `${text.slice(0, at)},${separator}${member}${text.slice(at)}`;
+}
+
+/**
+ * Reads the members of a JSON object from valid JSON text
+ * @param text JSON text
+ * @param open Offset of the opening brace
+ * @returns Members in source order and the offset of the closing brace
+ */
+function readJsonObject(text: string, open: number): { members: JsonMember[]; close: number } {
+  const members: JsonMember[] = [];
+  let offset = skipWhitespace(text, open + 1);
+  while (offset < text.length && text[offset] !== '}') {
+    const keyStart = offset;
+    const keyEnd = skipJsonValue(text, keyStart);
+    const valueStart = skipWhitespace(text, skipWhitespace(text, keyEnd) + 1);
+    const valueEnd = skipJsonValue(text, valueStart);
+    members.push({ key: JSON.parse(text.slice(keyStart, keyEnd)) as string, keyStart, keyEnd, valueStart, valueEnd });
+
+    offset = skipWhitespace(text, valueEnd);
+    if (text[offset] === ',') {
+      offset = skipWhitespace(text, offset + 1);
+    }
+  }
+  return { members, close: offset };
+}
+
+/**
+ * Finds the end of the JSON value at an offset
+ * @param text JSON text
+ * @param start Offset of the start of the value
+ * @returns Offset just after the value
+ */
+function skipJsonValue(text: string, start: number): number {
+  let depth = 0;
+  for (let offset = start; offset < text.length; offset++) {
+    const char = text[offset];
+    if (depth === 0 && /[\s,\]}]/.test(char)) {
+      return offset;
+    }
+    if (char === '"') {
+      offset++;
+      while (offset < text.length && text[offset] !== '"') {
+        offset += text[offset] === '\\' ? 2 : 1;
+      }
+      if (depth === 0) {
+        return offset + 1;
+      }
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if ((char === '}' || char === ']') && --depth === 0) {
+      return offset + 1;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Skips whitespace
+ * @param text Text to scan
+ * @param offset Offset to start at
+ * @returns Offset of the next non-whitespace character
+ */
+function skipWhitespace(text: string, offset: number): number {
+  while (offset < text.length && /\s/.test(text[offset])) {
+    offset++;
+  }
+  return offset;
+}
+
+/**
+ * Gets the whitespace the line of an offset starts with
+ * @param text Text
+ * @param offset Offset on the line
+ * @returns Leading whitespace of the line
+ */
+function getLineIndentation(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return text.slice(lineStart, offset).match(/^[ \t]*/)![0];
+}
+
+/**
+ * PolyfillInstaller adds a polyfill from the bundled catalog to a project:
+ * the import goes into the entry file and the package into package.json.
+ * Everything is local, so it works without network access or an API key
+ */
+export class PolyfillInstaller {
+  private logger: Logger;
+  private errorHandler: ErrorHandler;
+
+  constructor() {
+    this.logger = Logger.getInstance();
+    this.errorHandler = ErrorHandler.getInstance();
+  }
+
+  /**
+   * Adds the catalog polyfill for a feature to the package containing a document
+   * Run from the command palette, it asks for the feature and uses the active editor
+   * @param featureKey web-features ID or BCD compat key
+   * @param documentUri Document the feature was reported in
+   */
+  public async addPolyfill(featureKey?: string, documentUri?: vscode.Uri): Promise<void> {
+    try {
+      documentUri ??= vscode.window.activeTextEditor?.document.uri;
+      if (!documentUri) {
+        vscode.window.showWarningMessage('Open a file of the project to add a polyfill to.');
+        return;
+      }
+
+      featureKey ??= await this.pickFeature();
+      if (!featureKey) {
+        return;
+      }
+
+      const polyfill = PolyfillCatalog.get(featureKey);
+      if (!polyfill) {
+        vscode.window.showInformationMessage(`No bundled polyfill is known for ${featureKey}.`);
+        return;
+      }
+
+      const packageRoot = await this.findPackageRoot(documentUri);
+      const packageJsonDocument = packageRoot !== undefined
+        ? await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(packageRoot, 'package.json')))
+        : undefined;
+
+      let packageJson: Record<string, unknown> | undefined;
+      try {
+        packageJson = packageJsonDocument ? JSON.parse(packageJsonDocument.getText()) : undefined;
+      } catch {
+        vscode.window.showErrorMessage('Failed to add polyfill: package.json is not valid JSON.');
+        return;
+      }
+
+      const entryUri = await this.findEntryFile(packageRoot, packageJson, documentUri);
+      if (!entryUri) {
+        vscode.window.showWarningMessage(
+          `No entry file found. Add ${polyfill.packageName} and load it first: ${polyfill.imports.join(' ')}`
+        );
+        return;
+      }
+
+      const edit = new vscode.WorkspaceEdit();
+      const entryDocument = await vscode.workspace.openTextDocument(entryUri);
+      const entryText = entryDocument.getText();
+      const insertion = getImportInsertion(entryText, polyfill.imports, isCommonJsModule(entryText, entryUri.fsPath, packageJson?.type));
+      if (insertion) {
+        edit.insert(entryUri, entryDocument.positionAt(insertion.start), insertion.newText);
+      }
+
+      const updatedPackageJson = packageJsonDocument
+        ? addDependency(packageJsonDocument.getText(), polyfill.packageName, polyfill.version)
+        : null;
+      if (packageJsonDocument && updatedPackageJson !== null) {
+        const text = packageJsonDocument.getText();
+        edit.replace(
+          packageJsonDocument.uri,
+          new vscode.Range(packageJsonDocument.positionAt(0), packageJsonDocument.positionAt(text.length)),
+          updatedPackageJson
+        );
+      }
+
+      if (!insertion && updatedPackageJson === null) {
+        vscode.window.showInformationMessage(`${polyfill.packageName} is already set up in ${vscode.workspace.asRelativePath(entryUri)}.`);
+        return;
+      }
+      if (!await vscode.workspace.applyEdit(edit)) {
+        return;
+      }
+
+      this.logger.info(`Added polyfill ${polyfill.packageName} for ${polyfill.featureId} to ${entryUri.fsPath}`);
+      const steps = updatedPackageJson !== null ? ' Install dependencies to fetch it.' : '';
+      const caveats = polyfill.caveats ? ` Note: ${polyfill.caveats}` : '';
+      vscode.window.showInformationMessage(
+        `Added ${polyfill.packageName} (${polyfill.size}) to ${vscode.workspace.asRelativePath(entryUri)}.${steps}${caveats}`
+      );
+    } catch (error) {
+      this.errorHandler.handleExtensionError(
+        error instanceof Error ? error : new Error('Unknown error adding polyfill'),
+        `Adding polyfill for ${featureKey ?? 'a feature'}`
+      );
+    }
+  }
+
+  /**
+   * Asks which catalog feature to polyfill
+   * @returns web-features ID, or undefined if the pick was dismissed
+   */
+  private async pickFeature(): Promise<string | undefined> {
+    const items = Object.entries(POLYFILL_CATALOG).map(([featureId, polyfill]) => ({
+      label: featureId,
+      description: `${polyfill.packageName} · ${polyfill.size}`,
+      detail: polyfill.caveats
+    }));
+    const choice = await vscode.window.showQuickPick(items, { placeHolder: 'Select a feature to polyfill' });
+    return choice?.label;
+  }
+
+  /**
+   * Finds the nearest folder with a package.json, from a document up to its workspace folder
+   * @param documentUri Document inside the package
+   * @returns Package root path, or undefined if there is no package.json in the workspace folder
+   */
+  private async findPackageRoot(documentUri: vscode.Uri): Promise<string | undefined> {
+    const workspaceRoot = vscode.workspace.getWorkspaceFolder(documentUri)?.uri.fsPath;
+    let directory = path.dirname(documentUri.fsPath);
+
+    while (true) {
+      if (await this.exists(path.join(directory, 'package.json'))) {
+        return directory;
+      }
+      const parent = path.dirname(directory);
+      if (parent === directory || directory === workspaceRoot || !workspaceRoot) {
+        return undefined;
+      }
+      directory = parent;
+    }
+  }
+
+  /**
+   * Finds the entry file of a package
+   * @param packageRoot Package root path
+   * @param packageJson Parsed package.json
+   * @param documentUri Document the feature was reported in, used for scripts outside any package
+   * @returns First existing entry candidate, or the document itself if it is a script and nothing else is found
+   */
+  private async findEntryFile(
+    packageRoot: string | undefined,
+    packageJson: Record<string, unknown> | undefined,
+    documentUri: vscode.Uri
+  ): Promise<vscode.Uri | undefined> {
+    if (packageRoot) {
+      for (const candidate of getEntryCandidates(packageJson)) {
+        const candidatePath = path.join(packageRoot, ...candidate.split('/'));
+        if (await this.exists(candidatePath)) {
+          return vscode.Uri.file(candidatePath);
+        }
+      }
+    }
+    return /\.(?:[cm]?[jt]sx?)$/.test(documentUri.fsPath) ? documentUri : undefined;
+  }
+
+  /**
+   * Checks whether a file exists
+   * @param filePath Absolute file path
+   * @returns true if the file exists
+   */
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Registers the command that adds a catalog polyfill with VS Code
+ * @param context VS Code extension context
+ */
+export function registerPolyfillCommand(context: vscode.ExtensionContext): void {
+  const installer = new PolyfillInstaller();
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('baseline.addPolyfill', async (featureKey?: string, documentUri?: vscode.Uri) => {
+      await installer.addPolyfill(featureKey, documentUri);
+    })
+  );
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AuditEngine } from './auditEngine';
+import type { BaselineDataManager } from './baselineData';
+
+function createManager(unsupported: Record<string, boolean | 'low'>): BaselineDataManager {
+  return {
+    isBaselineSupported: vi.fn((id: string) => !(id in unsupported)),
+    getFeatureData: vi.fn((id: string) => (id in unsupported
+      ? { name: `Feature ${id}`, status: { baseline: unsupported[id] } }
+      : undefined)),
+    resolveFeatureId: vi.fn(() => undefined)
+  } as unknown as BaselineDataManager;
+}
+
+describe('AuditEngine', () => {
+  describe('scanContent', () => {
+    it('should report non-Baseline CSS features with 1-based positions', () => {
+      const engine = new AuditEngine(createManager({ 'css.properties.container-type': false }));
+
+      const issues = engine.scanContent('a {\n  color: red;\n  container-type: size;\n}', 'CSS', 'src/a.css');
+
+      expect(issues).toEqual([{
+        featureId: 'css.properties.container-type',
+        featureName: 'Feature css.properties.container-type',
+        filePath: 'src/a.css',
+        lineNumber: 3,
+        columnNumber: 3,
+        languageType: 'CSS',
+        severity: 'warning'
+      }]);
+    });
+
+    it('should skip usages silenced by baseline-ignore comments', () => {
+      const engine = new AuditEngine(createManager({ 'css.properties.container-type': false }));
+      const css = 'a {\n  /* baseline-ignore-next-line css.properties.container-type */\n  container-type: size;\n}\nb { container-type: inline-size; }';
+
+      const result = engine.auditContent(css, 'CSS', 'a.css');
+
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0].lineNumber).toBe(5);
+    });
+
+    it('should only skip the HTML usage a baseline-ignore comment precedes', () => {
+      const engine = new AuditEngine(createManager({ 'html.global_attributes.popover': false }));
+      const html = '<!-- baseline-ignore-next-line -->\n<div popover>Menu</div>\n<div popover>Help</div>';
+
+      expect(engine.auditContent(html, 'HTML', 'index.html').issues.map(issue => issue.lineNumber)).toEqual([3]);
+      expect(engine.auditContent(html.replace('<!-- baseline-ignore-next-line -->', ''), 'HTML', 'index.html').issues)
+        .toHaveLength(2);
+    });
+
+    it('should downgrade usages behind @supports, or hide them when the config says so', () => {
+      const engine = new AuditEngine(createManager({ 'css.properties.container-type': false }));
+      const css = '@supports (container-type: inline-size) {\n  a { container-type: inline-size; }\n}\nb { container-type: size; }';
+
+      const result = engine.auditContent(css, 'CSS', 'a.css');
+      const hidden = engine.auditContent(css, 'CSS', 'a.css', { source: 'a', rules: {}, ignorePaths: [], mappings: {}, guardedUsage: 'off' });
+
+      expect(result.issues.map(issue => [issue.lineNumber, issue.severity])).toEqual([[2, 'info'], [4, 'warning']]);
+      expect(hidden.issues.map(issue => issue.lineNumber)).toEqual([4]);
+    });
+
+    it('should report features as warnings, like the editor, whatever their Baseline status', () => {
+      const engine = new AuditEngine(createManager({ 'api.structuredClone': 'low', 'api.Navigator.share': false }));
+
+      const issues = engine.scanContent('const copy = structuredClone(value);\nnavigator.share(data);', 'JavaScript', 'b.js');
+
+      expect(issues).toHaveLength(2);
+      expect(issues[0]).toMatchObject({ featureId: 'api.structuredClone', languageType: 'JavaScript', severity: 'warning' });
+      expect(issues[1]).toMatchObject({ featureId: 'api.Navigator.share', languageType: 'JavaScript', severity: 'warning' });
+    });
+
+    it('should return no issues when every feature is supported', () => {
+      const engine = new AuditEngine(createManager({}));
+
+      expect(engine.scanContent('<dialog open></dialog>', 'HTML', 'index.html')).toEqual([]);
+    });
+  });
+
+  describe('auditContent', () => {
+    it('should count Baseline and non-Baseline features in the file', () => {
+      const engine = new AuditEngine(createManager({ 'css.properties.container-type': false }));
+
+      const result = engine.auditContent('a { color: red; container-type: size; }', 'CSS', 'a.css');
+
+      expect(result.totalFeatures).toBe(result.baselineFeatures + 1);
+      expect(result.issues).toHaveLength(1);
+    });
+  });
+
+  describe('calculateFileScore', () => {
+    it('should score the share of Baseline features minus error penalties', () => {
+      const file = { filePath: 'a.css', languageType: 'CSS' as const, totalFeatures: 4, baselineFeatures: 3, issues: [] };
+      expect(AuditEngine.calculateFileScore(file)).toBe(75);
+      expect(AuditEngine.calculateFileScore({ ...file, totalFeatures: 0, baselineFeatures: 0 })).toBe(100);
+
+      const errorIssue = { featureId: 'x', featureName: 'x', filePath: 'a.css', lineNumber: 1, columnNumber: 1, languageType: 'CSS' as const, severity: 'error' as const };
+      expect(AuditEngine.calculateFileScore({ ...file, issues: [errorIssue, { ...errorIssue, lineNumber: 2 }] })).toBe(70);
+    });
+  });
+
+  describe('meetsSeverity', () => {
+    it('should compare severities against a threshold', () => {
+      expect(AuditEngine.meetsSeverity('error', 'warning')).toBe(true);
+      expect(AuditEngine.meetsSeverity('warning', 'warning')).toBe(true);
+      expect(AuditEngine.meetsSeverity('info', 'warning')).toBe(false);
+    });
+  });
+
+  describe('language detection', () => {
+    it('should map file extensions to language types', () => {
+      expect(AuditEngine.getLanguageTypeForPath('styles/site.SCSS')).toBe('CSS');
+      expect(AuditEngine.getLanguageTypeForPath('src/app.tsx')).toBe('JavaScript');
+      expect(AuditEngine.getLanguageTypeForPath('index.htm')).toBe('HTML');
+      expect(AuditEngine.getLanguageTypeForPath('src/App.vue')).toBe('HTML');
+      expect(AuditEngine.getLanguageTypeForPath('README.md')).toBeUndefined();
+    });
+
+    it('should map VS Code language IDs to language types', () => {
+      expect(AuditEngine.getLanguageTypeForLanguageId('less')).toBe('CSS');
+      expect(AuditEngine.getLanguageTypeForLanguageId('typescriptreact')).toBe('JavaScript');
+      expect(AuditEngine.getLanguageTypeForLanguageId('xml')).toBe('HTML');
+      expect(AuditEngine.getLanguageTypeForLanguageId('svelte')).toBe('HTML');
+      expect(AuditEngine.getLanguageTypeForLanguageId('markdown')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,364 @@
+import { BaselineDataManager } from './baselineData';
+import { CssParser } from './cssParser';
+import { JsParser } from './jsParser';
+import { HtmlParser } from './htmlParser';
+import { SuppressionDirective, SuppressionParser } from './suppressions';
+import { FeatureGuards } from './featureGuards';
+import { BaselineProjectConfig, ProjectConfigLoader } from './projectConfig';
+
+/**
+ * Language families the audit understands
+ */
+export type LanguageType = 'CSS' | 'JavaScript' | 'HTML';
+
+/**
+ * Severity of a compatibility issue, ordered from least to most severe
+ */
+export type IssueSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * Interface representing a compatibility issue found during workspace audit
+ */
+export interface CompatibilityIssue {
+  featureId: string;
+  featureName: string;
+  filePath: string;
+  lineNumber: number;
+  columnNumber: number;
+  languageType: LanguageType;
+  severity: IssueSeverity;
+}
+
+/**
+ * Audit outcome for a single file
+ */
+export interface FileAuditResult {
+  filePath: string;
+  languageType: LanguageType;
+  /** Number of distinct features detected in the file */
+  totalFeatures: number;
+  /** Number of detected features that meet the target */
+  baselineFeatures: number;
+  issues: CompatibilityIssue[];
+}
+
+/**
+ * Shape shared by the CSS, JavaScript and HTML parse results
+ */
+export interface AuditParseResult {
+  features: string[];
+  locations: Map<string, any[]>;
+  suppressions?: SuppressionDirective[];
+  guarded?: Map<string, any[]>;
+}
+
+/**
+ * Glob patterns for files included in an audit by default
+ */
+export const DEFAULT_INCLUDE_PATTERNS = [
+  '**/*.css',
+  '**/*.scss',
+  '**/*.sass',
+  '**/*.less',
+  '**/*.js',
+  '**/*.jsx',
+  '**/*.ts',
+  '**/*.tsx',
+  '**/*.html',
+  '**/*.htm',
+  '**/*.xml',
+  '**/*.vue',
+  '**/*.svelte',
+  '**/*.astro'
+];
+
+/**
+ * Glob patterns for files excluded from an audit by default (common ignore patterns)
+ */
+export const DEFAULT_EXCLUDE_PATTERNS = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/out/**',
+  '**/.git/**',
+  '**/coverage/**',
+  '**/*.min.js',
+  '**/*.min.css'
+];
+
+/**
+ * Severity of issues without a rule in the project config, shared by the editor diagnostics and the CLI
+ */
+export const DEFAULT_ISSUE_SEVERITY: IssueSeverity = 'warning';
+
+/**
+ * Files larger than this are not analyzed, by default, in the editor or by the CLI
+ */
+export const DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Ordering used to compare issue severities against a threshold
+ */
+const SEVERITY_RANK: Record<IssueSeverity, number> = {
+  'info': 0,
+  'warning': 1,
+  'error': 2
+};
+
+/**
+ * Maps file extensions to the language family used to parse them
+ */
+const EXTENSION_LANGUAGE_TYPES: Record<string, LanguageType> = {
+  '.css': 'CSS',
+  '.scss': 'CSS',
+  '.sass': 'CSS',
+  '.less': 'CSS',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.mjs': 'JavaScript',
+  '.cjs': 'JavaScript',
+  '.ts': 'JavaScript',
+  '.tsx': 'JavaScript',
+  '.html': 'HTML',
+  '.htm': 'HTML',
+  '.xml': 'HTML',
+  '.vue': 'HTML',
+  '.svelte': 'HTML',
+  '.astro': 'HTML'
+};
+
+/**
+ * AuditEngine turns parser output into compatibility issues without depending on VS Code
+ * Shared by the workspace audit command and the headless CLI
+ */
+export class AuditEngine {
+  private baselineDataManager: BaselineDataManager;
+
+  constructor(baselineDataManager: BaselineDataManager = BaselineDataManager.getInstance()) {
+    this.baselineDataManager = baselineDataManager;
+  }
+
+  /**
+   * Parses file content and collects its non-Baseline features
+   * @param content File content
+   * @param languageType Language family to parse the content as
+   * @param filePath Path reported on each issue
+   * @returns Compatibility issues found in the content
+   */
+  public scanContent(content: string, languageType: LanguageType, filePath: string): CompatibilityIssue[] {
+    return this.auditContent(content, languageType, filePath).issues;
+  }
+
+  /**
+   * Parses file content and audits every feature it uses
+   * @param content File content
+   * @param languageType Language family to parse the content as
+   * @param filePath Path reported on each issue
+   * @param config Project config the file belongs to
+   * @param sourcePath Path of the file on disk, for type-aware analysis; defaults to filePath
+   * @returns Audit result for the file
+   */
+  public auditContent(
+    content: string,
+    languageType: LanguageType,
+    filePath: string,
+    config?: BaselineProjectConfig,
+    sourcePath: string = filePath
+  ): FileAuditResult {
+    const parseResult = this.parseContent(content, languageType, filePath, config, sourcePath);
+    return this.auditParseResult(parseResult, languageType, filePath, config);
+  }
+
+  /**
+   * Parses file content with the parse options of its project config
+   * @param content File content
+   * @param languageType Language family to parse the content as
+   * @param filePath Path the locations are tracked for
+   * @param config Project config the file belongs to
+   * @param sourcePath Path of the file on disk, for type-aware analysis; defaults to filePath
+   * @returns Features, locations, suppressions and guards found in the content
+   */
+  public parseContent(
+    content: string,
+    languageType: LanguageType,
+    filePath: string,
+    config?: BaselineProjectConfig,
+    sourcePath: string = filePath
+  ): AuditParseResult {
+    // Parsers only need a truthy document to track locations
+    const document = { uri: { fsPath: filePath } };
+    const options = ProjectConfigLoader.getParseOptions(
+      config,
+      languageType === 'JavaScript' ? { filePath: sourcePath, content } : undefined
+    );
+
+    let parseResult: AuditParseResult;
+    switch (languageType) {
+      case 'CSS':
+        parseResult = CssParser.parseCss(content, document, options);
+        break;
+      case 'JavaScript':
+        parseResult = JsParser.parseJavaScript(content, document, options);
+        break;
+      case 'HTML':
+        parseResult = HtmlParser.parseHtml(content, document, options);
+        break;
+    }
+
+    return parseResult;
+  }
+
+  /**
+   * Converts a parse result into compatibility issues for every non-Baseline location
+   * @param parseResult Features and locations reported by a parser
+   * @param languageType Language family of the parsed content
+   * @param filePath Path reported on each issue
+   * @returns Compatibility issues found in the parse result
+   */
+  public collectIssues(parseResult: AuditParseResult, languageType: LanguageType, filePath: string): CompatibilityIssue[] {
+    return this.auditParseResult(parseResult, languageType, filePath).issues;
+  }
+
+  /**
+   * Audits every feature in a parse result that is not suppressed by a baseline-ignore comment
+   * Guarded usages are reported at no more than the project's guarded severity
+   * @param parseResult Features and locations reported by a parser
+   * @param languageType Language family of the parsed content
+   * @param filePath Path reported on each issue
+   * @param config Project config supplying the target and severity overrides
+   * @returns Audit result for the file
+   */
+  public auditParseResult(
+    parseResult: AuditParseResult,
+    languageType: LanguageType,
+    filePath: string,
+    config?: BaselineProjectConfig
+  ): FileAuditResult {
+    const issues: CompatibilityIssue[] = [];
+    let baselineFeatures = 0;
+    const resolveFeatureId = (featureId: string) => this.baselineDataManager.resolveFeatureId(featureId);
+
+    // Usages silenced by baseline-ignore comments are not audited
+    parseResult = SuppressionParser.applySuppressions(parseResult, resolveFeatureId);
+
+    // Usages behind @supports or feature detection are capped at the guarded severity, or hidden
+    const guardedSeverity = ProjectConfigLoader.getGuardedSeverity(config);
+    if (guardedSeverity === 'off') {
+      parseResult = FeatureGuards.removeGuarded(parseResult);
+    }
+
+    // Features turned off by the project config are not audited either
+    const features = parseResult.features.filter(
+      featureId => ProjectConfigLoader.getRuleSeverity(config, featureId, resolveFeatureId) !== 'off'
+    );
+
+    for (const featureId of features) {
+      if (this.baselineDataManager.isBaselineSupported(featureId, config?.target)) {
+        baselineFeatures++;
+        continue;
+      }
+
+      const featureData = this.baselineDataManager.getFeatureData(featureId);
+      const severity = (ProjectConfigLoader.getRuleSeverity(config, featureId, resolveFeatureId) as IssueSeverity | undefined)
+        ?? DEFAULT_ISSUE_SEVERITY;
+      const locations = parseResult.locations.get(featureId) || [];
+
+      for (const range of locations) {
+        issues.push({
+          featureId,
+          featureName: featureData?.name || featureId,
+          filePath,
+          lineNumber: range.start.line + 1, // Convert to 1-based
+          columnNumber: range.start.character + 1, // Convert to 1-based
+          languageType,
+          severity: guardedSeverity !== 'off' && FeatureGuards.isGuarded(parseResult, featureId, range)
+            ? AuditEngine.minSeverity(severity, guardedSeverity)
+            : severity
+        });
+      }
+    }
+
+    return {
+      filePath,
+      languageType,
+      totalFeatures: features.length,
+      baselineFeatures,
+      issues
+    };
+  }
+
+  /**
+   * Calculates a 0-100 Baseline score for a file, matching the editor's gamification score:
+   * the share of Baseline features, minus 5 points per error-level feature
+   * @param file Audit result for the file
+   * @returns File score
+   */
+  public static calculateFileScore(file: FileAuditResult): number {
+    if (file.totalFeatures === 0) {
+      return 100;
+    }
+
+    const score = Math.round((file.baselineFeatures / file.totalFeatures) * 100);
+    const criticalFeatures = new Set(
+      file.issues.filter(issue => issue.severity === 'error').map(issue => issue.featureId)
+    ).size;
+    return Math.max(0, score - criticalFeatures * 5);
+  }
+
+  /**
+   * Checks whether a severity meets or exceeds a threshold
+   * @param severity Issue severity
+   * @param threshold Minimum severity
+   * @returns true if severity is at or above the threshold
+   */
+  public static meetsSeverity(severity: IssueSeverity, threshold: IssueSeverity): boolean {
+    return SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold];
+  }
+
+  /**
+   * Gets the less severe of two severities
+   * @param severity First severity
+   * @param other Second severity
+   * @returns The lower severity
+   */
+  public static minSeverity(severity: IssueSeverity, other: IssueSeverity): IssueSeverity {
+    return SEVERITY_RANK[severity] <= SEVERITY_RANK[other] ? severity : other;
+  }
+
+  /**
+   * Checks whether a value is a known issue severity
+   * @param value Value to check
+   * @returns true if value is "info", "warning" or "error"
+   */
+  public static isIssueSeverity(value: string): value is IssueSeverity {
+    return Object.prototype.hasOwnProperty.call(SEVERITY_RANK, value);
+  }
+
+  /**
+   * Determines the language family for a VS Code language ID
+   * @param languageId VS Code language ID
+   * @returns Language family, or undefined for unsupported languages
+   */
+  public static getLanguageTypeForLanguageId(languageId: string): LanguageType | undefined {
+    if (['css', 'scss', 'sass', 'less'].includes(languageId)) {
+      return 'CSS';
+    }
+    if (['javascript', 'typescript', 'javascriptreact', 'typescriptreact'].includes(languageId)) {
+      return 'JavaScript';
+    }
+    if (['html', 'xml', 'vue', 'svelte', 'astro'].includes(languageId)) {
+      return 'HTML';
+    }
+    return undefined;
+  }
+
+  /**
+   * Determines the language family for a file path based on its extension
+   * @param filePath File path
+   * @returns Language family, or undefined for unsupported files
+   */
+  public static getLanguageTypeForPath(filePath: string): LanguageType | undefined {
+    const match = filePath.toLowerCase().match(/\.[^./\\]+$/);
+    return match ? EXTENSION_LANGUAGE_TYPES[match[0]] : undefined;
+  }
+}
@@ -3,6 +3,7 @@ import { BaselineDataManager } from './baselineData';
 
 // Mock web-features
 vi.mock('web-features', () => ({
+  browsers: {},
   features: {
     'css.properties.gap': {
       name: 'CSS Gap Property',
@@ -11,6 +12,45 @@ vi.mock('web-features', () => ({
     'css.properties.color': {
       name: 'CSS Color Property',
       status: { baseline: true }
+    },
+    'container-queries': {
+      kind: 'feature',
+      name: 'Container queries',
+      status: { baseline: false },
+      compat_features: [
+        'css.at-rules.container',
+        'css.properties.container-type'
+      ]
+    },
+    'async-clipboard': {
+      kind: 'feature',
+      name: 'Async clipboard',
+      status: {
+        baseline: 'low',
+        baseline_low_date: '2024-06-11',
+        support: { chrome: '76', edge: '79', firefox: '127', safari: '13.1' }
+      },
+      compat_features: [
+        'api.Clipboard',
+        'api.Clipboard.read',
+        'api.Clipboard.writeText'
+      ]
+    },
+    'dom': {
+      kind: 'feature',
+      name: 'DOM',
+      status: { baseline: 'high', baseline_low_date: '2015-07-29', baseline_high_date: '2018-01-29' },
+      compat_features: ['api.Element', 'api.Element.id']
+    },
+    'array-at': {
+      kind: 'feature',
+      name: 'Array at()',
+      status: { baseline: 'high' },
+      compat_features: ['javascript.builtins.Array.at']
+    },
+    'old-container-queries': {
+      kind: 'moved',
+      redirect_target: 'container-queries'
     }
   }
 }));
@@ -54,6 +94,71 @@ describe('BaselineDataManager', () => {
     });
   });
 
+  describe('resolveFeatureId', () => {
+    it('should return web-features IDs unchanged', () => {
+      expect(baselineDataManager.resolveFeatureId('container-queries')).toBe('container-queries');
+    });
+
+    it('should resolve BCD compat keys to their owning feature', () => {
+      expect(baselineDataManager.resolveFeatureId('css.properties.container-type')).toBe('container-queries');
+      expect(baselineDataManager.resolveFeatureId('css.at-rules.container')).toBe('container-queries');
+      expect(baselineDataManager.resolveFeatureId('api.Clipboard.writeText')).toBe('async-clipboard');
+    });
+
+    it('should not attribute unlisted sub-keys to the feature of their parent key', () => {
+      expect(baselineDataManager.resolveFeatureId('api.Clipboard.read')).toBe('async-clipboard');
+      expect(baselineDataManager.resolveFeatureId('api.Element.id')).toBe('dom');
+      expect(baselineDataManager.resolveFeatureId('api.Element.foo')).toBeUndefined();
+    });
+
+    it('should resolve JavaScript builtins reported as api keys', () => {
+      expect(baselineDataManager.resolveFeatureId('api.Array.at')).toBe('array-at');
+    });
+
+    it('should follow moved features to their redirect target', () => {
+      expect(baselineDataManager.resolveFeatureId('old-container-queries')).toBe('container-queries');
+    });
+
+    it('should return undefined for unknown keys', () => {
+      expect(baselineDataManager.resolveFeatureId('css.properties.unknown')).toBeUndefined();
+    });
+  });
+
+  describe('getCompatKeyStatus', () => {
+    it('should inherit the owning feature status', () => {
+      const resolution = baselineDataManager.getCompatKeyStatus('css.properties.container-type');
+      expect(resolution?.featureId).toBe('container-queries');
+      expect(resolution?.status.baseline).toBe(false);
+    });
+
+    it('should give every key of a feature the feature status', () => {
+      expect(baselineDataManager.getCompatKeyStatus('api.Clipboard.writeText')?.status.baseline).toBe('low');
+      expect(baselineDataManager.getCompatKeyStatus('api.Clipboard')?.status.baseline).toBe('low');
+      expect(baselineDataManager.getCompatKeyStatus('api.Element.foo')).toBeUndefined();
+    });
+
+    it('should drive isBaselineSupported for compat keys', () => {
+      expect(baselineDataManager.isBaselineSupported('css.properties.container-type')).toBe(false);
+      expect(baselineDataManager.isBaselineSupported('api.Array.at')).toBe(true);
+    });
+  });
+
+  describe('setTarget', () => {
+    it('should evaluate features against the configured target', () => {
+      baselineDataManager.setTarget('widely');
+      expect(baselineDataManager.isBaselineSupported('api.Clipboard')).toBe(false);
+      expect(baselineDataManager.isBaselineSupported('api.Array.at')).toBe(true);
+
+      baselineDataManager.setTarget('newly');
+      expect(baselineDataManager.isBaselineSupported('api.Clipboard')).toBe(true);
+    });
+
+    it('should fall back to the default target for invalid queries', () => {
+      const target = baselineDataManager.setTarget('op_mini all');
+      expect(target.kind).toBe('newly');
+    });
+  });
+
   describe('getFeatureData', () => {
     it('should return feature data for known features', () => {
       const data = baselineDataManager.getFeatureData('css.properties.gap');
@@ -63,6 +168,11 @@ describe('BaselineDataManager', () => {
       });
     });
 
+    it('should return owning feature data for compat keys', () => {
+      const data = baselineDataManager.getFeatureData('css.properties.container-type');
+      expect(data?.name).toBe('Container queries');
+    });
+
     it('should return undefined for unknown features', () => {
       const data = baselineDataManager.getFeatureData('unknown.feature');
       expect(data).toBeUndefined();
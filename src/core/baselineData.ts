@@ -1,21 +1,45 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import * as webFeatures from 'web-features';
-import { ErrorHandler } from './errorHandler';
+import { ErrorHandler, Logger } from './errorHandler';
+import { BaselineTarget, BaselineTargetResolver, BrowserReleaseDates, CORE_BROWSERS, CoreBrowserId, DEFAULT_BASELINE_TARGET } from './baselineTarget';
 
 /**
  * Interface representing a web feature from the web-features dataset
  */
 export interface Feature {
   name: string;
-  status: {
-    baseline: boolean | 'high' | 'low' | false;
-    baseline_low_date?: string;
-    baseline_high_date?: string;
-  };
-  spec: string;
+  kind?: 'feature' | 'moved' | 'split';
+  description?: string;
+  status: FeatureStatus;
+  spec: string | string[];
+  compat_features?: string[];
+  redirect_target?: string;
   mdn_url?: string;
   usage_stats?: object;
 }
 
+/**
+ * Baseline status of a feature
+ */
+export interface FeatureStatus {
+  baseline: boolean | 'high' | 'low' | false;
+  baseline_low_date?: string;
+  baseline_high_date?: string;
+  support?: { [browser: string]: string };
+}
+
+/**
+ * Result of resolving a BCD compat key (e.g. css.properties.container-type)
+ * to the web-feature that owns it (e.g. container-queries)
+ */
+export interface CompatKeyResolution {
+  compatKey: string;
+  featureId: string;
+  feature: Feature;
+  status: FeatureStatus;
+}
+
 /**
  * Interface for the web-features dataset structure
  */
@@ -33,14 +57,21 @@ export class BaselineDataManager {
   private isLoaded = false;
   private loadingPromise: Promise<void> | null = null;
   private errorHandler: ErrorHandler;
+  private logger: Logger;
   private featureCache = new Map<string, Feature | undefined>();
   private baselineCache = new Map<string, boolean>();
+  private compatKeyIndex = new Map<string, string>();
+  private resolvedIdCache = new Map<string, string | undefined>();
+  private releaseDates: BrowserReleaseDates = {};
+  private target: BaselineTarget = BaselineTargetResolver.parse(DEFAULT_BASELINE_TARGET);
+  private dataVersion: string | null | undefined;
 
   /**
    * Private constructor to enforce singleton pattern
    */
   private constructor() {
     this.errorHandler = ErrorHandler.getInstance();
+    this.logger = Logger.getInstance();
   }
 
   /**
@@ -79,6 +110,8 @@ export class BaselineDataManager {
     try {
       // Load the web-features data - the features are in the 'features' property
       this.featuresData = (webFeatures as any).features as WebFeaturesData;
+      this.buildCompatKeyIndex(this.featuresData);
+      this.releaseDates = this.buildReleaseDates((webFeatures as any).browsers);
       this.isLoaded = true;
       // Log success using Logger
       try {
@@ -94,9 +127,128 @@ export class BaselineDataManager {
     }
   }
 
+  /**
+   * Build the reverse index from BCD compat keys to the web-features IDs that own them
+   * @param featuresData The loaded web-features dataset
+   * @private
+   */
+  private buildCompatKeyIndex(featuresData: WebFeaturesData): void {
+    this.compatKeyIndex.clear();
+    this.resolvedIdCache.clear();
+
+    for (const [featureId, feature] of Object.entries(featuresData)) {
+      if (!feature || !Array.isArray(feature.compat_features)) {
+        continue;
+      }
+
+      for (const compatKey of feature.compat_features) {
+        // First owner wins; web-features assigns each compat key to a single feature
+        if (!this.compatKeyIndex.has(compatKey)) {
+          this.compatKeyIndex.set(compatKey, featureId);
+        }
+      }
+    }
+  }
+
+  /**
+   * Build the release date lookup of the core browsers from the web-features browser data
+   * @param browsers The `browsers` section of the dataset, if present
+   * @returns Release date per version per core browser
+   * @private
+   */
+  private buildReleaseDates(browsers: Record<string, { releases?: { version: string; date: string }[] }> | undefined): BrowserReleaseDates {
+    const releaseDates: BrowserReleaseDates = {};
+    for (const browser of CORE_BROWSERS) {
+      const releases = browsers?.[browser]?.releases;
+      if (Array.isArray(releases)) {
+        releaseDates[browser] = Object.fromEntries(releases.map(release => [release.version, release.date]));
+      }
+    }
+    return releaseDates;
+  }
+
+  /**
+   * Resolve a parser key to the web-features ID that owns it.
+   * Accepts web-features IDs (e.g. container-queries) as well as BCD compat keys
+   * (e.g. css.properties.container-type, api.Clipboard.writeText).
+   * @param key web-features ID or BCD compat key
+   * @returns The owning web-features ID or undefined if no feature owns the key
+   */
+  public resolveFeatureId(key: string): string | undefined {
+    if (!this.isLoaded || !this.featuresData || !key || typeof key !== 'string') {
+      return undefined;
+    }
+
+    if (this.resolvedIdCache.has(key)) {
+      return this.resolvedIdCache.get(key);
+    }
+
+    let result: string | undefined;
+
+    if (key in this.featuresData) {
+      // Follow "moved" entries to their new ID
+      const entry = this.featuresData[key];
+      result = entry.kind === 'moved' && entry.redirect_target ? entry.redirect_target : key;
+    } else {
+      // Only keys a feature lists are resolved: a parent key's feature says nothing about an unlisted sub-key
+      result = this.getCompatKeyCandidates(key).map(candidate => this.compatKeyIndex.get(candidate)).find(Boolean);
+    }
+
+    this.resolvedIdCache.set(key, result);
+    return result;
+  }
+
+  /**
+   * Resolve a BCD compat key to its owning feature together with that feature's status
+   * web-features only publishes statuses per feature, so every key of a feature shares its status
+   * @param compatKey BCD compat key or web-features ID
+   * @returns Resolution details or undefined if the key is unknown
+   */
+  public getCompatKeyStatus(compatKey: string): CompatKeyResolution | undefined {
+    const featureId = this.resolveFeatureId(compatKey);
+    if (!featureId || !this.featuresData) {
+      return undefined;
+    }
+
+    const feature = this.featuresData[featureId];
+    if (!feature || !feature.status) {
+      return undefined;
+    }
+
+    return { compatKey, featureId, feature, status: feature.status };
+  }
+
+  /**
+   * Gets the keys to try for a parser key, covering naming differences between
+   * the parsers and BCD (JS builtins and Window globals are reported as api.*,
+   * input types as html.elements.input.type.*)
+   * @param key Parser key
+   * @returns Candidate BCD compat keys in priority order
+   * @private
+   */
+  private getCompatKeyCandidates(key: string): string[] {
+    const candidates = [key];
+
+    if (key.startsWith('api.Window.')) {
+      candidates.push(`api.${key.slice('api.Window.'.length)}`);
+    }
+
+    if (key.startsWith('api.')) {
+      candidates.push(`javascript.builtins.${key.slice('api.'.length)}`);
+    }
+
+    // HtmlParser reports input types as html.elements.input.type.{type}, BCD uses type_{type}
+    const inputTypeMatch = key.match(/^html\.elements\.input\.type\.([\w-]+)$/);
+    if (inputTypeMatch) {
+      candidates.unshift(`html.elements.input.type_${inputTypeMatch[1]}`);
+    }
+
+    return candidates;
+  }
+
   /**
    * Get feature data by feature ID
-   * @param featureId The web-features ID to lookup
+   * @param featureId The web-features ID or BCD compat key to lookup
    * @returns Feature data or undefined if not found
    */
   public getFeatureData(featureId: string): Feature | undefined {
@@ -117,13 +269,9 @@ export class BaselineDataManager {
         return undefined;
       }
 
-      // Check if the feature exists in the data
-      let result: Feature | undefined;
-      if (featureId in this.featuresData) {
-        result = this.featuresData[featureId];
-      } else {
-        result = undefined;
-      }
+      // Resolve BCD compat keys to their owning web-feature
+      const resolvedId = this.resolveFeatureId(featureId);
+      const result: Feature | undefined = resolvedId ? this.featuresData[resolvedId] : undefined;
 
       // Cache the result
       this.featureCache.set(featureId, result);
@@ -136,38 +284,86 @@ export class BaselineDataManager {
   }
 
   /**
-   * Check if a feature is supported by Baseline
-   * @param featureId The web-features ID to check
-   * @returns true if the feature is Baseline supported, false otherwise
+   * Set the browser target that all Baseline checks are evaluated against
+   * Falls back to the default target if the value cannot be parsed
+   * @param value "widely", "newly", a Baseline year (e.g. "2022") or a browserslist query
+   * @returns The target now in effect
+   */
+  public setTarget(value: string | undefined): BaselineTarget {
+    let target: BaselineTarget;
+    try {
+      target = BaselineTargetResolver.parse(value);
+    } catch (error) {
+      this.errorHandler.handleValidationError(
+        `Invalid Baseline target "${value}": ${error instanceof Error ? error.message : error}`,
+        'Setting Baseline target'
+      );
+      target = BaselineTargetResolver.parse(DEFAULT_BASELINE_TARGET);
+    }
+
+    if (target.value !== this.target.value) {
+      this.baselineCache.clear();
+    }
+    this.target = target;
+    return target;
+  }
+
+  /**
+   * Get the browser target that Baseline checks are evaluated against
+   * @returns The current target
+   */
+  public getTarget(): BaselineTarget {
+    return this.target;
+  }
+
+  /**
+   * Get the core browsers that keep a feature from meeting the current target
+   * @param featureId The web-features ID or BCD compat key to check
+   * @param target Optional target overriding the configured one, e.g. from a project config
+   * @returns web-features browser IDs, empty if unknown or not blocked
+   */
+  public getBlockingBrowsers(featureId: string, target: BaselineTarget = this.target): CoreBrowserId[] {
+    const resolution = this.getCompatKeyStatus(featureId);
+    return resolution ? BaselineTargetResolver.getBlockingBrowsers(resolution.status, target, this.releaseDates) : [];
+  }
+
+  /**
+   * Check if a feature is supported by the configured Baseline target
+   * @param featureId The web-features ID or BCD compat key to check
+   * @param target Optional target overriding the configured one, e.g. from a project config
+   * @returns true if the feature meets the target, false otherwise
    */
-  public isBaselineSupported(featureId: string): boolean {
+  public isBaselineSupported(featureId: string, target: BaselineTarget = this.target): boolean {
     try {
+      // Results for other targets are cached under a target-qualified key
+      const cacheKey = target.value === this.target.value ? featureId : `${target.value}\n${featureId}`;
+
       // Check cache first
-      if (this.baselineCache.has(featureId)) {
-        return this.baselineCache.get(featureId)!;
+      if (this.baselineCache.has(cacheKey)) {
+        return this.baselineCache.get(cacheKey)!;
       }
 
-      const featureData = this.getFeatureData(featureId);
+      const resolution = this.getCompatKeyStatus(featureId);
       
       let result: boolean;
-      if (!featureData) {
+      if (!resolution) {
         // If feature doesn't exist in web-features data, assume it's baseline
         // This prevents false positives on universal properties like 'display', 'padding'
-        console.log(`[Baseline Sidekick] Feature not found in database, assuming baseline: ${featureId}`);
+        this.logger.debug(`Feature not found in database, assuming baseline: ${featureId}`);
         result = true;
       } else {
         // A feature is Baseline supported if status.baseline is true, 'high', or 'low'
-        const baseline = featureData.status.baseline;
-        result = baseline === true || baseline === 'high' || baseline === 'low';
+        // Evaluate the feature status against the requested target
+        result = BaselineTargetResolver.isSupported(resolution.status, target);
         
         // Debug logging for development
         if (!result) {
-          console.log(`[Baseline Sidekick] Non-baseline feature detected: ${featureId}, status:`, featureData.status);
+          this.logger.debug(`Non-baseline feature detected: ${featureId} (${resolution.featureId})`, resolution.status);
         }
       }
 
       // Cache the result
-      this.baselineCache.set(featureId, result);
+      this.baselineCache.set(cacheKey, result);
       
       return result;
     } catch (error) {
@@ -185,6 +381,23 @@ export class BaselineDataManager {
     return featureData.mdn_url || '';
   }
 
+  /**
+   * Get the version of the installed web-features dataset
+   * @returns Package version (e.g. "3.0.0") or undefined if it cannot be determined
+   */
+  public getDataVersion(): string | undefined {
+    if (this.dataVersion === undefined) {
+      try {
+        // The package does not export its package.json, so read it next to the entry point
+        const packageJsonPath = path.join(path.dirname(require.resolve('web-features')), 'package.json');
+        this.dataVersion = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')).version || null;
+      } catch {
+        this.dataVersion = null;
+      }
+    }
+    return this.dataVersion ?? undefined;
+  }
+
   /**
    * Check if the data manager is initialized and ready to use
    * @returns true if initialized, false otherwise
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { BaselineTargetResolver } from './baselineTarget';
+
+const widelyStatus = {
+  baseline: 'high' as const,
+  baseline_low_date: '2020-01-15',
+  baseline_high_date: '2022-07-15',
+  support: {
+    chrome: '80', chrome_android: '80', edge: '80',
+    firefox: '72', firefox_android: '79', safari: '13.1', safari_ios: '13.4'
+  }
+};
+
+const newlyStatus = {
+  baseline: 'low' as const,
+  baseline_low_date: '2024-03-05',
+  support: {
+    chrome: '120', chrome_android: '120', edge: '120',
+    firefox: '123', firefox_android: '123', safari: '17.4', safari_ios: '17.4'
+  }
+};
+
+const limitedStatus = {
+  baseline: false as const,
+  support: { chrome: '125', chrome_android: '125', edge: '125' }
+};
+
+describe('BaselineTargetResolver', () => {
+  describe('parse', () => {
+    it('should parse Baseline availability keywords', () => {
+      expect(BaselineTargetResolver.parse('widely').kind).toBe('widely');
+      expect(BaselineTargetResolver.parse('newly').kind).toBe('newly');
+    });
+
+    it('should default to newly for empty values', () => {
+      expect(BaselineTargetResolver.parse(undefined).kind).toBe('newly');
+      expect(BaselineTargetResolver.parse('').kind).toBe('newly');
+    });
+
+    it('should parse Baseline years', () => {
+      const target = BaselineTargetResolver.parse('2022');
+      expect(target.kind).toBe('year');
+      expect(target.year).toBe(2022);
+      expect(target.label).toBe('Baseline 2022');
+    });
+
+    it('should resolve browserslist queries to minimum core browser versions', () => {
+      const target = BaselineTargetResolver.parse('chrome 100, safari 15.4');
+      expect(target.kind).toBe('browserslist');
+      expect(target.minimumVersions).toEqual({ chrome: '100', safari: '15.4' });
+    });
+
+    it('should reject browserslist queries without core browsers', () => {
+      expect(() => BaselineTargetResolver.parse('op_mini all')).toThrow();
+    });
+  });
+
+  describe('isSupported', () => {
+    it('should only accept Widely Available features for widely targets', () => {
+      const target = BaselineTargetResolver.parse('widely');
+      expect(BaselineTargetResolver.isSupported(widelyStatus, target)).toBe(true);
+      expect(BaselineTargetResolver.isSupported(newlyStatus, target)).toBe(false);
+      expect(BaselineTargetResolver.isSupported(limitedStatus, target)).toBe(false);
+    });
+
+    it('should accept Newly Available features for newly targets', () => {
+      const target = BaselineTargetResolver.parse('newly');
+      expect(BaselineTargetResolver.isSupported(newlyStatus, target)).toBe(true);
+      expect(BaselineTargetResolver.isSupported(limitedStatus, target)).toBe(false);
+    });
+
+    it('should compare the Baseline low date against year targets', () => {
+      const target = BaselineTargetResolver.parse('2022');
+      expect(BaselineTargetResolver.isSupported(widelyStatus, target)).toBe(true);
+      expect(BaselineTargetResolver.isSupported(newlyStatus, target)).toBe(false);
+    });
+
+    it('should compare support versions against browserslist targets', () => {
+      const target = BaselineTargetResolver.parse('chrome 110, safari 17');
+      expect(BaselineTargetResolver.isSupported(widelyStatus, target)).toBe(true);
+      expect(BaselineTargetResolver.isSupported(newlyStatus, target)).toBe(false);
+    });
+  });
+
+  describe('getBlockingBrowsers', () => {
+    const releaseDates = {
+      chrome: { '120': '2023-12-05' }, chrome_android: { '120': '2023-12-05' }, edge: { '120': '2023-12-07' },
+      firefox: { '123': '2024-02-20' }, firefox_android: { '123': '2024-02-20' },
+      safari: { '17.4': '2024-03-05' }, safari_ios: { '17.4': '2024-03-05' }
+    };
+    const now = new Date(Date.UTC(2026, 6, 1));
+
+    it('should list browsers without support for newly targets', () => {
+      const target = BaselineTargetResolver.parse('newly');
+      expect(BaselineTargetResolver.getBlockingBrowsers(limitedStatus, target)).toEqual([
+        'firefox', 'firefox_android', 'safari', 'safari_ios'
+      ]);
+      expect(BaselineTargetResolver.getBlockingBrowsers(newlyStatus, target)).toEqual([]);
+    });
+
+    it('should list browsers that shipped within the last 30 months for widely targets', () => {
+      const target = BaselineTargetResolver.parse('widely');
+      // The cutoff is 2024-01-01, so only Chrome and Edge have had support for long enough
+      expect(BaselineTargetResolver.getBlockingBrowsers(newlyStatus, target, releaseDates, now)).toEqual([
+        'firefox', 'firefox_android', 'safari', 'safari_ios'
+      ]);
+      expect(BaselineTargetResolver.getBlockingBrowsers(widelyStatus, target, releaseDates, now)).toEqual([]);
+    });
+
+    it('should fall back to the browsers that shipped last when release dates lag behind', () => {
+      const target = BaselineTargetResolver.parse('widely');
+      const later = new Date(Date.UTC(2026, 9, 1));
+      expect(BaselineTargetResolver.getBlockingBrowsers(newlyStatus, target, releaseDates, later)).toEqual(['safari', 'safari_ios']);
+      expect(BaselineTargetResolver.getBlockingBrowsers(newlyStatus, target)).toHaveLength(7);
+    });
+
+    it('should list browsers that shipped after the target year for year targets', () => {
+      const target = BaselineTargetResolver.parse('2023');
+      expect(BaselineTargetResolver.getBlockingBrowsers(newlyStatus, target, releaseDates)).toEqual([
+        'firefox', 'firefox_android', 'safari', 'safari_ios'
+      ]);
+      expect(BaselineTargetResolver.getBlockingBrowsers(limitedStatus, target)).toEqual([
+        'firefox', 'firefox_android', 'safari', 'safari_ios'
+      ]);
+      expect(BaselineTargetResolver.getBlockingBrowsers(widelyStatus, target)).toEqual([]);
+    });
+
+    it('should list browsers whose targeted version predates support', () => {
+      const target = BaselineTargetResolver.parse('chrome 110, safari 17');
+      expect(BaselineTargetResolver.getBlockingBrowsers(newlyStatus, target)).toEqual(['chrome', 'safari']);
+    });
+
+    it('should agree with isSupported for every target', () => {
+      const targets = ['widely', 'newly', '2023', 'chrome 110, safari 17'].map(value => BaselineTargetResolver.parse(value));
+      for (const target of targets) {
+        for (const status of [widelyStatus, newlyStatus, limitedStatus]) {
+          const blocking = BaselineTargetResolver.getBlockingBrowsers(status, target, releaseDates, now);
+          expect(blocking.length === 0).toBe(BaselineTargetResolver.isSupported(status, target));
+        }
+      }
+    });
+  });
+
+  describe('addMonths', () => {
+    it('should clamp the day to the length of the resulting month', () => {
+      const add = (date: string, months: number) =>
+        BaselineTargetResolver.addMonths(new Date(`${date}T00:00:00Z`), months).toISOString().slice(0, 10);
+      expect(add('2023-08-31', 30)).toBe('2026-02-28');
+      expect(add('2026-08-31', -30)).toBe('2024-02-29');
+      expect(add('2024-04-16', 30)).toBe('2026-10-16');
+    });
+  });
+});
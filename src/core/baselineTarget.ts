@@ -0,0 +1,264 @@
+import browserslist from 'browserslist';
+import type { FeatureStatus } from './baselineData';
+
+/**
+ * Browsers that make up the Baseline core browser set, keyed by web-features browser ID
+ */
+export const CORE_BROWSERS = [
+  'chrome',
+  'chrome_android',
+  'edge',
+  'firefox',
+  'firefox_android',
+  'safari',
+  'safari_ios'
+] as const;
+
+export type CoreBrowserId = typeof CORE_BROWSERS[number];
+
+/**
+ * Display names for the Baseline core browser set
+ */
+export const CORE_BROWSER_NAMES: Record<CoreBrowserId, string> = {
+  'chrome': 'Chrome',
+  'chrome_android': 'Chrome Android',
+  'edge': 'Edge',
+  'firefox': 'Firefox',
+  'firefox_android': 'Firefox for Android',
+  'safari': 'Safari',
+  'safari_ios': 'Safari on iOS'
+};
+
+/**
+ * Maps browserslist browser names to web-features browser IDs
+ */
+const BROWSERSLIST_TO_WEB_FEATURES: Record<string, CoreBrowserId> = {
+  'chrome': 'chrome',
+  'and_chr': 'chrome_android',
+  'edge': 'edge',
+  'firefox': 'firefox',
+  'and_ff': 'firefox_android',
+  'safari': 'safari',
+  'ios_saf': 'safari_ios'
+};
+
+/**
+ * Interface representing the browser target all Baseline checks are evaluated against
+ */
+export interface BaselineTarget {
+  kind: 'widely' | 'newly' | 'year' | 'browserslist';
+  /** The raw setting value, e.g. "widely", "2023" or "> 0.5%, last 2 versions" */
+  value: string;
+  /** Human-readable label for UI surfaces */
+  label: string;
+  /** Baseline year for "year" targets */
+  year?: number;
+  /** Minimum version per core browser for "browserslist" targets */
+  minimumVersions?: Partial<Record<CoreBrowserId, string>>;
+}
+
+/**
+ * Months after Baseline Newly Available at which a feature becomes Widely Available
+ */
+export const WIDELY_AVAILABLE_MONTHS = 30;
+
+/**
+ * Release date (YYYY-MM-DD) of each version of the core browsers, keyed by web-features browser ID
+ */
+export type BrowserReleaseDates = Partial<Record<CoreBrowserId, Record<string, string>>>;
+
+/**
+ * Default target, equivalent to treating both Newly and Widely Available features as supported
+ */
+export const DEFAULT_BASELINE_TARGET = 'newly';
+
+/**
+ * Parses and evaluates the configured Baseline target
+ * Supports "widely", "newly", a Baseline year (e.g. "2022") or a browserslist query
+ */
+export class BaselineTargetResolver {
+  /**
+   * Parses a target setting value
+   * @param value Setting value ("widely", "newly", a year or a browserslist query)
+   * @returns Parsed target
+   * @throws Error if the browserslist query is invalid or matches no core browsers
+   */
+  public static parse(value: string | undefined): BaselineTarget {
+    const normalized = (value || DEFAULT_BASELINE_TARGET).trim();
+    const lower = normalized.toLowerCase();
+
+    if (lower === 'widely' || lower === 'high') {
+      return { kind: 'widely', value: normalized, label: 'Baseline Widely Available' };
+    }
+
+    if (lower === 'newly' || lower === 'low') {
+      return { kind: 'newly', value: normalized, label: 'Baseline Newly Available' };
+    }
+
+    if (/^\d{4}$/.test(normalized)) {
+      const year = parseInt(normalized, 10);
+      return { kind: 'year', value: normalized, label: `Baseline ${year}`, year };
+    }
+
+    return {
+      kind: 'browserslist',
+      value: normalized,
+      label: `browserslist: ${normalized}`,
+      minimumVersions: this.resolveBrowserslistQuery(normalized)
+    };
+  }
+
+  /**
+   * Checks whether a feature status satisfies the target
+   * @param status Feature (or compat key) status from web-features
+   * @param target Target to evaluate against
+   * @returns true if the feature is supported by the target
+   */
+  public static isSupported(status: FeatureStatus, target: BaselineTarget): boolean {
+    const baseline = status.baseline;
+
+    switch (target.kind) {
+      case 'widely':
+        return baseline === 'high';
+
+      case 'newly':
+        return baseline === true || baseline === 'high' || baseline === 'low';
+
+      case 'year': {
+        if (baseline !== 'high' && baseline !== 'low') {
+          return false;
+        }
+        const lowYear = this.getYear(status.baseline_low_date);
+        return lowYear !== undefined && lowYear <= target.year!;
+      }
+
+      case 'browserslist':
+        return this.getBlockingBrowsers(status, target).length === 0;
+    }
+  }
+
+  /**
+   * Gets the core browsers that prevent a feature from meeting the target
+   * For Baseline targets these are the browsers without any support or, when every browser supports
+   * the feature, the browsers that shipped it after the target's cutoff (30 months ago for widely,
+   * the end of the year for year targets); for browserslist targets these are the browsers whose
+   * targeted minimum version predates support. The list is empty exactly when isSupported is true
+   * @param status Feature status from web-features
+   * @param target Target to evaluate against
+   * @param releaseDates Release dates of browser versions, used to find the browsers that shipped too recently
+   * @param now Current date, for the widely cutoff
+   * @returns web-features browser IDs blocking the target
+   */
+  public static getBlockingBrowsers(
+    status: FeatureStatus,
+    target: BaselineTarget,
+    releaseDates: BrowserReleaseDates = {},
+    now: Date = new Date()
+  ): CoreBrowserId[] {
+    const support = status.support || {};
+
+    if (target.kind === 'browserslist') {
+      const blocking: CoreBrowserId[] = [];
+      for (const [browser, minimumVersion] of Object.entries(target.minimumVersions || {}) as [CoreBrowserId, string][]) {
+        const supportedSince = support[browser];
+        if (!supportedSince || this.compareVersions(supportedSince, minimumVersion) > 0) {
+          blocking.push(browser);
+        }
+      }
+      return blocking;
+    }
+
+    if (this.isSupported(status, target)) {
+      return [];
+    }
+
+    const unsupported = CORE_BROWSERS.filter(browser => !support[browser]);
+    if (unsupported.length > 0 || target.kind === 'newly') {
+      return unsupported;
+    }
+
+    // Every browser supports the feature, but some only since after the cutoff
+    const cutoff = target.kind === 'widely'
+      ? this.addMonths(now, -WIDELY_AVAILABLE_MONTHS).toISOString().slice(0, 10)
+      : `${target.year! + 1}-01-01`;
+    const shippedOn = (browser: CoreBrowserId) => releaseDates[browser]?.[support[browser]!.replace(/^≤/, '')];
+    const recent = CORE_BROWSERS.filter(browser => (shippedOn(browser) ?? '') >= cutoff);
+    if (recent.length > 0) {
+      return recent;
+    }
+
+    // Without release dates (or when the data lags behind), blame the browsers that shipped last
+    const latest = CORE_BROWSERS.map(shippedOn).filter(Boolean).sort().pop();
+    return latest ? CORE_BROWSERS.filter(browser => shippedOn(browser) === latest) : [...CORE_BROWSERS];
+  }
+
+  /**
+   * Adds calendar months to a date, clamping the day to the length of the resulting month
+   * (2023-08-31 plus 6 months is 2024-02-29, not 2024-03-02)
+   * @param date Date to start from, read in UTC
+   * @param months Months to add, negative to subtract
+   * @returns New date at midnight UTC
+   */
+  public static addMonths(date: Date, months: number): Date {
+    const result = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+    result.setUTCDate(Math.min(date.getUTCDate(), daysInMonth));
+    return result;
+  }
+
+  /**
+   * Resolves a browserslist query to the oldest targeted version of each core browser
+   * @param query browserslist query
+   * @returns Minimum version per web-features browser ID
+   */
+  private static resolveBrowserslistQuery(query: string): Partial<Record<CoreBrowserId, string>> {
+    const minimumVersions: Partial<Record<CoreBrowserId, string>> = {};
+
+    for (const entry of browserslist(query)) {
+      const [name, versionRange] = entry.split(' ');
+      const browser = BROWSERSLIST_TO_WEB_FEATURES[name];
+      if (!browser || !versionRange) {
+        continue;
+      }
+
+      // Ranges like "16.4-16.5" start at their first version
+      const version = versionRange.split('-')[0];
+      const current = minimumVersions[browser];
+      if (!current || this.compareVersions(version, current) < 0) {
+        minimumVersions[browser] = version;
+      }
+    }
+
+    if (Object.keys(minimumVersions).length === 0) {
+      throw new Error(`browserslist query "${query}" does not match any Baseline core browsers`);
+    }
+
+    return minimumVersions;
+  }
+
+  /**
+   * Compares two browser versions; "≤" prefixed versions compare as their upper bound
+   * @returns Negative if a < b, zero if equal, positive if a > b
+   */
+  private static compareVersions(a: string, b: string): number {
+    const partsA = a.replace(/^≤/, '').split('.').map(part => parseInt(part, 10) || 0);
+    const partsB = b.replace(/^≤/, '').split('.').map(part => parseInt(part, 10) || 0);
+    const length = Math.max(partsA.length, partsB.length);
+
+    for (let i = 0; i < length; i++) {
+      const diff = (partsA[i] || 0) - (partsB[i] || 0);
+      if (diff !== 0) {
+        return diff;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Extracts the year from a web-features date (e.g. "2023-02-14" or "≤2020-01-15")
+   */
+  private static getYear(date: string | undefined): number | undefined {
+    const match = date?.match(/(\d{4})/);
+    return match ? parseInt(match[1], 10) : undefined;
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { ComponentBlocks } from './componentBlocks';
+import { HtmlParser } from './htmlParser';
+
+describe('ComponentBlocks', () => {
+  const rangeOf = (result: { locations: Map<string, any[]> }, featureId: string) => {
+    const range = result.locations.get(featureId)?.[0];
+    return range && [range.start.line, range.start.character, range.end.line, range.end.character];
+  };
+
+  describe('getFramework', () => {
+    it('should detect components by language ID or extension', () => {
+      expect(ComponentBlocks.getFramework({ languageId: 'svelte' })).toBe('svelte');
+      expect(ComponentBlocks.getFramework({ uri: { fsPath: '/app/src/App.vue' } })).toBe('vue');
+      expect(ComponentBlocks.getFramework({ languageId: 'html', uri: { fsPath: '/app/index.html' } })).toBeUndefined();
+      expect(ComponentBlocks.getFramework()).toBeUndefined();
+    });
+  });
+
+  describe('Vue', () => {
+    const vue = [
+      '<template>',
+      '  <dialog open>{{ message }}</dialog>',
+      '</template>',
+      '<script setup lang="ts">',
+      'const last: string | undefined = items.at(-1) ?? fallback;',
+      '</script>',
+      '<style scoped lang="scss">',
+      '$gap: 1rem;',
+      '.card { &:has(img) { gap: $gap; } }',
+      '</style>'
+    ].join('\n');
+
+    it('should route the template, script and style blocks to their parsers', () => {
+      const result = HtmlParser.parseHtml(vue, { languageId: 'vue' });
+
+      expect(result.features).toContain('html.elements.dialog');
+      expect(result.features).not.toContain('html.elements.template');
+      expect(rangeOf(result, 'javascript.operators.nullish_coalescing')).toEqual([4, 46, 4, 48]);
+      expect(rangeOf(result, 'css.selectors.has')).toEqual([8, 9, 8, 13]);
+    });
+
+    it('should skip templates written in another language', () => {
+      const result = HtmlParser.parseHtml('<template lang="pug">\n  dialog(open)\n</template>', { languageId: 'vue' });
+
+      expect(result.features).toEqual([]);
+    });
+  });
+
+  describe('Svelte', () => {
+    it('should parse the markup with its script and style blocks', () => {
+      const svelte = '<script lang="ts">\n  const data = structuredClone(props);\n</script>\n\n<dialog>{data.title}</dialog>\n\n<style>\n  p { text-wrap: balance; }\n</style>';
+      const result = HtmlParser.parseHtml(svelte, { uri: { fsPath: '/app/src/Card.svelte' } });
+
+      expect(result.features).toEqual(expect.arrayContaining(['api.structuredClone', 'html.elements.dialog']));
+      expect(rangeOf(result, 'css.properties.text-wrap.balance')).toEqual([7, 17, 7, 24]);
+    });
+  });
+
+  describe('Astro', () => {
+    it('should parse the frontmatter as TypeScript', () => {
+      const astro = '---\nconst posts = Object.groupBy(all, post => post.tag);\n---\n<dialog open></dialog>';
+      const { markup, regions } = ComponentBlocks.extract(astro, 'astro');
+
+      expect(markup.length).toBe(astro.length);
+      expect(regions).toEqual([expect.objectContaining({ languageId: 'typescript', line: 1, character: 0 })]);
+
+      const result = HtmlParser.parseHtml(astro, { languageId: 'astro' });
+      expect(rangeOf(result, 'javascript.builtins.Object.groupBy')).toEqual([1, 14, 1, 51]);
+      expect(result.features).toContain('html.elements.dialog');
+    });
+  });
+});
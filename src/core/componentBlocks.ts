@@ -0,0 +1,101 @@
+import { parseFragment } from 'parse5';
+import type { Element } from 'parse5/dist/tree-adapters/default';
+import type { EmbeddedRegion } from './embeddedContent';
+import { LineIndex } from './lineIndex';
+
+/**
+ * Single-file component formats whose markup, styles and scripts are checked
+ */
+export type ComponentFramework = 'vue' | 'svelte' | 'astro';
+
+const COMPONENT_FRAMEWORKS: ComponentFramework[] = ['vue', 'svelte', 'astro'];
+
+/**
+ * Component markup ready for HtmlParser, plus blocks it cannot see
+ */
+export interface ComponentBlocksResult {
+  /** Component content with non-HTML wrappers blanked out, so offsets still match the file */
+  markup: string;
+  /** Blocks outside the markup, e.g. Astro frontmatter */
+  regions: EmbeddedRegion[];
+}
+
+/**
+ * ComponentBlocks splits Vue, Svelte and Astro components into HTML markup and embedded blocks
+ * `<style>` and `<script>` blocks stay in the markup, where HtmlParser routes them by their `lang`
+ */
+export class ComponentBlocks {
+  /**
+   * Gets the component format of a document
+   * @param document Optional VS Code document, or an object with a `uri.fsPath`
+   * @returns Component format, or undefined for other documents
+   */
+  public static getFramework(document?: any): ComponentFramework | undefined {
+    const languageId = document?.languageId;
+    if (COMPONENT_FRAMEWORKS.includes(languageId)) {
+      return languageId;
+    }
+
+    const extension = String(document?.uri?.fsPath ?? '').toLowerCase().match(/\.(vue|svelte|astro)$/);
+    return extension ? extension[1] as ComponentFramework : undefined;
+  }
+
+  /**
+   * Extracts the markup and embedded blocks of a component
+   * - Vue: the `<template>` wrapper is dropped, and templates in other languages (e.g. Pug) are skipped
+   * - Astro: the `---` frontmatter is a TypeScript block
+   * - Svelte: the whole file is markup
+   * @param content Component content
+   * @param framework Component format
+   * @returns Markup and embedded blocks, positioned in the component file
+   */
+  public static extract(content: string, framework: ComponentFramework): ComponentBlocksResult {
+    const blanked: Array<[number, number]> = [];
+    const regions: EmbeddedRegion[] = [];
+
+    if (framework === 'astro') {
+      const frontmatter = content.match(/^(\s*---[^\S\r\n]*\r?\n)([\s\S]*?)\r?\n---/);
+      if (frontmatter) {
+        const { line, character } = new LineIndex(content).positionAt(frontmatter[1].length);
+        regions.push({ languageId: 'typescript', content: frontmatter[2], line, character });
+        blanked.push([0, frontmatter[0].length]);
+      }
+    }
+
+    if (framework === 'vue') {
+      for (const node of parseFragment(content, { sourceCodeLocationInfo: true }).childNodes) {
+        const location = (node as Element).sourceCodeLocation;
+        if (node.nodeName !== 'template' || !location?.startTag) {
+          continue;
+        }
+
+        const lang = (node as Element).attrs.find(attr => attr.name === 'lang')?.value.toLowerCase();
+        const end = location.endTag?.endOffset ?? location.endOffset;
+        if (lang && lang !== 'html') {
+          blanked.push([location.startTag.startOffset, end]);
+        } else {
+          blanked.push([location.startTag.startOffset, location.startTag.endOffset]);
+          if (location.endTag) {
+            blanked.push([location.endTag.startOffset, location.endTag.endOffset]);
+          }
+        }
+      }
+    }
+
+    return { markup: this.blank(content, blanked), regions };
+  }
+
+  /**
+   * Replaces spans of content with spaces, keeping line breaks so offsets and lines still match
+   * @param content Source content
+   * @param spans Start and end offsets of the spans to blank
+   * @returns Content with the spans blanked
+   */
+  private static blank(content: string, spans: Array<[number, number]>): string {
+    let result = content;
+    for (const [start, end] of spans) {
+      result = result.slice(0, start) + result.slice(start, end).replace(/[^\r\n]/g, ' ') + result.slice(end);
+    }
+    return result;
+  }
+}
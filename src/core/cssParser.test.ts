@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { CssParser } from './cssParser';
+import { SuppressionParser } from './suppressions';
 
 describe('CssParser', () => {
   beforeEach(() => {
@@ -36,6 +37,124 @@ describe('CssParser', () => {
     });
   });
 
+  describe('value and selector features', () => {
+    const document = { uri: { fsPath: 'test.css' } };
+    const rangeOf = (result: ReturnType<typeof CssParser.parseCss>, featureId: string) =>
+      (result.locations.get(featureId) || []).map(range =>
+        [range.start.line, range.start.character, range.end.line, range.end.character]);
+
+    it('should report functions, units and keywords at their position in the value', () => {
+      const css = [
+        '.a {',
+        '  color: color-mix(in oklch, oklch(70% 0.1 200), white);',
+        '  font-size: clamp(1rem, 4cqi, 2rem);',
+        '  display: contents;',
+        '  grid-template-columns: /* inherit tracks */ subgrid;',
+        '  text-wrap: balance;',
+        '}'
+      ].join('\n');
+      const result = CssParser.parseCss(css, document);
+
+      expect(rangeOf(result, 'css.types.color.color-mix')).toEqual([[1, 9, 1, 18]]);
+      expect(rangeOf(result, 'css.types.color.oklch')).toEqual([[1, 29, 1, 34]]);
+      expect(rangeOf(result, 'css.types.clamp')).toEqual([[2, 13, 2, 18]]);
+      expect(rangeOf(result, 'css.types.length.container_query_length_units')).toEqual([[2, 25, 2, 29]]);
+      expect(rangeOf(result, 'css.properties.display.contents')).toEqual([[3, 11, 3, 19]]);
+      expect(rangeOf(result, 'css.properties.grid-template-columns.subgrid')).toEqual([[4, 46, 4, 53]]);
+      expect(rangeOf(result, 'css.properties.text-wrap.balance')).toEqual([[5, 13, 5, 20]]);
+    });
+
+    it('should report pseudo-classes and nesting at their position in the selector', () => {
+      const css = [
+        '.card:has(> img),',
+        '  :is(h1, h2) :where(.x) {',
+        '  & .title { color: red; }',
+        '  .body { color: blue; }',
+        '}'
+      ].join('\n');
+      const result = CssParser.parseCss(css, document);
+
+      expect(rangeOf(result, 'css.selectors.has')).toEqual([[0, 5, 0, 9]]);
+      expect(rangeOf(result, 'css.selectors.is')).toEqual([[1, 2, 1, 5]]);
+      expect(rangeOf(result, 'css.selectors.where')).toEqual([[1, 14, 1, 20]]);
+      expect(rangeOf(result, 'css.selectors.nesting')).toEqual([[2, 2, 2, 3], [3, 2, 3, 7]]);
+    });
+
+    it('should leave ordinary values and selectors alone', () => {
+      const result = CssParser.parseCss('.a:hover > b { display: flex; width: calc(100% - 10px); }', document);
+
+      expect(result.features).toEqual([]);
+    });
+
+    it('should treat matching @supports conditions as guards', () => {
+      const css = '@supports selector(:has(a)) and (display: contents) {\n  .a:has(b) { display: contents; }\n}';
+      const result = CssParser.parseCss(css, document);
+
+      expect(result.guarded?.get('css.selectors.has')).toHaveLength(1);
+      expect(result.guarded?.get('css.properties.display.contents')).toHaveLength(1);
+    });
+  });
+
+  describe('preprocessor syntaxes', () => {
+    const featuresOf = (content: string, fsPath: string) => CssParser.parseCss(content, { uri: { fsPath } });
+
+    it('should pick the syntax from the language ID or file extension', () => {
+      expect(CssParser.getSyntax({ languageId: 'scss', uri: { fsPath: 'a.css' } })).toBe('scss');
+      expect(CssParser.getSyntax({ uri: { fsPath: 'styles/theme.LESS' } })).toBe('less');
+      expect(CssParser.getSyntax({ languageId: 'css', uri: { fsPath: 'a.css' } })).toBe('css');
+      expect(CssParser.getSyntax()).toBe('css');
+    });
+
+    it('should parse SCSS with // comments and directives without reporting the directives', () => {
+      const scss = [
+        '// baseline-ignore-next-line',
+        '$gap: clamp(1rem, 2vw, 2rem);',
+        '@mixin card($radius) { border-radius: $radius; }',
+        '.card {',
+        '  @include card(4px);',
+        '  .title { text-wrap: balance; }',
+        '  &:has(img) { container-type: inline-size; }',
+        '}'
+      ].join('\n');
+      const result = SuppressionParser.applySuppressions(featuresOf(scss, 'card.scss'));
+
+      expect(result.features).toEqual(['css.properties.text-wrap.balance', 'css.properties.container-type', 'css.selectors.has']);
+      expect(result.locations.get('css.properties.container-type')![0].start).toEqual({ line: 6, character: 15 });
+    });
+
+    it('should parse indented Sass including mixin shorthands', () => {
+      const sass = [
+        '=rounded($radius)',
+        '  border-radius: $radius',
+        '.card',
+        '  +rounded(4px)',
+        '  aspect-ratio: 16 / 9',
+        '  + .sibling',
+        '    float: left'
+      ].join('\n');
+      const result = featuresOf(sass, 'card.sass');
+
+      expect(result.features).toEqual(['css.properties.aspect-ratio', 'css.properties.float']);
+      expect(result.locations.get('css.properties.aspect-ratio')![0].start).toEqual({ line: 4, character: 2 });
+    });
+
+    it('should parse Less variables, mixins and guards', () => {
+      const less = [
+        '@width: 10px;',
+        '.bordered(@w) when (@w > 0) { border: @w solid; }',
+        '.card {',
+        '  // a comment',
+        '  .bordered(@width);',
+        '  @media (min-width: @width) { backdrop-filter: blur(2px); }',
+        '}'
+      ].join('\n');
+      const result = featuresOf(less, 'card.less');
+
+      expect(result.features).toEqual(['css.properties.backdrop-filter', 'css.at-rules.media']);
+      expect(result.locations.get('css.properties.backdrop-filter')![0].start).toEqual({ line: 5, character: 31 });
+    });
+  });
+
   describe('mapCssPropertyToFeatureId', () => {
     it('should map known CSS properties to feature IDs', () => {
       expect(CssParser['mapCssPropertyToFeatureId']('gap')).toBe('css.properties.gap');
@@ -1,5 +1,14 @@
 import * as postcss from 'postcss';
+import * as postcssScss from 'postcss-scss';
+import * as postcssLess from 'postcss-less';
+import * as sugarss from 'sugarss';
+import valueParser from 'postcss-value-parser';
+import selectorParser from 'postcss-selector-parser';
 import { ErrorHandler } from './errorHandler';
+import { SuppressionDirective, SuppressionParser } from './suppressions';
+import { FeatureGuard, FeatureGuards } from './featureGuards';
+import { LineIndex } from './lineIndex';
+import type { ParseOptions } from './projectConfig';
 
 // Make vscode import optional for testing
 let vscode: any;
@@ -20,8 +29,77 @@ try {
 export interface CssParseResult {
   features: string[];
   locations: Map<string, any[]>; // Use any for VS Code Range to avoid import issues in tests
+  suppressions?: SuppressionDirective[];
+  guarded?: Map<string, any[]>;
 }
 
+/**
+ * Stylesheet syntaxes the parser understands
+ */
+export type CssSyntax = 'css' | 'scss' | 'sass' | 'less';
+
+/**
+ * A feature found in a value or selector, with source offsets
+ */
+interface CssUsage {
+  featureId: string;
+  /** Function name, unit, keyword, pseudo-class or "&" that was matched */
+  name: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * CSS functions that are features of their own
+ */
+const VALUE_FUNCTION_FEATURES: Record<string, string> = {
+  'color-mix': 'css.types.color.color-mix',
+  'oklch': 'css.types.color.oklch',
+  'oklab': 'css.types.color.oklab',
+  'clamp': 'css.types.clamp'
+};
+
+/**
+ * Keyword values that are features of their own, per property
+ */
+const PROPERTY_VALUE_FEATURES: Record<string, Record<string, string>> = {
+  'display': { 'contents': 'css.properties.display.contents' },
+  'grid-template-columns': { 'subgrid': 'css.properties.grid-template-columns.subgrid' },
+  'grid-template-rows': { 'subgrid': 'css.properties.grid-template-rows.subgrid' },
+  'text-wrap': {
+    'balance': 'css.properties.text-wrap.balance',
+    'pretty': 'css.properties.text-wrap.pretty'
+  }
+};
+
+/**
+ * Container query length units
+ */
+const CONTAINER_QUERY_UNITS = new Set(['cqw', 'cqh', 'cqi', 'cqb', 'cqmin', 'cqmax']);
+
+/**
+ * Preprocessor directives that are compiled away rather than shipped as CSS at-rules
+ */
+const SASS_DIRECTIVES = new Set([
+  'use', 'forward', 'import', 'mixin', 'include', 'content', 'function', 'return', 'extend',
+  'if', 'else', 'each', 'for', 'while', 'at-root', 'debug', 'warn', 'error'
+]);
+const PREPROCESSOR_AT_RULES: Record<CssSyntax, Set<string>> = {
+  'css': new Set(),
+  'scss': SASS_DIRECTIVES,
+  'sass': SASS_DIRECTIVES,
+  'less': new Set(['plugin'])
+};
+
+/**
+ * Pseudo-classes that are features of their own
+ */
+const PSEUDO_CLASS_FEATURES: Record<string, string> = {
+  ':has': 'css.selectors.has',
+  ':is': 'css.selectors.is',
+  ':where': 'css.selectors.where'
+};
+
 export class CssParser {
   private static errorHandler = ErrorHandler.getInstance();
 
@@ -29,11 +107,14 @@ export class CssParser {
    * Parses CSS content and extracts web platform features
    * @param content CSS content to parse
    * @param document Optional VS Code document for position mapping
+   * @param options Optional project-specific parse options
    * @returns Array of web-features IDs found in the CSS
    */
-  public static parseCss(content: string, document?: any): CssParseResult {
+  public static parseCss(content: string, document?: any, options?: ParseOptions): CssParseResult {
     const features: string[] = [];
     const locations = new Map<string, any[]>();
+    const suppressions: SuppressionDirective[] = [];
+    const guarded = new Map<string, any[]>();
 
     try {
       // Validate input
@@ -42,11 +123,30 @@ export class CssParser {
         return { features: [], locations: new Map() };
       }
 
-      const root = postcss.parse(content);
+      const syntax = this.getSyntax(document);
+      const { root, shorthandOffsets } = this.parseStylesheet(content, syntax);
+
+      // Built on first use, for ranges inside values and selectors
+      let lineIndex: LineIndex | undefined;
+      const recordUsage = (usage: CssUsage, isGuarded: (guard: FeatureGuard) => boolean, node: postcss.Node) => {
+        if (!features.includes(usage.featureId)) {
+          features.push(usage.featureId);
+        }
+        if (!document) {
+          return;
+        }
+
+        lineIndex ??= new LineIndex(content);
+        const range = this.getOffsetRange(lineIndex, usage.start, usage.end);
+        this.addLocation(locations, usage.featureId, range);
+        if (this.getSupportsGuards(node).some(isGuarded)) {
+          this.addLocation(guarded, usage.featureId, range);
+        }
+      };
       
       root.walkDecls((decl) => {
         const property = decl.prop;
-        const featureId = this.mapCssPropertyToFeatureId(property);
+        const featureId = options?.mappings?.cssProperties?.[property] ?? this.mapCssPropertyToFeatureId(property);
         
         if (featureId && !features.includes(featureId)) {
           features.push(featureId);
@@ -60,13 +160,35 @@ export class CssParser {
               locations.set(featureId, []);
             }
             locations.get(featureId)!.push(range);
+
+            // Declarations inside a matching @supports block are progressive enhancement
+            if (this.getSupportsGuards(decl).some(guard => FeatureGuards.guardsCssProperty(guard, property))) {
+              this.addLocation(guarded, featureId, range);
+            }
           }
         }
+
+        // Values such as color-mix(), 10cqi or display: contents
+        for (const usage of this.findValueFeatures(decl)) {
+          recordUsage(usage, guard => FeatureGuards.guardsCssProperty(guard, property), decl);
+        }
+      });
+
+      // Selectors such as :has(), :is() and nesting
+      root.walkRules((rule) => {
+        // Preprocessors compile nested rules to flat selectors, so only plain CSS uses native nesting
+        for (const usage of this.findSelectorFeatures(rule, syntax === 'css')) {
+          recordUsage(usage, guard => FeatureGuards.guardsCssSelector(guard, usage.name), rule);
+        }
       });
 
       // Also check at-rules for features like @supports, @container, etc.
       root.walkAtRules((atRule) => {
-        const featureId = this.mapAtRuleToFeatureId(atRule.name);
+        if (this.isPreprocessorAtRule(atRule, syntax, shorthandOffsets)) {
+          return;
+        }
+
+        const featureId = options?.mappings?.cssAtRules?.[atRule.name] ?? this.mapAtRuleToFeatureId(atRule.name);
         
         if (featureId && !features.includes(featureId)) {
           features.push(featureId);
@@ -80,10 +202,30 @@ export class CssParser {
               locations.set(featureId, []);
             }
             locations.get(featureId)!.push(range);
+
+            if (this.getSupportsGuards(atRule).some(guard => FeatureGuards.guardsCssAtRule(guard, atRule.name))) {
+              this.addLocation(guarded, featureId, range);
+            }
           }
         }
       });
 
+      // Collect baseline-ignore directives from comments
+      root.walkComments((comment) => {
+        const start = comment.source?.start;
+        if (!start) {
+          return;
+        }
+        const directive = SuppressionParser.parseComment(comment.text, {
+          startLine: start.line - 1,
+          endLine: (comment.source?.end?.line ?? start.line) - 1,
+          trailing: SuppressionParser.hasCodeBefore(content, start.offset)
+        });
+        if (directive) {
+          suppressions.push(directive);
+        }
+      });
+
     } catch (error) {
       // Handle CSS parsing errors gracefully
       this.errorHandler.handleParserError(
@@ -95,7 +237,213 @@ export class CssParser {
       return { features: [], locations: new Map() };
     }
 
-    return { features, locations };
+    return { features, locations, suppressions, guarded };
+  }
+
+  /**
+   * Determines the stylesheet syntax of a document from its language ID or file extension
+   * @param document Optional VS Code document, or any object with a `uri.fsPath`
+   * @returns Stylesheet syntax, plain CSS by default
+   */
+  public static getSyntax(document?: any): CssSyntax {
+    const languageId = document?.languageId;
+    if (languageId === 'scss' || languageId === 'sass' || languageId === 'less') {
+      return languageId;
+    }
+
+    const extension = String(document?.uri?.fsPath ?? '').toLowerCase().match(/\.(scss|sass|less)$/);
+    return extension ? extension[1] as CssSyntax : 'css';
+  }
+
+  /**
+   * Parses a stylesheet into a PostCSS AST, with the syntax detection used for feature detection
+   * @param content Stylesheet content
+   * @param document Optional VS Code document, for its stylesheet syntax
+   * @returns PostCSS root
+   * @throws CssSyntaxError if the content does not parse
+   */
+  public static parseAst(content: string, document?: any): postcss.Root {
+    return this.parseStylesheet(content, this.getSyntax(document)).root;
+  }
+
+  /**
+   * Parses a stylesheet with the PostCSS syntax matching its language
+   * Sass's `=mixin` and `+include` shorthands are rewritten to at-rules of the same length
+   * so that offsets still match the source
+   * @param content Stylesheet content
+   * @param syntax Stylesheet syntax
+   * @returns PostCSS root and the offsets of rewritten Sass shorthands
+   */
+  private static parseStylesheet(content: string, syntax: CssSyntax): { root: postcss.Root; shorthandOffsets: Set<number> } {
+    const shorthandOffsets = new Set<number>();
+
+    switch (syntax) {
+      case 'scss':
+        return { root: postcssScss.parse(content), shorthandOffsets };
+      case 'less':
+        return { root: postcssLess.parse(content), shorthandOffsets };
+      case 'sass': {
+        const rewritten = content.replace(/^([ \t]*)[=+](?=[\w-])/gm, (match, indent: string, offset: number) => {
+          shorthandOffsets.add(offset + indent.length);
+          return `${indent}@`;
+        });
+        return { root: sugarss.parse(rewritten), shorthandOffsets };
+      }
+      default:
+        return { root: postcss.parse(content), shorthandOffsets };
+    }
+  }
+
+  /**
+   * Checks whether an at-rule is a preprocessor construct rather than a CSS at-rule
+   * @param atRule PostCSS at-rule node
+   * @param syntax Stylesheet syntax
+   * @param shorthandOffsets Offsets of rewritten Sass `=mixin` and `+include` shorthands
+   * @returns true for Sass/SCSS directives, Less variables and mixin calls
+   */
+  private static isPreprocessorAtRule(atRule: postcss.AtRule, syntax: CssSyntax, shorthandOffsets: Set<number>): boolean {
+    if (PREPROCESSOR_AT_RULES[syntax].has(atRule.name.toLowerCase())) {
+      return true;
+    }
+    if (syntax === 'less') {
+      const lessNode = atRule as postcss.AtRule & { variable?: boolean; mixin?: boolean };
+      return Boolean(lessNode.variable || lessNode.mixin);
+    }
+    const start = atRule.source?.start?.offset;
+    return syntax === 'sass' && start !== undefined && shorthandOffsets.has(start);
+  }
+
+  /**
+   * Finds features used in a declaration's value
+   * @param decl PostCSS declaration node
+   * @returns Value features with their source offsets
+   */
+  private static findValueFeatures(decl: postcss.Declaration): CssUsage[] {
+    const start = decl.source?.start?.offset;
+    if (start === undefined) {
+      return [];
+    }
+
+    // The raw value keeps comments, so offsets line up with the source
+    const value = decl.raws.value?.raw ?? decl.value;
+    const valueStart = start + decl.prop.length + (decl.raws.between ?? ':').length;
+    const keywords = PROPERTY_VALUE_FEATURES[decl.prop.toLowerCase()];
+    const usages: CssUsage[] = [];
+
+    valueParser(value).walk((node) => {
+      const name = node.value.toLowerCase();
+      let featureId: string | undefined;
+      let length = node.value.length;
+
+      if (node.type === 'function') {
+        featureId = VALUE_FUNCTION_FEATURES[name];
+      } else if (node.type === 'word') {
+        const dimension = valueParser.unit(node.value);
+        if (dimension && CONTAINER_QUERY_UNITS.has(dimension.unit.toLowerCase())) {
+          featureId = 'css.types.length.container_query_length_units';
+        } else {
+          featureId = keywords?.[name];
+        }
+        length = node.sourceEndIndex - node.sourceIndex;
+      }
+
+      if (featureId) {
+        usages.push({ featureId, name, start: valueStart + node.sourceIndex, end: valueStart + node.sourceIndex + length });
+      }
+    });
+
+    return usages;
+  }
+
+  /**
+   * Finds features used in a rule's selector
+   * Rules nested in another style rule use CSS nesting even without an explicit "&"
+   * @param rule PostCSS rule node
+   * @param reportNesting Whether nesting is native CSS nesting
+   * @returns Selector features with their source offsets
+   */
+  private static findSelectorFeatures(rule: postcss.Rule, reportNesting: boolean): CssUsage[] {
+    const start = rule.source?.start?.offset;
+    if (start === undefined) {
+      return [];
+    }
+
+    const selector = rule.raws.selector?.raw ?? rule.selector;
+    let ast: selectorParser.Root;
+    try {
+      ast = selectorParser().astSync(selector);
+    } catch {
+      // Selectors the parser cannot read are skipped rather than failing the whole file
+      return [];
+    }
+
+    const usages: CssUsage[] = [];
+    ast.walkPseudos((pseudo) => {
+      const name = pseudo.value.toLowerCase();
+      const featureId = PSEUDO_CLASS_FEATURES[name];
+      if (featureId) {
+        const offset = start + (pseudo.sourceIndex ?? 0);
+        usages.push({ featureId, name, start: offset, end: offset + pseudo.value.length });
+      }
+    });
+    if (!reportNesting) {
+      return usages;
+    }
+
+    ast.walkNesting((nesting) => {
+      const offset = start + (nesting.sourceIndex ?? 0);
+      usages.push({ featureId: 'css.selectors.nesting', name: '&', start: offset, end: offset + 1 });
+    });
+
+    if (rule.parent?.type === 'rule' && !usages.some(usage => usage.name === '&')) {
+      usages.push({ featureId: 'css.selectors.nesting', name: '&', start, end: start + selector.length });
+    }
+
+    return usages;
+  }
+
+  /**
+   * Gets the VS Code range between two source offsets
+   * @param lineIndex Line index of the source
+   * @param start Start offset
+   * @param end End offset
+   * @returns VS Code range
+   */
+  private static getOffsetRange(lineIndex: LineIndex, start: number, end: number): any {
+    const toPosition = (offset: number) => {
+      const { line, character } = lineIndex.positionAt(offset);
+      return new vscode.Position(line, character);
+    };
+
+    return new vscode.Range(toPosition(start), toPosition(end));
+  }
+
+  /**
+   * Collects the guards of every `@supports` block enclosing a node
+   * @param node PostCSS node
+   * @returns Guards from the enclosing `@supports` conditions, innermost first
+   */
+  private static getSupportsGuards(node: postcss.Node): FeatureGuard[] {
+    const guards: FeatureGuard[] = [];
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (parent.type === 'atrule' && (parent as postcss.AtRule).name.toLowerCase() === 'supports') {
+        guards.push(FeatureGuards.parseSupportsCondition((parent as postcss.AtRule).params));
+      }
+    }
+    return guards;
+  }
+
+  /**
+   * Adds a location to a per-feature location map
+   * @param map Location map
+   * @param featureId Feature the location belongs to
+   * @param range VS Code range
+   */
+  private static addLocation(map: Map<string, any[]>, featureId: string, range: any): void {
+    if (!map.has(featureId)) {
+      map.set(featureId, []);
+    }
+    map.get(featureId)!.push(range);
   }
 
   /**
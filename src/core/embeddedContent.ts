@@ -0,0 +1,129 @@
+import type { SuppressionDirective } from './suppressions';
+
+// Make vscode import optional for testing
+let vscode: any;
+try {
+  vscode = require('vscode');
+} catch {
+  // Use mock for testing
+  vscode = {
+    Position: class Position {
+      constructor(public line: number, public character: number) {}
+    },
+    Range: class Range {
+      constructor(public start: any, public end: any) {}
+    }
+  };
+}
+
+/**
+ * Stylesheet or script embedded in another document, e.g. a `<style>` block in HTML
+ */
+export interface EmbeddedRegion {
+  /** VS Code language ID of the region, e.g. "css" or "typescript" */
+  languageId: string;
+  content: string;
+  /** Zero-based line the content starts on in the enclosing document */
+  line: number;
+  /** Zero-based character the content starts at on its first line */
+  character: number;
+}
+
+/**
+ * Features found in embedded regions, with ranges in the enclosing document
+ */
+export interface EmbeddedParseResult {
+  features: string[];
+  locations: Map<string, any[]>;
+  suppressions?: SuppressionDirective[];
+  guarded?: Map<string, any[]>;
+}
+
+/**
+ * EmbeddedContent maps parse results of regions of one language inside a document
+ * of another, e.g. CSS in HTML or in a JavaScript template literal, back onto the enclosing document
+ */
+export class EmbeddedContent {
+  /**
+   * Adds the features, locations and directives of one parse result to another
+   * @param target Result to add to
+   * @param source Result to add
+   */
+  public static mergeResult(target: EmbeddedParseResult, source: EmbeddedParseResult): void {
+    for (const featureId of source.features) {
+      if (!target.features.includes(featureId)) {
+        target.features.push(featureId);
+      }
+    }
+
+    this.mergeLocations(target.locations, source.locations);
+    if (source.guarded && source.guarded.size > 0) {
+      target.guarded ??= new Map();
+      this.mergeLocations(target.guarded, source.guarded);
+    }
+    if (source.suppressions && source.suppressions.length > 0) {
+      target.suppressions ??= [];
+      target.suppressions.push(...source.suppressions);
+    }
+  }
+
+  /**
+   * Appends every location of one map to another
+   * @param target Locations to add to
+   * @param source Locations to add
+   */
+  private static mergeLocations(target: Map<string, any[]>, source: Map<string, any[]>): void {
+    for (const [featureId, ranges] of source) {
+      if (!target.has(featureId)) {
+        target.set(featureId, []);
+      }
+      target.get(featureId)!.push(...ranges);
+    }
+  }
+
+  /**
+   * Moves the ranges and directives of a region's parse result to the region's place in its document
+   * Guarded locations keep their identity with the matching entries in `locations`
+   * @param result Parse result relative to the region
+   * @param region Region the result was parsed from
+   * @returns Parse result relative to the enclosing document
+   */
+  public static shiftResult(result: EmbeddedParseResult, region: EmbeddedRegion): EmbeddedParseResult {
+    const shifted = new Map<any, any>();
+    const shiftRanges = (ranges: Map<string, any[]>) => {
+      const moved = new Map<string, any[]>();
+      for (const [featureId, featureRanges] of ranges) {
+        moved.set(featureId, featureRanges.map(range => {
+          if (!shifted.has(range)) {
+            shifted.set(range, new vscode.Range(
+              this.shiftPosition(range.start, region),
+              this.shiftPosition(range.end, region)
+            ));
+          }
+          return shifted.get(range);
+        }));
+      }
+      return moved;
+    };
+
+    return {
+      features: [...result.features],
+      locations: shiftRanges(result.locations),
+      guarded: result.guarded && shiftRanges(result.guarded),
+      suppressions: result.suppressions?.map(directive => ({ ...directive, line: directive.line + region.line }))
+    };
+  }
+
+  /**
+   * Moves a region-relative position into the enclosing document
+   * @param position Position relative to the region
+   * @param region Region the position belongs to
+   * @returns Position in the enclosing document
+   */
+  private static shiftPosition(position: any, region: EmbeddedRegion): any {
+    return new vscode.Position(
+      position.line + region.line,
+      position.line === 0 ? position.character + region.character : position.character
+    );
+  }
+}
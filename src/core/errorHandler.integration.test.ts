@@ -28,6 +28,7 @@ vi.mock('vscode', () => ({
 
 // Mock web-features to simulate data loading scenarios
 vi.mock('web-features', () => ({
+  browsers: {},
   features: {
     'css.properties.gap': {
       name: 'CSS Gap Property',
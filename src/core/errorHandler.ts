@@ -1,4 +1,24 @@
-import * as vscode from 'vscode';
+import type * as vscodeApi from 'vscode';
+
+/**
+ * VS Code API when running inside the extension host. Resolved without a hard
+ * dependency so the core modules also run headless (e.g. from the CLI).
+ */
+let vscode: typeof vscodeApi | undefined;
+try {
+  vscode = require('vscode');
+} catch {
+  vscode = undefined;
+}
+
+/**
+ * Settles once the VS Code API has been resolved (or found to be unavailable)
+ */
+const vscodeReady: Promise<void> = vscode
+  ? Promise.resolve()
+  : import('vscode')
+    .then(module => { vscode = module; })
+    .catch(() => { vscode = undefined; });
 
 /**
  * Error categories for different types of errors in the extension
@@ -216,18 +236,25 @@ export class ErrorHandler {
   private async showUserNotification(errorInfo: ErrorInfo): Promise<void> {
     const message = this.formatUserMessage(errorInfo);
 
+    await vscodeReady;
+    const window = vscode?.window;
+    if (!window) {
+      // Headless: the error has already been logged
+      return;
+    }
+
     switch (errorInfo.severity) {
       case ErrorSeverity.CRITICAL:
-        await vscode.window.showErrorMessage(message, 'View Logs', 'Retry');
+        await window.showErrorMessage(message, 'View Logs', 'Retry');
         break;
       case ErrorSeverity.HIGH:
-        await vscode.window.showErrorMessage(message, 'View Logs');
+        await window.showErrorMessage(message, 'View Logs');
         break;
       case ErrorSeverity.MEDIUM:
-        await vscode.window.showWarningMessage(message);
+        await window.showWarningMessage(message);
         break;
       case ErrorSeverity.LOW:
-        await vscode.window.showInformationMessage(message);
+        await window.showInformationMessage(message);
         break;
     }
   }
@@ -300,36 +327,41 @@ export enum LogLevel {
  */
 export class Logger {
   private static instance: Logger;
-  private outputChannel: vscode.OutputChannel | { appendLine: (msg: string) => void; clear: () => void; show: () => void; dispose: () => void };
+  private outputChannel: vscodeApi.OutputChannel | undefined;
+  // Log methods already mirror every message to the console
+  private readonly consoleChannel = {
+    appendLine: (_msg: string) => {},
+    clear: () => {},
+    show: () => {},
+    dispose: () => {},
+  };
   private logLevel: LogLevel = LogLevel.INFO;
 
   /**
    * Private constructor to enforce singleton pattern
    */
   private constructor() {
-    // Some tests mock vscode without window or createOutputChannel; fall back to console
-    let oc: vscode.OutputChannel | undefined;
-    try {
-      const win: any = (vscode as any).window;
-      if (win && typeof win.createOutputChannel === 'function') {
-        oc = win.createOutputChannel('Baseline Sidekick') as vscode.OutputChannel;
+    this.getOutputChannel();
+  }
+
+  /**
+   * Get the output channel, creating it once the VS Code API is available
+   * Falls back to the console when running headless or under partial mocks
+   */
+  private getOutputChannel(): Pick<vscodeApi.OutputChannel, 'appendLine' | 'clear' | 'show' | 'dispose'> {
+    if (!this.outputChannel) {
+      try {
+        const win: any = vscode?.window;
+        if (win && typeof win.createOutputChannel === 'function') {
+          this.outputChannel = win.createOutputChannel('Baseline Sidekick') as vscodeApi.OutputChannel;
+        }
+      } catch {
+        // Accessing missing export on Vitest mocks can throw; ignore and use fallback
+        this.outputChannel = undefined;
       }
-    } catch {
-      // Accessing missing export on Vitest mocks can throw; ignore and use fallback
-      oc = undefined;
     }
 
-    if (oc) {
-      this.outputChannel = oc;
-    } else {
-      const consoleChannel = {
-        appendLine: (msg: string) => console.log(msg),
-        clear: () => {},
-        show: () => {},
-        dispose: () => {},
-      };
-      this.outputChannel = consoleChannel;
-    }
+    return this.outputChannel || this.consoleChannel;
   }
 
   /**
@@ -409,7 +441,7 @@ export class Logger {
     
     const logMessage = `[${timestamp}] ERROR [${errorInfo.category}:${errorInfo.severity}]${contextStr}: ${errorInfo.message}${stackTrace}`;
     
-  this.outputChannel.appendLine(logMessage);
+    this.getOutputChannel().appendLine(logMessage);
     console.error(logMessage);
   }
 
@@ -424,7 +456,7 @@ export class Logger {
     const contextStr = context ? ` ${JSON.stringify(context)}` : '';
     const logMessage = `[${timestamp}] ${level.toUpperCase()}: ${message}${contextStr}`;
     
-  this.outputChannel.appendLine(logMessage);
+    this.getOutputChannel().appendLine(logMessage);
     
     // Also log to console for development
     switch (level) {
@@ -460,20 +492,20 @@ export class Logger {
    * Show the output channel to the user
    */
   public show(): void {
-  this.outputChannel.show();
+    this.getOutputChannel().show();
   }
 
   /**
    * Clear the output channel
    */
   public clear(): void {
-  this.outputChannel.clear();
+    this.getOutputChannel().clear();
   }
 
   /**
    * Dispose of the logger and clean up resources
    */
   public dispose(): void {
-    this.outputChannel.dispose();
+    this.getOutputChannel().dispose();
   }
 }
\ No newline at end of file
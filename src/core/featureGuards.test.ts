@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { FeatureGuards } from './featureGuards';
+import { CssParser } from './cssParser';
+import { JsParser } from './jsParser';
+
+const document = { uri: { fsPath: 'test' } };
+
+/**
+ * Parses JavaScript and reports whether the recorded usage of a feature is guarded
+ */
+function isJsGuarded(js: string, featureId: string): boolean {
+  const result = JsParser.parseJavaScript(js, document);
+  const [range] = result.locations.get(featureId) || [];
+  expect(range).toBeDefined();
+  return FeatureGuards.isGuarded(result, featureId, range);
+}
+
+describe('FeatureGuards', () => {
+  describe('parseSupportsCondition', () => {
+    it('should read tested properties and at-rules but skip negated tests', () => {
+      const guard = FeatureGuards.parseSupportsCondition(
+        '(container-type: inline-size) and at-rule(@layer) and (not (display: grid))'
+      );
+
+      expect(guard.cssProperties).toEqual(['container-type']);
+      expect(guard.cssAtRules).toEqual(['layer']);
+      expect(FeatureGuards.parseCssSupportsArguments(['backdrop-filter', 'blur(2px)'])).toEqual(['backdrop-filter']);
+      expect(FeatureGuards.parseCssSupportsArguments(['aspect-ratio: 1'])).toEqual(['aspect-ratio']);
+    });
+  });
+
+  describe('guardsApiPath', () => {
+    it('should ignore global prefixes and only extend member guards to sub-members', () => {
+      const guard = { ...FeatureGuards.createGuard(), apiPaths: ['window.navigator.clipboard', 'arr'] };
+
+      expect(FeatureGuards.guardsApiPath(guard, 'navigator.clipboard.writeText')).toBe(true);
+      expect(FeatureGuards.guardsApiPath(guard, 'navigator.share')).toBe(false);
+      expect(FeatureGuards.guardsApiPath(guard, 'arr.at')).toBe(false);
+    });
+  });
+
+  describe('CSS parser integration', () => {
+    it('should mark declarations and at-rules inside a matching @supports block', () => {
+      const css = [
+        '@supports (container-type: inline-size) {',
+        '  .card { container-type: inline-size; }',
+        '  @container (min-width: 30em) { .title { float: left; } }',
+        '}',
+        '@supports not (container-type: inline-size) { .card { container-type: size; } }',
+        '.plain { container-type: size; }'
+      ].join('\n');
+      const result = CssParser.parseCss(css, document);
+      const guardedLines = (featureId: string) => (result.guarded?.get(featureId) || []).map(range => range.start.line);
+
+      expect(guardedLines('css.properties.container-type')).toEqual([1]);
+      expect(guardedLines('css.at-rules.container')).toEqual([2]);
+      expect(guardedLines('css.properties.float')).toEqual([]);
+      expect(result.locations.get('css.properties.container-type')).toHaveLength(3);
+    });
+  });
+
+  describe('JavaScript parser integration', () => {
+    it('should recognise in, typeof and truthiness checks', () => {
+      expect(isJsGuarded("if ('share' in navigator) { navigator.share(data); }", 'api.Navigator.share')).toBe(true);
+      expect(isJsGuarded("if (typeof structuredClone !== 'undefined') copy = structuredClone(a);", 'api.structuredClone')).toBe(true);
+      expect(isJsGuarded('const ok = window.navigator.clipboard && navigator.clipboard.writeText(text);', 'api.Clipboard.writeText')).toBe(true);
+      expect(isJsGuarded("if ('share' in navigator) {} else { navigator.share(data); }", 'api.Navigator.share')).toBe(false);
+      expect(isJsGuarded("if ('vibrate' in navigator) { navigator.share(data); }", 'api.Navigator.share')).toBe(false);
+    });
+
+    it('should recognise optional calls and early exits', () => {
+      expect(isJsGuarded('navigator.share?.(data);', 'api.Navigator.share')).toBe(true);
+      expect(isJsGuarded(
+        "function share() {\n  if (!('share' in navigator)) return;\n  navigator.share(data);\n}",
+        'api.Navigator.share'
+      )).toBe(true);
+    });
+
+    it('should recognise CSS.supports() for CSS features used from script', () => {
+      const options = { mappings: { javascriptApis: { 'el.style.containerType': 'css.properties.container-type' } } };
+      const result = JsParser.parseJavaScript(
+        "if (CSS.supports('container-type', 'inline-size')) { el.style.containerType = 'inline-size'; }",
+        document,
+        options
+      );
+      const [range] = result.locations.get('css.properties.container-type') || [];
+
+      expect(FeatureGuards.isGuarded(result, 'css.properties.container-type', range)).toBe(true);
+    });
+
+    it('should report an unguarded usage next to an earlier guarded one', () => {
+      const js = "if ('share' in navigator) navigator.share(a);\nnavigator.share(b);";
+      const result = JsParser.parseJavaScript(js, document);
+      const ranges = result.locations.get('api.Navigator.share')!;
+
+      expect(ranges.map(range => range.start.line)).toEqual([0, 1]);
+      expect(ranges.map(range => FeatureGuards.isGuarded(result, 'api.Navigator.share', range))).toEqual([true, false]);
+    });
+  });
+
+  describe('removeGuarded', () => {
+    it('should drop features that are only used behind feature detection', () => {
+      const result = FeatureGuards.removeGuarded(
+        CssParser.parseCss('@supports (aspect-ratio: 1) { a { aspect-ratio: 1; } }\nb { float: left; }', document)
+      );
+
+      expect(result.features).toEqual(['css.properties.float', 'css.at-rules.supports']);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Shape shared by parse results that mark usages behind feature detection
+ */
+export interface GuardableParseResult {
+  features: string[];
+  locations: Map<string, any[]>;
+  /** Locations, per feature, of usages guarded by `@supports` or a runtime feature check */
+  guarded?: Map<string, any[]>;
+}
+
+/**
+ * Features a piece of feature detection proves to be available
+ */
+export interface FeatureGuard {
+  /** JavaScript member paths or globals, e.g. "navigator.share" */
+  apiPaths: string[];
+  /** CSS property names, e.g. "container-type" */
+  cssProperties: string[];
+  /** CSS at-rule names without "@", e.g. "container" */
+  cssAtRules: string[];
+  /** Pseudo-classes and combinators from `selector()` tests, e.g. ":has" or "&" */
+  cssSelectors: string[];
+}
+
+/**
+ * Properties whose support implies support for an at-rule of the same feature,
+ * e.g. `@supports (container-type: inline-size)` guarding `@container`
+ */
+const AT_RULE_GUARD_PROPERTIES: Record<string, string[]> = {
+  'container': ['container', 'container-type', 'container-name'],
+  'view-transition': ['view-transition-name'],
+  'starting-style': ['transition-behavior']
+};
+
+/**
+ * Global object prefixes that do not change what a member path refers to
+ */
+const GLOBAL_PREFIX_PATTERN = /^(?:(?:window|self|globalThis)\.)+/;
+
+/**
+ * FeatureGuards recognises progressive enhancement, i.e. usages that only run
+ * where the feature was detected, so they can be reported less severely
+ */
+export class FeatureGuards {
+  /**
+   * Creates a guard that proves nothing
+   * @returns Empty guard
+   */
+  public static createGuard(): FeatureGuard {
+    return { apiPaths: [], cssProperties: [], cssAtRules: [], cssSelectors: [] };
+  }
+
+  /**
+   * Reads the features an `@supports` condition tests for
+   * Negated tests, e.g. `not (container-type: size)`, guard the fallback and are skipped
+   * @param condition At-rule params, e.g. "(container-type: inline-size) or selector(:has(a))"
+   * @returns Guard for the block the condition applies to
+   */
+  public static parseSupportsCondition(condition: string): FeatureGuard {
+    const guard = this.createGuard();
+
+    for (const match of condition.matchAll(/(\bnot\s*)?\(\s*([-\w]+)\s*:/gi)) {
+      if (!match[1]) {
+        guard.cssProperties.push(match[2].toLowerCase());
+      }
+    }
+    for (const match of condition.matchAll(/(\bnot\s*)?\bat-rule\(\s*@([-\w]+)\s*\)/gi)) {
+      if (!match[1]) {
+        guard.cssAtRules.push(match[2].toLowerCase());
+      }
+    }
+
+    for (const match of condition.matchAll(/(\bnot\s*)?\bselector\(/gi)) {
+      if (!match[1]) {
+        const argument = this.readParenthesized(condition, match.index! + match[0].length);
+        guard.cssSelectors.push(...(argument.match(/::?[-\w]+|&/g) || []).map(name => name.toLowerCase()));
+      }
+    }
+
+    return guard;
+  }
+
+  /**
+   * Reads the text up to the parenthesis closing an already opened one
+   * @param text Source text
+   * @param start Offset just after the opening parenthesis
+   * @returns Text between the parentheses
+   */
+  private static readParenthesized(text: string, start: number): string {
+    let depth = 1;
+    for (let index = start; index < text.length; index++) {
+      if (text[index] === '(') {
+        depth++;
+      } else if (text[index] === ')' && --depth === 0) {
+        return text.slice(start, index);
+      }
+    }
+    return text.slice(start);
+  }
+
+  /**
+   * Reads the CSS property tested by the arguments of `CSS.supports()`
+   * @param args String arguments, either `("prop: value")`/`("(prop: value)")` or `("prop", "value")`
+   * @returns Tested property names
+   */
+  public static parseCssSupportsArguments(args: string[]): string[] {
+    if (args.length >= 2) {
+      return [args[0].trim().toLowerCase()];
+    }
+    if (args.length === 1) {
+      // The single-argument form takes a full condition; allow a bare "prop: value" too
+      const condition = /^\s*[-\w]+\s*:/.test(args[0]) ? `(${args[0]})` : args[0];
+      return this.parseSupportsCondition(condition).cssProperties;
+    }
+    return [];
+  }
+
+  /**
+   * Checks whether a CSS property is proven available by a guard
+   * Vendor-prefixed properties are covered by a test for the prefixed or unprefixed name
+   * @param guard Guard from an enclosing `@supports` or `CSS.supports()` check
+   * @param property CSS property name
+   * @returns true if the property is guarded
+   */
+  public static guardsCssProperty(guard: FeatureGuard, property: string): boolean {
+    const name = property.toLowerCase();
+    const unprefixed = name.replace(/^-(?:webkit|moz|ms|o)-/, '');
+    return guard.cssProperties.includes(name) || guard.cssProperties.includes(unprefixed);
+  }
+
+  /**
+   * Checks whether a CSS at-rule is proven available by a guard
+   * @param guard Guard from an enclosing `@supports` check
+   * @param atRule At-rule name without "@"
+   * @returns true if the at-rule is guarded
+   */
+  public static guardsCssAtRule(guard: FeatureGuard, atRule: string): boolean {
+    const name = atRule.toLowerCase();
+    return guard.cssAtRules.includes(name)
+      || (AT_RULE_GUARD_PROPERTIES[name] || []).some(property => guard.cssProperties.includes(property));
+  }
+
+  /**
+   * Checks whether a selector feature is proven available by a guard
+   * @param guard Guard from an enclosing `@supports selector()` check
+   * @param selector Pseudo-class or combinator, e.g. ":has" or "&"
+   * @returns true if the selector feature is guarded
+   */
+  public static guardsCssSelector(guard: FeatureGuard, selector: string): boolean {
+    return guard.cssSelectors.includes(selector.toLowerCase());
+  }
+
+  /**
+   * Checks whether a JavaScript member path is proven available by a guard
+   * A check for a member such as "navigator.clipboard" also guards "navigator.clipboard.writeText";
+   * a bare name only guards itself, since a truthy variable says nothing about its methods.
+   * `window.`, `self.` and `globalThis.` prefixes are ignored on both sides
+   * @param guard Guard from enclosing feature detection
+   * @param apiPath Member path or global name of the usage
+   * @returns true if the usage is guarded
+   */
+  public static guardsApiPath(guard: FeatureGuard, apiPath: string): boolean {
+    const usage = apiPath.replace(GLOBAL_PREFIX_PATTERN, '');
+    return guard.apiPaths.some(guardPath => {
+      const guarded = guardPath.replace(GLOBAL_PREFIX_PATTERN, '');
+      return usage === guarded || (guarded.includes('.') && usage.startsWith(`${guarded}.`));
+    });
+  }
+
+  /**
+   * Checks whether a reported location is a guarded usage
+   * @param parseResult Parse result the location belongs to
+   * @param featureId Feature reported at the location
+   * @param range Location from the parse result
+   * @returns true if the usage is behind feature detection
+   */
+  public static isGuarded(parseResult: GuardableParseResult, featureId: string, range: any): boolean {
+    return parseResult.guarded?.get(featureId)?.includes(range) ?? false;
+  }
+
+  /**
+   * Removes guarded locations from a parse result
+   * Features found only behind feature detection are dropped entirely
+   * @param parseResult Parse result marking guarded usages
+   * @returns Parse result containing only unguarded features and locations
+   */
+  public static removeGuarded<T extends GuardableParseResult>(parseResult: T): T {
+    const guarded = parseResult.guarded;
+    if (!guarded || guarded.size === 0) {
+      return parseResult;
+    }
+
+    const features: string[] = [];
+    const locations = new Map<string, any[]>();
+
+    for (const featureId of parseResult.features) {
+      const featureLocations = parseResult.locations.get(featureId);
+      if (!featureLocations || featureLocations.length === 0) {
+        features.push(featureId);
+        continue;
+      }
+
+      const remaining = featureLocations.filter(range => !guarded.get(featureId)?.includes(range));
+      if (remaining.length > 0) {
+        features.push(featureId);
+        locations.set(featureId, remaining);
+      }
+    }
+
+    return { ...parseResult, features, locations, guarded: new Map() };
+  }
+}
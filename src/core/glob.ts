@@ -0,0 +1,44 @@
+/**
+ * Converts a glob pattern to a regular expression matching forward-slash relative paths
+ * Supports `**`, `*`, `?` and `{a,b}` alternation
+ * @param glob Glob pattern
+ * @returns Regular expression anchored to the whole path
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        i++;
+        if (glob[i + 1] === '/' && atSegmentStart) {
+          // "**/" matches zero or more directories
+          source += '(?:.*/)?';
+          i++;
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
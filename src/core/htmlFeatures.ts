@@ -0,0 +1,376 @@
+/**
+ * A feature named by an attribute value, with offsets relative to the value
+ */
+export interface AttributeValueFeature {
+  featureId: string;
+  /** Offset of the value token the feature comes from */
+  start: number;
+  end: number;
+}
+
+/**
+ * iframe `allow` directives with their own compat data
+ */
+const IFRAME_PERMISSIONS = [
+  'accelerometer', 'attribution-reporting', 'bluetooth', 'camera', 'compute-pressure', 'display-capture',
+  'encrypted-media', 'fullscreen', 'gamepad', 'geolocation', 'gyroscope', 'hid', 'idle-detection',
+  'local-fonts', 'magnetometer', 'microphone', 'midi', 'otp-credentials', 'payment', 'picture-in-picture',
+  'publickey-credentials-create', 'publickey-credentials-get', 'screen-wake-lock', 'serial',
+  'storage-access', 'usb', 'web-share'
+];
+
+/**
+ * Attribute values that are features in their own right, by element, attribute and value
+ * Element `*` holds global attributes; value `*` matches any value, reported on the whole value
+ */
+const ATTRIBUTE_VALUE_FEATURES: Record<string, Record<string, Record<string, string>>> = {
+  '*': {
+    'enterkeyhint': { '*': 'html.global_attributes.enterkeyhint' }
+  },
+  'link': {
+    'rel': Object.fromEntries(
+      ['modulepreload', 'preload', 'prefetch', 'preconnect', 'dns-prefetch', 'manifest', 'expect', 'compression-dictionary']
+        .map(rel => [rel, `html.elements.link.rel.${rel}`])
+    ),
+    'fetchpriority': { '*': 'html.elements.link.fetchpriority' }
+  },
+  'script': {
+    'type': {
+      'importmap': 'html.elements.script.type.importmap',
+      'speculationrules': 'html.elements.script.type.speculationrules',
+      'module': 'html.elements.script.type.module'
+    },
+    'fetchpriority': { '*': 'html.elements.script.fetchpriority' }
+  },
+  'img': {
+    'fetchpriority': { '*': 'html.elements.img.fetchpriority' }
+  },
+  'iframe': {
+    'allow': Object.fromEntries(IFRAME_PERMISSIONS.map(permission => [permission, `html.elements.iframe.allow.${permission}`]))
+  },
+  'meta': {
+    'name': {
+      'color-scheme': 'html.elements.meta.name.color-scheme',
+      'theme-color': 'html.elements.meta.name.theme-color',
+      'referrer': 'html.elements.meta.name.referrer'
+    }
+  },
+  'button': {
+    'popovertarget': { '*': 'html.elements.button.popovertarget' },
+    'popovertargetaction': { '*': 'html.elements.button.popovertargetaction' }
+  },
+  'input': {
+    'popovertarget': { '*': 'html.elements.input.popovertarget' },
+    'popovertargetaction': { '*': 'html.elements.input.popovertargetaction' }
+  },
+  'form': {
+    // method="dialog" has no compat key of its own; it ships with <dialog>
+    'method': { 'dialog': 'html.elements.dialog' }
+  }
+};
+
+/**
+ * Patterns for the tokens of an attribute value; each token is the last capture group of a match
+ * - `rel`: space-separated keywords
+ * - `allow`: `;`-separated permissions policy directives, named by their first word
+ * - others: the whole trimmed value
+ */
+const VALUE_TOKEN_PATTERNS: Record<string, RegExp> = {
+  'rel': /(\S+)/g,
+  'allow': /(?:^|;)\s*([^\s;]+)/g
+};
+const SINGLE_VALUE_PATTERN = /^\s*(\S(?:[\s\S]*\S)?)/g;
+
+/**
+ * HtmlFeatures maps HTML elements, attributes and attribute values to web-features IDs
+ * Shared by HtmlParser and the JSX checks in JsParser
+ */
+export class HtmlFeatures {
+  /**
+   * Maps HTML element names to web-features IDs
+   * @param tagName HTML element tag name
+   * @returns web-features ID or null if not mappable
+   */
+  public static mapElementToFeatureId(tagName: string): string | null {
+    // Handle undefined or null tagName
+    if (!tagName) {
+      return null;
+    }
+    
+    // Normalize tag name to lowercase
+    const normalizedTag = tagName.toLowerCase();
+    
+    // Only flag HTML elements that are actually non-baseline or newer
+    // Most HTML elements are universally supported and baseline
+    const nonBaselineElements = new Set([
+      'dialog',        // Newer element - may not be baseline
+      'details',       // May not be baseline in all browsers
+      'summary',       // Related to details
+      'template',      // Web components - may not be baseline
+      'slot',          // Web components - may not be baseline
+      'picture',       // Responsive images - newer
+      'source',        // Related to picture/video - check baseline status
+      'track',         // Video tracks - may not be baseline
+      'progress',      // May not be baseline
+      'meter',         // May not be baseline
+      'datalist',      // May not be baseline
+      'output',        // Form element - may not be baseline
+      'time',          // Semantic element - may not be baseline
+      'mark'           // Text highlighting - may not be baseline
+    ]);
+    
+    // Only return feature IDs for elements that need baseline checking
+    if (nonBaselineElements.has(normalizedTag)) {
+      return `html.elements.${normalizedTag}`;
+    }
+    
+    // Also check for custom elements (contain hyphens)
+    if (normalizedTag.includes('-')) {
+      return `html.elements.custom`; // Custom elements may not be baseline
+    }
+    
+    return null; // Skip checking universal HTML elements like div, p, span, etc.
+  }
+
+  /**
+   * Maps HTML attributes to web-features IDs
+   * @param attrName Attribute name
+   * @param tagName Element tag name (for context-specific attributes)
+   * @returns web-features ID or null if not mappable
+   */
+  public static mapAttributeToFeatureId(attrName: string, tagName: string): string | null {
+    // Normalize attribute name to lowercase
+    const normalizedAttr = attrName.toLowerCase();
+    const normalizedTag = tagName.toLowerCase();
+    
+    // Global attributes that apply to all elements
+    const globalAttributes = new Set([
+      'accesskey', 'autocapitalize', 'autofocus', 'class', 'contenteditable',
+      'contextmenu', 'dir', 'draggable', 'enterkeyhint', 'hidden', 'id',
+      'inputmode', 'is', 'itemid', 'itemprop', 'itemref', 'itemscope',
+      'itemtype', 'lang', 'nonce', 'part', 'role', 'slot', 'spellcheck',
+      'style', 'tabindex', 'title', 'translate'
+    ]);
+
+    // Skip very common global attributes to reduce noise
+    const commonGlobalAttributes = new Set([
+      'class', 'id', 'style', 'title', 'lang', 'dir'
+    ]);
+
+    if (commonGlobalAttributes.has(normalizedAttr)) {
+      return null; // Don't flag common attributes
+    }
+
+    // Element-specific attribute mappings for newer/notable attributes
+    const elementSpecificAttributes: Record<string, Record<string, string>> = {
+      'input': {
+        'autocomplete': 'html.elements.input.autocomplete',
+        'list': 'html.elements.input.list',
+        'pattern': 'html.elements.input.pattern',
+        'placeholder': 'html.elements.input.placeholder',
+        'required': 'html.elements.input.required',
+        'min': 'html.elements.input.min',
+        'max': 'html.elements.input.max',
+        'step': 'html.elements.input.step',
+        'type': 'html.elements.input.type'  // Need to check input type values
+      },
+      'form': {
+        'novalidate': 'html.elements.form.novalidate'
+      },
+      'img': {
+        'loading': 'html.elements.img.loading',
+        'decoding': 'html.elements.img.decoding',
+        'sizes': 'html.elements.img.sizes',
+        'srcset': 'html.elements.img.srcset'
+      },
+      'iframe': {
+        'loading': 'html.elements.iframe.loading',
+        'sandbox': 'html.elements.iframe.sandbox',
+        'allow': 'html.elements.iframe.allow',
+        'referrerpolicy': 'html.elements.iframe.referrerpolicy'
+      },
+      'script': {
+        'async': 'html.elements.script.async',
+        'defer': 'html.elements.script.defer',
+        'type': 'html.elements.script.type',
+        'nomodule': 'html.elements.script.nomodule',
+        'crossorigin': 'html.elements.script.crossorigin',
+        'integrity': 'html.elements.script.integrity',
+        'referrerpolicy': 'html.elements.script.referrerpolicy'
+      },
+      'link': {
+        'crossorigin': 'html.elements.link.crossorigin',
+        'integrity': 'html.elements.link.integrity',
+        'referrerpolicy': 'html.elements.link.referrerpolicy',
+        'as': 'html.elements.link.as',
+        'preload': 'html.elements.link.preload'
+      },
+      'meta': {
+        'charset': 'html.elements.meta.charset',
+        'http-equiv': 'html.elements.meta.http-equiv'
+      },
+      'video': {
+        'autoplay': 'html.elements.video.autoplay',
+        'controls': 'html.elements.video.controls',
+        'loop': 'html.elements.video.loop',
+        'muted': 'html.elements.video.muted',
+        'playsinline': 'html.elements.video.playsinline',
+        'poster': 'html.elements.video.poster',
+        'preload': 'html.elements.video.preload'
+      },
+      'audio': {
+        'autoplay': 'html.elements.audio.autoplay',
+        'controls': 'html.elements.audio.controls',
+        'loop': 'html.elements.audio.loop',
+        'muted': 'html.elements.audio.muted',
+        'preload': 'html.elements.audio.preload'
+      },
+      'details': {
+        'open': 'html.elements.details.open'
+      },
+      'dialog': {
+        'open': 'html.elements.dialog.open'
+      }
+    };
+
+    // Check for element-specific attributes
+    if (elementSpecificAttributes[normalizedTag]?.[normalizedAttr]) {
+      return elementSpecificAttributes[normalizedTag][normalizedAttr];
+    }
+    
+    // Special handling for input type attribute values
+    if (normalizedTag === 'input' && normalizedAttr === 'type') {
+      // We need to check the actual type value, but that requires accessing the attribute value
+      // This will be handled in a separate method when we have access to the attribute value
+      return null; // Don't flag the type attribute itself, flag specific type values
+    }
+
+    // Notable global attributes that should be flagged
+    const notableGlobalAttributes: Record<string, string> = {
+      'contenteditable': 'html.global_attributes.contenteditable',
+      'draggable': 'html.global_attributes.draggable',
+      'hidden': 'html.global_attributes.hidden',
+      'spellcheck': 'html.global_attributes.spellcheck',
+      'translate': 'html.global_attributes.translate',
+      'autocapitalize': 'html.global_attributes.autocapitalize',
+      'enterkeyhint': 'html.global_attributes.enterkeyhint',
+      'inputmode': 'html.global_attributes.inputmode',
+      'is': 'html.global_attributes.is',
+      'itemid': 'html.global_attributes.itemid',
+      'itemprop': 'html.global_attributes.itemprop',
+      'itemref': 'html.global_attributes.itemref',
+      'itemscope': 'html.global_attributes.itemscope',
+      'itemtype': 'html.global_attributes.itemtype',
+      'nonce': 'html.global_attributes.nonce',
+      'part': 'html.global_attributes.part',
+      'slot': 'html.global_attributes.slot',
+      'popover': 'html.global_attributes.popover',
+      'inert': 'html.global_attributes.inert'
+    };
+
+    if (notableGlobalAttributes[normalizedAttr]) {
+      return notableGlobalAttributes[normalizedAttr];
+    }
+
+    // Data attributes and aria attributes are generally well-supported, skip them
+    if (normalizedAttr.startsWith('data-') || normalizedAttr.startsWith('aria-')) {
+      return null;
+    }
+
+    // Event handler attributes (onclick, onload, etc.) are generally well-supported
+    if (normalizedAttr.startsWith('on')) {
+      return null;
+    }
+
+    // For other attributes, create a generic mapping
+    return `html.attributes.${normalizedAttr}`;
+  }
+
+  /**
+   * Maps input type values to web-features IDs
+   * @param typeValue Input type attribute value
+   * @returns web-features ID or null if not mappable
+   */
+  public static mapInputTypeToFeatureId(typeValue: string): string | null {
+    if (!typeValue) {
+      return null;
+    }
+    
+    // Normalize type value to lowercase
+    const normalizedType = typeValue.toLowerCase();
+    
+    // Only flag newer/potentially non-baseline input types
+    // Basic types like text, password, submit, button are universally supported
+    const nonBaselineInputTypes = new Set([
+      'color',        // Color picker - may not be baseline
+      'date',         // Date picker - may not be baseline
+      'datetime-local', // Local datetime - may not be baseline
+      'email',        // Email validation - may not be baseline
+      'month',        // Month picker - may not be baseline
+      'number',       // Number input - may not be baseline
+      'range',        // Range slider - may not be baseline
+      'search',       // Search input - may not be baseline
+      'tel',          // Telephone - may not be baseline
+      'time',         // Time picker - may not be baseline
+      'url',          // URL validation - may not be baseline
+      'week'          // Week picker - may not be baseline
+    ]);
+    
+    if (nonBaselineInputTypes.has(normalizedType)) {
+      return `html.elements.input.type.${normalizedType}`;
+    }
+    
+    return null; // Skip baseline input types like text, password, submit, etc.
+  }
+
+  /**
+   * Maps an attribute value to the features it names, token by token
+   * @param tagName Element tag name
+   * @param attrName Attribute name
+   * @param value Raw attribute value, or null if it is only known at runtime (e.g. a JSX expression)
+   * @returns Features with value-relative offsets, or null if the attribute's values are not mapped
+   */
+  public static mapAttributeValueToFeatures(tagName: string, attrName: string, value: string | null): AttributeValueFeature[] | null {
+    const normalizedAttr = attrName.toLowerCase();
+    const valueFeatures = ATTRIBUTE_VALUE_FEATURES[tagName.toLowerCase()]?.[normalizedAttr]
+      ?? ATTRIBUTE_VALUE_FEATURES['*'][normalizedAttr];
+    if (!valueFeatures) {
+      return null;
+    }
+
+    // Any-value features apply to empty and dynamic values too, so they fall back to an empty span
+    if (valueFeatures['*']) {
+      const [token] = value === null ? [] : this.getValueTokens(value, SINGLE_VALUE_PATTERN);
+      return [{ featureId: valueFeatures['*'], start: token?.start ?? 0, end: token?.end ?? 0 }];
+    }
+
+    if (value === null) {
+      return [];
+    }
+
+    const features: AttributeValueFeature[] = [];
+    for (const token of this.getValueTokens(value, VALUE_TOKEN_PATTERNS[normalizedAttr] ?? SINGLE_VALUE_PATTERN)) {
+      const featureId = valueFeatures[token.text.toLowerCase()];
+      if (featureId && !features.some(feature => feature.featureId === featureId)) {
+        features.push({ featureId, start: token.start, end: token.end });
+      }
+    }
+    return features;
+  }
+
+  /**
+   * Splits an attribute value into tokens
+   * @param value Raw attribute value
+   * @param pattern Global pattern whose last capture group is a token
+   * @returns Tokens with their offsets in the value
+   */
+  private static getValueTokens(value: string, pattern: RegExp): Array<{ text: string; start: number; end: number }> {
+    const tokens: Array<{ text: string; start: number; end: number }> = [];
+    for (const match of value.matchAll(pattern)) {
+      const text = match[match.length - 1];
+      const end = match.index! + match[0].length;
+      tokens.push({ text, start: end - text.length, end });
+    }
+    return tokens;
+  }
+}
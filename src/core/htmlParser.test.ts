@@ -46,4 +46,99 @@ describe('HtmlParser', () => {
       expect(HtmlParser['mapElementToFeatureId']('unknown-element')).toBeNull();
     });
   });
-});
\ No newline at end of file
+
+  describe('locations', () => {
+    it('should record every usage of a feature and list the feature once', () => {
+      const result = HtmlParser.parseHtml('<dialog></dialog>\n<div popover></div>\n<dialog></dialog>\n<input type="color"><input type="color">', {});
+
+      expect(result.features.filter(featureId => featureId === 'html.elements.dialog')).toHaveLength(1);
+      expect(result.locations.get('html.elements.dialog')?.map(range => range.start.line)).toEqual([0, 2]);
+      expect(result.locations.get('html.global_attributes.popover')).toHaveLength(1);
+      expect(result.locations.get('html.elements.input.type.color')).toHaveLength(2);
+    });
+  });
+
+  describe('inline styles and scripts', () => {
+    const html = [
+      '<style>',
+      '  .card:has(img) { color: red; }',
+      '</style>',
+      '<p style="display: contents">Text</p>',
+      '<script type="module">',
+      '  const url = import.meta.url;',
+      '</script>',
+      '<script type="importmap">{ "imports": {} }</script>'
+    ].join('\n');
+
+    it('should analyze <style>, style="" and <script> with ranges in the HTML document', () => {
+      const result = HtmlParser.parseHtml(html, {});
+      const rangeOf = (featureId: string) => {
+        const range = result.locations.get(featureId)?.[0];
+        return range && [range.start.line, range.start.character, range.end.line, range.end.character];
+      };
+
+      expect(rangeOf('css.selectors.has')).toEqual([1, 7, 1, 11]);
+      expect(rangeOf('css.properties.display.contents')).toEqual([3, 19, 3, 27]);
+      expect(rangeOf('javascript.operators.import_meta')).toEqual([5, 14, 5, 25]);
+    });
+
+    it('should shift baseline-ignore directives and skip non-script types', () => {
+      const result = HtmlParser.parseHtml('<p>Text</p>\n<script>\n// baseline-ignore-next-line\nfetch("/api");\n</script>', {});
+
+      expect(result.features).toContain('api.fetch');
+      expect(result.suppressions).toContainEqual(expect.objectContaining({ kind: 'line', line: 3 }));
+      expect(HtmlParser.parseHtml('<script type="text/template">fetch("/api")</script>').features).not.toContain('api.fetch');
+    });
+  });
+
+  describe('attribute values', () => {
+    const html = [
+      '<link rel="stylesheet modulepreload" href="/app.js">',
+      '<script type="importmap">{ "imports": {} }</script>',
+      '<iframe allow="camera \'self\'; fullscreen"></iframe>',
+      '<img fetchpriority="high" src="hero.png">',
+      '<meta name="color-scheme" content="dark light">',
+      '<button popovertarget="menu">Menu</button>',
+      '<form method="dialog"></form>'
+    ].join('\n');
+
+    it('should report features named by attribute values on the value token', () => {
+      const result = HtmlParser.parseHtml(html, {});
+      const rangeOf = (featureId: string) => {
+        const range = result.locations.get(featureId)?.[0];
+        return range && [range.start.line, range.start.character, range.end.line, range.end.character];
+      };
+
+      expect(rangeOf('html.elements.link.rel.modulepreload')).toEqual([0, 22, 0, 35]);
+      expect(rangeOf('html.elements.script.type.importmap')).toEqual([1, 14, 1, 23]);
+      expect(rangeOf('html.elements.iframe.allow.camera')).toEqual([2, 15, 2, 21]);
+      expect(rangeOf('html.elements.iframe.allow.fullscreen')).toEqual([2, 30, 2, 40]);
+      expect(rangeOf('html.elements.img.fetchpriority')).toEqual([3, 20, 3, 24]);
+      expect(rangeOf('html.elements.meta.name.color-scheme')).toEqual([4, 12, 4, 24]);
+      expect(rangeOf('html.elements.button.popovertarget')).toEqual([5, 23, 5, 27]);
+      expect(rangeOf('html.elements.dialog')).toEqual([6, 14, 6, 20]);
+      expect(result.features).not.toContain('html.attributes.rel');
+    });
+
+    it('should report every value, also of features that elements name too', () => {
+      const result = HtmlParser.parseHtml(
+        '<link rel="modulepreload" href="/a.js">\n<link rel="modulepreload" href="/b.js">\n<dialog></dialog>\n<form method="dialog"></form>',
+        {}
+      );
+      const linesOf = (featureId: string) => result.locations.get(featureId)?.map(range => [range.start.line, range.start.character]);
+
+      expect(linesOf('html.elements.link.rel.modulepreload')).toEqual([[0, 11], [1, 11]]);
+      expect(linesOf('html.elements.dialog')).toEqual([[2, 0], [3, 14]]);
+      expect(result.features.filter(featureId => featureId === 'html.elements.dialog')).toHaveLength(1);
+    });
+
+    it('should fall back to the attribute when no value is mapped', () => {
+      const result = HtmlParser.parseHtml('<link rel="stylesheet" href="a.css">\n<button popovertarget>Menu</button>', {});
+      const range = result.locations.get('html.elements.button.popovertarget')?.[0];
+
+      expect(result.features).toContain('html.attributes.rel');
+      expect(range && [range.start.line, range.start.character, range.end.line, range.end.character]).toEqual([1, 8, 1, 21]);
+    });
+  });
+});
+
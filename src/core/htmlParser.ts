@@ -1,6 +1,14 @@
 import { parse, DefaultTreeAdapterMap } from 'parse5';
 import type { Document, Element, TextNode, CommentNode, DocumentType } from 'parse5/dist/tree-adapters/default';
 import { ErrorHandler } from './errorHandler';
+import { SuppressionDirective, SuppressionParser } from './suppressions';
+import { EmbeddedContent, EmbeddedParseResult, EmbeddedRegion } from './embeddedContent';
+import { CssParser } from './cssParser';
+import { JsParser } from './jsParser';
+import { ComponentBlocks } from './componentBlocks';
+import { AttributeValueFeature, HtmlFeatures } from './htmlFeatures';
+import { LineIndex } from './lineIndex';
+import type { FeatureMappings, ParseOptions } from './projectConfig';
 
 // Make vscode import optional for testing
 let vscode: any;
@@ -21,20 +29,69 @@ try {
 export interface HtmlParseResult {
   features: string[];
   locations: Map<string, any[]>; // Use any for VS Code Range to avoid import issues in tests
+  suppressions?: SuppressionDirective[];
+  guarded?: Map<string, any[]>;
 }
 
+/**
+ * Language IDs of embedded regions analyzed with CssParser
+ */
+const CSS_LANGUAGE_IDS = new Set(['css', 'scss', 'sass', 'less']);
+
+/**
+ * Language IDs of embedded regions analyzed with JsParser
+ */
+const SCRIPT_LANGUAGE_IDS = new Set(['javascript', 'typescript', 'javascriptreact', 'typescriptreact']);
+
+/**
+ * `<script type>` values whose content is JavaScript
+ */
+const SCRIPT_TYPES = new Set([
+  '', 'module', 'text/javascript', 'application/javascript', 'text/ecmascript', 'application/ecmascript'
+]);
+
+/**
+ * `<script lang>` values, as used by single-file components, mapped to language IDs
+ */
+const SCRIPT_LANGS: Record<string, string> = {
+  '': 'javascript',
+  'js': 'javascript',
+  'javascript': 'javascript',
+  'jsx': 'javascriptreact',
+  'ts': 'typescript',
+  'typescript': 'typescript',
+  'tsx': 'typescriptreact'
+};
+
+/**
+ * `<style lang>` values, as used by single-file components, mapped to language IDs
+ */
+const STYLE_LANGS: Record<string, string> = {
+  '': 'css',
+  'css': 'css',
+  'postcss': 'css',
+  'scss': 'scss',
+  'sass': 'sass',
+  'less': 'less'
+};
+
 export class HtmlParser {
   private static errorHandler = ErrorHandler.getInstance();
 
   /**
    * Parses HTML content and extracts web platform features
+   * Vue, Svelte and Astro components, recognised by the document's language or extension,
+   * are parsed as their markup plus embedded blocks
    * @param content HTML content to parse
    * @param document Optional VS Code document for position mapping
+   * @param options Optional project-specific parse options
    * @returns Parse result with features and their locations
    */
-  public static parseHtml(content: string, document?: any): HtmlParseResult {
+  public static parseHtml(content: string, document?: any, options?: ParseOptions): HtmlParseResult {
     const features: string[] = [];
     const locations = new Map<string, any[]>();
+    const suppressions: SuppressionDirective[] = [];
+    const result: HtmlParseResult = { features, locations, suppressions, guarded: new Map() };
 
     try {
       // Validate input
@@ -42,13 +99,27 @@ export class HtmlParser {
         this.errorHandler.handleValidationError('Invalid HTML content provided', 'HTML parsing validation');
         return { features: [], locations: new Map() };
       }
+      const framework = ComponentBlocks.getFramework(document);
+      const { markup, regions } = framework
+        ? ComponentBlocks.extract(content, framework)
+        : { markup: content, regions: [] as EmbeddedRegion[] };
+
       // Parse HTML with parse5 for standards-compliant parsing
-      const htmlDocument = parse(content, {
+      const htmlDocument = parse(markup, {
         sourceCodeLocationInfo: true // Enable location tracking for ranges
       }) as Document;
 
       // Traverse the HTML AST to find web platform features
-      this.traverseNode(htmlDocument, features, locations, document);
+      const lineIndex = new LineIndex(markup);
+      this.traverseNode(htmlDocument, features, locations, document, options?.mappings, markup, regions, lineIndex);
+
+      // Collect baseline-ignore directives from comments
+      this.collectSuppressions(htmlDocument, markup, suppressions);
+
+      // Analyze inline styles and scripts with the CSS and JavaScript parsers
+      for (const region of regions) {
+        EmbeddedContent.mergeResult(result, this.parseEmbeddedRegion(region, document, options));
+      }
 
     } catch (error) {
       // Handle HTML parsing errors gracefully with error recovery
@@ -61,7 +132,24 @@ export class HtmlParser {
       return { features: [], locations: new Map() };
     }
 
-    return { features, locations };
+    return result;
+  }
+
+  /**
+   * Finds the stylesheets and scripts embedded in an HTML document or component, with their place in it
+   * @param content HTML or component content
+   * @param document Optional VS Code document, to recognise Vue, Svelte and Astro components
+   * @returns Contents of inline `<style>` and `<script>` elements, `style` attributes and component blocks such as Astro frontmatter
+   */
+  public static findEmbeddedRegions(content: string, document?: any): EmbeddedRegion[] {
+    const framework = ComponentBlocks.getFramework(document);
+    const { markup, regions } = framework
+      ? ComponentBlocks.extract(content, framework)
+      : { markup: content, regions: [] as EmbeddedRegion[] };
+
+    const htmlDocument = parse(markup, { sourceCodeLocationInfo: true }) as Document;
+    this.traverseNode(htmlDocument, [], new Map(), undefined, undefined, markup, regions, new LineIndex(markup));
+    return regions;
   }
 
   /**
@@ -70,12 +158,20 @@ export class HtmlParser {
    * @param features Array to collect feature IDs
    * @param locations Map to collect feature locations
    * @param document Optional VS Code document for position mapping
+   * @param mappings Project-specific element and attribute mappings
+   * @param content HTML content, needed to locate inline styles and scripts
+   * @param regions Array to collect inline styles and scripts
+   * @param lineIndex Line index of the content, to position the inline styles and scripts
    */
   private static traverseNode(
     node: DefaultTreeAdapterMap['node'],
     features: string[],
     locations: Map<string, any[]>,
-    document?: any
+    document?: any,
+    mappings?: FeatureMappings,
+    content?: string,
+    regions?: EmbeddedRegion[],
+    lineIndex?: LineIndex
   ): void {
     // Handle element nodes
     if (node.nodeName && node.nodeName !== '#document' && node.nodeName !== '#text' && node.nodeName !== '#comment') {
@@ -89,286 +185,294 @@ export class HtmlParser {
       
       // Extract element feature only if it has a real source location or if we're not being strict about it
       if (element.tagName && (hasRealSourceLocation || this.shouldIncludeElement(element.tagName))) {
-        const elementFeatureId = this.mapElementToFeatureId(element.tagName);
-        if (elementFeatureId && !features.includes(elementFeatureId)) {
-          features.push(elementFeatureId);
-          
+        const elementFeatureId = mappings?.htmlElements?.[element.tagName] ?? this.mapElementToFeatureId(element.tagName);
+        if (elementFeatureId) {
           // Track location if document is provided and element has real location
-          if (document && hasRealSourceLocation) {
-            const range = this.getElementRange(element, document);
-            if (range) {
-              if (!locations.has(elementFeatureId)) {
-                locations.set(elementFeatureId, []);
-              }
-              locations.get(elementFeatureId)!.push(range);
-            }
-          }
+          const range = document && hasRealSourceLocation ? this.getElementRange(element, document) : null;
+          this.recordUsage(features, locations, elementFeatureId, range);
         }
 
         // Extract attribute features
         if (element.attrs && hasRealSourceLocation) {
           for (const attr of element.attrs) {
-            const attrFeatureId = this.mapAttributeToFeatureId(attr.name, element.tagName);
-            if (attrFeatureId && !features.includes(attrFeatureId)) {
-              features.push(attrFeatureId);
-              
-              // Track attribute location if document is provided
-              if (document && element.sourceCodeLocation?.attrs?.[attr.name]) {
-                const range = this.getAttributeRange(element, attr.name, document);
-                if (range) {
-                  if (!locations.has(attrFeatureId)) {
-                    locations.set(attrFeatureId, []);
-                  }
-                  locations.get(attrFeatureId)!.push(range);
-                }
+            // Values such as rel="modulepreload" name features of their own, reported on the value
+            const valueFeatures = mappings?.htmlAttributes?.[attr.name] || content === undefined
+              ? null
+              : this.getAttributeValueFeatures(element, attr.name, content);
+            if (valueFeatures && valueFeatures.length > 0) {
+              for (const { featureId, start, end } of valueFeatures) {
+                const range = !document
+                  ? null
+                  : end > start
+                    ? this.getValueRange(element, attr.name, content!, start, end)
+                    : this.getAttributeRange(element, attr.name, document);
+                this.recordUsage(features, locations, featureId, range);
               }
+              continue;
+            }
+
+            const attrFeatureId = mappings?.htmlAttributes?.[attr.name] ?? this.mapAttributeToFeatureId(attr.name, element.tagName);
+            // Track attribute location if document is provided
+            const attrRange = () => document && element.sourceCodeLocation?.attrs?.[attr.name]
+              ? this.getAttributeRange(element, attr.name, document)
+              : null;
+            if (attrFeatureId) {
+              this.recordUsage(features, locations, attrFeatureId, attrRange());
             }
             
             // Special handling for input type values
             if (element.tagName === 'input' && attr.name === 'type') {
               const inputTypeFeatureId = this.mapInputTypeToFeatureId(attr.value);
-              if (inputTypeFeatureId && !features.includes(inputTypeFeatureId)) {
-                features.push(inputTypeFeatureId);
-                
-                // Track input type location
-                if (document && element.sourceCodeLocation?.attrs?.[attr.name]) {
-                  const range = this.getAttributeRange(element, attr.name, document);
-                  if (range) {
-                    if (!locations.has(inputTypeFeatureId)) {
-                      locations.set(inputTypeFeatureId, []);
-                    }
-                    locations.get(inputTypeFeatureId)!.push(range);
-                  }
-                }
+              if (inputTypeFeatureId) {
+                this.recordUsage(features, locations, inputTypeFeatureId, attrRange());
               }
             }
           }
         }
       }
+
+      if (content !== undefined && regions && lineIndex && hasRealSourceLocation) {
+        regions.push(...this.getEmbeddedRegions(element, content, lineIndex));
+      }
     }
 
     // Handle template content specially
     if (node.nodeName === 'template' && 'content' in node && node.content) {
       // Template content is stored in a separate document fragment
-      this.traverseNode(node.content, features, locations, document);
+      this.traverseNode(node.content, features, locations, document, mappings, content, regions, lineIndex);
     }
 
     // Recursively traverse child nodes
     if ('childNodes' in node && node.childNodes) {
       for (const child of node.childNodes) {
-        this.traverseNode(child, features, locations, document);
+        this.traverseNode(child, features, locations, document, mappings, content, regions, lineIndex);
       }
     }
   }
 
   /**
-   * Determines if an element should be included even without source location
-   * This helps filter out auto-generated elements by parse5
-   * @param tagName Element tag name
-   * @returns true if element should be included
+   * Records one usage of a feature: the feature is listed once, and every usage keeps its own location
+   * so a suppression directive only silences the usage it precedes
+   * @param features Array to collect feature IDs
+   * @param locations Map to collect feature locations
+   * @param featureId Feature of the usage
+   * @param range Range of the usage, or null if it has no location
    */
-  private static shouldIncludeElement(tagName: string): boolean {
-    // Don't include basic structural elements that parse5 auto-generates
-    const autoGeneratedElements = new Set(['html', 'head', 'body']);
-    return !autoGeneratedElements.has(tagName.toLowerCase());
+  private static recordUsage(features: string[], locations: Map<string, any[]>, featureId: string, range: any | null): void {
+    if (!features.includes(featureId)) {
+      features.push(featureId);
+    }
+    if (range) {
+      if (!locations.has(featureId)) {
+        locations.set(featureId, []);
+      }
+      locations.get(featureId)!.push(range);
+    }
   }
 
   /**
-   * Maps HTML element names to web-features IDs
-   * @param tagName HTML element tag name
-   * @returns web-features ID or null if not mappable
+   * Finds the CSS and JavaScript embedded in an element:
+   * the text of `<style>` and `<script>` elements and the value of its `style` attribute
+   * A `lang` attribute, e.g. `<style lang="scss">` or `<script lang="ts">`, selects the parser syntax
+   * @param element HTML element node
+   * @param content HTML content the element was parsed from
+   * @param lineIndex Line index of the content, shared by every element of the document
+   * @returns Embedded regions, positioned in the HTML content
    */
-  private static mapElementToFeatureId(tagName: string): string | null {
-    // Handle undefined or null tagName
-    if (!tagName) {
+  private static getEmbeddedRegions(element: Element, content: string, lineIndex: LineIndex): EmbeddedRegion[] {
+    const regions: EmbeddedRegion[] = [];
+    const addRegion = (languageId: string, start: number, end: number) => {
+      const { line, character } = lineIndex.positionAt(start);
+      regions.push({ languageId, content: content.slice(start, end), line, character });
+    };
+
+    const tagName = element.tagName.toLowerCase();
+    const text = element.childNodes.find(child => child.nodeName === '#text') as TextNode | undefined;
+    if (text?.sourceCodeLocation) {
+      const getAttribute = (name: string) => element.attrs.find(attr => attr.name === name)?.value.trim().toLowerCase() ?? '';
+      const languageId = tagName === 'style'
+        ? STYLE_LANGS[getAttribute('lang')]
+        : tagName === 'script' && SCRIPT_TYPES.has(getAttribute('type')) ? SCRIPT_LANGS[getAttribute('lang')] : undefined;
+      if (languageId) {
+        addRegion(languageId, text.sourceCodeLocation.startOffset, text.sourceCodeLocation.endOffset);
+      }
+    }
+
+    const styleValue = this.getAttributeValueSpan(element, 'style', content);
+    if (styleValue) {
+      addRegion('css', styleValue.start, styleValue.end);
+    }
+
+    return regions;
+  }
+
+  /**
+   * Gets the source span of an attribute's value, without its quotes
+   * Uses the attribute's source text rather than its decoded value so offsets match
+   * @param element Element with the attribute
+   * @param attrName Attribute name
+   * @param content HTML source the element was parsed from
+   * @returns Offsets of the value in the content, or null if the attribute is missing or has no value
+   */
+  private static getAttributeValueSpan(element: Element, attrName: string, content: string): { start: number; end: number } | null {
+    const attrLocation = element.sourceCodeLocation?.attrs?.[attrName];
+    if (!attrLocation) {
       return null;
     }
-    
-    // Normalize tag name to lowercase
-    const normalizedTag = tagName.toLowerCase();
-    
-    // Only flag HTML elements that are actually non-baseline or newer
-    // Most HTML elements are universally supported and baseline
-    const nonBaselineElements = new Set([
-      'dialog',        // Newer element - may not be baseline
-      'details',       // May not be baseline in all browsers
-      'summary',       // Related to details
-      'template',      // Web components - may not be baseline
-      'slot',          // Web components - may not be baseline
-      'picture',       // Responsive images - newer
-      'source',        // Related to picture/video - check baseline status
-      'track',         // Video tracks - may not be baseline
-      'progress',      // May not be baseline
-      'meter',         // May not be baseline
-      'datalist',      // May not be baseline
-      'output',        // Form element - may not be baseline
-      'time',          // Semantic element - may not be baseline
-      'mark'           // Text highlighting - may not be baseline
-    ]);
-    
-    // Only return feature IDs for elements that need baseline checking
-    if (nonBaselineElements.has(normalizedTag)) {
-      return `html.elements.${normalizedTag}`;
+
+    const source = content.slice(attrLocation.startOffset, attrLocation.endOffset);
+    const valueStart = source.match(/^[^=]*=\s*(["']?)/);
+    if (!valueStart) {
+      return null;
     }
-    
-    // Also check for custom elements (contain hyphens)
-    if (normalizedTag.includes('-')) {
-      return `html.elements.custom`; // Custom elements may not be baseline
+    return {
+      start: attrLocation.startOffset + valueStart[0].length,
+      end: attrLocation.endOffset - (valueStart[1] ? 1 : 0)
+    };
+  }
+
+  /**
+   * Finds features named by an attribute's value
+   * @param element Element with the attribute
+   * @param attrName Attribute name
+   * @param content HTML source the element was parsed from
+   * @returns Features with offsets in the content, or null if the attribute's values are not mapped.
+   * Features that apply to any value have an empty span when the attribute has no value
+   */
+  private static getAttributeValueFeatures(element: Element, attrName: string, content: string): AttributeValueFeature[] | null {
+    const span = this.getAttributeValueSpan(element, attrName, content);
+    const valueFeatures = HtmlFeatures.mapAttributeValueToFeatures(
+      element.tagName,
+      attrName,
+      span ? content.slice(span.start, span.end) : ''
+    );
+    if (!valueFeatures || !span) {
+      return valueFeatures;
     }
-    
-    return null; // Skip checking universal HTML elements like div, p, span, etc.
+    return valueFeatures.map(feature => ({ ...feature, start: span.start + feature.start, end: span.start + feature.end }));
   }
 
   /**
-   * Maps HTML attributes to web-features IDs
+   * Creates a range for part of an attribute's value
+   * @param element Element with the attribute
    * @param attrName Attribute name
-   * @param tagName Element tag name (for context-specific attributes)
-   * @returns web-features ID or null if not mappable
+   * @param content HTML source the element was parsed from
+   * @param start Offset of the start of the range in the content
+   * @param end Offset of the end of the range in the content
+   * @returns VS Code Range or null if the attribute has no location
    */
-  private static mapAttributeToFeatureId(attrName: string, tagName: string): string | null {
-    // Normalize attribute name to lowercase
-    const normalizedAttr = attrName.toLowerCase();
-    const normalizedTag = tagName.toLowerCase();
-    
-    // Global attributes that apply to all elements
-    const globalAttributes = new Set([
-      'accesskey', 'autocapitalize', 'autofocus', 'class', 'contenteditable',
-      'contextmenu', 'dir', 'draggable', 'enterkeyhint', 'hidden', 'id',
-      'inputmode', 'is', 'itemid', 'itemprop', 'itemref', 'itemscope',
-      'itemtype', 'lang', 'nonce', 'part', 'role', 'slot', 'spellcheck',
-      'style', 'tabindex', 'title', 'translate'
-    ]);
-
-    // Skip very common global attributes to reduce noise
-    const commonGlobalAttributes = new Set([
-      'class', 'id', 'style', 'title', 'lang', 'dir'
-    ]);
-
-    if (commonGlobalAttributes.has(normalizedAttr)) {
-      return null; // Don't flag common attributes
+  private static getValueRange(element: Element, attrName: string, content: string, start: number, end: number): any | null {
+    const attrLocation = element.sourceCodeLocation?.attrs?.[attrName];
+    if (!attrLocation) {
+      return null;
     }
 
-    // Element-specific attribute mappings for newer/notable attributes
-    const elementSpecificAttributes: Record<string, Record<string, string>> = {
-      'input': {
-        'autocomplete': 'html.elements.input.autocomplete',
-        'list': 'html.elements.input.list',
-        'pattern': 'html.elements.input.pattern',
-        'placeholder': 'html.elements.input.placeholder',
-        'required': 'html.elements.input.required',
-        'min': 'html.elements.input.min',
-        'max': 'html.elements.input.max',
-        'step': 'html.elements.input.step',
-        'type': 'html.elements.input.type'  // Need to check input type values
-      },
-      'form': {
-        'novalidate': 'html.elements.form.novalidate'
-      },
-      'img': {
-        'loading': 'html.elements.img.loading',
-        'decoding': 'html.elements.img.decoding',
-        'sizes': 'html.elements.img.sizes',
-        'srcset': 'html.elements.img.srcset'
-      },
-      'iframe': {
-        'loading': 'html.elements.iframe.loading',
-        'sandbox': 'html.elements.iframe.sandbox',
-        'allow': 'html.elements.iframe.allow',
-        'referrerpolicy': 'html.elements.iframe.referrerpolicy'
-      },
-      'script': {
-        'async': 'html.elements.script.async',
-        'defer': 'html.elements.script.defer',
-        'type': 'html.elements.script.type',
-        'nomodule': 'html.elements.script.nomodule',
-        'crossorigin': 'html.elements.script.crossorigin',
-        'integrity': 'html.elements.script.integrity',
-        'referrerpolicy': 'html.elements.script.referrerpolicy'
-      },
-      'link': {
-        'crossorigin': 'html.elements.link.crossorigin',
-        'integrity': 'html.elements.link.integrity',
-        'referrerpolicy': 'html.elements.link.referrerpolicy',
-        'as': 'html.elements.link.as',
-        'preload': 'html.elements.link.preload'
-      },
-      'meta': {
-        'charset': 'html.elements.meta.charset',
-        'http-equiv': 'html.elements.meta.http-equiv'
-      },
-      'video': {
-        'autoplay': 'html.elements.video.autoplay',
-        'controls': 'html.elements.video.controls',
-        'loop': 'html.elements.video.loop',
-        'muted': 'html.elements.video.muted',
-        'playsinline': 'html.elements.video.playsinline',
-        'poster': 'html.elements.video.poster',
-        'preload': 'html.elements.video.preload'
-      },
-      'audio': {
-        'autoplay': 'html.elements.audio.autoplay',
-        'controls': 'html.elements.audio.controls',
-        'loop': 'html.elements.audio.loop',
-        'muted': 'html.elements.audio.muted',
-        'preload': 'html.elements.audio.preload'
-      },
-      'details': {
-        'open': 'html.elements.details.open'
-      },
-      'dialog': {
-        'open': 'html.elements.dialog.open'
-      }
+    // Count from the attribute's own position rather than indexing the whole document
+    const positionAt = (offset: number) => {
+      const text = content.slice(attrLocation.startOffset, offset);
+      const lastBreak = text.lastIndexOf('\n');
+      return lastBreak === -1
+        ? new vscode.Position(attrLocation.startLine - 1, attrLocation.startCol - 1 + text.length)
+        : new vscode.Position(attrLocation.startLine - 1 + text.split('\n').length - 1, text.length - lastBreak - 1);
     };
+    return new vscode.Range(positionAt(start), positionAt(end));
+  }
 
-    // Check for element-specific attributes
-    if (elementSpecificAttributes[normalizedTag]?.[normalizedAttr]) {
-      return elementSpecificAttributes[normalizedTag][normalizedAttr];
+  /**
+   * Parses an embedded region with the parser for its language
+   * @param region Region to parse
+   * @param document Optional VS Code document of the HTML file, for position mapping
+   * @param options Optional project-specific parse options
+   * @returns Parse result with ranges in the HTML file
+   */
+  private static parseEmbeddedRegion(region: EmbeddedRegion, document?: any, options?: ParseOptions): EmbeddedParseResult {
+    if (!region.content.trim()) {
+      return { features: [], locations: new Map() };
     }
-    
-    // Special handling for input type attribute values
-    if (normalizedTag === 'input' && normalizedAttr === 'type') {
-      // We need to check the actual type value, but that requires accessing the attribute value
-      // This will be handled in a separate method when we have access to the attribute value
-      return null; // Don't flag the type attribute itself, flag specific type values
+
+    // Receiver types are resolved against the enclosing file, whose offsets don't match the region
+    const regionOptions = options && { mappings: options.mappings };
+    const regionDocument = document && { languageId: region.languageId };
+
+    let result: EmbeddedParseResult;
+    if (CSS_LANGUAGE_IDS.has(region.languageId)) {
+      result = CssParser.parseCss(region.content, regionDocument, regionOptions);
+    } else if (SCRIPT_LANGUAGE_IDS.has(region.languageId)) {
+      result = JsParser.parseJavaScript(region.content, regionDocument, regionOptions);
+    } else {
+      return { features: [], locations: new Map() };
     }
 
-    // Notable global attributes that should be flagged
-    const notableGlobalAttributes: Record<string, string> = {
-      'contenteditable': 'html.global_attributes.contenteditable',
-      'draggable': 'html.global_attributes.draggable',
-      'hidden': 'html.global_attributes.hidden',
-      'spellcheck': 'html.global_attributes.spellcheck',
-      'translate': 'html.global_attributes.translate',
-      'autocapitalize': 'html.global_attributes.autocapitalize',
-      'enterkeyhint': 'html.global_attributes.enterkeyhint',
-      'inputmode': 'html.global_attributes.inputmode',
-      'is': 'html.global_attributes.is',
-      'itemid': 'html.global_attributes.itemid',
-      'itemprop': 'html.global_attributes.itemprop',
-      'itemref': 'html.global_attributes.itemref',
-      'itemscope': 'html.global_attributes.itemscope',
-      'itemtype': 'html.global_attributes.itemtype',
-      'nonce': 'html.global_attributes.nonce',
-      'part': 'html.global_attributes.part',
-      'slot': 'html.global_attributes.slot'
-    };
+    return EmbeddedContent.shiftResult(result, region);
+  }
 
-    if (notableGlobalAttributes[normalizedAttr]) {
-      return notableGlobalAttributes[normalizedAttr];
+  /**
+   * Recursively collects baseline-ignore directives from comment nodes
+   * @param node Current HTML node
+   * @param content HTML content the node was parsed from
+   * @param suppressions Array to collect directives
+   */
+  private static collectSuppressions(
+    node: DefaultTreeAdapterMap['node'],
+    content: string,
+    suppressions: SuppressionDirective[]
+  ): void {
+    if (node.nodeName === '#comment') {
+      const comment = node as CommentNode;
+      const location = comment.sourceCodeLocation;
+      if (location) {
+        const directive = SuppressionParser.parseComment(comment.data, {
+          startLine: location.startLine - 1,
+          endLine: location.endLine - 1,
+          trailing: SuppressionParser.hasCodeBefore(content, location.startOffset)
+        });
+        if (directive) {
+          suppressions.push(directive);
+        }
+      }
+      return;
     }
 
-    // Data attributes and aria attributes are generally well-supported, skip them
-    if (normalizedAttr.startsWith('data-') || normalizedAttr.startsWith('aria-')) {
-      return null;
+    if (node.nodeName === 'template' && 'content' in node && node.content) {
+      this.collectSuppressions(node.content, content, suppressions);
     }
 
-    // Event handler attributes (onclick, onload, etc.) are generally well-supported
-    if (normalizedAttr.startsWith('on')) {
-      return null;
+    if ('childNodes' in node && node.childNodes) {
+      for (const child of node.childNodes) {
+        this.collectSuppressions(child, content, suppressions);
+      }
     }
+  }
+
+  /**
+   * Determines if an element should be included even without source location
+   * This helps filter out auto-generated elements by parse5
+   * @param tagName Element tag name
+   * @returns true if element should be included
+   */
+  private static shouldIncludeElement(tagName: string): boolean {
+    // Don't include basic structural elements that parse5 auto-generates
+    const autoGeneratedElements = new Set(['html', 'head', 'body']);
+    return !autoGeneratedElements.has(tagName.toLowerCase());
+  }
 
-    // For other attributes, create a generic mapping
-    return `html.attributes.${normalizedAttr}`;
+  /**
+   * Maps HTML element names to web-features IDs
+   * @param tagName HTML element tag name
+   * @returns web-features ID or null if not mappable
+   */
+  private static mapElementToFeatureId(tagName: string): string | null {
+    return HtmlFeatures.mapElementToFeatureId(tagName);
+  }
+
+  /**
+   * Maps HTML attributes to web-features IDs
+   * @param attrName Attribute name
+   * @param tagName Element tag name (for context-specific attributes)
+   * @returns web-features ID or null if not mappable
+   */
+  private static mapAttributeToFeatureId(attrName: string, tagName: string): string | null {
+    return HtmlFeatures.mapAttributeToFeatureId(attrName, tagName);
   }
 
   /**
@@ -377,35 +481,7 @@ export class HtmlParser {
    * @returns web-features ID or null if not mappable
    */
   private static mapInputTypeToFeatureId(typeValue: string): string | null {
-    if (!typeValue) {
-      return null;
-    }
-    
-    // Normalize type value to lowercase
-    const normalizedType = typeValue.toLowerCase();
-    
-    // Only flag newer/potentially non-baseline input types
-    // Basic types like text, password, submit, button are universally supported
-    const nonBaselineInputTypes = new Set([
-      'color',        // Color picker - may not be baseline
-      'date',         // Date picker - may not be baseline
-      'datetime-local', // Local datetime - may not be baseline
-      'email',        // Email validation - may not be baseline
-      'month',        // Month picker - may not be baseline
-      'number',       // Number input - may not be baseline
-      'range',        // Range slider - may not be baseline
-      'search',       // Search input - may not be baseline
-      'tel',          // Telephone - may not be baseline
-      'time',         // Time picker - may not be baseline
-      'url',          // URL validation - may not be baseline
-      'week'          // Week picker - may not be baseline
-    ]);
-    
-    if (nonBaselineInputTypes.has(normalizedType)) {
-      return `html.elements.input.type.${normalizedType}`;
-    }
-    
-    return null; // Skip baseline input types like text, password, submit, etc.
+    return HtmlFeatures.mapInputTypeToFeatureId(typeValue);
   }
 
   /**
@@ -46,4 +46,226 @@ describe('JsParser', () => {
       expect(JsParser['mapApiToFeatureId']('unknown.api')).toBeNull();
     });
   });
-});
\ No newline at end of file
+
+  describe('syntax features', () => {
+    const rangeOf = (content: string, featureId: string) => {
+      const range = JsParser.parseJavaScript(content, {}).locations.get(featureId)?.[0];
+      return range && [range.start.line, range.start.character, range.end.line, range.end.character];
+    };
+
+    it('should report operators at the operator token', () => {
+      const js = 'const a = b?.c ?? d;\nx ||= 1;\ny &&= 2;\nz ??= fn?.();';
+      const result = JsParser.parseJavaScript(js, {});
+
+      expect(result.features).toEqual(expect.arrayContaining([
+        'javascript.operators.optional_chaining',
+        'javascript.operators.nullish_coalescing',
+        'javascript.operators.logical_or_assignment',
+        'javascript.operators.logical_and_assignment',
+        'javascript.operators.nullish_coalescing_assignment'
+      ]));
+      expect(rangeOf(js, 'javascript.operators.optional_chaining')).toEqual([0, 11, 0, 13]);
+      expect(rangeOf(js, 'javascript.operators.nullish_coalescing')).toEqual([0, 15, 0, 17]);
+      expect(rangeOf(js, 'javascript.operators.nullish_coalescing_assignment')).toEqual([3, 2, 3, 5]);
+    });
+
+    it('should report class syntax at the private name or keyword', () => {
+      const js = 'class A {\n  #x = 1;\n  #m() {}\n  static { init(); }\n  has(o) { return #x in o; }\n}';
+
+      expect(rangeOf(js, 'javascript.classes.private_class_fields')).toEqual([1, 2, 1, 4]);
+      expect(rangeOf(js, 'javascript.classes.private_class_methods')).toEqual([2, 2, 2, 4]);
+      expect(rangeOf(js, 'javascript.classes.static.initialization_blocks')).toEqual([3, 2, 3, 8]);
+      expect(rangeOf(js, 'javascript.classes.private_class_fields_in')).toEqual([4, 18, 4, 25]);
+    });
+
+    it('should report module and grammar syntax', () => {
+      const js = '#!/usr/bin/env node\nconst n = 1_000n;\nconst url = import.meta.url;\nawait ready;\nasync function f() { await x; }';
+
+      expect(rangeOf(js, 'javascript.grammar.hashbang_comments')).toEqual([0, 0, 0, 19]);
+      expect(rangeOf(js, 'javascript.grammar.numeric_separators')).toEqual([1, 10, 1, 16]);
+      expect(rangeOf(js, 'javascript.operators.import_meta')).toEqual([2, 12, 2, 23]);
+      expect(rangeOf(js, 'javascript.operators.await.top_level')).toEqual([3, 0, 3, 5]);
+      expect(JsParser.parseJavaScript('async function f() { await x; }').features)
+        .not.toContain('javascript.operators.await.top_level');
+    });
+
+    it('should report regexp flags and using declarations', () => {
+      const js = 'const re = /[\\p{L}--[a-z]]/v;\nconst m = /a/dg;\nusing res = open();\nawait  using conn = connect();';
+
+      expect(rangeOf(js, 'javascript.builtins.RegExp.unicodeSets')).toEqual([0, 27, 0, 28]);
+      expect(rangeOf(js, 'javascript.builtins.RegExp.hasIndices')).toEqual([1, 13, 1, 14]);
+      expect(rangeOf(js, 'javascript.statements.using')).toEqual([2, 0, 2, 5]);
+      expect(rangeOf(js, 'javascript.statements.await_using')).toEqual([3, 0, 3, 12]);
+      expect(JsParser.parseJavaScript('const n = 1000;').features).not.toContain('javascript.grammar.numeric_separators');
+    });
+  });
+
+  describe('scope-aware globals', () => {
+    it('should not report locally bound names that shadow globals', () => {
+      const js = [
+        "import { navigator } from './router';",
+        'const fetch = createClient();',
+        'navigator.share(route);',
+        'fetch("/api");',
+        'function clone(structuredClone) { return structuredClone(value); }'
+      ].join('\n');
+
+      expect(JsParser.parseJavaScript(js).features).toEqual([]);
+    });
+
+    it('should report globals reached through window, self and globalThis', () => {
+      const js = 'window.navigator.share(data);\nself.fetch("/api");\nglobalThis.structuredClone(value);';
+
+      expect(JsParser.parseJavaScript(js).features).toEqual(expect.arrayContaining([
+        'api.Navigator.share',
+        'api.fetch',
+        'api.structuredClone'
+      ]));
+      expect(JsParser.parseJavaScript('const self = this;\nself.fetch("/api");').features).toEqual([]);
+    });
+
+    it('should still map methods called on local values', () => {
+      const js = 'const items = [1, 2, 3];\nitems.at(-1);';
+
+      expect(JsParser.parseJavaScript(js).features).toContain('api.Array.at');
+    });
+  });
+
+  describe('constructors and static members', () => {
+    it('should report constructors called with new', () => {
+      const js = [
+        'new IntersectionObserver(onIntersect);',
+        'new ResizeObserver(onResize);',
+        'new BroadcastChannel("app");',
+        'new CompressionStream("gzip");',
+        'new URLPattern({ pathname: "/books/:id" });',
+        'new Intl.Segmenter("en", { granularity: "word" });'
+      ].join('\n');
+
+      expect(JsParser.parseJavaScript(js).features).toEqual([
+        'api.IntersectionObserver.IntersectionObserver',
+        'api.ResizeObserver.ResizeObserver',
+        'api.BroadcastChannel.BroadcastChannel',
+        'api.CompressionStream.CompressionStream',
+        'api.URLPattern.URLPattern',
+        'javascript.builtins.Intl.Segmenter.Segmenter'
+      ]);
+    });
+
+    it('should report the whole new expression and skip shadowed constructors', () => {
+      const js = 'const observer = new ResizeObserver(onResize);';
+      const range = JsParser.parseJavaScript(js, {}).locations.get('api.ResizeObserver.ResizeObserver')?.[0];
+
+      expect([range.start.character, range.end.character]).toEqual([17, 45]);
+      expect(JsParser.parseJavaScript('class ResizeObserver {}\nnew ResizeObserver();').features).toEqual([]);
+    });
+
+    it('should report static members of built-ins', () => {
+      const js = 'await Array.fromAsync(stream);\nObject.groupBy(items, byType);\nconst { promise } = Promise.withResolvers();';
+
+      expect(JsParser.parseJavaScript(js).features).toEqual(expect.arrayContaining([
+        'javascript.builtins.Array.fromAsync',
+        'javascript.builtins.Object.groupBy',
+        'javascript.builtins.Promise.withResolvers'
+      ]));
+    });
+  });
+
+  describe('CSS-in-JS', () => {
+    const rangeOf = (content: string, featureId: string) => {
+      const range = JsParser.parseJavaScript(content, {}).locations.get(featureId)?.[0];
+      return range && [range.start.line, range.start.character, range.end.line, range.end.character];
+    };
+
+    it('should check styled-components and emotion templates at their position in the file', () => {
+      const js = [
+        "import styled from 'styled-components';",
+        'const Card = styled.div`',
+        '  color: ${props => props.color};',
+        '  &:has(img) { text-wrap: balance; }',
+        '`;'
+      ].join('\n');
+
+      expect(rangeOf(js, 'css.selectors.has')).toEqual([3, 3, 3, 7]);
+      expect(rangeOf(js, 'css.properties.text-wrap.balance')).toEqual([3, 26, 3, 33]);
+      expect(JsParser.parseJavaScript(js).features).not.toContain('css.selectors.nesting');
+    });
+
+    it('should keep templates parseable when an interpolation is too short to hold a comment on one line', () => {
+      const js = 'const Card = styled.div`\n  color: red; ${a\n};\n  text-wrap: balance;\n`;';
+
+      expect(rangeOf(js, 'css.properties.text-wrap.balance')).toEqual([3, 13, 3, 20]);
+    });
+
+    it('should treat lit css as plain CSS', () => {
+      const js = "import { css } from 'lit';\nconst styles = css`.card { .title { color: oklch(70% 0.1 200); } }`;";
+      const features = JsParser.parseJavaScript(js).features;
+
+      expect(features).toContain('css.selectors.nesting');
+      expect(features).toContain('css.types.color.oklch');
+      expect(JsParser.parseJavaScript('const label = html`<p class="card">${text}</p>`;').features).toEqual([]);
+    });
+
+    it('should check style and sx objects in JSX', () => {
+      const js = 'const el = <p style={{ textWrap: "balance", WebkitLineClamp: lines }} sx={{ "&:hover": { display: "contents" } }} />;';
+      const features = JsParser.parseJavaScript(js).features;
+
+      expect(features).toEqual(expect.arrayContaining([
+        'css.properties.text-wrap.balance',
+        'css.properties.display.contents'
+      ]));
+      expect(rangeOf(js, 'css.properties.text-wrap.balance')).toEqual([0, 33, 0, 42]);
+    });
+  });
+
+  describe('JSX elements and attributes', () => {
+    it('should map intrinsic elements and props to HTML features', () => {
+      const jsx = [
+        'const Modal = () => (',
+        '  <dialog open className="modal">',
+        '    <img loading="lazy" src={src} alt="" />',
+        '    <div popover="auto" inert enterKeyHint="send" onClick={close} />',
+        '    <input type="date" />',
+        '  </dialog>',
+        ');'
+      ].join('\n');
+      const result = JsParser.parseJavaScript(jsx, {});
+      const rangeOf = (featureId: string) => {
+        const range = result.locations.get(featureId)?.[0];
+        return range && [range.start.line, range.start.character, range.end.line, range.end.character];
+      };
+
+      expect(result.features).toEqual(expect.arrayContaining([
+        'html.elements.dialog',
+        'html.elements.dialog.open',
+        'html.elements.img.loading',
+        'html.global_attributes.popover',
+        'html.global_attributes.inert',
+        'html.global_attributes.enterkeyhint',
+        'html.elements.input.type.date'
+      ]));
+      expect(rangeOf('html.elements.dialog')).toEqual([1, 2, 1, 9]);
+      expect(rangeOf('html.elements.img.loading')).toEqual([2, 9, 2, 23]);
+      expect(result.features).not.toContain('html.attributes.classname');
+    });
+
+    it('should map string prop values to HTML features on the value', () => {
+      const result = JsParser.parseJavaScript('const a = <><img fetchPriority="low" /><link rel="modulepreload" href={url} /><button popoverTarget={id} /></>;', {});
+      const rangeOf = (featureId: string) => {
+        const range = result.locations.get(featureId)?.[0];
+        return range && [range.start.line, range.start.character, range.end.line, range.end.character];
+      };
+
+      expect(rangeOf('html.elements.img.fetchpriority')).toEqual([0, 32, 0, 35]);
+      expect(rangeOf('html.elements.link.rel.modulepreload')).toEqual([0, 50, 0, 63]);
+      expect(rangeOf('html.elements.button.popovertarget')).toEqual([0, 86, 0, 104]);
+    });
+
+    it('should skip components and framework-only props', () => {
+      const result = JsParser.parseJavaScript('const el = <Dialog open key="a" ref={ref} />;');
+
+      expect(result.features).toEqual([]);
+    });
+  });
+});
+
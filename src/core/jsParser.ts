@@ -1,7 +1,17 @@
-import { parse } from '@babel/parser';
-import traverse from '@babel/traverse';
-import type { Node, MemberExpression, CallExpression, Identifier, StringLiteral } from '@babel/types';
+import { parse, ParserOptions } from '@babel/parser';
+import traverse, { NodePath, Scope } from '@babel/traverse';
+import type {
+  File, Node, MemberExpression, CallExpression, NewExpression, Identifier, StringLiteral, ObjectExpression, TemplateLiteral
+} from '@babel/types';
 import { ErrorHandler } from './errorHandler';
+import { SuppressionDirective, SuppressionParser } from './suppressions';
+import { FeatureGuard, FeatureGuards } from './featureGuards';
+import { LineIndex } from './lineIndex';
+import { CssParser } from './cssParser';
+import { EmbeddedContent } from './embeddedContent';
+import { HtmlFeatures } from './htmlFeatures';
+import type { ParseOptions } from './projectConfig';
+import type { ReceiverTypeResolver } from './typeAwareAnalyzer';
 
 // Make vscode import optional for testing
 let vscode: any;
@@ -19,23 +29,133 @@ try {
   };
 }
 
+/**
+ * Array methods mapped when type-aware analysis finds an Array or TypedArray receiver
+ */
+const ARRAY_METHODS = new Set(['at', 'find', 'findIndex', 'forEach', 'map', 'filter', 'reduce', 'some', 'every', 'includes']);
+
+/**
+ * String methods mapped when type-aware analysis finds a String receiver
+ */
+const STRING_METHODS = new Set([
+  'at', 'includes', 'startsWith', 'endsWith', 'padStart', 'padEnd', 'repeat', 'trim', 'trimStart', 'trimEnd'
+]);
+
+/**
+ * Globals that refer to the global object, so `window.fetch` is the same API as `fetch`
+ */
+const GLOBAL_OBJECTS = new Set(['window', 'self', 'globalThis']);
+
+/**
+ * Tags of CSS-in-JS template literals besides `styled.*`, e.g. css`...` (emotion, styled-components, lit)
+ */
+const CSS_TEMPLATE_TAGS = new Set(['css', 'keyframes', 'createGlobalStyle', 'injectGlobal']);
+
+/**
+ * Modules whose `css` tag holds plain CSS that reaches the browser unprocessed
+ */
+const NATIVE_CSS_MODULES = /^(?:lit|lit-element|@lit\/.+)$/;
+
+/**
+ * JSX props taking a style object, e.g. style={{ textWrap: 'balance' }} or MUI's sx
+ */
+const STYLE_OBJECT_PROPS = new Set(['style', 'sx']);
+
+/**
+ * JSX props whose HTML attribute name is not just the lowercased prop name
+ */
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+  className: 'class',
+  htmlFor: 'for',
+  httpEquiv: 'http-equiv',
+  acceptCharset: 'accept-charset'
+};
+
+/**
+ * React props that never reach the DOM as attributes
+ */
+const JSX_FRAMEWORK_PROPS = new Set([
+  'key', 'ref', 'children', 'dangerouslySetInnerHTML', 'defaultValue', 'defaultChecked',
+  'suppressContentEditableWarning', 'suppressHydrationWarning'
+]);
+
+/**
+ * Assignment operators mapped to their logical assignment feature
+ */
+const LOGICAL_ASSIGNMENT_FEATURES: Record<string, string> = {
+  '&&=': 'javascript.operators.logical_and_assignment',
+  '||=': 'javascript.operators.logical_or_assignment',
+  '??=': 'javascript.operators.nullish_coalescing_assignment'
+};
+
+/**
+ * Regular expression flags mapped to the feature that introduced them
+ */
+const REGEXP_FLAG_FEATURES: Record<string, string> = {
+  d: 'javascript.builtins.RegExp.hasIndices',
+  v: 'javascript.builtins.RegExp.unicodeSets'
+};
+
 export interface JsParseResult {
   features: string[];
   locations: Map<string, any[]>; // Use any for VS Code Range to avoid import issues in tests
+  suppressions?: SuppressionDirective[];
+  guarded?: Map<string, any[]>;
 }
 
+/**
+ * Babel options shared by feature detection and the AST-based fixes
+ */
+const BABEL_PARSER_OPTIONS: ParserOptions = {
+  sourceType: 'module',
+  allowImportExportEverywhere: true,
+  allowReturnOutsideFunction: true,
+  plugins: [
+    'jsx',
+    'typescript',
+    'decorators-legacy',
+    'classProperties',
+    'objectRestSpread',
+    'asyncGenerators',
+    'functionBind',
+    'exportDefaultFrom',
+    'exportNamespaceFrom',
+    'dynamicImport',
+    'nullishCoalescingOperator',
+    'optionalChaining',
+    'optionalCatchBinding',
+    'throwExpressions',
+    'topLevelAwait'
+  ]
+};
+
 export class JsParser {
   private static errorHandler = ErrorHandler.getInstance();
 
+  /**
+   * Parses JavaScript or TypeScript into a Babel AST, with the same syntax support as feature detection
+   * @param content JavaScript or TypeScript content
+   * @returns Babel file node
+   * @throws SyntaxError if the content does not parse
+   */
+  public static parseAst(content: string): File {
+    return parse(content, BABEL_PARSER_OPTIONS);
+  }
+
   /**
    * Parses JavaScript content and extracts web platform features
    * @param content JavaScript content to parse
    * @param document Optional VS Code document for position mapping
+   * @param options Optional project-specific parse options
    * @returns Parse result with features and their locations
    */
-  public static parseJavaScript(content: string, document?: any): JsParseResult {
+  public static parseJavaScript(content: string, document?: any, options?: ParseOptions): JsParseResult {
+    const apiMappings = options?.mappings?.javascriptApis;
+    const receiverTypes = options?.receiverTypes;
     const features: string[] = [];
     const locations = new Map<string, any[]>();
+    const suppressions: SuppressionDirective[] = [];
+    const guarded = new Map<string, any[]>();
 
     try {
       // Validate input
@@ -44,70 +164,302 @@ export class JsParser {
         return { features: [], locations: new Map() };
       }
       // Parse JavaScript/TypeScript with Babel
-      const ast = parse(content, {
-        sourceType: 'module',
-        allowImportExportEverywhere: true,
-        allowReturnOutsideFunction: true,
-        plugins: [
-          'jsx',
-          'typescript',
-          'decorators-legacy',
-          'classProperties',
-          'objectRestSpread',
-          'asyncGenerators',
-          'functionBind',
-          'exportDefaultFrom',
-          'exportNamespaceFrom',
-          'dynamicImport',
-          'nullishCoalescingOperator',
-          'optionalChaining',
-          'optionalCatchBinding',
-          'throwExpressions',
-          'topLevelAwait'
-        ]
-      });
+      const ast = this.parseAst(content);
+
+      // Every usage of each feature; a call and the member it calls are one usage, recorded at the outer node
+      const recordUsage = (featureId: string, getRange: () => any | null, isGuarded: () => boolean) => {
+        if (!features.includes(featureId)) {
+          features.push(featureId);
+        }
+        if (!document) {
+          return;
+        }
+
+        // Track location if document is provided
+        const range = getRange();
+        if (!range || (locations.get(featureId) ?? []).some(recorded => this.rangesOverlap(recorded, range))) {
+          return;
+        }
+        this.addLocation(locations, featureId, range);
+        if (isGuarded()) {
+          this.addLocation(guarded, featureId, range);
+        }
+      };
+
+      const recordApiUsage = (featureId: string, path: NodePath, apiPath: string | null) => {
+        recordUsage(featureId, () => this.getNodeRange(path.node, document), () => this.isGuardedUsage(path, featureId, apiPath));
+      };
+
+      // Syntax and markup are reported at source offsets; runtime feature detection cannot guard them
+      let lineIndex: LineIndex | undefined;
+      const recordSpan = (featureId: string, start: number | null | undefined, end: number | null | undefined) => {
+        if (start == null || end == null || start < 0) {
+          return;
+        }
+        recordUsage(featureId, () => this.getOffsetRange(lineIndex ??= new LineIndex(content), start, end), () => false);
+      };
+
+      // Marks a keyword or operator token found at or after an offset
+      const recordToken = (featureId: string, token: string, from: number | null | undefined) => {
+        const start = from == null ? -1 : content.indexOf(token, from);
+        recordSpan(featureId, start, start + token.length);
+      };
+
+      // CSS-in-JS is checked by CssParser; its usages are recorded like any other
+      const cssOptions = options && { mappings: options.mappings };
+      const recordCssTemplate = (quasi: TemplateLiteral, languageId: string) => {
+        const css = this.getTemplateCss(quasi, content);
+        if (!css) {
+          return;
+        }
+
+        lineIndex ??= new LineIndex(content);
+        const region = { languageId, content: css.text, ...lineIndex.positionAt(css.start) };
+        const result = EmbeddedContent.shiftResult(CssParser.parseCss(css.text, { languageId }, cssOptions), region);
+        for (const featureId of result.features) {
+          for (const range of result.locations.get(featureId) ?? [null]) {
+            recordUsage(featureId, () => range, () => range !== null && FeatureGuards.isGuarded(result, featureId, range));
+          }
+        }
+        suppressions.push(...(result.suppressions ?? []));
+      };
+
+      const recordStyleObject = (object: ObjectExpression) => {
+        for (const declaration of this.getStyleDeclarations(object)) {
+          const result = CssParser.parseCss(`${declaration.property}: ${declaration.value}`, { languageId: 'css' }, cssOptions);
+          for (const featureId of result.features) {
+            // Ranges within the property name point at the key, the rest at the value
+            const range = result.locations.get(featureId)?.[0];
+            const node = range && range.start.character >= declaration.property.length ? declaration.valueNode : declaration.keyNode;
+            recordUsage(featureId, () => this.getNodeRange(node, document), () => false);
+          }
+        }
+      };
+
+      if (ast.program.interpreter) {
+        recordSpan('javascript.grammar.hashbang_comments', ast.program.interpreter.start, ast.program.interpreter.end);
+      }
 
-      // Traverse the AST to find web platform API usage
+      // Traverse the AST to find web platform API and syntax usage
       traverse(ast, {
         // Detect MemberExpression patterns (e.g., navigator.clipboard, document.querySelector)
         MemberExpression: (path) => {
-          const featureId = this.analyzeMemberExpression(path.node);
-          if (featureId && !features.includes(featureId)) {
-            features.push(featureId);
-            
-            // Track location if document is provided
-            if (document) {
-              const range = this.getNodeRange(path.node, document);
-              if (range) {
-                if (!locations.has(featureId)) {
-                  locations.set(featureId, []);
-                }
-                locations.get(featureId)!.push(range);
-              }
-            }
+          const featureId = this.analyzeMemberExpression(path.node, path.scope, apiMappings, receiverTypes);
+          if (featureId) {
+            recordApiUsage(featureId, path, this.buildMemberPath(path.node));
           }
         },
 
         // Detect CallExpression patterns on global objects
         CallExpression: (path) => {
-          const featureId = this.analyzeCallExpression(path.node);
-          if (featureId && !features.includes(featureId)) {
-            features.push(featureId);
-            
-            // Track location if document is provided
-            if (document) {
-              const range = this.getNodeRange(path.node, document);
-              if (range) {
-                if (!locations.has(featureId)) {
-                  locations.set(featureId, []);
+          const featureId = this.analyzeCallExpression(path.node, path.scope, apiMappings, receiverTypes);
+          if (featureId) {
+            const callee = path.node.callee;
+            const apiPath = callee.type === 'MemberExpression'
+              ? this.buildMemberPath(callee)
+              : callee.type === 'Identifier' ? callee.name : null;
+            recordApiUsage(featureId, path, apiPath);
+          }
+        },
+
+        // Detect constructors (e.g., new ResizeObserver(), new Intl.Segmenter())
+        NewExpression: (path) => {
+          const constructorPath = this.getExpressionPath(path.node.callee);
+          const featureId = this.analyzeNewExpression(path.node, path.scope, apiMappings);
+          if (featureId) {
+            recordApiUsage(featureId, path, constructorPath);
+          }
+        },
+
+        // Language syntax, reported at the operator or keyword that needs support
+        OptionalMemberExpression: (path) => {
+          if (path.node.optional) {
+            recordToken('javascript.operators.optional_chaining', '?.', path.node.object.end);
+          }
+        },
+
+        OptionalCallExpression: (path) => {
+          if (path.node.optional) {
+            recordToken('javascript.operators.optional_chaining', '?.', path.node.callee.end);
+          }
+        },
+
+        LogicalExpression: (path) => {
+          if (path.node.operator === '??') {
+            recordToken('javascript.operators.nullish_coalescing', '??', path.node.left.end);
+          }
+        },
+
+        AssignmentExpression: (path) => {
+          const featureId = LOGICAL_ASSIGNMENT_FEATURES[path.node.operator];
+          if (featureId) {
+            recordToken(featureId, path.node.operator, path.node.left.end);
+          }
+        },
+
+        ClassPrivateProperty: (path) => {
+          recordSpan('javascript.classes.private_class_fields', path.node.key.start, path.node.key.end);
+        },
+
+        ClassPrivateMethod: (path) => {
+          recordSpan('javascript.classes.private_class_methods', path.node.key.start, path.node.key.end);
+        },
+
+        // #field in object
+        BinaryExpression: (path) => {
+          if (path.node.operator === 'in' && path.node.left.type === 'PrivateName') {
+            recordSpan('javascript.classes.private_class_fields_in', path.node.left.start, path.node.end);
+          }
+        },
+
+        StaticBlock: (path) => {
+          recordToken('javascript.classes.static.initialization_blocks', 'static', path.node.start);
+        },
+
+        AwaitExpression: (path) => {
+          if (!path.getFunctionParent()) {
+            recordToken('javascript.operators.await.top_level', 'await', path.node.start);
+          }
+        },
+
+        ForOfStatement: (path) => {
+          if (path.node.await && !path.getFunctionParent()) {
+            recordToken('javascript.operators.await.top_level', 'await', path.node.start);
+          }
+        },
+
+        VariableDeclaration: (path) => {
+          if (path.node.kind === 'using') {
+            recordToken('javascript.statements.using', 'using', path.node.start);
+          } else if (path.node.kind === 'await using') {
+            const start = path.node.start;
+            const usingStart = start == null ? -1 : content.indexOf('using', start);
+            recordSpan('javascript.statements.await_using', start, usingStart + 'using'.length);
+          }
+        },
+
+        'NumericLiteral|BigIntLiteral': (path) => {
+          const raw = (path.node as Node & { extra?: { raw?: string } }).extra?.raw;
+          if (raw?.includes('_')) {
+            recordSpan('javascript.grammar.numeric_separators', path.node.start, path.node.end);
+          }
+        },
+
+        MetaProperty: (path) => {
+          if (path.node.meta.name === 'import' && path.node.property.name === 'meta') {
+            recordSpan('javascript.operators.import_meta', path.node.start, path.node.end);
+          }
+        },
+
+        RegExpLiteral: (path) => {
+          const { flags, end } = path.node;
+          if (end == null) {
+            return;
+          }
+          for (const [flag, featureId] of Object.entries(REGEXP_FLAG_FEATURES)) {
+            const index = flags.indexOf(flag);
+            if (index !== -1) {
+              const start = end - flags.length + index;
+              recordSpan(featureId, start, start + 1);
+            }
+          }
+        },
+
+        // CSS-in-JS: styled.div`...`, css`...`
+        TaggedTemplateExpression: (path) => {
+          const languageId = this.getCssTemplateLanguage(path.node.tag, path.scope);
+          if (languageId) {
+            recordCssTemplate(path.node.quasi, languageId);
+          }
+        },
+
+        // Intrinsic JSX elements and their props, e.g. <dialog open>, checked like HTML
+        JSXOpeningElement: (path) => {
+          const { name, attributes } = path.node;
+          // Components start with an uppercase letter; intrinsic elements don't
+          if (name.type !== 'JSXIdentifier' || !/^[a-z]/.test(name.name)) {
+            return;
+          }
+
+          const tagName = name.name;
+          const elementFeatureId = options?.mappings?.htmlElements?.[tagName] ?? HtmlFeatures.mapElementToFeatureId(tagName);
+          if (elementFeatureId) {
+            recordSpan(elementFeatureId, path.node.start, name.end);
+          }
+
+          for (const attribute of attributes) {
+            if (attribute.type !== 'JSXAttribute' || attribute.name.type !== 'JSXIdentifier') {
+              continue;
+            }
+
+            const attributeName = this.getJsxAttributeName(attribute.name.name);
+            if (!attributeName) {
+              continue;
+            }
+
+            // String values are read from source so offsets match; expression values are unknown
+            const { value } = attribute;
+            const valueStart = value?.type === 'StringLiteral' && value.start != null ? value.start + 1 : null;
+            const valueFeatures = options?.mappings?.htmlAttributes?.[attributeName]
+              ? null
+              : HtmlFeatures.mapAttributeValueToFeatures(
+                tagName,
+                attributeName,
+                valueStart !== null ? content.slice(valueStart, value!.end! - 1) : value ? null : ''
+              );
+            if (valueFeatures && valueFeatures.length > 0) {
+              for (const { featureId, start, end } of valueFeatures) {
+                if (valueStart !== null && end > start) {
+                  recordSpan(featureId, valueStart + start, valueStart + end);
+                } else {
+                  recordSpan(featureId, attribute.start, attribute.end);
                 }
-                locations.get(featureId)!.push(range);
+              }
+              continue;
+            }
+
+            const attributeFeatureId = options?.mappings?.htmlAttributes?.[attributeName]
+              ?? HtmlFeatures.mapAttributeToFeatureId(attributeName, tagName);
+            if (attributeFeatureId) {
+              recordSpan(attributeFeatureId, attribute.start, attribute.end);
+            }
+
+            if (tagName === 'input' && attributeName === 'type' && attribute.value?.type === 'StringLiteral') {
+              const inputTypeFeatureId = HtmlFeatures.mapInputTypeToFeatureId(attribute.value.value);
+              if (inputTypeFeatureId) {
+                recordSpan(inputTypeFeatureId, attribute.start, attribute.end);
               }
             }
           }
+        },
+
+        // CSS-in-JS: style={{ ... }}, sx={{ ... }}
+        JSXAttribute: (path) => {
+          const { name, value } = path.node;
+          if (
+            name.type === 'JSXIdentifier' && STYLE_OBJECT_PROPS.has(name.name) &&
+            value?.type === 'JSXExpressionContainer' && value.expression.type === 'ObjectExpression'
+          ) {
+            recordStyleObject(value.expression);
+          }
         }
       });
 
+      // Collect baseline-ignore directives from comments
+      for (const comment of ast.comments || []) {
+        if (!comment.loc) {
+          continue;
+        }
+        const directive = SuppressionParser.parseComment(comment.value, {
+          startLine: comment.loc.start.line - 1,
+          endLine: comment.loc.end.line - 1,
+          trailing: SuppressionParser.hasCodeBefore(content, comment.start ?? 0)
+        });
+        if (directive) {
+          suppressions.push(directive);
+        }
+      }
+
     } catch (error) {
       // Handle JavaScript parsing errors gracefully
       this.errorHandler.handleParserError(
@@ -119,49 +471,458 @@ export class JsParser {
       return { features: [], locations: new Map() };
     }
 
-    return { features, locations };
+    return { features, locations, suppressions, guarded };
   }
 
   /**
    * Analyzes MemberExpression nodes to detect web platform API usage
+   * Paths rooted in a local binding, e.g. an imported `navigator` helper, are only
+   * checked for Array and String methods called on the value
    * @param node MemberExpression AST node
+   * @param scope Scope the expression appears in
+   * @param apiMappings Project-specific API mappings checked before the built-in ones
+   * @param receiverTypes Resolves receiver types in type-aware mode
    * @returns web-features ID or null if not mappable
    */
-  private static analyzeMemberExpression(node: MemberExpression): string | null {
+  private static analyzeMemberExpression(
+    node: MemberExpression,
+    scope: Scope,
+    apiMappings?: Record<string, string>,
+    receiverTypes?: ReceiverTypeResolver
+  ): string | null {
     // Build the full member expression path (e.g., navigator.clipboard.writeText)
     const memberPath = this.buildMemberPath(node);
-    
+    const globalPath = memberPath ? this.resolveGlobalPath(memberPath, scope) : null;
+
+    if (globalPath) {
+      const mappedId = apiMappings?.[globalPath] ?? apiMappings?.[memberPath!];
+      if (mappedId) {
+        return mappedId;
+      }
+    }
+
+    // The receiver's declared type beats guessing from the variable name
+    const typedFeatureId = this.analyzeTypedMethodCall(node, receiverTypes);
+    if (typedFeatureId !== undefined) {
+      return typedFeatureId;
+    }
+
     if (!memberPath) {
       return null;
     }
 
-    // Map common web platform APIs to web-features IDs
-    return this.mapApiToFeatureId(memberPath);
+    if (!globalPath) {
+      const parts = memberPath.split('.');
+      return parts.length === 2 ? this.mapMethodCallToFeatureId(parts[0], parts[1]) : null;
+    }
+
+    // Map common web platform APIs to web-features IDs, e.g. `window.fetch` as `fetch`
+    if (!globalPath.includes('.')) {
+      return this.mapGlobalFunctionToFeatureId(globalPath)
+        ?? this.mapConstructorToFeatureId(globalPath)
+        ?? this.mapApiToFeatureId(memberPath);
+    }
+    return this.mapApiToFeatureId(globalPath) ?? (globalPath !== memberPath ? this.mapApiToFeatureId(memberPath) : null);
   }
 
   /**
    * Analyzes CallExpression nodes to detect web platform API usage
    * @param node CallExpression AST node
+   * @param scope Scope the call appears in
+   * @param apiMappings Project-specific API mappings checked before the built-in ones
+   * @param receiverTypes Resolves receiver types in type-aware mode
    * @returns web-features ID or null if not mappable
    */
-  private static analyzeCallExpression(node: CallExpression): string | null {
+  private static analyzeCallExpression(
+    node: CallExpression,
+    scope: Scope,
+    apiMappings?: Record<string, string>,
+    receiverTypes?: ReceiverTypeResolver
+  ): string | null {
     // Handle direct function calls on global objects
     if (node.callee.type === 'MemberExpression') {
-      const memberPath = this.buildMemberPath(node.callee);
-      if (memberPath) {
-        return this.mapApiToFeatureId(memberPath);
-      }
+      return this.analyzeMemberExpression(node.callee, scope, apiMappings, receiverTypes);
     }
 
-    // Handle global function calls (e.g., fetch(), requestAnimationFrame())
-    if (node.callee.type === 'Identifier') {
+    // Handle global function calls (e.g., fetch(), requestAnimationFrame()), unless shadowed locally
+    if (node.callee.type === 'Identifier' && !scope.getBinding(node.callee.name)) {
       const functionName = node.callee.name;
-      return this.mapGlobalFunctionToFeatureId(functionName);
+      return apiMappings?.[functionName] || this.mapGlobalFunctionToFeatureId(functionName);
     }
 
     return null;
   }
 
+  /**
+   * Analyzes NewExpression nodes to detect web platform constructors
+   * @param node NewExpression AST node
+   * @param scope Scope the expression appears in
+   * @param apiMappings Project-specific API mappings checked before the built-in ones
+   * @returns web-features ID or null if not mappable
+   */
+  private static analyzeNewExpression(
+    node: NewExpression,
+    scope: Scope,
+    apiMappings?: Record<string, string>
+  ): string | null {
+    const constructorPath = this.getExpressionPath(node.callee);
+    const globalPath = constructorPath ? this.resolveGlobalPath(constructorPath, scope) : null;
+    if (!globalPath) {
+      return null;
+    }
+
+    return apiMappings?.[globalPath] || this.mapConstructorToFeatureId(globalPath);
+  }
+
+  /**
+   * Resolves a member path to the global API it refers to
+   * @param memberPath Dot-separated path, e.g. "window.navigator.share"
+   * @param scope Scope the path appears in
+   * @returns Path without `window.`, `self.` and `globalThis.` prefixes,
+   * or null if its root is a local variable, parameter or import
+   */
+  private static resolveGlobalPath(memberPath: string, scope: Scope): string | null {
+    const parts = memberPath.split('.');
+    if (scope.getBinding(parts[0])) {
+      return null;
+    }
+
+    while (parts.length > 1 && GLOBAL_OBJECTS.has(parts[0])) {
+      parts.shift();
+    }
+    return parts.join('.');
+  }
+
+  /**
+   * Maps an Array, String or TypedArray method using the receiver's declared type
+   * @param node MemberExpression AST node, e.g. `items.at`
+   * @param receiverTypes Resolves receiver types in type-aware mode
+   * @returns web-features ID, null if the receiver has none of those types,
+   * or undefined if the type is unknown and name-based detection should decide
+   */
+  private static analyzeTypedMethodCall(node: MemberExpression, receiverTypes?: ReceiverTypeResolver): string | null | undefined {
+    if (!receiverTypes || node.computed || node.property.type !== 'Identifier' || node.object.start == null || node.object.end == null) {
+      return undefined;
+    }
+
+    const method = node.property.name;
+    if (!ARRAY_METHODS.has(method) && !STRING_METHODS.has(method)) {
+      return undefined;
+    }
+
+    switch (receiverTypes(node.object.start, node.object.end)) {
+      case 'Array':
+        return ARRAY_METHODS.has(method) ? `api.Array.${method}` : null;
+      case 'String':
+        return STRING_METHODS.has(method) ? `api.String.${method}` : null;
+      case 'TypedArray':
+        return ARRAY_METHODS.has(method) ? `api.TypedArray.${method}` : null;
+      case 'other':
+        return null;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Translates a JSX prop name to the HTML attribute it renders
+   * @param propName JSX prop name, e.g. "className" or "fetchPriority"
+   * @returns HTML attribute name, or null for props that are not rendered as attributes
+   */
+  private static getJsxAttributeName(propName: string): string | null {
+    if (JSX_FRAMEWORK_PROPS.has(propName)) {
+      return null;
+    }
+    // data-* and aria-* props keep their HTML spelling
+    if (propName.includes('-')) {
+      return propName.toLowerCase();
+    }
+    return JSX_ATTRIBUTE_NAMES[propName] ?? propName.toLowerCase();
+  }
+
+  /**
+   * Gets the CSS syntax of a CSS-in-JS tagged template
+   * Styles for styled-components and emotion are preprocessed, so their nesting is parsed as SCSS;
+   * lit's `css` is plain CSS
+   * @param tag Template tag, e.g. `styled.div`, `styled(Button).attrs(...)` or `css`
+   * @param scope Scope the template appears in
+   * @returns CSS language ID, or null if the template is not CSS
+   */
+  private static getCssTemplateLanguage(tag: Node, scope: Scope): string | null {
+    let root = tag;
+    while (root.type === 'MemberExpression' || root.type === 'CallExpression') {
+      root = root.type === 'MemberExpression' ? root.object : root.callee;
+    }
+    if (root.type !== 'Identifier') {
+      return null;
+    }
+    if (root.name === 'styled') {
+      return 'scss';
+    }
+    if (tag !== root || !CSS_TEMPLATE_TAGS.has(root.name)) {
+      return null;
+    }
+
+    const binding = scope.getBinding(root.name);
+    const declaration = binding?.kind === 'module' ? binding.path.parentPath?.node : undefined;
+    return declaration?.type === 'ImportDeclaration' && NATIVE_CSS_MODULES.test(declaration.source.value) ? 'css' : 'scss';
+  }
+
+  /**
+   * Gets the CSS text of a template literal
+   * Interpolations are replaced by comments of the same length, or by spaces when a comment does not fit,
+   * keeping line breaks so offsets into the text match the source
+   * @param quasi Template literal
+   * @param content Source content
+   * @returns CSS text and its start offset, or null if the template has no location
+   */
+  private static getTemplateCss(quasi: TemplateLiteral, content: string): { text: string; start: number } | null {
+    const first = quasi.quasis[0];
+    const last = quasi.quasis[quasi.quasis.length - 1];
+    if (first?.start == null || last?.end == null) {
+      return null;
+    }
+
+    let text = content.slice(first.start, last.end);
+    for (let index = 0; index < quasi.quasis.length - 1; index++) {
+      const spanStart = quasi.quasis[index].end! - first.start;
+      const spanEnd = quasi.quasis[index + 1].start! - first.start;
+      const placeholder = text.slice(spanStart, spanEnd).replace(/[^\r\n]/g, ' ').split('');
+      // The comment closes at the last two adjacent characters on one line; spans without room stay blank
+      for (let end = placeholder.length - 1; end >= 3; end--) {
+        if (placeholder[end] === ' ' && placeholder[end - 1] === ' ') {
+          placeholder[0] = '/';
+          placeholder[1] = '*';
+          placeholder[end - 1] = '*';
+          placeholder[end] = '/';
+          break;
+        }
+      }
+      text = text.slice(0, spanStart) + placeholder.join('') + text.slice(spanEnd);
+    }
+
+    return { text, start: first.start };
+  }
+
+  /**
+   * Collects the CSS declarations of a style object, including nested selector and media objects
+   * camelCase keys become CSS properties, e.g. `WebkitLineClamp` becomes `-webkit-line-clamp`
+   * @param object Style object expression
+   * @returns Declarations with the nodes of their key and value
+   */
+  private static getStyleDeclarations(
+    object: ObjectExpression
+  ): Array<{ property: string; value: string; keyNode: Node; valueNode: Node }> {
+    const declarations: Array<{ property: string; value: string; keyNode: Node; valueNode: Node }> = [];
+
+    for (const property of object.properties) {
+      if (property.type !== 'ObjectProperty' || property.computed) {
+        continue;
+      }
+
+      const valueNode = property.value;
+      if (valueNode.type === 'ObjectExpression') {
+        declarations.push(...this.getStyleDeclarations(valueNode));
+        continue;
+      }
+
+      const key = property.key.type === 'Identifier' ? property.key.name
+        : property.key.type === 'StringLiteral' ? property.key.value : null;
+      if (!key || !/^-?[A-Za-z][-\w]*$/.test(key)) {
+        continue;
+      }
+
+      let name = key.includes('-') ? key.toLowerCase() : key.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+      if (name.startsWith('ms-')) {
+        name = `-${name}`;
+      }
+
+      // Dynamic values still show which property is used
+      let value = 'initial';
+      if (valueNode.type === 'StringLiteral') {
+        value = valueNode.value;
+      } else if (valueNode.type === 'NumericLiteral') {
+        value = String(valueNode.value);
+      } else if (valueNode.type === 'TemplateLiteral' && valueNode.expressions.length === 0) {
+        value = valueNode.quasis[0].value.cooked ?? value;
+      }
+
+      declarations.push({ property: name, value, keyNode: property.key, valueNode });
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Checks whether a usage only runs where its feature was detected
+   * Recognises optional calls (`navigator.share?.()`), the detection itself
+   * (`if (navigator.share)`, `typeof X`), `if`/ternary/`&&` branches and early exits
+   * such as `if (!('share' in navigator)) return;`
+   * @param path Path of the usage
+   * @param featureId Feature reported for the usage
+   * @param apiPath Member path or global name of the usage
+   * @returns true if the usage is guarded
+   */
+  private static isGuardedUsage(path: NodePath, featureId: string, apiPath: string | null): boolean {
+    const parent = path.parent;
+    if (
+      (parent.type === 'OptionalCallExpression' && parent.callee === path.node && parent.optional) ||
+      (parent.type === 'OptionalMemberExpression' && parent.object === path.node && parent.optional) ||
+      (parent.type === 'UnaryExpression' && parent.operator === 'typeof')
+    ) {
+      return true;
+    }
+
+    const guard = FeatureGuards.createGuard();
+    let child: NodePath = path;
+    for (let ancestor = path.parentPath; ancestor; child = ancestor, ancestor = ancestor.parentPath) {
+      const node = ancestor.node;
+
+      if (node.type === 'IfStatement' || node.type === 'ConditionalExpression') {
+        if (child.key === 'test' || child.key === 'consequent') {
+          this.collectTestGuards(node.test, false, guard);
+        } else if (child.key === 'alternate') {
+          this.collectTestGuards(node.test, true, guard);
+        }
+      } else if (node.type === 'LogicalExpression') {
+        if (child.key === 'left') {
+          this.collectTestGuards(node.left, false, guard);
+        } else if (node.operator === '&&' || node.operator === '||') {
+          this.collectTestGuards(node.left, node.operator === '||', guard);
+        }
+      }
+
+      // Statements after `if (!detected) return;` only run when the feature was detected
+      if (child.listKey === 'body' && Array.isArray(child.container)) {
+        for (const sibling of child.getAllPrevSiblings()) {
+          const statement = sibling.node;
+          if (statement.type === 'IfStatement' && !statement.alternate && this.exitsUnconditionally(statement.consequent)) {
+            this.collectTestGuards(statement.test, true, guard);
+          }
+        }
+      }
+    }
+
+    if (apiPath !== null && FeatureGuards.guardsApiPath(guard, apiPath)) {
+      return true;
+    }
+    return featureId.startsWith('css.properties.')
+      && FeatureGuards.guardsCssProperty(guard, featureId.slice('css.properties.'.length));
+  }
+
+  /**
+   * Collects what a feature-detection test proves to be available
+   * @param test Test expression, e.g. `'share' in navigator`
+   * @param negated Whether the guarded code runs when the test is false
+   * @param guard Guard to add the detected features to
+   */
+  private static collectTestGuards(test: Node, negated: boolean, guard: FeatureGuard): void {
+    switch (test.type) {
+      case 'UnaryExpression':
+        if (test.operator === '!') {
+          this.collectTestGuards(test.argument, !negated, guard);
+        }
+        return;
+
+      case 'LogicalExpression':
+        // Both operands hold when `a && b` is true or when `a || b` is false
+        if ((test.operator === '&&' && !negated) || (test.operator === '||' && negated)) {
+          this.collectTestGuards(test.left, negated, guard);
+          this.collectTestGuards(test.right, negated, guard);
+        }
+        return;
+
+      case 'BinaryExpression': {
+        // 'share' in navigator
+        if (test.operator === 'in') {
+          const objectPath = this.getExpressionPath(test.right);
+          if (!negated && test.left.type === 'StringLiteral' && objectPath) {
+            guard.apiPaths.push(`${objectPath}.${test.left.value}`);
+          }
+          return;
+        }
+
+        const isEquality = test.operator === '===' || test.operator === '==';
+        if (!isEquality && test.operator !== '!==' && test.operator !== '!=') {
+          return;
+        }
+
+        // typeof X !== 'undefined', typeof X === 'function'
+        const [typeofSide, otherSide] = test.left.type === 'UnaryExpression' && test.left.operator === 'typeof'
+          ? [test.left, test.right]
+          : [test.right, test.left];
+        if (typeofSide.type === 'UnaryExpression' && typeofSide.operator === 'typeof' && otherSide.type === 'StringLiteral') {
+          const proves = isEquality !== (otherSide.value === 'undefined');
+          const guardedPath = this.getExpressionPath(typeofSide.argument);
+          if (proves !== negated && guardedPath) {
+            guard.apiPaths.push(guardedPath);
+          }
+          return;
+        }
+
+        // X !== undefined, X != null
+        const isNullish = (node: Node) => node.type === 'NullLiteral' || (node.type === 'Identifier' && node.name === 'undefined');
+        const checked = isNullish(test.right) ? test.left : isNullish(test.left) ? test.right : null;
+        const guardedPath = checked ? this.getExpressionPath(checked) : null;
+        if (!isEquality !== negated && guardedPath) {
+          guard.apiPaths.push(guardedPath);
+        }
+        return;
+      }
+
+      case 'CallExpression': {
+        // CSS.supports('container-type', 'inline-size')
+        const callee = test.callee.type === 'MemberExpression' ? this.buildMemberPath(test.callee) : null;
+        if (!negated && callee?.replace(/^(?:window|self|globalThis)\./, '') === 'CSS.supports') {
+          const args = test.arguments
+            .filter((arg): arg is StringLiteral => arg.type === 'StringLiteral')
+            .map(arg => arg.value);
+          guard.cssProperties.push(...FeatureGuards.parseCssSupportsArguments(args));
+        }
+        return;
+      }
+
+      default: {
+        // Truthiness checks such as `if (navigator.share)`
+        const guardedPath = this.getExpressionPath(test);
+        if (!negated && guardedPath) {
+          guard.apiPaths.push(guardedPath);
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks whether a statement always leaves the enclosing block
+   * @param statement Statement to check
+   * @returns true for return, throw, break and continue, or a block ending in one
+   */
+  private static exitsUnconditionally(statement: Node): boolean {
+    switch (statement.type) {
+      case 'ReturnStatement':
+      case 'ThrowStatement':
+      case 'BreakStatement':
+      case 'ContinueStatement':
+        return true;
+      case 'BlockStatement':
+        return statement.body.length > 0 && this.exitsUnconditionally(statement.body[statement.body.length - 1]);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Gets the member path or global name an expression refers to
+   * @param node Expression node
+   * @returns Dot-separated path, or null for other expressions
+   */
+  private static getExpressionPath(node: Node): string | null {
+    if (node.type === 'Identifier') {
+      return node.name;
+    }
+    return node.type === 'MemberExpression' ? this.buildMemberPath(node) : null;
+  }
+
   /**
    * Builds a dot-separated path from a MemberExpression node
    * @param node MemberExpression node
@@ -224,7 +985,13 @@ export class JsParser {
       'String.prototype.padStart': 'api.String.padStart',
       'String.prototype.padEnd': 'api.String.padEnd',
       'Promise.allSettled': 'api.Promise.allSettled',
-      'Promise.any': 'api.Promise.any'
+      'Promise.any': 'api.Promise.any',
+
+      // Static members of built-ins
+      'Array.fromAsync': 'javascript.builtins.Array.fromAsync',
+      'Object.groupBy': 'javascript.builtins.Object.groupBy',
+      'Map.groupBy': 'javascript.builtins.Map.groupBy',
+      'Promise.withResolvers': 'javascript.builtins.Promise.withResolvers'
     };
 
     // Direct mapping
@@ -253,27 +1020,9 @@ export class JsParser {
         return 'api.IDBFactory';
       }
       
-      // Check for array-specific methods (methods that only exist on arrays)
-      if (['at', 'find', 'findIndex', 'forEach', 'map', 'filter', 'reduce', 'some', 'every'].includes(method)) {
-        return `api.Array.${method}`;
-      }
-      
-      // Check for string-specific methods (methods that only exist on strings)
-      if (['startsWith', 'endsWith', 'padStart', 'padEnd', 'repeat', 'trim', 'trimStart', 'trimEnd'].includes(method)) {
-        return `api.String.${method}`;
-      }
-      
-      // For ambiguous methods like 'includes', we need to make a decision
-      // In practice, we might need more context, but for now, let's prioritize based on common usage
-      if (method === 'includes') {
-        // Check variable name patterns to guess type
-        if (object.toLowerCase().includes('str') || object.toLowerCase().includes('text')) {
-          return 'api.String.includes';
-        } else if (object.toLowerCase().includes('arr') || object.toLowerCase().includes('list')) {
-          return 'api.Array.includes';
-        }
-        // Default to string for includes since it's more commonly used
-        return 'api.String.includes';
+      const methodFeatureId = this.mapMethodCallToFeatureId(object, method);
+      if (methodFeatureId) {
+        return methodFeatureId;
       }
     }
 
@@ -296,6 +1045,40 @@ export class JsParser {
     return null;
   }
 
+  /**
+   * Maps a method call on a value to a web-features ID, guessing the value's type
+   * from the method and variable name
+   * @param object Variable the method is called on
+   * @param method Method name
+   * @returns web-features ID or null
+   */
+  private static mapMethodCallToFeatureId(object: string, method: string): string | null {
+    // Check for array-specific methods (methods that only exist on arrays)
+    if (['at', 'find', 'findIndex', 'forEach', 'map', 'filter', 'reduce', 'some', 'every'].includes(method)) {
+      return `api.Array.${method}`;
+    }
+    
+    // Check for string-specific methods (methods that only exist on strings)
+    if (['startsWith', 'endsWith', 'padStart', 'padEnd', 'repeat', 'trim', 'trimStart', 'trimEnd'].includes(method)) {
+      return `api.String.${method}`;
+    }
+    
+    // For ambiguous methods like 'includes', we need to make a decision
+    // In practice, we might need more context, but for now, let's prioritize based on common usage
+    if (method === 'includes') {
+      // Check variable name patterns to guess type
+      if (object.toLowerCase().includes('str') || object.toLowerCase().includes('text')) {
+        return 'api.String.includes';
+      } else if (object.toLowerCase().includes('arr') || object.toLowerCase().includes('list')) {
+        return 'api.Array.includes';
+      }
+      // Default to string for includes since it's more commonly used
+      return 'api.String.includes';
+    }
+
+    return null;
+  }
+
   /**
    * Maps global function names to web-features IDs
    * @param functionName Global function name
@@ -319,6 +1102,25 @@ export class JsParser {
     return globalFunctionMappings[functionName] || null;
   }
 
+  /**
+   * Maps global constructors to BCD compat keys
+   * @param constructorPath Constructor name or path, e.g. "Intl.Segmenter"
+   * @returns Compat key of the constructor or null
+   */
+  private static mapConstructorToFeatureId(constructorPath: string): string | null {
+    const constructorMappings: Record<string, string> = {
+      'IntersectionObserver': 'api.IntersectionObserver.IntersectionObserver',
+      'ResizeObserver': 'api.ResizeObserver.ResizeObserver',
+      'BroadcastChannel': 'api.BroadcastChannel.BroadcastChannel',
+      'CompressionStream': 'api.CompressionStream.CompressionStream',
+      'DecompressionStream': 'api.DecompressionStream.DecompressionStream',
+      'URLPattern': 'api.URLPattern.URLPattern',
+      'Intl.Segmenter': 'javascript.builtins.Intl.Segmenter.Segmenter'
+    };
+
+    return constructorMappings[constructorPath] || null;
+  }
+
   /**
    * Gets the VS Code range for an AST node
    * @param node AST node
@@ -352,6 +1154,46 @@ export class JsParser {
     }
   }
 
+  /**
+   * Gets the VS Code range between two source offsets
+   * @param lineIndex Line index of the source
+   * @param start Start offset
+   * @param end End offset
+   * @returns VS Code range
+   */
+  private static getOffsetRange(lineIndex: LineIndex, start: number, end: number): any {
+    const toPosition = (offset: number) => {
+      const { line, character } = lineIndex.positionAt(offset);
+      return new vscode.Position(line, character);
+    };
+
+    return new vscode.Range(toPosition(start), toPosition(end));
+  }
+
+  /**
+   * Adds a location to a per-feature location map
+   * @param map Location map
+   * @param featureId Feature the location belongs to
+   * @param range VS Code range
+   */
+  private static addLocation(map: Map<string, any[]>, featureId: string, range: any): void {
+    if (!map.has(featureId)) {
+      map.set(featureId, []);
+    }
+    map.get(featureId)!.push(range);
+  }
+
+  /**
+   * Checks whether two ranges share any characters
+   * @param a First VS Code range
+   * @param b Second VS Code range
+   * @returns true if the ranges overlap
+   */
+  private static rangesOverlap(a: any, b: any): boolean {
+    const isBefore = (x: any, y: any) => x.line < y.line || (x.line === y.line && x.character < y.character);
+    return isBefore(a.start, b.end) && isBefore(b.start, a.end);
+  }
+
   /**
    * Extracts just the feature IDs without location information
    * @param content JavaScript content to parse
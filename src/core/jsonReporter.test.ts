@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JsonReporter } from './jsonReporter';
+import type { CompatibilityIssue, FileAuditResult } from './auditEngine';
+import type { BaselineDataManager } from './baselineData';
+
+const manager = {
+  getTarget: vi.fn(() => ({ kind: 'widely', value: 'widely', label: 'Baseline Widely Available' })),
+  getDataVersion: vi.fn(() => '3.0.0')
+} as unknown as BaselineDataManager;
+
+function issue(overrides: Partial<CompatibilityIssue>): CompatibilityIssue {
+  return {
+    featureId: 'css.properties.container-type',
+    featureName: 'Container queries',
+    filePath: 'src/app.css',
+    lineNumber: 1,
+    columnNumber: 1,
+    languageType: 'CSS',
+    severity: 'warning',
+    ...overrides
+  };
+}
+
+describe('JsonReporter', () => {
+  const reporter = new JsonReporter(manager);
+
+  it('should include the data version, target and timestamp', () => {
+    const report = reporter.generate([], new Date('2025-01-02T03:04:05Z'));
+
+    expect(report.generatedAt).toBe('2025-01-02T03:04:05.000Z');
+    expect(report.dataVersion).toBe('3.0.0');
+    expect(report.target).toEqual({ value: 'widely', label: 'Baseline Widely Available' });
+    expect(report.summary.averageScore).toBe(100);
+  });
+
+  it('should summarize issues per file, severity and language', () => {
+    const files: FileAuditResult[] = [
+      {
+        filePath: 'src/app.css',
+        languageType: 'CSS',
+        totalFeatures: 4,
+        baselineFeatures: 3,
+        issues: [issue({})]
+      },
+      {
+        filePath: 'src/app.js',
+        languageType: 'JavaScript',
+        totalFeatures: 2,
+        baselineFeatures: 0,
+        issues: [
+          issue({ featureId: 'api.Clipboard', filePath: 'src/app.js', languageType: 'JavaScript', severity: 'error' }),
+          issue({ featureId: 'api.Clipboard', filePath: 'src/app.js', languageType: 'JavaScript', severity: 'error', lineNumber: 4 }),
+          issue({ featureId: 'api.structuredClone', filePath: 'src/app.js', languageType: 'JavaScript' })
+        ]
+      }
+    ];
+
+    const report = reporter.generate(files);
+
+    expect(report.summary).toEqual({
+      filesScanned: 2,
+      issues: 4,
+      averageScore: 38,
+      bySeverity: { error: 2, warning: 2, info: 0 },
+      byLanguage: { CSS: 1, JavaScript: 3, HTML: 0 }
+    });
+    expect(report.files.map(file => [file.path, file.score, file.issues])).toEqual([
+      ['src/app.css', 75, 1],
+      ['src/app.js', 0, 3]
+    ]);
+    expect(report.issues).toHaveLength(4);
+  });
+});
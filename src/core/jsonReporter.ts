@@ -0,0 +1,92 @@
+import { BaselineDataManager } from './baselineData';
+import { AuditEngine, CompatibilityIssue, FileAuditResult, IssueSeverity, LanguageType } from './auditEngine';
+
+/**
+ * Machine-readable audit report
+ */
+export interface JsonAuditReport {
+  generatedAt: string;
+  tool: { name: string };
+  /** Version of the web-features dataset the audit was evaluated with */
+  dataVersion: string | null;
+  target: { value: string; label: string };
+  summary: {
+    filesScanned: number;
+    issues: number;
+    averageScore: number;
+    bySeverity: Record<IssueSeverity, number>;
+    byLanguage: Record<LanguageType, number>;
+  };
+  files: JsonFileReport[];
+  issues: CompatibilityIssue[];
+}
+
+/**
+ * Per-file entry of the JSON report
+ */
+export interface JsonFileReport {
+  path: string;
+  languageType: LanguageType;
+  score: number;
+  totalFeatures: number;
+  baselineFeatures: number;
+  issues: number;
+}
+
+/**
+ * JsonReporter converts audit results into a structured JSON report for other tooling
+ */
+export class JsonReporter {
+  private baselineDataManager: BaselineDataManager;
+
+  constructor(baselineDataManager: BaselineDataManager = BaselineDataManager.getInstance()) {
+    this.baselineDataManager = baselineDataManager;
+  }
+
+  /**
+   * Generates the JSON report
+   * @param files Per-file audit results
+   * @param generatedAt Report timestamp
+   * @returns JSON report object
+   */
+  public generate(files: FileAuditResult[], generatedAt: Date = new Date()): JsonAuditReport {
+    const issues = files.flatMap(file => file.issues);
+    const target = this.baselineDataManager.getTarget();
+
+    const bySeverity: Record<IssueSeverity, number> = { error: 0, warning: 0, info: 0 };
+    const byLanguage: Record<LanguageType, number> = { CSS: 0, JavaScript: 0, HTML: 0 };
+    for (const issue of issues) {
+      bySeverity[issue.severity]++;
+      byLanguage[issue.languageType]++;
+    }
+
+    const fileReports = files.map(file => ({
+      path: file.filePath,
+      languageType: file.languageType,
+      score: AuditEngine.calculateFileScore(file),
+      totalFeatures: file.totalFeatures,
+      baselineFeatures: file.baselineFeatures,
+      issues: file.issues.length
+    }));
+
+    const averageScore = fileReports.length > 0
+      ? Math.round(fileReports.reduce((sum, file) => sum + file.score, 0) / fileReports.length)
+      : 100;
+
+    return {
+      generatedAt: generatedAt.toISOString(),
+      tool: { name: 'Baseline Sidekick' },
+      dataVersion: this.baselineDataManager.getDataVersion() ?? null,
+      target: { value: target.value, label: target.label },
+      summary: {
+        filesScanned: files.length,
+        issues: issues.length,
+        averageScore,
+        bySeverity,
+        byLanguage
+      },
+      files: fileReports,
+      issues
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JunitReporter } from './junitReporter';
+import type { FileAuditResult } from './auditEngine';
+import type { BaselineDataManager } from './baselineData';
+
+const manager = {
+  getTarget: vi.fn(() => ({ label: 'Baseline 2023' }))
+} as unknown as BaselineDataManager;
+
+const files: FileAuditResult[] = [
+  { filePath: 'src/clean.css', languageType: 'CSS', totalFeatures: 1, baselineFeatures: 1, issues: [] },
+  {
+    filePath: 'src/<app>.js',
+    languageType: 'JavaScript',
+    totalFeatures: 1,
+    baselineFeatures: 0,
+    issues: [1, 7].map(lineNumber => ({
+      featureId: 'api.Clipboard',
+      featureName: 'Async "clipboard"',
+      filePath: 'src/<app>.js',
+      lineNumber,
+      columnNumber: 3,
+      languageType: 'JavaScript' as const,
+      severity: 'error' as const
+    }))
+  }
+];
+
+describe('JunitReporter', () => {
+  const xml = new JunitReporter(manager).generate(files, new Date('2025-01-02T03:04:05Z'));
+
+  it('should emit one test case per file with suite totals', () => {
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+    expect(xml).toContain('<testsuite name="Baseline compatibility (Baseline 2023)" tests="2" failures="1" errors="0" skipped="0" timestamp="2025-01-02T03:04:05.000Z">');
+    expect(xml).toContain('<testcase classname="CSS" name="src/clean.css" file="src/clean.css" />');
+  });
+
+  it('should emit one escaped failure per issue', () => {
+    expect(xml.match(/<failure /g)).toHaveLength(2);
+    expect(xml).toContain('name="src/&lt;app&gt;.js"');
+    expect(xml).toContain('message="Async &quot;clipboard&quot; is not supported by the Baseline target"');
+    expect(xml).toContain('src/&lt;app&gt;.js:7:3 error: Async &quot;clipboard&quot; (api.Clipboard)</failure>');
+  });
+});
@@ -0,0 +1,69 @@
+import { BaselineDataManager } from './baselineData';
+import type { FileAuditResult } from './auditEngine';
+
+/**
+ * JunitReporter converts audit results into JUnit XML for CI test dashboards
+ * Each audited file is a test case and each compatibility issue is a failure
+ */
+export class JunitReporter {
+  private baselineDataManager: BaselineDataManager;
+
+  constructor(baselineDataManager: BaselineDataManager = BaselineDataManager.getInstance()) {
+    this.baselineDataManager = baselineDataManager;
+  }
+
+  /**
+   * Generates the JUnit XML report
+   * @param files Per-file audit results
+   * @param generatedAt Report timestamp
+   * @returns JUnit XML document
+   */
+  public generate(files: FileAuditResult[], generatedAt: Date = new Date()): string {
+    const failedFiles = files.filter(file => file.issues.length > 0).length;
+    const suiteName = `Baseline compatibility (${this.baselineDataManager.getTarget().label})`;
+    const counts = `tests="${files.length}" failures="${failedFiles}" errors="0" skipped="0"`;
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="Baseline Sidekick" ${counts}>`,
+      `  <testsuite name="${this.escape(suiteName)}" ${counts} timestamp="${generatedAt.toISOString()}">`
+    ];
+
+    for (const file of files) {
+      const testCase = `    <testcase classname="${file.languageType}" name="${this.escape(file.filePath)}" file="${this.escape(file.filePath)}"`;
+
+      if (file.issues.length === 0) {
+        lines.push(`${testCase} />`);
+        continue;
+      }
+
+      lines.push(`${testCase}>`);
+      for (const issue of file.issues) {
+        const location = `${issue.filePath}:${issue.lineNumber}:${issue.columnNumber}`;
+        const message = `${issue.featureName} is not supported by the Baseline target`;
+        lines.push(
+          `      <failure type="${this.escape(issue.featureId)}" message="${this.escape(message)}">` +
+          `${this.escape(`${location} ${issue.severity}: ${issue.featureName} (${issue.featureId})`)}</failure>`
+        );
+      }
+      lines.push('    </testcase>');
+    }
+
+    lines.push('  </testsuite>', '</testsuites>');
+    return lines.join('\n');
+  }
+
+  /**
+   * Escapes text for use in XML attributes and content
+   * @param value Raw text
+   * @returns Escaped text
+   */
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Zero-based line and character of a source offset
+ */
+export interface LinePosition {
+  line: number;
+  character: number;
+}
+
+/**
+ * LineIndex converts between source offsets and line/character positions,
+ * for ranges that do not line up with a parser's own nodes
+ */
+export class LineIndex {
+  /** Offset at which each line starts, indexed by zero-based line */
+  private readonly lineStarts: number[] = [0];
+
+  constructor(content: string) {
+    for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+      this.lineStarts.push(index + 1);
+    }
+  }
+
+  /**
+   * Gets the position of a source offset
+   * @param offset Offset into the content
+   * @returns Zero-based line and character
+   */
+  public positionAt(offset: number): LinePosition {
+    // Binary search for the last line starting at or before the offset
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low, character: offset - this.lineStarts[low] };
+  }
+
+  /**
+   * Gets the source offset of a position
+   * @param position Zero-based line and character
+   * @returns Offset into the content
+   */
+  public offsetAt(position: LinePosition): number {
+    return (this.lineStarts[position.line] ?? this.lineStarts[this.lineStarts.length - 1]) + position.character;
+  }
+}
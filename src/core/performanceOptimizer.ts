@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { DEFAULT_MAX_FILE_SIZE } from './auditEngine';
 import { ErrorHandler, Logger } from './errorHandler';
 
 /**
@@ -26,7 +27,7 @@ export interface PerformanceConfig {
  */
 export const DEFAULT_PERFORMANCE_CONFIG: PerformanceConfig = {
   debounceDelay: 300,
-  maxFileSize: 5 * 1024 * 1024, // 5MB
+  maxFileSize: DEFAULT_MAX_FILE_SIZE, // 5MB
   maxCacheSize: 10000,
   parseTimeout: 5000, // 5 seconds
   maxAnalysisDepth: 50,
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectConfigError, ProjectConfigLoader } from './projectConfig';
+import { CssParser } from './cssParser';
+import { JsParser } from './jsParser';
+import { HtmlParser } from './htmlParser';
+
+describe('ProjectConfigLoader', () => {
+  const source = path.join(os.tmpdir(), 'project', '.baselinerc.json');
+
+  describe('validate', () => {
+    it('should read target, rules, ignored paths and mappings', () => {
+      const config = ProjectConfigLoader.validate({
+        target: 'widely',
+        rules: { 'container-queries': 'off', 'css.properties.float': 'error' },
+        ignorePaths: ['legacy/**'],
+        mappings: { cssProperties: { 'scrollbar-gutter': 'css.properties.scrollbar-gutter' } }
+      }, source);
+
+      expect(config.target?.kind).toBe('widely');
+      expect(config.rules).toEqual({ 'container-queries': 'off', 'css.properties.float': 'error' });
+      expect(config.ignorePaths).toEqual(['legacy/**']);
+      expect(config.mappings.cssProperties).toEqual({ 'scrollbar-gutter': 'css.properties.scrollbar-gutter' });
+    });
+
+    it('should reject invalid fields with the config file in the message', () => {
+      expect(() => ProjectConfigLoader.validate({ rules: { gap: 'fatal' } }, source)).toThrow(ProjectConfigError);
+      expect(() => ProjectConfigLoader.validate({ target: 'not a real query' }, source)).toThrow(/Invalid target/);
+      expect(() => ProjectConfigLoader.validate({ ignorePaths: 'legacy' }, source)).toThrow(/ignorePaths/);
+      expect(() => ProjectConfigLoader.validate({ mappings: { cssSelectors: {} } }, source)).toThrow(/Unknown mapping kind/);
+      expect(() => ProjectConfigLoader.validate({ guardedUsage: 'hidden' }, source)).toThrow(/guardedUsage/);
+      expect(() => ProjectConfigLoader.validate({ typeAware: 'yes' }, source)).toThrow(/typeAware/);
+      expect(() => ProjectConfigLoader.validate([], source)).toThrow(source);
+    });
+  });
+
+  describe('parseConfigFile', () => {
+    it('should read the baseline key of package.json', () => {
+      const packageJson = path.join(os.tmpdir(), 'project', 'package.json');
+
+      expect(ProjectConfigLoader.parseConfigFile('{"name":"app"}', packageJson)).toBeUndefined();
+      expect(ProjectConfigLoader.parseConfigFile('{"baseline":{"target":"2023"}}', packageJson)?.target?.year).toBe(2023);
+      expect(() => ProjectConfigLoader.parseConfigFile('{', source)).toThrow(/Invalid JSON/);
+    });
+  });
+
+  describe('loadFromDirectory', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-config-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should prefer .baselinerc.json over package.json', () => {
+      expect(ProjectConfigLoader.loadFromDirectory(root)).toBeUndefined();
+
+      fs.writeFileSync(path.join(root, 'package.json'), JSON.stringify({ baseline: { target: 'newly' } }));
+      expect(ProjectConfigLoader.loadFromDirectory(root)?.source).toBe(path.join(root, 'package.json'));
+
+      fs.writeFileSync(path.join(root, '.baselinerc.json'), JSON.stringify({ target: 'widely' }));
+      expect(ProjectConfigLoader.loadFromDirectory(root)?.target?.kind).toBe('widely');
+    });
+  });
+
+  describe('getRuleSeverity', () => {
+    it('should match compat keys before their web-features ID', () => {
+      const config = ProjectConfigLoader.validate({
+        rules: { 'container-queries': 'info', 'css.at-rules.container': 'off' }
+      }, source);
+      const resolve = () => 'container-queries';
+
+      expect(ProjectConfigLoader.getRuleSeverity(config, 'css.at-rules.container', resolve)).toBe('off');
+      expect(ProjectConfigLoader.getRuleSeverity(config, 'css.properties.container-type', resolve)).toBe('info');
+      expect(ProjectConfigLoader.getRuleSeverity(config, 'api.fetch', () => undefined)).toBeUndefined();
+      expect(ProjectConfigLoader.getRuleSeverity(undefined, 'api.fetch')).toBeUndefined();
+    });
+  });
+
+  describe('isIgnoredPath', () => {
+    it('should match globs relative to the config file', () => {
+      const config = ProjectConfigLoader.validate({ ignorePaths: ['legacy/**', '**/*.min.css'] }, source);
+      const root = path.dirname(source);
+
+      expect(ProjectConfigLoader.isIgnoredPath(config, path.join(root, 'legacy', 'old.css'))).toBe(true);
+      expect(ProjectConfigLoader.isIgnoredPath(config, path.join(root, 'src', 'app.min.css'))).toBe(true);
+      expect(ProjectConfigLoader.isIgnoredPath(config, path.join(root, 'src', 'app.css'))).toBe(false);
+      expect(ProjectConfigLoader.isIgnoredPath(undefined, path.join(root, 'legacy', 'old.css'))).toBe(false);
+    });
+  });
+
+  describe('feature mappings', () => {
+    it('should extend what the parsers detect', () => {
+      const options = ProjectConfigLoader.getParseOptions(ProjectConfigLoader.validate({
+        mappings: {
+          cssProperties: { 'scrollbar-gutter': 'css.properties.scrollbar-gutter' },
+          javascriptApis: { 'navigator.wakeLock.request': 'api.WakeLock.request' },
+          htmlElements: { search: 'html.elements.search' }
+        }
+      }, source));
+
+      expect(CssParser.parseCss('a { scrollbar-gutter: stable; }', undefined, options).features)
+        .toContain('css.properties.scrollbar-gutter');
+      expect(JsParser.parseJavaScript('navigator.wakeLock.request("screen");', undefined, options).features)
+        .toContain('api.WakeLock.request');
+      expect(HtmlParser.parseHtml('<search></search>', undefined, options).features)
+        .toContain('html.elements.search');
+    });
+  });
+});
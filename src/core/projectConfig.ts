@@ -0,0 +1,318 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaselineTarget, BaselineTargetResolver } from './baselineTarget';
+import { globToRegExp } from './glob';
+import { ReceiverTypeResolver, TypeAwareAnalyzer } from './typeAwareAnalyzer';
+import type { IssueSeverity } from './auditEngine';
+
+/**
+ * Severity override for a feature; "off" stops the feature from being reported
+ */
+export type RuleSeverity = 'off' | IssueSeverity;
+
+/**
+ * Extra source-to-feature mappings added on top of the parsers' built-in tables
+ * Values are web-features IDs or BCD compat keys
+ */
+export interface FeatureMappings {
+  /** CSS property name, e.g. "scrollbar-gutter" */
+  cssProperties?: Record<string, string>;
+  /** CSS at-rule name without "@", e.g. "starting-style" */
+  cssAtRules?: Record<string, string>;
+  /** Member path or global function name, e.g. "navigator.wakeLock.request" */
+  javascriptApis?: Record<string, string>;
+  /** HTML tag name, e.g. "search" */
+  htmlElements?: Record<string, string>;
+  /** HTML attribute name, e.g. "popover" */
+  htmlAttributes?: Record<string, string>;
+}
+
+/**
+ * Options derived from the project config that change what the parsers detect
+ */
+export interface ParseOptions {
+  mappings?: FeatureMappings;
+  /** Declared types of method receivers, set when type-aware analysis is on */
+  receiverTypes?: ReceiverTypeResolver;
+}
+
+/**
+ * Project configuration read from `.baselinerc.json` or the `baseline` key of package.json
+ */
+export interface BaselineProjectConfig {
+  /** Absolute path of the file the configuration was read from */
+  source: string;
+  /** Target overriding the editor setting and CLI default */
+  target?: BaselineTarget;
+  /** Severity overrides keyed by web-features ID or BCD compat key */
+  rules: Record<string, RuleSeverity>;
+  /** Globs, relative to the config file, of paths that are never checked */
+  ignorePaths: string[];
+  mappings: FeatureMappings;
+  /** Resolve receiver types with TypeScript instead of guessing from variable names */
+  typeAware?: boolean;
+  /** Highest severity for usages behind `@supports` or feature detection; "off" hides them */
+  guardedUsage?: RuleSeverity;
+}
+
+/**
+ * Name of the dedicated project config file
+ */
+export const PROJECT_CONFIG_FILE = '.baselinerc.json';
+
+/**
+ * Key holding the project config inside package.json
+ */
+export const PACKAGE_JSON_CONFIG_KEY = 'baseline';
+
+/**
+ * Severity cap for guarded usages when the config does not set one
+ */
+export const DEFAULT_GUARDED_SEVERITY: RuleSeverity = 'info';
+
+const RULE_SEVERITIES: RuleSeverity[] = ['off', 'info', 'warning', 'error'];
+
+const MAPPING_KINDS: Array<keyof FeatureMappings> = [
+  'cssProperties',
+  'cssAtRules',
+  'javascriptApis',
+  'htmlElements',
+  'htmlAttributes'
+];
+
+/**
+ * Error raised for an unreadable or invalid project config
+ */
+export class ProjectConfigError extends Error {
+  constructor(message: string, public readonly source: string) {
+    super(`${source}: ${message}`);
+    this.name = 'ProjectConfigError';
+  }
+}
+
+/**
+ * ProjectConfigLoader reads and validates the project config shared by the editor and CLI
+ */
+export class ProjectConfigLoader {
+  /**
+   * Loads the project config of a directory
+   * `.baselinerc.json` takes precedence over the `baseline` key of package.json
+   * @param directory Directory to look in
+   * @returns Project config, or undefined if the directory has none
+   * @throws ProjectConfigError if the config file is invalid
+   */
+  public static loadFromDirectory(directory: string): BaselineProjectConfig | undefined {
+    for (const fileName of this.getConfigFileNames()) {
+      const filePath = path.join(directory, fileName);
+      if (!fs.existsSync(filePath)) {
+        continue;
+      }
+
+      const config = this.parseConfigFile(fs.readFileSync(filePath, 'utf8'), filePath);
+      if (config) {
+        return config;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Gets the file names that may hold a project config, in precedence order
+   * @returns Config file names
+   */
+  public static getConfigFileNames(): string[] {
+    return [PROJECT_CONFIG_FILE, 'package.json'];
+  }
+
+  /**
+   * Parses the content of `.baselinerc.json` or package.json
+   * @param text File content
+   * @param source Absolute path of the file
+   * @returns Project config, or undefined for a package.json without a `baseline` key
+   * @throws ProjectConfigError if the content is invalid
+   */
+  public static parseConfigFile(text: string, source: string): BaselineProjectConfig | undefined {
+    let json: any;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new ProjectConfigError(`Invalid JSON (${error instanceof Error ? error.message : error})`, source);
+    }
+
+    if (path.basename(source) === 'package.json') {
+      if (!json || json[PACKAGE_JSON_CONFIG_KEY] === undefined) {
+        return undefined;
+      }
+      json = json[PACKAGE_JSON_CONFIG_KEY];
+    }
+
+    return this.validate(json, source);
+  }
+
+  /**
+   * Validates raw config JSON
+   * @param json Parsed config object
+   * @param source Absolute path of the file the config was read from
+   * @returns Project config
+   * @throws ProjectConfigError if a field is invalid
+   */
+  public static validate(json: unknown, source: string): BaselineProjectConfig {
+    if (!this.isPlainObject(json)) {
+      throw new ProjectConfigError('Config must be an object', source);
+    }
+
+    const config: BaselineProjectConfig = { source, rules: {}, ignorePaths: [], mappings: {} };
+
+    if (json.target !== undefined) {
+      if (typeof json.target !== 'string') {
+        throw new ProjectConfigError('"target" must be a string', source);
+      }
+      try {
+        config.target = BaselineTargetResolver.parse(json.target);
+      } catch (error) {
+        throw new ProjectConfigError(`Invalid target "${json.target}": ${error instanceof Error ? error.message : error}`, source);
+      }
+    }
+
+    if (json.rules !== undefined) {
+      if (!this.isPlainObject(json.rules)) {
+        throw new ProjectConfigError('"rules" must map feature IDs to severities', source);
+      }
+      for (const [featureId, severity] of Object.entries(json.rules)) {
+        if (!RULE_SEVERITIES.includes(severity as RuleSeverity)) {
+          throw new ProjectConfigError(
+            `Invalid severity "${severity}" for rule "${featureId}"; expected ${RULE_SEVERITIES.join(', ')}`,
+            source
+          );
+        }
+        config.rules[featureId] = severity as RuleSeverity;
+      }
+    }
+
+    if (json.ignorePaths !== undefined) {
+      if (!Array.isArray(json.ignorePaths) || !json.ignorePaths.every(glob => typeof glob === 'string')) {
+        throw new ProjectConfigError('"ignorePaths" must be an array of globs', source);
+      }
+      config.ignorePaths = json.ignorePaths;
+    }
+
+    if (json.guardedUsage !== undefined) {
+      if (!RULE_SEVERITIES.includes(json.guardedUsage)) {
+        throw new ProjectConfigError(
+          `Invalid "guardedUsage" "${json.guardedUsage}"; expected ${RULE_SEVERITIES.join(', ')}`,
+          source
+        );
+      }
+      config.guardedUsage = json.guardedUsage;
+    }
+
+    if (json.typeAware !== undefined) {
+      if (typeof json.typeAware !== 'boolean') {
+        throw new ProjectConfigError('"typeAware" must be true or false', source);
+      }
+      config.typeAware = json.typeAware;
+    }
+
+    if (json.mappings !== undefined) {
+      if (!this.isPlainObject(json.mappings)) {
+        throw new ProjectConfigError('"mappings" must be an object', source);
+      }
+      for (const [kind, table] of Object.entries(json.mappings)) {
+        if (!MAPPING_KINDS.includes(kind as keyof FeatureMappings)) {
+          throw new ProjectConfigError(`Unknown mapping kind "${kind}"; expected ${MAPPING_KINDS.join(', ')}`, source);
+        }
+        if (!this.isPlainObject(table) || !Object.values(table).every(featureId => typeof featureId === 'string')) {
+          throw new ProjectConfigError(`"mappings.${kind}" must map names to feature IDs`, source);
+        }
+        config.mappings[kind as keyof FeatureMappings] = table as Record<string, string>;
+      }
+    }
+
+    return config;
+  }
+
+  /**
+   * Derives parser options from a project config
+   * @param config Project config, if any
+   * @param script Script being parsed, needed for type-aware analysis
+   * @returns Parse options, or undefined when there is no config
+   */
+  public static getParseOptions(
+    config: BaselineProjectConfig | undefined,
+    script?: { filePath: string; content: string }
+  ): ParseOptions | undefined {
+    if (!config) {
+      return undefined;
+    }
+
+    const receiverTypes = config.typeAware && script
+      ? TypeAwareAnalyzer.getInstance().createReceiverTypeResolver(script.filePath, script.content)
+      : undefined;
+    return receiverTypes ? { mappings: config.mappings, receiverTypes } : { mappings: config.mappings };
+  }
+
+  /**
+   * Looks up the severity override for a feature
+   * @param config Project config, if any
+   * @param featureId Feature ID or BCD compat key reported by a parser
+   * @param resolveFeatureId Resolves compat keys to web-features IDs
+   * @returns Severity override, or undefined if the config has none for the feature
+   */
+  public static getRuleSeverity(
+    config: BaselineProjectConfig | undefined,
+    featureId: string,
+    resolveFeatureId?: (featureId: string) => string | undefined
+  ): RuleSeverity | undefined {
+    if (!config) {
+      return undefined;
+    }
+
+    // Overrides for the exact compat key win over overrides for the owning feature
+    if (Object.prototype.hasOwnProperty.call(config.rules, featureId)) {
+      return config.rules[featureId];
+    }
+
+    const resolvedId = resolveFeatureId?.(featureId);
+    return resolvedId && Object.prototype.hasOwnProperty.call(config.rules, resolvedId)
+      ? config.rules[resolvedId]
+      : undefined;
+  }
+
+  /**
+   * Gets the severity cap for usages behind `@supports` or feature detection
+   * @param config Project config, if any
+   * @returns Configured cap, "info" by default
+   */
+  public static getGuardedSeverity(config: BaselineProjectConfig | undefined): RuleSeverity {
+    return config?.guardedUsage ?? DEFAULT_GUARDED_SEVERITY;
+  }
+
+  /**
+   * Checks whether a file is excluded by the config's ignorePaths
+   * @param config Project config, if any
+   * @param filePath Absolute file path
+   * @returns true if the file should not be checked
+   */
+  public static isIgnoredPath(config: BaselineProjectConfig | undefined, filePath: string): boolean {
+    if (!config || config.ignorePaths.length === 0) {
+      return false;
+    }
+
+    const relativePath = path.relative(path.dirname(config.source), filePath).split(path.sep).join('/');
+    if (relativePath.startsWith('../')) {
+      return false;
+    }
+
+    return config.ignorePaths.some(glob => globToRegExp(glob).test(relativePath));
+  }
+
+  /**
+   * Checks whether a value is a non-array object
+   * @param value Value to check
+   * @returns true for plain objects
+   */
+  private static isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BaselineProjectConfig, ProjectConfigError, ProjectConfigLoader } from './projectConfig';
+import { ErrorHandler, Logger } from './errorHandler';
+
+/**
+ * ProjectConfigManager keeps the project config of every workspace folder loaded
+ * and reloads it when `.baselinerc.json` or package.json changes
+ */
+export class ProjectConfigManager implements vscode.Disposable {
+  private static instance: ProjectConfigManager;
+  /** Loaded configs keyed by workspace folder path */
+  private configs = new Map<string, BaselineProjectConfig | undefined>();
+  private listeners: Array<() => void> = [];
+  private disposables: vscode.Disposable[] = [];
+  private errorHandler: ErrorHandler;
+  private logger: Logger;
+
+  private constructor() {
+    this.errorHandler = ErrorHandler.getInstance();
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Get singleton instance of ProjectConfigManager
+   */
+  public static getInstance(): ProjectConfigManager {
+    if (!ProjectConfigManager.instance) {
+      ProjectConfigManager.instance = new ProjectConfigManager();
+    }
+    return ProjectConfigManager.instance;
+  }
+
+  /**
+   * Loads the config of every workspace folder and starts watching config files
+   */
+  public async initialize(): Promise<void> {
+    await this.reloadAll();
+
+    try {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        `**/{${ProjectConfigLoader.getConfigFileNames().join(',')}}`
+      );
+      const onConfigFileChanged = (uri: vscode.Uri) => this.handleConfigFileChange(uri);
+
+      this.disposables.push(
+        watcher,
+        watcher.onDidCreate(onConfigFileChanged),
+        watcher.onDidChange(onConfigFileChanged),
+        watcher.onDidDelete(onConfigFileChanged),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => this.reloadAll())
+      );
+    } catch (error) {
+      this.errorHandler.handleExtensionError(
+        error instanceof Error ? error : new Error('Unknown error watching project config files'),
+        'Watching project config files'
+      );
+    }
+  }
+
+  /**
+   * Gets the project config that applies to a file
+   * @param uri File URI
+   * @returns Config of the innermost workspace folder containing the file, if it has one
+   */
+  public getConfigForUri(uri: vscode.Uri): BaselineProjectConfig | undefined {
+    const folderPath = this.findFolderPath(uri.fsPath);
+    return folderPath ? this.configs.get(folderPath) : undefined;
+  }
+
+  /**
+   * Registers a listener called after any workspace folder's config is reloaded
+   * @param listener Change listener
+   * @returns Disposable that unregisters the listener
+   */
+  public onDidChange(listener: () => void): vscode.Disposable {
+    this.listeners.push(listener);
+    return {
+      dispose: () => {
+        this.listeners = this.listeners.filter(registered => registered !== listener);
+      }
+    };
+  }
+
+  /**
+   * Reloads the config of every workspace folder
+   */
+  private async reloadAll(): Promise<void> {
+    this.configs.clear();
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      this.configs.set(folder.uri.fsPath, await this.loadFolderConfig(folder.uri.fsPath));
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Reloads a folder's config when one of its config files changes
+   * @param uri Changed config file
+   */
+  private async handleConfigFileChange(uri: vscode.Uri): Promise<void> {
+    const folderPath = path.dirname(uri.fsPath);
+    if (!this.configs.has(folderPath)) {
+      // Only config files at a workspace folder root apply
+      return;
+    }
+
+    this.configs.set(folderPath, await this.loadFolderConfig(folderPath));
+    this.logger.info(`Project config reloaded for ${folderPath}`);
+    this.notifyListeners();
+  }
+
+  /**
+   * Reads the config of a workspace folder
+   * Invalid configs are reported to the user and ignored
+   * @param folderPath Workspace folder path
+   * @returns Project config, or undefined if the folder has none
+   */
+  private async loadFolderConfig(folderPath: string): Promise<BaselineProjectConfig | undefined> {
+    for (const fileName of ProjectConfigLoader.getConfigFileNames()) {
+      const filePath = path.join(folderPath, fileName);
+
+      let text: string;
+      try {
+        text = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath))).toString('utf8');
+      } catch {
+        // Missing file; try the next candidate
+        continue;
+      }
+
+      try {
+        const config = ProjectConfigLoader.parseConfigFile(text, filePath);
+        if (config) {
+          this.logger.info(`Loaded project config from ${filePath}`);
+          return config;
+        }
+      } catch (error) {
+        this.errorHandler.handleValidationError(
+          error instanceof ProjectConfigError ? error.message : String(error),
+          'Loading project config'
+        );
+        return undefined;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds the innermost loaded workspace folder containing a path
+   * @param filePath Absolute file path
+   * @returns Workspace folder path, or undefined if the file is outside every folder
+   */
+  private findFolderPath(filePath: string): string | undefined {
+    let match: string | undefined;
+    for (const folderPath of this.configs.keys()) {
+      const relative = path.relative(folderPath, filePath);
+      const inside = relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+      if (inside && (!match || folderPath.length > match.length)) {
+        match = folderPath;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Calls every registered change listener
+   */
+  private notifyListeners(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Stops watching config files
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.listeners = [];
+  }
+}
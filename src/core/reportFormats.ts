@@ -0,0 +1,49 @@
+import { BaselineDataManager } from './baselineData';
+import type { FileAuditResult } from './auditEngine';
+import { JsonReporter } from './jsonReporter';
+import { JunitReporter } from './junitReporter';
+import { SarifReporter } from './sarifReporter';
+
+/**
+ * Structured audit report formats shared by the audit command and the CLI
+ */
+export type StructuredReportFormat = 'json' | 'junit' | 'sarif';
+
+export const STRUCTURED_REPORT_FORMATS: StructuredReportFormat[] = ['json', 'junit', 'sarif'];
+
+/**
+ * VS Code language ID each structured format opens with
+ */
+export const STRUCTURED_REPORT_LANGUAGE_IDS: Record<StructuredReportFormat, string> = {
+  json: 'json',
+  junit: 'xml',
+  sarif: 'json'
+};
+
+/**
+ * Renders audit results in a structured report format
+ * @param format Report format
+ * @param files Per-file audit results
+ * @param baselineDataManager Data manager used for feature metadata and the target
+ * @param sourceRoot Optional file URI that report paths are relative to (SARIF only)
+ * @returns Serialized report
+ */
+export function renderStructuredReport(
+  format: StructuredReportFormat,
+  files: FileAuditResult[],
+  baselineDataManager: BaselineDataManager = BaselineDataManager.getInstance(),
+  sourceRoot?: string
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(new JsonReporter(baselineDataManager).generate(files), null, 2);
+    case 'junit':
+      return new JunitReporter(baselineDataManager).generate(files);
+    case 'sarif':
+      return JSON.stringify(
+        new SarifReporter(baselineDataManager).generate(files.flatMap(file => file.issues), sourceRoot),
+        null,
+        2
+      );
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SarifReporter, SARIF_SRCROOT } from './sarifReporter';
+import type { CompatibilityIssue } from './auditEngine';
+import type { BaselineDataManager } from './baselineData';
+
+const features: Record<string, any> = {
+  'container-queries': { name: 'Container queries', description: 'Size container queries.', status: { baseline: 'low' } },
+  'async-clipboard': { name: 'Async clipboard', status: { baseline: false }, mdn_url: 'https://developer.mozilla.org/docs/Web/API/Clipboard' }
+};
+
+const compatKeys: Record<string, string> = {
+  'css.properties.container-type': 'container-queries',
+  'css.at-rules.container': 'container-queries',
+  'api.Clipboard.writeText': 'async-clipboard'
+};
+
+const manager = {
+  resolveFeatureId: vi.fn((key: string) => compatKeys[key]),
+  getFeatureData: vi.fn((key: string) => features[compatKeys[key]]),
+  getMdnUrl: vi.fn((feature: any) => feature.mdn_url || ''),
+  getTarget: vi.fn(() => ({ label: 'Baseline Widely Available' }))
+} as unknown as BaselineDataManager;
+
+function issue(overrides: Partial<CompatibilityIssue>): CompatibilityIssue {
+  return {
+    featureId: 'css.properties.container-type',
+    featureName: 'Container queries',
+    filePath: 'src/app.css',
+    lineNumber: 3,
+    columnNumber: 5,
+    languageType: 'CSS',
+    severity: 'warning',
+    ...overrides
+  };
+}
+
+describe('SarifReporter', () => {
+  const reporter = new SarifReporter(manager);
+
+  it('should produce a SARIF 2.1.0 log', () => {
+    const log = reporter.generate([]);
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.$schema).toContain('sarif-2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver.name).toBe('Baseline Sidekick');
+    expect(log.runs[0].results).toEqual([]);
+  });
+
+  it('should create one rule per web-feature', () => {
+    const log = reporter.generate([
+      issue({}),
+      issue({ featureId: 'css.at-rules.container', lineNumber: 1, columnNumber: 1 }),
+      issue({ featureId: 'api.Clipboard.writeText', featureName: 'Async clipboard', filePath: 'src\\app.js', languageType: 'JavaScript', severity: 'error' })
+    ]);
+    const { rules } = log.runs[0].tool.driver;
+
+    expect(rules.map(rule => rule.id)).toEqual(['container-queries', 'async-clipboard']);
+    expect(rules[0].fullDescription?.text).toBe('Size container queries.');
+    expect(rules[0].defaultConfiguration.level).toBe('warning');
+    expect(rules[1].defaultConfiguration.level).toBe('error');
+    expect(log.runs[0].results.map(result => result.ruleIndex)).toEqual([0, 0, 1]);
+  });
+
+  it('should raise the rule level to its most severe result', () => {
+    const log = reporter.generate([
+      issue({ severity: 'info' }),
+      issue({ severity: 'warning', lineNumber: 9 }),
+      issue({ severity: 'info', lineNumber: 12 })
+    ]);
+
+    expect(log.runs[0].tool.driver.rules[0].defaultConfiguration.level).toBe('warning');
+    expect(log.runs[0].results.map(result => result.level)).toEqual(['note', 'warning', 'note']);
+  });
+
+  it('should point rule help at MDN and web-features', () => {
+    const [containerRule, clipboardRule] = reporter.generate([
+      issue({}),
+      issue({ featureId: 'api.Clipboard.writeText', featureName: 'Async clipboard' })
+    ]).runs[0].tool.driver.rules;
+
+    expect(containerRule.helpUri).toBe('https://developer.mozilla.org/docs/Web/CSS/container-type');
+    expect(containerRule.help.markdown).toContain('https://web-platform-dx.github.io/web-features/container-queries');
+    expect(clipboardRule.helpUri).toBe('https://developer.mozilla.org/docs/Web/API/Clipboard');
+  });
+
+  it('should map severities and physical locations onto results', () => {
+    const log = reporter.generate([
+      issue({ severity: 'info' }),
+      issue({ featureId: 'api.Clipboard.writeText', featureName: 'Async clipboard', filePath: 'src\\app.js', severity: 'error', lineNumber: 10, columnNumber: 2 })
+    ], 'file:///work/project');
+    const [infoResult, errorResult] = log.runs[0].results;
+
+    expect(infoResult.level).toBe('note');
+    expect(errorResult.level).toBe('error');
+    expect(errorResult.message.text).toContain('Baseline Widely Available');
+    expect(errorResult.properties.compatKey).toBe('api.Clipboard.writeText');
+    expect(errorResult.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/app.js', uriBaseId: SARIF_SRCROOT },
+      region: { startLine: 10, startColumn: 2 }
+    });
+    expect(log.runs[0].originalUriBaseIds).toEqual({ [SARIF_SRCROOT]: { uri: 'file:///work/project/' } });
+  });
+});
@@ -0,0 +1,254 @@
+import { BaselineDataManager } from './baselineData';
+import type { CompatibilityIssue, IssueSeverity } from './auditEngine';
+
+/**
+ * Subset of the SARIF 2.1.0 object model produced by the reporter
+ */
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+/**
+ * A single analysis run of the tool
+ */
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri: string;
+      rules: SarifRule[];
+    };
+  };
+  originalUriBaseIds?: Record<string, { uri: string }>;
+  results: SarifResult[];
+}
+
+/**
+ * Rule describing one web-feature
+ */
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  helpUri: string;
+  help: { text: string; markdown: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[] };
+}
+
+/**
+ * One reported occurrence of a rule
+ */
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId?: string };
+      region: { startLine: number; startColumn: number };
+    };
+  }>;
+  properties: { compatKey: string; languageType: string };
+}
+
+/**
+ * SARIF result level
+ */
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+/**
+ * URI base ID that result locations are relative to
+ */
+export const SARIF_SRCROOT = '%SRCROOT%';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_INFORMATION_URI = 'https://github.com/Anshulmehra001/Baseline-Sidekick';
+
+/**
+ * Maps compatibility issue severities to SARIF result levels
+ */
+const SEVERITY_LEVELS: Record<IssueSeverity, SarifLevel> = {
+  'error': 'error',
+  'warning': 'warning',
+  'info': 'note'
+};
+
+/**
+ * Ordering used to find the most severe level of a rule's results
+ */
+const LEVEL_RANK: Record<SarifLevel, number> = {
+  'note': 0,
+  'warning': 1,
+  'error': 2
+};
+
+/**
+ * SarifReporter converts audit issues into a SARIF 2.1.0 log for code-scanning dashboards
+ * Each web-feature becomes one rule; each issue becomes one result
+ */
+export class SarifReporter {
+  private baselineDataManager: BaselineDataManager;
+
+  constructor(baselineDataManager: BaselineDataManager = BaselineDataManager.getInstance()) {
+    this.baselineDataManager = baselineDataManager;
+  }
+
+  /**
+   * Generates a SARIF log from compatibility issues
+   * @param issues Issues found by the audit, with file paths relative to the source root
+   * @param sourceRoot Optional file URI of the source root the paths are relative to
+   * @returns SARIF 2.1.0 log
+   */
+  public generate(issues: CompatibilityIssue[], sourceRoot?: string): SarifLog {
+    const rules: SarifRule[] = [];
+    const ruleIndexes = new Map<string, number>();
+    const results: SarifResult[] = [];
+
+    for (const issue of issues) {
+      const ruleId = this.baselineDataManager.resolveFeatureId(issue.featureId) || issue.featureId;
+
+      let ruleIndex = ruleIndexes.get(ruleId);
+      if (ruleIndex === undefined) {
+        ruleIndex = rules.length;
+        ruleIndexes.set(ruleId, ruleIndex);
+        rules.push(this.createRule(ruleId, issue));
+      }
+
+      // Rules keep the most severe level seen for their feature
+      const level = SEVERITY_LEVELS[issue.severity];
+      const rule = rules[ruleIndex];
+      if (LEVEL_RANK[level] > LEVEL_RANK[rule.defaultConfiguration.level]) {
+        rule.defaultConfiguration.level = level;
+      }
+
+      results.push({
+        ruleId,
+        ruleIndex,
+        level,
+        message: {
+          text: `'${issue.featureName}' is not supported by ${this.baselineDataManager.getTarget().label}.`
+        },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: {
+              uri: issue.filePath.replace(/\\/g, '/'),
+              uriBaseId: SARIF_SRCROOT
+            },
+            region: {
+              startLine: issue.lineNumber,
+              startColumn: issue.columnNumber
+            }
+          }
+        }],
+        properties: {
+          compatKey: issue.featureId,
+          languageType: issue.languageType
+        }
+      });
+    }
+
+    const run: SarifRun = {
+      tool: {
+        driver: {
+          name: 'Baseline Sidekick',
+          informationUri: TOOL_INFORMATION_URI,
+          rules
+        }
+      },
+      results
+    };
+
+    if (sourceRoot) {
+      run.originalUriBaseIds = {
+        [SARIF_SRCROOT]: { uri: sourceRoot.endsWith('/') ? sourceRoot : `${sourceRoot}/` }
+      };
+    }
+
+    return {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [run]
+    };
+  }
+
+  /**
+   * Creates the rule describing a web-feature
+   * @param ruleId web-features ID (or the compat key when it cannot be resolved)
+   * @param issue First issue reported for the feature
+   * @returns SARIF rule
+   */
+  private createRule(ruleId: string, issue: CompatibilityIssue): SarifRule {
+    const featureData = this.baselineDataManager.getFeatureData(issue.featureId);
+    const name = featureData?.name || issue.featureName;
+    const webFeaturesUrl = `https://web-platform-dx.github.io/web-features/${ruleId}`;
+    const mdnUrl = (featureData && this.baselineDataManager.getMdnUrl(featureData)) || this.getMdnUrlForCompatKey(issue.featureId);
+
+    const links = [`[web-features](${webFeaturesUrl})`];
+    if (mdnUrl) {
+      links.unshift(`[MDN](${mdnUrl})`);
+    }
+
+    const rule: SarifRule = {
+      id: ruleId,
+      name,
+      shortDescription: { text: `${name} is not Baseline for the configured target` },
+      helpUri: mdnUrl || webFeaturesUrl,
+      help: {
+        text: `${name} may not work in all browsers targeted by the project. See ${mdnUrl || webFeaturesUrl}`,
+        markdown: `**${name}** may not work in all browsers targeted by the project.\n\n${links.join(' · ')}`
+      },
+      defaultConfiguration: { level: SEVERITY_LEVELS[issue.severity] },
+      properties: {
+        tags: ['compatibility', 'baseline', issue.languageType.toLowerCase()]
+      }
+    };
+
+    if (featureData?.description) {
+      rule.fullDescription = { text: featureData.description };
+    }
+
+    return rule;
+  }
+
+  /**
+   * Derives an MDN reference URL from a BCD compat key
+   * @param compatKey BCD compat key, e.g. "css.properties.gap" or "api.Clipboard.writeText"
+   * @returns MDN URL, or an empty string for unknown key shapes
+   */
+  private getMdnUrlForCompatKey(compatKey: string): string {
+    const base = 'https://developer.mozilla.org/docs/Web';
+    const [category, group, ...rest] = compatKey.split('.');
+    const name = rest.join('/');
+
+    if (category === 'css' && name) {
+      switch (group) {
+        case 'properties':
+          return `${base}/CSS/${rest[0]}`;
+        case 'at-rules':
+          return `${base}/CSS/@${rest[0]}`;
+        case 'selectors':
+          return `${base}/CSS/:${rest[0]}`;
+        case 'types':
+          return `${base}/CSS/${rest[0]}`;
+      }
+    }
+    if (category === 'api' && group) {
+      return `${base}/API/${[group, ...rest].join('/')}`;
+    }
+    if (category === 'javascript' && group === 'builtins' && name) {
+      return `${base}/JavaScript/Reference/Global_Objects/${name}`;
+    }
+    if (category === 'html' && group === 'elements' && rest[0]) {
+      return `${base}/HTML/Element/${rest[0]}`;
+    }
+    if (category === 'html' && group === 'global_attributes' && rest[0]) {
+      return `${base}/HTML/Global_attributes/${rest[0]}`;
+    }
+    return '';
+  }
+}
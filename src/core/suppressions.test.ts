@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { SuppressionParser } from './suppressions';
+import { CssParser } from './cssParser';
+import { JsParser } from './jsParser';
+import { HtmlParser } from './htmlParser';
+
+const document = { uri: { fsPath: 'test' } };
+
+describe('SuppressionParser', () => {
+  describe('parseComment', () => {
+    it('should parse file, next-line and same-line directives', () => {
+      expect(SuppressionParser.parseComment(' baseline-ignore-file ', { startLine: 0, endLine: 0, trailing: false }))
+        .toEqual({ kind: 'file', featureIds: [], line: 0 });
+      expect(SuppressionParser.parseComment('baseline-ignore-next-line gap, aspect-ratio', { startLine: 2, endLine: 2, trailing: false }))
+        .toEqual({ kind: 'line', featureIds: ['gap', 'aspect-ratio'], line: 3 });
+      expect(SuppressionParser.parseComment('baseline-ignore container-queries', { startLine: 4, endLine: 4, trailing: true }))
+        .toEqual({ kind: 'line', featureIds: ['container-queries'], line: 4 });
+      expect(SuppressionParser.parseComment('baseline-ignore', { startLine: 4, endLine: 5, trailing: false }))
+        .toEqual({ kind: 'line', featureIds: [], line: 6 });
+    });
+
+    it('should ignore reasons and unrelated comments', () => {
+      expect(SuppressionParser.parseComment('* baseline-ignore gap -- polyfilled', { startLine: 0, endLine: 0, trailing: false }))
+        .toEqual({ kind: 'line', featureIds: ['gap'], line: 1 });
+      expect(SuppressionParser.parseComment('baseline-ignored', { startLine: 0, endLine: 0, trailing: false })).toBeUndefined();
+      expect(SuppressionParser.parseComment('TODO: baseline-ignore', { startLine: 0, endLine: 0, trailing: false })).toBeUndefined();
+    });
+  });
+
+  describe('applySuppressions', () => {
+    it('should match web-features IDs through the resolver', () => {
+      const result = SuppressionParser.applySuppressions(
+        {
+          features: ['css.properties.container-type', 'css.properties.float'],
+          locations: new Map([
+            ['css.properties.container-type', [{ start: { line: 1 } }, { start: { line: 5 } }]],
+            ['css.properties.float', [{ start: { line: 1 } }]]
+          ]),
+          suppressions: [{ kind: 'line', featureIds: ['container-queries'], line: 1 }]
+        },
+        featureId => (featureId === 'css.properties.container-type' ? 'container-queries' : undefined)
+      );
+
+      expect(result.features).toEqual(['css.properties.container-type', 'css.properties.float']);
+      expect(result.locations.get('css.properties.container-type')).toEqual([{ start: { line: 5 } }]);
+      expect(result.locations.get('css.properties.float')).toHaveLength(1);
+    });
+
+    it('should drop features suppressed for the whole file', () => {
+      const result = SuppressionParser.applySuppressions({
+        features: ['api.Array.at'],
+        locations: new Map(),
+        suppressions: [{ kind: 'file', featureIds: [], line: 0 }]
+      });
+
+      expect(result.features).toEqual([]);
+    });
+  });
+
+  describe('parser integration', () => {
+    it('should collect directives from CSS comments', () => {
+      const css = '.a {\n  /* baseline-ignore-next-line */\n  container-type: size;\n  float: left; /* baseline-ignore css.properties.float */\n}';
+      const result = SuppressionParser.applySuppressions(CssParser.parseCss(css, document));
+
+      expect(result.features).toEqual([]);
+    });
+
+    it('should collect directives from JavaScript comments', () => {
+      const js = '// baseline-ignore-file api.structuredClone\nconst a = structuredClone(b);\nnavigator.clipboard.writeText(a);';
+      const parsed = JsParser.parseJavaScript(js, document);
+      const result = SuppressionParser.applySuppressions(parsed);
+
+      expect(parsed.features).toContain('api.structuredClone');
+      expect(result.features).not.toContain('api.structuredClone');
+      expect(result.features).toContain('api.Clipboard');
+    });
+
+    it('should keep JavaScript usages after a suppressed first one', () => {
+      const js = '// baseline-ignore-next-line api.structuredClone\nconst a = structuredClone(b);\nconst c = structuredClone(d);';
+      const jsx = '// baseline-ignore-next-line\nconst a = <div style={{ textWrap: "balance" }} />;\nconst b = <p style={{ textWrap: "balance" }} />;';
+
+      const result = SuppressionParser.applySuppressions(JsParser.parseJavaScript(js, document));
+      const jsxResult = SuppressionParser.applySuppressions(JsParser.parseJavaScript(jsx, document));
+
+      expect(result.locations.get('api.structuredClone')!.map(range => range.start.line)).toEqual([2]);
+      expect(jsxResult.locations.get('css.properties.text-wrap.balance')!.map(range => range.start.line)).toEqual([2]);
+    });
+
+    it('should collect directives from HTML comments', () => {
+      const html = '<body>\n<!-- baseline-ignore -->\n<dialog open></dialog>\n</body>';
+      const parsed = HtmlParser.parseHtml(html, document);
+
+      expect(parsed.locations.size).toBeGreaterThan(0);
+      expect(parsed.suppressions).toEqual([{ kind: 'line', featureIds: [], line: 2 }]);
+      expect(SuppressionParser.applySuppressions(parsed).locations.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Scope of an inline suppression directive
+ * - file: `baseline-ignore-file` silences the whole file
+ * - line: `baseline-ignore` / `baseline-ignore-next-line` silence a single line
+ */
+export type SuppressionKind = 'file' | 'line';
+
+/**
+ * A `baseline-ignore` directive found in a source comment
+ */
+export interface SuppressionDirective {
+  kind: SuppressionKind;
+  /** Feature IDs or BCD compat keys the directive applies to; empty means every feature */
+  featureIds: string[];
+  /** Zero-based line silenced by a line directive */
+  line: number;
+}
+
+/**
+ * Position of a comment within its source
+ */
+export interface CommentPosition {
+  /** Zero-based line the comment starts on */
+  startLine: number;
+  /** Zero-based line the comment ends on */
+  endLine: number;
+  /** Whether code precedes the comment on its first line */
+  trailing: boolean;
+}
+
+/**
+ * Shape shared by parse results that carry suppression directives
+ */
+export interface SuppressibleParseResult {
+  features: string[];
+  locations: Map<string, any[]>;
+  suppressions?: SuppressionDirective[];
+}
+
+/**
+ * Keywords of the comment directives, e.g. `/* baseline-ignore container-queries *\/`
+ */
+const DIRECTIVE_PATTERN = /^baseline-ignore(?:-(file|next-line))?(?=[\s,]|$)([\s\S]*)$/;
+
+/**
+ * SuppressionParser recognises `baseline-ignore` comment directives and filters
+ * parse results so suppressed usages are not reported
+ */
+export class SuppressionParser {
+  /**
+   * Parses the text of a comment into a suppression directive
+   * @param text Comment text without its delimiters
+   * @param position Where the comment sits in the source
+   * @returns Suppression directive, or undefined if the comment is not a directive
+   */
+  public static parseComment(text: string, position: CommentPosition): SuppressionDirective | undefined {
+    // Block comments may carry a leading "*" on each line
+    const match = text.replace(/^[\s*]+/, '').trimEnd().match(DIRECTIVE_PATTERN);
+    if (!match) {
+      return undefined;
+    }
+
+    // Anything after "--" is a free-form reason, e.g. "baseline-ignore gap -- polyfilled"
+    const featureIds = match[2]
+      .split('--')[0]
+      .split(/[\s,]+/)
+      .filter(id => id.length > 0);
+
+    switch (match[1]) {
+      case 'file':
+        return { kind: 'file', featureIds, line: position.startLine };
+      case 'next-line':
+        return { kind: 'line', featureIds, line: position.endLine + 1 };
+      default:
+        // A trailing directive silences its own line; on a line of its own it silences the next
+        return {
+          kind: 'line',
+          featureIds,
+          line: position.trailing ? position.startLine : position.endLine + 1
+        };
+    }
+  }
+
+  /**
+   * Checks whether code precedes an offset on the same line
+   * @param content Source content
+   * @param offset Offset of the comment start
+   * @returns true if the line contains non-whitespace before the offset
+   */
+  public static hasCodeBefore(content: string, offset: number): boolean {
+    const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+    return content.slice(lineStart, offset).trim().length > 0;
+  }
+
+  /**
+   * Checks whether a feature usage is silenced by a directive
+   * @param directives Directives found in the file
+   * @param featureId Feature ID or BCD compat key reported by the parser
+   * @param line Zero-based line of the usage, or undefined to check file directives only
+   * @param resolveFeatureId Resolves compat keys to web-features IDs
+   * @returns true if the usage is suppressed
+   */
+  public static isSuppressed(
+    directives: SuppressionDirective[],
+    featureId: string,
+    line?: number,
+    resolveFeatureId?: (featureId: string) => string | undefined
+  ): boolean {
+    let resolvedId: string | undefined | null = null;
+
+    return directives.some(directive => {
+      if (directive.kind === 'line' && directive.line !== line) {
+        return false;
+      }
+      if (directive.featureIds.length === 0 || directive.featureIds.includes(featureId)) {
+        return true;
+      }
+      if (resolvedId === null) {
+        resolvedId = resolveFeatureId?.(featureId);
+      }
+      return resolvedId !== undefined && directive.featureIds.includes(resolvedId);
+    });
+  }
+
+  /**
+   * Removes suppressed locations from a parse result
+   * Features suppressed at file level, or at every location they were found, are dropped entirely
+   * @param parseResult Parse result carrying suppression directives
+   * @param resolveFeatureId Resolves compat keys to web-features IDs
+   * @returns Parse result containing only unsuppressed features and locations
+   */
+  public static applySuppressions<T extends SuppressibleParseResult>(
+    parseResult: T,
+    resolveFeatureId?: (featureId: string) => string | undefined
+  ): T {
+    const directives = parseResult.suppressions;
+    if (!directives || directives.length === 0) {
+      return parseResult;
+    }
+
+    const features: string[] = [];
+    const locations = new Map<string, any[]>();
+
+    for (const featureId of parseResult.features) {
+      if (this.isSuppressed(directives, featureId, undefined, resolveFeatureId)) {
+        continue;
+      }
+
+      const featureLocations = parseResult.locations.get(featureId);
+      if (!featureLocations || featureLocations.length === 0) {
+        features.push(featureId);
+        continue;
+      }
+
+      const remaining = featureLocations.filter(
+        range => !this.isSuppressed(directives, featureId, range.start.line, resolveFeatureId)
+      );
+      if (remaining.length > 0) {
+        features.push(featureId);
+        locations.set(featureId, remaining);
+      }
+    }
+
+    return { ...parseResult, features, locations };
+  }
+
+  /**
+   * Formats a line directive for insertion into source code
+   * @param languageType Language family of the file
+   * @param featureId Feature to suppress
+   * @returns Comment text containing the directive
+   */
+  public static formatNextLineDirective(languageType: 'CSS' | 'JavaScript' | 'HTML', featureId: string): string {
+    switch (languageType) {
+      case 'CSS':
+        return `/* baseline-ignore-next-line ${featureId} */`;
+      case 'JavaScript':
+        return `// baseline-ignore-next-line ${featureId}`;
+      case 'HTML':
+        return `<!-- baseline-ignore-next-line ${featureId} -->`;
+    }
+  }
+}
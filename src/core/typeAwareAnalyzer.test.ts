@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TypeAwareAnalyzer } from './typeAwareAnalyzer';
+import { JsParser } from './jsParser';
+import { ProjectConfigLoader } from './projectConfig';
+
+describe('TypeAwareAnalyzer', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-types-'));
+    fs.writeFileSync(path.join(root, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true, lib: ['es2022', 'dom'] } }));
+    fs.writeFileSync(path.join(root, 'queue.ts'), 'export class Queue { at(index: number) { return index; } }\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should classify receivers by their declared type', () => {
+    const content = [
+      "import { Queue } from './queue';",
+      'const list: number[] = [1, 2];',
+      "const title = 'abc';",
+      'const bytes = new Uint8Array(4);',
+      'const queue = new Queue();',
+      'declare const anything: any;'
+    ].join('\n');
+    const resolve = TypeAwareAnalyzer.getInstance().createReceiverTypeResolver(path.join(root, 'main.ts'), content)!;
+    const typeOf = (name: string) => {
+      const start = content.lastIndexOf(name);
+      return resolve(start, start + name.length);
+    };
+
+    expect(typeOf('list')).toBe('Array');
+    expect(typeOf('title')).toBe('String');
+    expect(typeOf('bytes')).toBe('TypedArray');
+    expect(typeOf('queue')).toBe('other');
+    expect(typeOf('anything')).toBeUndefined();
+  });
+
+  it('should only report Array and String methods on matching receivers', () => {
+    const content = [
+      "import { Queue } from './queue';",
+      "const names: string[] = ['a'];",
+      'const queue = new Queue();',
+      "const label = 'text';",
+      'names.at(-1);',
+      'queue.at(-1);',
+      "label.includes('x');"
+    ].join('\n');
+    const config = ProjectConfigLoader.validate({ typeAware: true }, path.join(root, '.baselinerc.json'));
+    const options = ProjectConfigLoader.getParseOptions(config, { filePath: path.join(root, 'main.ts'), content });
+    const result = JsParser.parseJavaScript(content, { uri: { fsPath: path.join(root, 'main.ts') } }, options);
+
+    expect(result.features).toEqual(['api.Array.at', 'api.String.includes']);
+    expect(result.locations.get('api.Array.at')![0].start.line).toBe(4);
+    expect(JsParser.parseJavaScript(content).features).toContain('api.Array.at');
+  });
+
+  it('should skip files TypeScript cannot analyze', () => {
+    expect(TypeAwareAnalyzer.getInstance().createReceiverTypeResolver(path.join(root, 'styles.css'), 'a {}')).toBeUndefined();
+  });
+});
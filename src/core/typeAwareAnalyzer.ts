@@ -0,0 +1,264 @@
+import type * as tsApi from 'typescript';
+import * as path from 'path';
+import { ErrorHandler, Logger } from './errorHandler';
+
+/**
+ * Kind of value a method is called on, as far as Baseline mapping is concerned
+ * - other: a known type that is none of the built-ins below
+ */
+export type ReceiverType = 'Array' | 'String' | 'TypedArray' | 'other';
+
+/**
+ * Resolves the declared type of the expression spanning two source offsets
+ * Returns undefined when the type is unknown (e.g. `any`), so callers can fall back to heuristics
+ */
+export type ReceiverTypeResolver = (start: number, end: number) => ReceiverType | undefined;
+
+/**
+ * Files the TypeScript checker can analyze
+ */
+const SCRIPT_EXTENSIONS = new Set(['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts']);
+
+const TYPED_ARRAY_NAMES = new Set([
+  'Int8Array', 'Uint8Array', 'Uint8ClampedArray', 'Int16Array', 'Uint16Array', 'Int32Array',
+  'Uint32Array', 'Float32Array', 'Float64Array', 'BigInt64Array', 'BigUint64Array'
+]);
+
+/**
+ * A language service for one tsconfig/jsconfig project, with in-memory file contents
+ */
+interface TypeScriptProject {
+  service: tsApi.LanguageService;
+  /** In-memory contents of analyzed files, overriding what is on disk */
+  overlays: Map<string, string>;
+  versions: Map<string, number>;
+}
+
+/**
+ * TypeAwareAnalyzer resolves receiver types with the TypeScript language service so
+ * method calls such as `foo.at(-1)` are only mapped to Array or String features when
+ * `foo` really is one. The project's own TypeScript is preferred over the bundled one.
+ */
+export class TypeAwareAnalyzer {
+  private static instance: TypeAwareAnalyzer;
+  /** Projects keyed by config file path, or by directory for files without a config */
+  private projects = new Map<string, TypeScriptProject>();
+  private documentRegistries = new Map<typeof tsApi, tsApi.DocumentRegistry>();
+  private errorHandler: ErrorHandler;
+  private logger: Logger;
+
+  private constructor() {
+    this.errorHandler = ErrorHandler.getInstance();
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Get singleton instance of TypeAwareAnalyzer
+   */
+  public static getInstance(): TypeAwareAnalyzer {
+    if (!TypeAwareAnalyzer.instance) {
+      TypeAwareAnalyzer.instance = new TypeAwareAnalyzer();
+    }
+    return TypeAwareAnalyzer.instance;
+  }
+
+  /**
+   * Creates a receiver type resolver for the current content of a file
+   * @param filePath Absolute path of the file
+   * @param content Current file content, which may differ from the file on disk
+   * @returns Resolver, or undefined if the file is not a script or TypeScript is unavailable
+   */
+  public createReceiverTypeResolver(filePath: string, content: string): ReceiverTypeResolver | undefined {
+    if (!SCRIPT_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+      return undefined;
+    }
+
+    const ts = this.loadTypeScript(path.dirname(filePath));
+    if (!ts) {
+      return undefined;
+    }
+
+    try {
+      // TypeScript works with forward slashes on every platform
+      const fileName = path.resolve(filePath).split(path.sep).join('/');
+      const project = this.getProject(ts, fileName);
+      project.overlays.set(fileName, content);
+      project.versions.set(fileName, (project.versions.get(fileName) ?? 0) + 1);
+
+      const program = project.service.getProgram();
+      const sourceFile = program?.getSourceFile(fileName);
+      if (!program || !sourceFile) {
+        return undefined;
+      }
+
+      const checker = program.getTypeChecker();
+      return (start, end) => {
+        const node = this.findNode(ts, sourceFile, start, end);
+        return node ? this.classifyType(ts, checker, checker.getTypeAtLocation(node)) : undefined;
+      };
+    } catch (error) {
+      this.errorHandler.handleParserError(
+        error instanceof Error ? error : new Error('Unknown TypeScript analysis error'),
+        'JavaScript',
+        `Type-aware analysis of ${filePath}`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Loads TypeScript, preferring the copy installed in the analyzed project
+   * @param directory Directory to resolve the project's TypeScript from
+   * @returns TypeScript module, or undefined if none can be loaded
+   */
+  private loadTypeScript(directory: string): typeof tsApi | undefined {
+    try {
+      return require(require.resolve('typescript', { paths: [directory, __dirname] }));
+    } catch {
+      this.logger.warn('Type-aware analysis needs TypeScript; falling back to name-based detection');
+      return undefined;
+    }
+  }
+
+  /**
+   * Gets or creates the language service for the project a file belongs to
+   * @param ts TypeScript module
+   * @param fileName Absolute file path
+   * @returns TypeScript project
+   */
+  private getProject(ts: typeof tsApi, fileName: string): TypeScriptProject {
+    const directory = path.dirname(fileName);
+    const configFile = ts.findConfigFile(directory, ts.sys.fileExists, 'tsconfig.json')
+      ?? ts.findConfigFile(directory, ts.sys.fileExists, 'jsconfig.json');
+    const key = configFile ?? directory;
+
+    let project = this.projects.get(key);
+    if (!project) {
+      project = this.createProject(ts, configFile, directory);
+      this.projects.set(key, project);
+      this.logger.info(`Type-aware analysis using ${configFile ?? 'default compiler options'} (TypeScript ${ts.version})`);
+    }
+    return project;
+  }
+
+  /**
+   * Creates a language service for a tsconfig/jsconfig project
+   * @param ts TypeScript module
+   * @param configFile Config file path, if the file belongs to one
+   * @param directory Directory used when there is no config file
+   * @returns TypeScript project
+   */
+  private createProject(ts: typeof tsApi, configFile: string | undefined, directory: string): TypeScriptProject {
+    let options: tsApi.CompilerOptions = { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext };
+    let rootFileNames: string[] = [];
+    let currentDirectory = directory;
+
+    if (configFile) {
+      const { config } = ts.readConfigFile(configFile, ts.sys.readFile);
+      currentDirectory = path.dirname(configFile);
+      const parsed = ts.parseJsonConfigFileContent(config ?? {}, ts.sys, currentDirectory, undefined, configFile);
+      options = parsed.options;
+      rootFileNames = parsed.fileNames;
+    }
+
+    // Only types are needed; plain JavaScript is analyzed without reporting type errors
+    options = { ...options, allowJs: true, noEmit: true, jsx: options.jsx ?? ts.JsxEmit.Preserve };
+
+    const overlays = new Map<string, string>();
+    const versions = new Map<string, number>();
+    const host: tsApi.LanguageServiceHost = {
+      getScriptFileNames: () => Array.from(new Set([...rootFileNames, ...overlays.keys()])),
+      getScriptVersion: fileName => String(versions.get(fileName) ?? 0),
+      getScriptSnapshot: (fileName) => {
+        const text = overlays.get(fileName) ?? ts.sys.readFile(fileName);
+        return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+      },
+      getCurrentDirectory: () => currentDirectory,
+      getCompilationSettings: () => options,
+      getDefaultLibFileName: compilerOptions => ts.getDefaultLibFilePath(compilerOptions),
+      fileExists: fileName => overlays.has(fileName) || ts.sys.fileExists(fileName),
+      readFile: fileName => overlays.get(fileName) ?? ts.sys.readFile(fileName),
+      readDirectory: ts.sys.readDirectory,
+      directoryExists: ts.sys.directoryExists,
+      getDirectories: ts.sys.getDirectories
+    };
+
+    let registry = this.documentRegistries.get(ts);
+    if (!registry) {
+      registry = ts.createDocumentRegistry();
+      this.documentRegistries.set(ts, registry);
+    }
+
+    return { service: ts.createLanguageService(host, registry), overlays, versions };
+  }
+
+  /**
+   * Finds the expression node spanning exactly the given offsets
+   * @param ts TypeScript module
+   * @param sourceFile Source file to search
+   * @param start Start offset
+   * @param end End offset
+   * @returns Matching node, or undefined if no node spans the offsets
+   */
+  private findNode(ts: typeof tsApi, sourceFile: tsApi.SourceFile, start: number, end: number): tsApi.Node | undefined {
+    const visit = (node: tsApi.Node): tsApi.Node | undefined => {
+      if (node.getStart(sourceFile) === start && node.getEnd() === end) {
+        // Prefer the innermost node, e.g. the identifier rather than a wrapping expression statement
+        return ts.forEachChild(node, visit) ?? node;
+      }
+      if (node.getStart(sourceFile) <= start && node.getEnd() >= end) {
+        return ts.forEachChild(node, visit);
+      }
+      return undefined;
+    };
+    return ts.forEachChild(sourceFile, visit);
+  }
+
+  /**
+   * Classifies a type as Array, String, TypedArray or another known type
+   * Unions are classified only when every member has the same kind
+   * @param ts TypeScript module
+   * @param checker Type checker
+   * @param type Type to classify
+   * @returns Receiver type, or undefined for `any`, `unknown` and mixed unions
+   */
+  private classifyType(ts: typeof tsApi, checker: tsApi.TypeChecker, type: tsApi.Type): ReceiverType | undefined {
+    if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return undefined;
+    }
+
+    if (type.isUnion()) {
+      // null and undefined members don't change which methods can be called
+      const members = type.types
+        .filter(member => !(member.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined)))
+        .map(member => this.classifyType(ts, checker, member));
+      return members.length > 0 && members.every(member => member === members[0]) ? members[0] : undefined;
+    }
+
+    if (type.flags & ts.TypeFlags.StringLike) {
+      return 'String';
+    }
+
+    const symbolName = checker.getApparentType(type).getSymbol()?.getName();
+    if (symbolName === 'Array' || symbolName === 'ReadonlyArray' || this.isTupleType(ts, type)) {
+      return 'Array';
+    }
+    if (symbolName && TYPED_ARRAY_NAMES.has(symbolName)) {
+      return 'TypedArray';
+    }
+    return 'other';
+  }
+
+  /**
+   * Checks whether a type is a tuple, e.g. `[number, string]`
+   * @param ts TypeScript module
+   * @param type Type to check
+   * @returns true for tuple types
+   */
+  private isTupleType(ts: typeof tsApi, type: tsApi.Type): boolean {
+    if (!(type.flags & ts.TypeFlags.Object) || !((type as tsApi.ObjectType).objectFlags & ts.ObjectFlags.Reference)) {
+      return false;
+    }
+    return ((type as tsApi.TypeReference).target.objectFlags & ts.ObjectFlags.Tuple) !== 0;
+  }
+}
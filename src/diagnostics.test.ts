@@ -167,7 +167,8 @@ describe('DiagnosticController', () => {
       isInitialized: vi.fn().mockReturnValue(true),
       initialize: vi.fn().mockResolvedValue(undefined),
       isBaselineSupported: vi.fn(),
-      getFeatureData: vi.fn()
+      getFeatureData: vi.fn(),
+      resolveFeatureId: vi.fn((featureId: string) => featureId)
     };
 
     (BaselineDataManager.getInstance as Mock).mockReturnValue(mockBaselineDataManager);
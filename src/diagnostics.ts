@@ -5,7 +5,13 @@ import { JsParser } from './core/jsParser';
 import { HtmlParser } from './core/htmlParser';
 import { ErrorHandler, Logger } from './core/errorHandler';
 import { PerformanceOptimizer } from './core/performanceOptimizer';
+import { SuppressionParser } from './core/suppressions';
+import { BaselineProjectConfig, ProjectConfigLoader } from './core/projectConfig';
+import { ProjectConfigManager } from './core/projectConfigManager';
+import { AuditEngine, DEFAULT_ISSUE_SEVERITY, IssueSeverity } from './core/auditEngine';
+import { FeatureGuards, GuardableParseResult } from './core/featureGuards';
 import { BaselineScoreManager } from './gamification/scoreManager';
+import { DIAGNOSTIC_SOURCE } from './fixes/fixRegistry';
 
 /**
  * Enhanced diagnostic interface that includes feature ID in the code property
@@ -28,6 +34,7 @@ export class DiagnosticController {
   private logger: Logger;
   private performanceOptimizer: PerformanceOptimizer;
   private scoreManager: BaselineScoreManager;
+  private projectConfigManager: ProjectConfigManager;
   private debouncedUpdateDiagnostics: (document: vscode.TextDocument) => void;
 
   /**
@@ -42,6 +49,7 @@ export class DiagnosticController {
     this.logger = Logger.getInstance();
     this.performanceOptimizer = PerformanceOptimizer.getInstance();
     this.scoreManager = BaselineScoreManager.getInstance();
+    this.projectConfigManager = ProjectConfigManager.getInstance();
     
     // Create debounced version of updateDiagnostics
     this.debouncedUpdateDiagnostics = this.performanceOptimizer.debounce(
@@ -85,6 +93,13 @@ export class DiagnosticController {
         return;
       }
 
+      // Files matched by the project config's ignorePaths are never checked
+      const config = this.projectConfigManager.getConfigForUri(document.uri);
+      if (ProjectConfigLoader.isIgnoredPath(config, document.uri.fsPath)) {
+        this.diagnosticCollection.delete(document.uri);
+        return;
+      }
+
       // Ensure baseline data is loaded
       if (!this.baselineDataManager.isInitialized()) {
         await this.baselineDataManager.initialize();
@@ -101,7 +116,7 @@ export class DiagnosticController {
       try {
         // Analyze document based on language type with timeout
         const diagnostics = await this.performanceOptimizer.withTimeout(
-          () => this.analyzeDocument(document),
+          () => this.analyzeDocument(document, config),
           this.performanceOptimizer.getConfiguration().parseTimeout
         );
         
@@ -130,9 +145,10 @@ export class DiagnosticController {
   /**
    * Analyzes a document and generates diagnostics for non-Baseline features
    * @param document VS Code text document to analyze
+   * @param config Project config of the document's workspace folder
    * @returns Array of enhanced diagnostics
    */
-  private async analyzeDocument(document: vscode.TextDocument): Promise<EnhancedDiagnostic[]> {
+  private async analyzeDocument(document: vscode.TextDocument, config?: BaselineProjectConfig): Promise<EnhancedDiagnostic[]> {
     const diagnostics: EnhancedDiagnostic[] = [];
     const content = document.getText();
 
@@ -150,9 +166,9 @@ export class DiagnosticController {
       case 'sass':
       case 'less':
         if (isLargeFile) {
-          await this.analyzeCssDocumentAsync(content, document, diagnostics);
+          await this.analyzeCssDocumentAsync(content, document, diagnostics, config);
         } else {
-          await this.analyzeCssDocument(content, document, diagnostics);
+          await this.analyzeCssDocument(content, document, diagnostics, config);
         }
         break;
       
@@ -161,18 +177,21 @@ export class DiagnosticController {
       case 'javascriptreact':
       case 'typescriptreact':
         if (isLargeFile) {
-          await this.analyzeJavaScriptDocumentAsync(content, document, diagnostics);
+          await this.analyzeJavaScriptDocumentAsync(content, document, diagnostics, config);
         } else {
-          await this.analyzeJavaScriptDocument(content, document, diagnostics);
+          await this.analyzeJavaScriptDocument(content, document, diagnostics, config);
         }
         break;
       
       case 'html':
       case 'xml':
+      case 'vue':
+      case 'svelte':
+      case 'astro':
         if (isLargeFile) {
-          await this.analyzeHtmlDocumentAsync(content, document, diagnostics);
+          await this.analyzeHtmlDocumentAsync(content, document, diagnostics, config);
         } else {
-          await this.analyzeHtmlDocument(content, document, diagnostics);
+          await this.analyzeHtmlDocument(content, document, diagnostics, config);
         }
         break;
       
@@ -189,11 +208,13 @@ export class DiagnosticController {
    * @param content CSS content to analyze
    * @param document VS Code document
    * @param diagnostics Array to collect diagnostics
+   * @param config Project config supplying mappings, target and severity overrides
    */
   private async analyzeCssDocument(
     content: string,
     document: vscode.TextDocument,
-    diagnostics: EnhancedDiagnostic[]
+    diagnostics: EnhancedDiagnostic[],
+    config?: BaselineProjectConfig
   ): Promise<void> {
     try {
       // Create cache key based on content hash and document URI
@@ -201,7 +222,7 @@ export class DiagnosticController {
       
       // Use memoized parser for better performance
       const memoizedParser = this.performanceOptimizer.memoize(
-        (content: string, document: vscode.TextDocument) => CssParser.parseCss(content, document),
+        (content: string, document: vscode.TextDocument) => CssParser.parseCss(content, document, ProjectConfigLoader.getParseOptions(config)),
         (content: string, document: vscode.TextDocument) => `css-${document.uri.fsPath}-${this.hashContent(content)}`
       );
       
@@ -214,16 +235,21 @@ export class DiagnosticController {
         return;
       }
       
+      // Skip usages silenced by baseline-ignore comments or hidden behind feature detection
+      const resolveFeatureId = (featureId: string) => this.baselineDataManager.resolveFeatureId(featureId);
+      const activeResult = this.getActiveResult(parseResult, resolveFeatureId, config);
+
       // Check each feature for Baseline compatibility
-      for (const featureId of parseResult.features) {
-        const isSupported = this.baselineDataManager.isBaselineSupported(featureId);
+      for (const featureId of activeResult.features) {
+        const severity = ProjectConfigLoader.getRuleSeverity(config, featureId, resolveFeatureId);
+        const isSupported = severity === 'off' || this.baselineDataManager.isBaselineSupported(featureId, config?.target);
         
         if (!isSupported) {
           // Get feature data for additional information
           const featureData = this.baselineDataManager.getFeatureData(featureId);
           
           // Get locations for this feature
-          const locations = parseResult.locations.get(featureId) || [];
+          const locations = activeResult.locations.get(featureId) || [];
           
           // Create diagnostic for each location where the feature is used
           for (const range of locations) {
@@ -231,7 +257,8 @@ export class DiagnosticController {
               range,
               featureId,
               featureData?.name || featureId,
-              'CSS'
+              'CSS',
+              this.getUsageSeverity(activeResult, featureId, range, severity, config)
             );
             diagnostics.push(diagnostic);
           }
@@ -253,13 +280,14 @@ export class DiagnosticController {
   private async analyzeCssDocumentAsync(
     content: string,
     document: vscode.TextDocument,
-    diagnostics: EnhancedDiagnostic[]
+    diagnostics: EnhancedDiagnostic[],
+    config?: BaselineProjectConfig
   ): Promise<void> {
     return new Promise((resolve) => {
       // Use setImmediate to yield control and prevent blocking
       setImmediate(async () => {
         try {
-          await this.analyzeCssDocument(content, document, diagnostics);
+          await this.analyzeCssDocument(content, document, diagnostics, config);
           resolve();
         } catch (error) {
           this.errorHandler.handleParserError(
@@ -278,16 +306,22 @@ export class DiagnosticController {
    * @param content JavaScript content to analyze
    * @param document VS Code document
    * @param diagnostics Array to collect diagnostics
+   * @param config Project config supplying mappings, target and severity overrides
    */
   private async analyzeJavaScriptDocument(
     content: string,
     document: vscode.TextDocument,
-    diagnostics: EnhancedDiagnostic[]
+    diagnostics: EnhancedDiagnostic[],
+    config?: BaselineProjectConfig
   ): Promise<void> {
     try {
       // Use memoized parser for better performance
       const memoizedParser = this.performanceOptimizer.memoize(
-        (content: string, document: vscode.TextDocument) => JsParser.parseJavaScript(content, document),
+        (content: string, document: vscode.TextDocument) => JsParser.parseJavaScript(
+          content,
+          document,
+          ProjectConfigLoader.getParseOptions(config, config && { filePath: document.uri.fsPath, content })
+        ),
         (content: string, document: vscode.TextDocument) => `js-${document.uri.fsPath}-${this.hashContent(content)}`
       );
       
@@ -300,16 +334,21 @@ export class DiagnosticController {
         return;
       }
       
+      // Skip usages silenced by baseline-ignore comments or hidden behind feature detection
+      const resolveFeatureId = (featureId: string) => this.baselineDataManager.resolveFeatureId(featureId);
+      const activeResult = this.getActiveResult(parseResult, resolveFeatureId, config);
+
       // Check each feature for Baseline compatibility
-      for (const featureId of parseResult.features) {
-        const isSupported = this.baselineDataManager.isBaselineSupported(featureId);
+      for (const featureId of activeResult.features) {
+        const severity = ProjectConfigLoader.getRuleSeverity(config, featureId, resolveFeatureId);
+        const isSupported = severity === 'off' || this.baselineDataManager.isBaselineSupported(featureId, config?.target);
         
         if (!isSupported) {
           // Get feature data for additional information
           const featureData = this.baselineDataManager.getFeatureData(featureId);
           
           // Get locations for this feature
-          const locations = parseResult.locations.get(featureId) || [];
+          const locations = activeResult.locations.get(featureId) || [];
           
           // Create diagnostic for each location where the feature is used
           for (const range of locations) {
@@ -317,7 +356,8 @@ export class DiagnosticController {
               range,
               featureId,
               featureData?.name || featureId,
-              'JavaScript'
+              'JavaScript',
+              this.getUsageSeverity(activeResult, featureId, range, severity, config)
             );
             diagnostics.push(diagnostic);
           }
@@ -339,13 +379,14 @@ export class DiagnosticController {
   private async analyzeJavaScriptDocumentAsync(
     content: string,
     document: vscode.TextDocument,
-    diagnostics: EnhancedDiagnostic[]
+    diagnostics: EnhancedDiagnostic[],
+    config?: BaselineProjectConfig
   ): Promise<void> {
     return new Promise((resolve) => {
       // Use setImmediate to yield control and prevent blocking
       setImmediate(async () => {
         try {
-          await this.analyzeJavaScriptDocument(content, document, diagnostics);
+          await this.analyzeJavaScriptDocument(content, document, diagnostics, config);
           resolve();
         } catch (error) {
           this.errorHandler.handleParserError(
@@ -364,16 +405,18 @@ export class DiagnosticController {
    * @param content HTML content to analyze
    * @param document VS Code document
    * @param diagnostics Array to collect diagnostics
+   * @param config Project config supplying mappings, target and severity overrides
    */
   private async analyzeHtmlDocument(
     content: string,
     document: vscode.TextDocument,
-    diagnostics: EnhancedDiagnostic[]
+    diagnostics: EnhancedDiagnostic[],
+    config?: BaselineProjectConfig
   ): Promise<void> {
     try {
       // Use memoized parser for better performance
       const memoizedParser = this.performanceOptimizer.memoize(
-        (content: string, document: vscode.TextDocument) => HtmlParser.parseHtml(content, document),
+        (content: string, document: vscode.TextDocument) => HtmlParser.parseHtml(content, document, ProjectConfigLoader.getParseOptions(config)),
         (content: string, document: vscode.TextDocument) => `html-${document.uri.fsPath}-${this.hashContent(content)}`
       );
       
@@ -386,16 +429,21 @@ export class DiagnosticController {
         return;
       }
       
+      // Skip usages silenced by baseline-ignore comments or hidden behind feature detection
+      const resolveFeatureId = (featureId: string) => this.baselineDataManager.resolveFeatureId(featureId);
+      const activeResult = this.getActiveResult(parseResult, resolveFeatureId, config);
+
       // Check each feature for Baseline compatibility
-      for (const featureId of parseResult.features) {
-        const isSupported = this.baselineDataManager.isBaselineSupported(featureId);
+      for (const featureId of activeResult.features) {
+        const severity = ProjectConfigLoader.getRuleSeverity(config, featureId, resolveFeatureId);
+        const isSupported = severity === 'off' || this.baselineDataManager.isBaselineSupported(featureId, config?.target);
         
         if (!isSupported) {
           // Get feature data for additional information
           const featureData = this.baselineDataManager.getFeatureData(featureId);
           
           // Get locations for this feature
-          const locations = parseResult.locations.get(featureId) || [];
+          const locations = activeResult.locations.get(featureId) || [];
           
           // Create diagnostic for each location where the feature is used
           for (const range of locations) {
@@ -403,7 +451,8 @@ export class DiagnosticController {
               range,
               featureId,
               featureData?.name || featureId,
-              'HTML'
+              'HTML',
+              this.getUsageSeverity(activeResult, featureId, range, severity, config)
             );
             diagnostics.push(diagnostic);
           }
@@ -425,13 +474,14 @@ export class DiagnosticController {
   private async analyzeHtmlDocumentAsync(
     content: string,
     document: vscode.TextDocument,
-    diagnostics: EnhancedDiagnostic[]
+    diagnostics: EnhancedDiagnostic[],
+    config?: BaselineProjectConfig
   ): Promise<void> {
     return new Promise((resolve) => {
       // Use setImmediate to yield control and prevent blocking
       setImmediate(async () => {
         try {
-          await this.analyzeHtmlDocument(content, document, diagnostics);
+          await this.analyzeHtmlDocument(content, document, diagnostics, config);
           resolve();
         } catch (error) {
           this.errorHandler.handleParserError(
@@ -445,19 +495,63 @@ export class DiagnosticController {
     });
   }
 
+  /**
+   * Removes usages that should not be reported from a parse result
+   * @param parseResult Parse result from a parser
+   * @param resolveFeatureId Resolves compat keys to web-features IDs
+   * @param config Project config deciding whether guarded usages are hidden
+   * @returns Parse result without suppressed usages, and without guarded ones when the config turns them off
+   */
+  private getActiveResult<T extends GuardableParseResult>(
+    parseResult: T,
+    resolveFeatureId: (featureId: string) => string | undefined,
+    config?: BaselineProjectConfig
+  ): T {
+    const activeResult = SuppressionParser.applySuppressions(parseResult, resolveFeatureId);
+    return ProjectConfigLoader.getGuardedSeverity(config) === 'off'
+      ? FeatureGuards.removeGuarded(activeResult)
+      : activeResult;
+  }
+
+  /**
+   * Determines the severity of a single usage
+   * Usages behind @supports or feature detection are capped at the guarded severity
+   * @param parseResult Parse result the usage belongs to
+   * @param featureId Feature used
+   * @param range Location of the usage
+   * @param severity Severity override from the project config
+   * @param config Project config supplying the guarded severity
+   * @returns Severity for the usage's diagnostic
+   */
+  private getUsageSeverity(
+    parseResult: GuardableParseResult,
+    featureId: string,
+    range: vscode.Range,
+    severity: IssueSeverity | undefined,
+    config?: BaselineProjectConfig
+  ): IssueSeverity | undefined {
+    const guardedSeverity = ProjectConfigLoader.getGuardedSeverity(config);
+    if (guardedSeverity === 'off' || !FeatureGuards.isGuarded(parseResult, featureId, range)) {
+      return severity;
+    }
+    return AuditEngine.minSeverity(severity ?? DEFAULT_ISSUE_SEVERITY, guardedSeverity);
+  }
+
   /**
    * Creates an enhanced diagnostic object with featureId stored in code property
    * @param range VS Code range where the feature is used
    * @param featureId Web-features ID
    * @param featureName Human-readable feature name
    * @param languageType Type of language (CSS, JavaScript, HTML)
+   * @param severity Severity override from the project config
    * @returns Enhanced diagnostic object
    */
   private createEnhancedDiagnostic(
     range: vscode.Range,
     featureId: string,
     featureName: string,
-    languageType: string
+    languageType: string,
+    severity?: IssueSeverity
   ): EnhancedDiagnostic {
     // Get feature data for more detailed message
     const featureData = this.baselineDataManager.getFeatureData(featureId);
@@ -475,15 +569,18 @@ export class DiagnosticController {
       }
     }
 
+    // Link to the owning web-feature rather than the raw compat key
+    const webFeatureId = this.baselineDataManager.resolveFeatureId(featureId) || featureId;
+
     // Create enhanced diagnostic with featureId in code property
     const diagnostic: EnhancedDiagnostic = {
       range,
       message,
-      severity: vscode.DiagnosticSeverity.Warning,
-      source: 'Baseline Sidekick',
+      severity: this.getDiagnosticSeverity(severity),
+      source: DIAGNOSTIC_SOURCE,
       code: {
         value: featureId,
-        target: vscode.Uri.parse(`https://web-platform-dx.github.io/web-features/${featureId}`)
+        target: vscode.Uri.parse(`https://web-platform-dx.github.io/web-features/${webFeatureId}`)
       },
       tags: [vscode.DiagnosticTag.Deprecated] // Mark as potentially problematic
     };
@@ -491,6 +588,22 @@ export class DiagnosticController {
     return diagnostic;
   }
 
+  /**
+   * Maps a configured issue severity to a VS Code diagnostic severity
+   * @param severity Severity override, if any
+   * @returns Diagnostic severity, the CLI's default severity when there is no override
+   */
+  private getDiagnosticSeverity(severity?: IssueSeverity): vscode.DiagnosticSeverity {
+    switch (severity ?? DEFAULT_ISSUE_SEVERITY) {
+      case 'error':
+        return vscode.DiagnosticSeverity.Error;
+      case 'info':
+        return vscode.DiagnosticSeverity.Information;
+      default:
+        return vscode.DiagnosticSeverity.Warning;
+    }
+  }
+
   /**
    * Clears all diagnostics for a document
    * @param document VS Code document to clear diagnostics for
@@ -607,6 +720,9 @@ export class DiagnosticController {
           break;
         case 'html':
         case 'xml':
+        case 'vue':
+        case 'svelte':
+        case 'astro':
           const htmlResult = HtmlParser.parseHtml(content, document);
           features.push(...htmlResult.features);
           break;
@@ -3,11 +3,15 @@ import * as vscode from 'vscode';
 import { activate, deactivate } from './extension';
 
 // Mock VS Code API
-vi.mock('vscode', () => ({
+vi.mock('vscode', async () => ({
   workspace: {
     onDidChangeTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
     onDidOpenTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
     onDidSaveTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
+    onDidChangeConfiguration: vi.fn(() => ({ dispose: vi.fn() })),
+    getConfiguration: vi.fn(() => ({
+      get: vi.fn((_key: string, defaultValue: any) => defaultValue)
+    })),
     textDocuments: [],
     createFileSystemWatcher: vi.fn(() => ({ dispose: vi.fn() }))
   },
@@ -41,10 +45,7 @@ vi.mock('vscode', () => ({
     Unnecessary: 1,
     Deprecated: 2
   },
-  CodeActionKind: {
-    RefactorRewrite: 'refactor.rewrite',
-    QuickFix: 'quickfix'
-  },
+  CodeActionKind: (await vi.importActual<typeof import('./__mocks__/vscode')>('./__mocks__/vscode')).CodeActionKind,
   Range: vi.fn(),
   Position: vi.fn(),
   Uri: {
@@ -64,6 +65,7 @@ vi.mock('vscode', () => ({
 
 // Mock web-features
 vi.mock('web-features', () => ({
+  browsers: {},
   features: {
     'css.properties.gap': {
       name: 'CSS gap property',
@@ -271,7 +273,8 @@ describe('Extension Integration Tests', () => {
         expect.objectContaining({
           providedCodeActionKinds: [
             vscode.CodeActionKind.RefactorRewrite,
-            vscode.CodeActionKind.QuickFix
+            vscode.CodeActionKind.QuickFix,
+            'source.fixAll.baseline'
           ]
         })
       );
@@ -1,16 +1,22 @@
 import * as vscode from 'vscode';
 import { BaselineDataManager } from './core/baselineData';
+import { DEFAULT_BASELINE_TARGET } from './core/baselineTarget';
 import { DiagnosticController } from './diagnostics';
 import { BaselineHoverProvider } from './providers/hoverProvider';
 import { BaselineCodeActionProvider } from './providers/codeActionProvider';
 import { EnhancedCodeActionProvider } from './providers/enhancedCodeActionProvider';
 import { registerAuditCommand } from './commands/audit';
+import { registerFixCommands } from './commands/fixAll';
+import { registerPolyfillCommand } from './commands/polyfill';
 import { AICommandHandlers } from './commands/aiCommandHandlers';
 import { BaselineScoreManager } from './gamification/scoreManager';
 import { ErrorHandler, Logger } from './core/errorHandler';
+import { PerformanceOptimizer } from './core/performanceOptimizer';
+import { ProjectConfigManager } from './core/projectConfigManager';
 import { WelcomeExperience } from './ui/welcomeExperience';
 import { EnhancedStatusBar } from './ui/enhancedStatusBar';
 import { QuickAccessInterface } from './ui/quickAccessInterface';
+import { FixAllBuilder } from './fixes/fixAll';
 
 // Global references for cleanup
 let diagnosticController: DiagnosticController | undefined;
@@ -38,8 +44,36 @@ export async function activate(context: vscode.ExtensionContext) {
         await baselineDataManager.initialize();
         logger.info('Baseline data loaded successfully');
 
+        // Evaluate all checks against the configured browser target
+        const target = baselineDataManager.setTarget(getConfiguredTarget());
+        logger.info(`Baseline target: ${target.label}`);
+
+        // Load .baselinerc.json / package.json "baseline" config for each workspace folder
+        const projectConfigManager = ProjectConfigManager.getInstance();
+        await projectConfigManager.initialize();
+
         // Create diagnostic controller with document change events
         diagnosticController = new DiagnosticController(context);
+
+        // Re-evaluate open documents when a project config changes
+        const onDidChangeProjectConfig = projectConfigManager.onDidChange(async () => {
+            try {
+                // Cached parse results may reflect the previous feature mappings
+                PerformanceOptimizer.getInstance().clearCache();
+
+                for (const document of vscode.workspace.textDocuments) {
+                    if (diagnosticController && isSupportedDocument(document)) {
+                        await diagnosticController.updateDiagnosticsImmediate(document);
+                    }
+                }
+            } catch (error) {
+                errorHandler?.handleExtensionError(
+                    error instanceof Error ? error : new Error('Unknown error in onDidChangeProjectConfig'),
+                    'Project config change event handler'
+                );
+            }
+        });
+        context.subscriptions.push(projectConfigManager, onDidChangeProjectConfig);
         
         // Register document change events for real-time diagnostics with error handling
         const onDidChangeTextDocument = vscode.workspace.onDidChangeTextDocument(async (event) => {
@@ -81,11 +115,35 @@ export async function activate(context: vscode.ExtensionContext) {
             }
         });
 
+        // Re-evaluate open documents when the browser target changes
+        const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration(async (event) => {
+            try {
+                if (!event.affectsConfiguration('baselineSidekick.target') || !baselineDataManager) {
+                    return;
+                }
+
+                const target = baselineDataManager.setTarget(getConfiguredTarget());
+                logger?.info(`Baseline target changed: ${target.label}`);
+
+                for (const document of vscode.workspace.textDocuments) {
+                    if (diagnosticController && isSupportedDocument(document)) {
+                        await diagnosticController.updateDiagnosticsImmediate(document);
+                    }
+                }
+            } catch (error) {
+                errorHandler?.handleExtensionError(
+                    error instanceof Error ? error : new Error('Unknown error in onDidChangeConfiguration'),
+                    'Configuration change event handler'
+                );
+            }
+        });
+
         // Register event handlers for cleanup
         context.subscriptions.push(
             onDidChangeTextDocument,
             onDidOpenTextDocument,
-            onDidSaveTextDocument
+            onDidSaveTextDocument,
+            onDidChangeConfiguration
         );
 
         // Analyze currently open documents with error handling
@@ -106,7 +164,8 @@ export async function activate(context: vscode.ExtensionContext) {
         const supportedLanguages = [
             'css', 'scss', 'sass', 'less',
             'javascript', 'typescript', 'javascriptreact', 'typescriptreact',
-            'html', 'xml'
+            'html', 'xml',
+            'vue', 'svelte', 'astro'
         ];
 
         const hoverProvider = new BaselineHoverProvider();
@@ -139,7 +198,8 @@ export async function activate(context: vscode.ExtensionContext) {
             {
                 providedCodeActionKinds: [
                     vscode.CodeActionKind.RefactorRewrite,
-                    vscode.CodeActionKind.QuickFix
+                    vscode.CodeActionKind.QuickFix,
+                    FixAllBuilder.getKind()
                 ]
             }
         );
@@ -165,6 +225,12 @@ export async function activate(context: vscode.ExtensionContext) {
         // Register workspace audit command with command palette
         registerAuditCommand(context);
 
+        // Register workspace fix and vendor-prefix cleanup commands, which preview their changes as one edit
+        registerFixCommands(context);
+
+        // Register the command behind the offline "Add polyfill" quick fix
+        registerPolyfillCommand(context);
+
         // Register quick access interface commands
         context.subscriptions.push(
             vscode.commands.registerCommand('baselineSidekick.showMainMenu', () => {
@@ -258,8 +324,17 @@ function isSupportedDocument(document: vscode.TextDocument): boolean {
     const supportedLanguages = [
         'css', 'scss', 'sass', 'less',
         'javascript', 'typescript', 'javascriptreact', 'typescriptreact',
-        'html', 'xml'
+        'html', 'xml',
+        'vue', 'svelte', 'astro'
     ];
     
     return supportedLanguages.includes(document.languageId);
-}
\ No newline at end of file
+}
+
+/**
+ * Helper function to read the configured Baseline target
+ * @returns "widely", "newly", a Baseline year or a browserslist query
+ */
+function getConfiguredTarget(): string {
+    return vscode.workspace.getConfiguration('baselineSidekick').get<string>('target', DEFAULT_BASELINE_TARGET);
+}
@@ -0,0 +1,64 @@
+import type * as postcss from 'postcss';
+import type { CssFixer, TextReplacement } from './fixRegistry';
+
+/**
+ * Gets the replacement removing a declaration together with the whitespace before it
+ * @param decl PostCSS declaration node
+ * @returns Replacement, or null if the declaration has no source offsets
+ */
+export function removeDeclaration(decl: postcss.Declaration): TextReplacement | null {
+  const start = decl.source?.start?.offset;
+  const end = decl.source?.end?.offset;
+  if (start === undefined || end === undefined) {
+    return null;
+  }
+  return { start: start - (decl.raws.before?.length ?? 0), end, newText: '' };
+}
+
+/**
+ * Fixes for stylesheet features, applied to the declaration a diagnostic points at
+ * Turning floats into a flex row is not equivalent (the rule's children are laid out instead of the element),
+ * so it is a refactor the developer opts into
+ */
+export const CSS_FIXERS: CssFixer[] = [
+  {
+    featureId: 'float-clear',
+    language: 'css',
+    title: 'Convert float to Flexbox layout (changes layout)',
+    isRefactor: true,
+    matches: decl => decl.prop.toLowerCase() === 'float',
+    fix: (decl, content) => {
+      const direction = decl.value.trim().toLowerCase();
+      const rule = decl.parent;
+      const start = decl.source?.start?.offset;
+      const end = decl.source?.end?.offset;
+      if ((direction !== 'left' && direction !== 'right') || !rule || rule.type !== 'rule' || start === undefined || end === undefined) {
+        return null;
+      }
+
+      // The rule becomes a wrapping flex row; right floats pack to the end
+      const separator = `;${decl.raws.before || ' '}`;
+      const declarations = ['display: flex', 'flex-wrap: wrap'];
+      if (direction === 'right') {
+        declarations.push('justify-content: flex-end');
+      }
+      const replacements: TextReplacement[] = [{
+        start,
+        end,
+        newText: declarations.join(separator) + (content.slice(start, end).endsWith(';') ? ';' : '')
+      }];
+
+      // Other float, clear and display declarations would undo the layout
+      for (const node of (rule as postcss.Rule).nodes) {
+        if (node !== decl && node.type === 'decl' && ['float', 'clear', 'display'].includes(node.prop.toLowerCase())) {
+          const removal = removeDeclaration(node);
+          if (!removal) {
+            return null;
+          }
+          replacements.push(removal);
+        }
+      }
+      return replacements;
+    }
+  }
+];
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as vscode from 'vscode';
+import { FixAllBuilder } from './fixAll';
+import { FixRegistry } from './fixRegistry';
+
+const FEATURE_IDS: Record<string, string> = {
+  'api.Array.at': 'array-at',
+  'css.properties.float': 'float-clear'
+};
+
+vi.mock('../core/baselineData', () => {
+  const manager = {
+    isBaselineSupported: vi.fn(() => false),
+    getFeatureData: vi.fn(() => undefined),
+    resolveFeatureId: vi.fn((key: string) => FEATURE_IDS[key])
+  };
+  return { BaselineDataManager: { getInstance: () => manager } };
+});
+
+/**
+ * Creates a document whose offsets map onto single-line positions
+ */
+const createDocument = (content: string, languageId = 'javascript') => ({
+  uri: { fsPath: `/workspace/file.${languageId === 'css' ? 'css' : 'js'}` },
+  languageId,
+  getText: () => content,
+  positionAt: (offset: number) => new vscode.Position(0, offset)
+}) as unknown as vscode.TextDocument;
+
+describe('FixAllBuilder', () => {
+  const builder = FixAllBuilder.getInstance();
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getFixes', () => {
+    it('should fix usages past the first one reported by the parser', () => {
+      const js = 'const last = items.at(-1);\nconst first = rows.at(0);';
+
+      const fixes = builder.getFixes(js, { languageId: 'javascript' }, 'a.js');
+
+      expect(FixRegistry.applyReplacements(js, fixes.flatMap(fix => fix.replacements))!.content).toBe(
+        'const last = items[items.length - 1];\nconst first = rows[0];'
+      );
+    });
+
+    it('should leave usages silenced by baseline-ignore comments', () => {
+      const js = 'items.at(0);\n// baseline-ignore-next-line array-at\nrows.at(0);';
+
+      const fixes = builder.getFixes(js, { languageId: 'javascript' }, 'a.js');
+
+      expect(fixes).toHaveLength(1);
+      expect(fixes[0].replacements[0].start).toBe(0);
+    });
+
+    it('should fix usages after a first one silenced by a baseline-ignore comment', () => {
+      const js = '// baseline-ignore-next-line array-at\nconst last = items.at(-1);\nconst first = rows.at(0);';
+
+      const fixes = builder.getFixes(js, { languageId: 'javascript' }, 'a.js');
+
+      expect(FixRegistry.applyReplacements(js, fixes.flatMap(fix => fix.replacements))!.content).toBe(
+        '// baseline-ignore-next-line array-at\nconst last = items.at(-1);\nconst first = rows[0];'
+      );
+    });
+
+    it('should leave usages behind feature detection', () => {
+      const js = "if (typeof items.at === 'function') {\n  items.at(0);\n}\nrows.at(0);";
+
+      const fixes = builder.getFixes(js, { languageId: 'javascript' }, 'a.js');
+
+      expect(FixRegistry.applyReplacements(js, fixes.flatMap(fix => fix.replacements))!.content).toBe(
+        "if (typeof items.at === 'function') {\n  items.at(0);\n}\nrows[0];"
+      );
+    });
+
+    it('should leave features the project config turns off, and markup', () => {
+      const config = { source: 'a', rules: { 'array-at': 'off' as const }, ignorePaths: [], mappings: {} };
+
+      expect(builder.getFixes('items.at(0);', { languageId: 'javascript' }, 'a.js', config)).toEqual([]);
+      expect(builder.getFixes('<p style="float: left"></p>', { languageId: 'html' }, 'a.html')).toEqual([]);
+    });
+  });
+
+  describe('createCodeAction', () => {
+    it('should offer one source.fixAll.baseline action that opens in the refactor preview', () => {
+      const replace = vi.spyOn(vscode.WorkspaceEdit.prototype, 'replace');
+
+      const action = builder.createCodeAction(createDocument('items.at(0);\nrows.at(1);'));
+
+      expect(action?.title).toBe('Fix all Baseline issues (2 fixes)');
+      expect(action?.kind?.value).toBe('source.fixAll.baseline');
+      expect(replace).toHaveBeenCalledTimes(2);
+      expect(replace).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        'items[0]',
+        { needsConfirmation: true, label: 'Convert .at() to bracket notation' }
+      );
+    });
+
+    it('should offer nothing when there is nothing to fix', () => {
+      expect(builder.createCodeAction(createDocument('items[0];'))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import { BaselineDataManager } from '../core/baselineData';
+import { AuditEngine } from '../core/auditEngine';
+import { BaselineProjectConfig, ProjectConfigLoader } from '../core/projectConfig';
+import { ProjectConfigManager } from '../core/projectConfigManager';
+import { FeatureGuards } from '../core/featureGuards';
+import { LineIndex } from '../core/lineIndex';
+import { FeatureFix, FixRegistry } from './fixRegistry';
+import { PrefixCleanup, VendorPrefixCleanup } from './vendorPrefixes';
+
+/**
+ * Verified fixes for one document
+ */
+export interface DocumentFixes {
+  document: vscode.TextDocument;
+  fixes: Array<Omit<FeatureFix, 'featureId'>>;
+}
+
+/**
+ * FixAllBuilder gathers every automated fix for the features reported in a document
+ * and combines the fixes of one or more documents into a single workspace edit
+ */
+export class FixAllBuilder {
+  private static instance: FixAllBuilder;
+  private auditEngine: AuditEngine;
+  private fixRegistry: FixRegistry;
+
+  private constructor() {
+    this.auditEngine = new AuditEngine(BaselineDataManager.getInstance());
+    this.fixRegistry = FixRegistry.getInstance();
+  }
+
+  /**
+   * Gets the singleton instance of FixAllBuilder
+   * @returns FixAllBuilder instance
+   */
+  public static getInstance(): FixAllBuilder {
+    if (!FixAllBuilder.instance) {
+      FixAllBuilder.instance = new FixAllBuilder();
+    }
+    return FixAllBuilder.instance;
+  }
+
+  /**
+   * Gets the `source.fixAll.baseline` code action kind, usable in `editor.codeActionsOnSave`
+   * @returns Code action kind
+   */
+  public static getKind(): vscode.CodeActionKind {
+    return vscode.CodeActionKind.SourceFixAll.append('baseline');
+  }
+
+  /**
+   * Computes the fixes for every reported usage in file content
+   * Features that are Baseline for the target, turned off by the project config, or silenced
+   * by a baseline-ignore comment are left alone, as they are in the diagnostics, and so are usages behind feature detection
+   * @param content File content
+   * @param document Document, or any object with a `languageId`, for the parsers to use
+   * @param filePath Path of the file
+   * @param config Project config the file belongs to
+   * @returns Non-overlapping fixes that can be applied together
+   */
+  public getFixes(
+    content: string,
+    document: { languageId: string },
+    filePath: string,
+    config?: BaselineProjectConfig
+  ): FeatureFix[] {
+    // Fixers rewrite stylesheets and scripts; markup has none
+    const languageType = AuditEngine.getLanguageTypeForLanguageId(document.languageId);
+    if (languageType !== 'CSS' && languageType !== 'JavaScript') {
+      return [];
+    }
+
+    const parseResult = this.auditEngine.parseContent(content, languageType, filePath, config);
+    const { issues } = this.auditEngine.auditParseResult(parseResult, languageType, filePath, config);
+    const featureKeys = [...new Set(issues.map(issue => issue.featureId))];
+    if (featureKeys.length === 0) {
+      return [];
+    }
+
+    // Fixers find the usages in the content themselves, so only those at a reported, unguarded location are fixed:
+    // silenced usages are not reported, and guarded ones rely on the feature detection around them
+    const reported = new Set(issues.map(issue => `${issue.featureId}:${issue.lineNumber - 1}:${issue.columnNumber - 1}`));
+    const lineIndex = new LineIndex(content);
+    const fixable = new Map<string, number[]>();
+    for (const featureKey of featureKeys) {
+      const offsets = (parseResult.locations.get(featureKey) ?? [])
+        .filter(range => reported.has(`${featureKey}:${range.start.line}:${range.start.character}`))
+        .filter(range => !FeatureGuards.isGuarded(parseResult, featureKey, range))
+        .map(range => lineIndex.offsetAt(range.start));
+      fixable.set(featureKey, offsets);
+    }
+    const isExcluded = (featureKey: string, start: number, end: number) =>
+      !(fixable.get(featureKey) ?? []).some(offset => start <= offset && offset < end);
+
+    return this.fixRegistry.getAllFixes(content, featureKeys, document, isExcluded);
+  }
+
+  /**
+   * Computes the fixes for every reported usage in an open document
+   * @param document Document to fix
+   * @returns Non-overlapping fixes, or none if the project config ignores the file
+   */
+  public getDocumentFixes(document: vscode.TextDocument): FeatureFix[] {
+    const config = ProjectConfigManager.getInstance().getConfigForUri(document.uri);
+    if (ProjectConfigLoader.isIgnoredPath(config, document.uri.fsPath)) {
+      return [];
+    }
+    return this.getFixes(document.getText(), document, document.uri.fsPath, config);
+  }
+
+  /**
+   * Computes the vendor-prefix cleanup of every prefixed declaration in an open stylesheet
+   * @param document Document to clean up
+   * @returns Non-overlapping cleanups, or none for other languages and files the project config ignores
+   */
+  public getPrefixCleanups(document: vscode.TextDocument): PrefixCleanup[] {
+    if (AuditEngine.getLanguageTypeForLanguageId(document.languageId) !== 'CSS') {
+      return [];
+    }
+
+    const config = ProjectConfigManager.getInstance().getConfigForUri(document.uri);
+    if (ProjectConfigLoader.isIgnoredPath(config, document.uri.fsPath)) {
+      return [];
+    }
+
+    const baselineDataManager = BaselineDataManager.getInstance();
+    return VendorPrefixCleanup.findCleanups(
+      document.getText(),
+      document,
+      compatKey => baselineDataManager.isBaselineSupported(compatKey, config?.target)
+    );
+  }
+
+  /**
+   * Combines the fixes of several documents into one workspace edit
+   * @param documentFixes Fixes by document
+   * @param needsConfirmation Whether the edit opens in the refactor preview before it is applied
+   * @returns Workspace edit with one entry per replacement, labelled with its fix
+   */
+  public createWorkspaceEdit(documentFixes: DocumentFixes[], needsConfirmation: boolean = true): vscode.WorkspaceEdit {
+    const edit = new vscode.WorkspaceEdit();
+    for (const { document, fixes } of documentFixes) {
+      for (const fix of fixes) {
+        const metadata: vscode.WorkspaceEditEntryMetadata = { needsConfirmation, label: fix.title };
+        for (const { start, end, newText } of fix.replacements) {
+          edit.replace(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)), newText, metadata);
+        }
+      }
+    }
+    return edit;
+  }
+
+  /**
+   * Creates the `source.fixAll.baseline` action for a document
+   * @param document Document to fix
+   * @returns Code action applying every fix, or undefined if there is nothing to fix
+   */
+  public createCodeAction(document: vscode.TextDocument): vscode.CodeAction | undefined {
+    const fixes = this.getDocumentFixes(document);
+    if (fixes.length === 0) {
+      return undefined;
+    }
+
+    const action = new vscode.CodeAction(
+      `Fix all Baseline issues (${fixes.length} fix${fixes.length === 1 ? '' : 'es'})`,
+      FixAllBuilder.getKind()
+    );
+    action.edit = this.createWorkspaceEdit([{ document, fixes }]);
+    return action;
+  }
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { FixRegistry, TextReplacement } from './fixRegistry';
+
+describe('FixRegistry', () => {
+  const registry = FixRegistry.getInstance();
+
+  /**
+   * Runs the fixes for the first occurrence of a snippet and applies the first one
+   */
+  const fix = (content: string, featureId: string, snippet: string, languageId = 'javascript') => {
+    const start = content.indexOf(snippet);
+    const fixes = registry.getFixes(content, featureId, start, start + snippet.length, { languageId });
+    return fixes.length > 0 ? FixRegistry.applyReplacements(content, fixes[0].replacements)!.content : null;
+  };
+
+  describe('getFixers', () => {
+    it('should key fixers by web-features ID', () => {
+      expect(registry.getFixers('array-at').map(fixer => fixer.title)).toEqual(['Convert .at() to bracket notation']);
+      expect(registry.getFixers('xhr')).toHaveLength(1);
+      expect(registry.getFixers('container-queries')).toEqual([]);
+    });
+  });
+
+  describe('float to flexbox', () => {
+    it('should rewrite the rule and drop declarations that undo it', () => {
+      const css = '.a {\n  display: block;\n  float: right;\n  clear: both;\n  width: 50%;\n}';
+
+      expect(fix(css, 'float-clear', 'float', 'css')).toBe(
+        '.a {\n  display: flex;\n  flex-wrap: wrap;\n  justify-content: flex-end;\n  width: 50%;\n}'
+      );
+      expect(fix('.a { float: none; }', 'float-clear', 'float', 'css')).toBeNull();
+    });
+
+    it('should use the syntax of the document', () => {
+      const scss = '.a {\n  $gap: 1rem;\n  float: left\n}';
+
+      expect(fix(scss, 'float-clear', 'float', 'scss')).toBe('.a {\n  $gap: 1rem;\n  display: flex;\n  flex-wrap: wrap\n}');
+    });
+  });
+
+  describe('XMLHttpRequest to fetch()', () => {
+    it('should replace a request that is only opened and sent', () => {
+      const js = 'const xhr = new XMLHttpRequest();\nxhr.open("GET", url);\nxhr.send();\n';
+
+      expect(fix(js, 'xhr', 'new XMLHttpRequest()')).toBe('fetch(url);\n');
+    });
+
+    it('should leave requests with other uses alone', () => {
+      expect(fix('const xhr = new XMLHttpRequest();\nxhr.open("GET", url, false);\nxhr.send();', 'xhr', 'XMLHttpRequest')).toBeNull();
+      expect(fix('const xhr = new XMLHttpRequest();\nxhr.open("GET", url);\nxhr.send();\nreturn xhr;', 'xhr', 'XMLHttpRequest')).toBeNull();
+    });
+  });
+
+  describe('Array.at() to bracket notation', () => {
+    it('should index from the end for negative indexes', () => {
+      expect(fix('items.at(0);', 'array-at', 'items.at')).toBe('items[0];');
+      expect(fix('this.items.at(-2);', 'array-at', 'this.items.at')).toBe('this.items[this.items.length - 2];');
+      expect(fix('items.at(i);', 'array-at', 'items.at')).toBe('items[i < 0 ? items.length + i : i];');
+    });
+
+    it('should fix the innermost call at the usage', () => {
+      expect(fix('rows.at(-1).at(0);', 'array-at', 'rows.at(-1)')).toBe('rows[rows.length - 1].at(0);');
+    });
+
+    it('should not repeat receivers with side effects', () => {
+      expect(fix('load().at(-1);', 'array-at', 'load().at')).toBeNull();
+      expect(fix('items.at(i + 1);', 'array-at', 'items.at')).toBeNull();
+    });
+  });
+
+  describe('optional chaining to a null check', () => {
+    it('should wrap the whole chain', () => {
+      expect(fix('const name = user?.profile.name;', 'object-object', '?.')).toBe(
+        'const name = (user == null ? undefined : user.profile.name);'
+      );
+      expect(fix('callback?.(value);', 'object-object', '?.')).toBe('(callback == null ? undefined : callback(value));');
+      expect(fix('user?.profile?.name;', 'object-object', '?.')).toBeNull();
+    });
+  });
+
+  describe('verification', () => {
+    it('should drop fixes whose result does not parse', () => {
+      registry.register({
+        featureId: 'test-broken-fix',
+        language: 'javascript',
+        title: 'Broken fix',
+        matches: node => node.type === 'CallExpression',
+        fix: path => [{ start: path.node.start!, end: path.node.end!, newText: 'run(' }]
+      });
+
+      expect(fix('run();', 'test-broken-fix', 'run')).toBeNull();
+    });
+
+    it('should drop fixes that leave the usage in place', () => {
+      registry.register({
+        featureId: 'test-noop-fix',
+        language: 'css',
+        title: 'No-op fix',
+        matches: decl => decl.prop === 'float',
+        fix: decl => [{ start: decl.source!.start!.offset, end: decl.source!.end!.offset, newText: 'float: left;' }]
+      });
+
+      expect(fix('.a { float: left; }', 'test-noop-fix', 'float', 'css')).toBeNull();
+    });
+
+    it('should only run fixers for the language of the document', () => {
+      expect(fix('<p>items.at(0)</p>', 'array-at', 'items.at', 'html')).toBeNull();
+    });
+  });
+
+  describe('getAllFixes', () => {
+    const fixAll = (content: string, featureKeys: string[], languageId = 'javascript', isExcluded?: (featureKey: string, start: number, end: number) => boolean) => {
+      const fixes = registry.getAllFixes(content, featureKeys, { languageId }, isExcluded);
+      return FixRegistry.applyReplacements(content, fixes.flatMap(fix => fix.replacements))!.content;
+    };
+
+    it('should fix every usage of every feature', () => {
+      const js = 'const last = items.at(-1);\nconst first = rows.at(0);\nconst name = user?.name;\n';
+
+      expect(fixAll(js, ['array-at', 'object-object'])).toBe(
+        'const last = items[items.length - 1];\nconst first = rows[0];\nconst name = (user == null ? undefined : user.name);\n'
+      );
+    });
+
+    it('should leave refactors that change the layout to the developer', () => {
+      const css = '.a { float: left; }\n.b { float: right; }';
+
+      expect(fixAll(css, ['float-clear'], 'css')).toBe(css);
+    });
+
+    it('should skip suppressed usages', () => {
+      const js = 'items.at(0);\nrows.at(0);';
+
+      expect(fixAll(js, ['array-at'], 'javascript', (_featureKey, offset) => offset === 0)).toBe('items.at(0);\nrows[0];');
+    });
+
+    it('should leave usages whose fix overlaps an earlier one', () => {
+      expect(registry.getAllFixes('rows.at(-1).at(0);', ['array-at'], { languageId: 'javascript' })).toHaveLength(1);
+    });
+  });
+
+  describe('applyReplacements', () => {
+    it('should apply replacements in source order and report their new spans', () => {
+      const replacements: TextReplacement[] = [
+        { start: 6, end: 9, newText: 'there' },
+        { start: 0, end: 5, newText: 'hi' }
+      ];
+
+      expect(FixRegistry.applyReplacements('hello big world', replacements)).toEqual({
+        content: 'hi there world',
+        spans: [{ start: 0, end: 2 }, { start: 3, end: 8 }]
+      });
+      expect(FixRegistry.applyReplacements('hello', [{ start: 0, end: 3, newText: '' }, { start: 2, end: 4, newText: '' }])).toBeNull();
+    });
+  });
+});
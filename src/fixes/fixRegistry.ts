@@ -0,0 +1,445 @@
+import * as vscode from 'vscode';
+import traverse, { NodePath } from '@babel/traverse';
+import type { Node } from '@babel/types';
+import type * as postcss from 'postcss';
+import { BaselineDataManager } from '../core/baselineData';
+import { AuditEngine, LanguageType } from '../core/auditEngine';
+import { CssParser } from '../core/cssParser';
+import { JsParser } from '../core/jsParser';
+import { Logger } from '../core/errorHandler';
+import { CSS_FIXERS } from './cssFixers';
+import { JS_FIXERS } from './jsFixers';
+
+/**
+ * Source of the diagnostics published by the DiagnosticController
+ */
+export const DIAGNOSTIC_SOURCE = 'Baseline Sidekick';
+
+/**
+ * Replacement of a span of the document, by source offsets
+ */
+export interface TextReplacement {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+interface FixerInfo {
+  /** web-features ID the fixer is registered under */
+  featureId: string;
+  title: string;
+  isPreferred?: boolean;
+  /** Whether the rewrite changes how the page behaves, so it is only offered as a refactor and never applied by fix-all */
+  isRefactor?: boolean;
+}
+
+/**
+ * Fix for a stylesheet feature, applied to the declaration a diagnostic points at
+ */
+export interface CssFixer extends FixerInfo {
+  language: 'css';
+  /** Whether a declaration is a usage this fixer rewrites */
+  matches(decl: postcss.Declaration): boolean;
+  /** Builds the replacements, or returns null if this usage cannot be rewritten safely */
+  fix(decl: postcss.Declaration, content: string): TextReplacement[] | null;
+}
+
+/**
+ * Fix for a JavaScript feature, applied to the innermost matching node at a diagnostic
+ */
+export interface JsFixer extends FixerInfo {
+  language: 'javascript';
+  /** Whether a node is a usage this fixer rewrites */
+  matches(node: Node): boolean;
+  /** Builds the replacements, or returns null if this usage cannot be rewritten safely */
+  fix(path: NodePath, content: string): TextReplacement[] | null;
+}
+
+export type FeatureFixer = CssFixer | JsFixer;
+
+/**
+ * A fix that was applied to the source and re-parsed successfully
+ */
+export interface FeatureFix {
+  featureId: string;
+  title: string;
+  isPreferred: boolean;
+  /** Offered as a refactor rather than a quick fix */
+  isRefactor?: boolean;
+  replacements: TextReplacement[];
+}
+
+/**
+ * FixRegistry holds the automatic fixes for Baseline diagnostics, keyed by web-features ID
+ * Fixers work on parser ASTs, and a fix is only offered once the rewritten source parses again
+ * and no longer contains the usage
+ */
+export class FixRegistry {
+  private static instance: FixRegistry;
+  private readonly fixers = new Map<string, FeatureFixer[]>();
+  private logger = Logger.getInstance();
+
+  private constructor() {
+    for (const fixer of [...CSS_FIXERS, ...JS_FIXERS]) {
+      this.register(fixer);
+    }
+  }
+
+  /**
+   * Gets the singleton instance of FixRegistry
+   * @returns FixRegistry instance
+   */
+  public static getInstance(): FixRegistry {
+    if (!FixRegistry.instance) {
+      FixRegistry.instance = new FixRegistry();
+    }
+    return FixRegistry.instance;
+  }
+
+  /**
+   * Gets the feature a Baseline diagnostic reports
+   * @param diagnostic Diagnostic from any source
+   * @returns Feature ID or BCD compat key, or undefined for diagnostics of other sources
+   */
+  public static getFeatureKey(diagnostic: vscode.Diagnostic): string | undefined {
+    const code = diagnostic.code;
+    if (diagnostic.source !== DIAGNOSTIC_SOURCE || !code || typeof code !== 'object' || !('value' in code)) {
+      return undefined;
+    }
+    return String(code.value);
+  }
+
+  /**
+   * Adds a fixer under its web-features ID
+   * @param fixer Fixer to add
+   */
+  public register(fixer: FeatureFixer): void {
+    const fixers = this.fixers.get(fixer.featureId) ?? [];
+    fixers.push(fixer);
+    this.fixers.set(fixer.featureId, fixers);
+  }
+
+  /**
+   * Gets the fixers for a feature
+   * @param featureKey web-features ID or BCD compat key
+   * @returns Fixers registered for the owning web-features ID
+   */
+  public getFixers(featureKey: string): FeatureFixer[] {
+    const featureId = BaselineDataManager.getInstance().resolveFeatureId(featureKey) || featureKey;
+    return this.fixers.get(featureId) ?? [];
+  }
+
+  /**
+   * Computes the verified fixes for one usage of a feature
+   * @param content Document content
+   * @param featureKey web-features ID or BCD compat key of the usage
+   * @param start Offset of the start of the usage
+   * @param end Offset of the end of the usage
+   * @param document Document, or any object with a `languageId`, for the parser to use
+   * @returns Fixes whose result parses and no longer contains the usage
+   */
+  public getFixes(content: string, featureKey: string, start: number, end: number, document: { languageId: string }): FeatureFix[] {
+    const languageType = AuditEngine.getLanguageTypeForLanguageId(document.languageId);
+    const fixes: FeatureFix[] = [];
+
+    for (const fixer of this.getFixers(featureKey)) {
+      try {
+        let replacements: TextReplacement[] | null = null;
+        if (fixer.language === 'css' && languageType === 'CSS') {
+          replacements = this.fixCss(fixer, content, start, document);
+        } else if (fixer.language === 'javascript' && languageType === 'JavaScript') {
+          replacements = this.fixJavaScript(fixer, content, start, end);
+        }
+
+        if (replacements && replacements.length > 0 && this.verify(fixer, content, replacements, document)) {
+          fixes.push(this.createFix(fixer, replacements));
+        }
+      } catch (error) {
+        // Unparseable documents have nothing to fix
+        this.logger.debug(`Fix "${fixer.title}" is not available`, { featureKey, error: String(error) });
+      }
+    }
+
+    return fixes;
+  }
+
+  /**
+   * Computes the verified fixes for every usage of a set of features in a document
+   * A usage whose fix overlaps one already taken is left alone, so the fixes can be applied together
+   * @param content Document content
+   * @param featureKeys web-features IDs or BCD compat keys reported for the document
+   * @param document Document, or any object with a `languageId`, for the parser to use
+   * @param isExcluded Whether the usage of a feature between two offsets must be left alone, e.g. because it is silenced or guarded
+   * @returns Non-overlapping fixes whose combined result parses
+   */
+  public getAllFixes(
+    content: string,
+    featureKeys: string[],
+    document: { languageId: string },
+    isExcluded?: (featureKey: string, start: number, end: number) => boolean
+  ): FeatureFix[] {
+    const languageType = AuditEngine.getLanguageTypeForLanguageId(document.languageId);
+    const fixes: FeatureFix[] = [];
+    const taken: TextReplacement[] = [];
+
+    for (const featureKey of featureKeys) {
+      // Refactors change behaviour, so they are never applied in bulk
+      for (const fixer of this.getFixers(featureKey).filter(fixer => !fixer.isRefactor)) {
+        try {
+          for (const usage of this.findUsages(fixer, content, languageType, document)) {
+            if (isExcluded?.(featureKey, usage.start, usage.end)) {
+              continue;
+            }
+
+            const replacements = usage.fix();
+            if (
+              !replacements || replacements.length === 0 ||
+              !FixRegistry.applyReplacements(content, [...taken, ...replacements]) ||
+              !this.verify(fixer, content, replacements, document)
+            ) {
+              continue;
+            }
+            taken.push(...replacements);
+            fixes.push(this.createFix(fixer, replacements));
+          }
+        } catch (error) {
+          this.logger.debug(`Fix "${fixer.title}" is not available`, { featureKey, error: String(error) });
+        }
+      }
+    }
+
+    // Each fix was verified on its own; the combination must parse as well
+    if (fixes.length > 0) {
+      try {
+        const combined = FixRegistry.applyReplacements(content, taken)!.content;
+        if (languageType === 'CSS') {
+          CssParser.parseAst(combined, document);
+        } else {
+          JsParser.parseAst(combined);
+        }
+      } catch (error) {
+        this.logger.debug('Combined fixes produced code that does not parse', { error: String(error) });
+        return [];
+      }
+    }
+
+    return fixes;
+  }
+
+  /**
+   * Creates quick fixes for a Baseline diagnostic
+   * @param document Document containing the diagnostic
+   * @param diagnostic Baseline diagnostic
+   * @param featureKey Feature ID or BCD compat key reported by the diagnostic
+   * @returns One code action per verified fix
+   */
+  public createCodeActions(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, featureKey: string): vscode.CodeAction[] {
+    const fixes = this.getFixes(
+      document.getText(),
+      featureKey,
+      document.offsetAt(diagnostic.range.start),
+      document.offsetAt(diagnostic.range.end),
+      document
+    );
+
+    return fixes.map(fix => {
+      if (fix.isRefactor) {
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.RefactorRewrite);
+        action.edit = this.createWorkspaceEdit(document, fix.replacements);
+        return action;
+      }
+
+      const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+      action.diagnostics = [diagnostic];
+      action.isPreferred = fix.isPreferred;
+      action.edit = this.createWorkspaceEdit(document, fix.replacements);
+      return action;
+    });
+  }
+
+  /**
+   * Describes the verified replacements of a fixer
+   * @param fixer Fixer that built the replacements
+   * @param replacements Verified replacements
+   * @returns Fix
+   */
+  private createFix(fixer: FeatureFixer, replacements: TextReplacement[]): FeatureFix {
+    return {
+      featureId: fixer.featureId,
+      title: fixer.title,
+      isPreferred: Boolean(fixer.isPreferred),
+      ...(fixer.isRefactor ? { isRefactor: true } : {}),
+      replacements
+    };
+  }
+
+  /**
+   * Converts replacements into a workspace edit
+   * @param document Document the replacements apply to
+   * @param replacements Replacements by source offsets
+   * @returns Workspace edit
+   */
+  public createWorkspaceEdit(document: vscode.TextDocument, replacements: TextReplacement[]): vscode.WorkspaceEdit {
+    const edit = new vscode.WorkspaceEdit();
+    for (const { start, end, newText } of replacements) {
+      edit.replace(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)), newText);
+    }
+    return edit;
+  }
+
+  /**
+   * Applies replacements to content
+   * @param content Source content
+   * @param replacements Non-overlapping replacements by source offsets
+   * @returns Rewritten content and the spans the replacements occupy in it, or null if replacements overlap
+   */
+  public static applyReplacements(
+    content: string,
+    replacements: TextReplacement[]
+  ): { content: string; spans: Array<{ start: number; end: number }> } | null {
+    const sorted = [...replacements].sort((a, b) => a.start - b.start);
+    const spans: Array<{ start: number; end: number }> = [];
+    let result = '';
+    let offset = 0;
+
+    for (const { start, end, newText } of sorted) {
+      if (start < offset || end < start) {
+        return null;
+      }
+      result += content.slice(offset, start);
+      spans.push({ start: result.length, end: result.length + newText.length });
+      result += newText;
+      offset = end;
+    }
+
+    return { content: result + content.slice(offset), spans };
+  }
+
+  /**
+   * Runs a CSS fixer on the declaration at an offset
+   * @param fixer CSS fixer
+   * @param content Stylesheet content
+   * @param start Offset of the start of the usage
+   * @param document Document, for the stylesheet syntax
+   * @returns Replacements, or null if there is no matching declaration or it cannot be fixed
+   */
+  private fixCss(fixer: CssFixer, content: string, start: number, document: { languageId: string }): TextReplacement[] | null {
+    let target: postcss.Declaration | undefined;
+    CssParser.parseAst(content, document).walkDecls(decl => {
+      const declStart = decl.source?.start?.offset;
+      const declEnd = decl.source?.end?.offset;
+      if (declStart !== undefined && declEnd !== undefined && declStart <= start && start < declEnd && fixer.matches(decl)) {
+        target = decl;
+        return false;
+      }
+      return undefined;
+    });
+    return target ? fixer.fix(target, content) : null;
+  }
+
+  /**
+   * Runs a JavaScript fixer on the innermost matching node around a usage
+   * @param fixer JavaScript fixer
+   * @param content JavaScript or TypeScript content
+   * @param start Offset of the start of the usage
+   * @param end Offset of the end of the usage
+   * @returns Replacements, or null if there is no matching node or it cannot be fixed
+   */
+  private fixJavaScript(fixer: JsFixer, content: string, start: number, end: number): TextReplacement[] | null {
+    let target: NodePath | undefined;
+    traverse(JsParser.parseAst(content), {
+      enter(path) {
+        const { node } = path;
+        if (node.start == null || node.end == null || node.end < start || node.start > end) {
+          path.skip();
+          return;
+        }
+        // Traversal is depth-first, so a later match lies inside an earlier one
+        if (node.start <= start && end <= node.end && fixer.matches(node)) {
+          target = path;
+        }
+      }
+    });
+    return target ? fixer.fix(target, content) : null;
+  }
+
+  /**
+   * Finds every usage a fixer rewrites in a document
+   * @param fixer Fixer to run
+   * @param content Document content
+   * @param languageType Language family of the document
+   * @param document Document, for the stylesheet syntax
+   * @returns Usages with their start and end offsets, each with a callback building its replacements
+   */
+  private findUsages(
+    fixer: FeatureFixer,
+    content: string,
+    languageType: LanguageType | undefined,
+    document: { languageId: string }
+  ): Array<{ start: number; end: number; fix: () => TextReplacement[] | null }> {
+    const usages: Array<{ start: number; end: number; fix: () => TextReplacement[] | null }> = [];
+
+    if (fixer.language === 'css' && languageType === 'CSS') {
+      CssParser.parseAst(content, document).walkDecls(decl => {
+        const start = decl.source?.start?.offset;
+        const end = decl.source?.end?.offset;
+        if (start !== undefined && end !== undefined && fixer.matches(decl)) {
+          usages.push({ start, end, fix: () => fixer.fix(decl, content) });
+        }
+      });
+    } else if (fixer.language === 'javascript' && languageType === 'JavaScript') {
+      traverse(JsParser.parseAst(content), {
+        enter(path) {
+          if (path.node.start != null && path.node.end != null && fixer.matches(path.node)) {
+            usages.push({ start: path.node.start, end: path.node.end, fix: () => fixer.fix(path, content) });
+          }
+        }
+      });
+    }
+
+    return usages;
+  }
+
+  /**
+   * Checks that a fix round-trips through the parser: the rewritten source parses,
+   * and the replaced code no longer contains a usage the fixer matches
+   * @param fixer Fixer that produced the replacements
+   * @param content Original content
+   * @param replacements Replacements produced by the fixer
+   * @param document Document, for the parser to use
+   * @returns true if the fix is safe to offer
+   */
+  private verify(fixer: FeatureFixer, content: string, replacements: TextReplacement[], document: { languageId: string }): boolean {
+    const applied = FixRegistry.applyReplacements(content, replacements);
+    if (!applied) {
+      return false;
+    }
+
+    const isReplaced = (start: number | null | undefined, end: number | null | undefined) =>
+      start != null && end != null && applied.spans.some(span => span.start <= start && end <= span.end);
+
+    try {
+      let remaining = false;
+      if (fixer.language === 'css') {
+        CssParser.parseAst(applied.content, document).walkDecls(decl => {
+          if (fixer.matches(decl) && isReplaced(decl.source?.start?.offset, decl.source?.end?.offset)) {
+            remaining = true;
+          }
+        });
+      } else {
+        traverse(JsParser.parseAst(applied.content), {
+          enter(path) {
+            if (fixer.matches(path.node) && isReplaced(path.node.start, path.node.end)) {
+              remaining = true;
+              path.stop();
+            }
+          }
+        });
+      }
+      return !remaining;
+    } catch (error) {
+      this.logger.debug(`Fix "${fixer.title}" produced code that does not parse`, { error: String(error) });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import type { NodePath } from '@babel/traverse';
+import type { CallExpression, Expression, MemberExpression, Node, Statement } from '@babel/types';
+import type { JsFixer, TextReplacement } from './fixRegistry';
+
+/**
+ * Checks whether an expression can be repeated without side effects, e.g. `items` or `this.state.items`
+ * @param node Expression node
+ * @returns true for identifiers, `this` and non-computed member chains of them
+ */
+function isSimpleReference(node: Node): boolean {
+  if (node.type === 'Identifier' || node.type === 'ThisExpression') {
+    return true;
+  }
+  return node.type === 'MemberExpression' && !node.computed && isSimpleReference(node.object);
+}
+
+/**
+ * Gets the source text of a node
+ * @param node AST node with offsets
+ * @param content Source the node was parsed from
+ * @returns Source text
+ */
+function getText(node: Node, content: string): string {
+  return content.slice(node.start!, node.end!);
+}
+
+/**
+ * Gets the replacement removing a statement, with its line when nothing else is on it
+ * @param statement Statement node
+ * @param content Source the statement was parsed from
+ * @returns Replacement
+ */
+function removeStatement(statement: Statement, content: string): TextReplacement {
+  const lineStart = content.lastIndexOf('\n', statement.start! - 1) + 1;
+  const lineBreak = content.indexOf('\n', statement.end!);
+  const lineEnd = lineBreak === -1 ? content.length : lineBreak;
+  if (content.slice(lineStart, statement.start!).trim() || content.slice(statement.end!, lineEnd).trim()) {
+    return { start: statement.start!, end: statement.end!, newText: '' };
+  }
+  return { start: lineStart, end: lineBreak === -1 ? lineEnd : lineBreak + 1, newText: '' };
+}
+
+/**
+ * Fixes for JavaScript and TypeScript features, applied to the AST node a diagnostic points at
+ */
+export const JS_FIXERS: JsFixer[] = [
+  {
+    featureId: 'xhr',
+    language: 'javascript',
+    title: 'Convert XMLHttpRequest to fetch()',
+    isPreferred: true,
+    matches: node => node.type === 'NewExpression' && node.callee.type === 'Identifier' && node.callee.name === 'XMLHttpRequest',
+    fix: (path, content) => {
+      const declarator = path.parentPath;
+      const declaration = declarator?.parentPath;
+      if (
+        !declarator?.isVariableDeclarator() || declarator.node.id.type !== 'Identifier' ||
+        !declaration?.isVariableDeclaration() || declaration.node.declarations.length !== 1 ||
+        !(declaration.parentPath?.isBlockStatement() || declaration.parentPath?.isProgram())
+      ) {
+        return null;
+      }
+
+      const binding = path.scope.getBinding(declarator.node.id.name);
+      if (!binding || binding.constantViolations.length > 0) {
+        return null;
+      }
+
+      // Only a request that is opened and sent, with no handlers or other uses, has a plain fetch() equivalent
+      const calls = new Map<string, { call: CallExpression; statement: Statement }>();
+      for (const reference of binding.referencePaths) {
+        const member = reference.parentPath;
+        const call = member?.parentPath;
+        const statement = call?.parentPath;
+        if (
+          !member?.isMemberExpression() || member.node.object !== reference.node ||
+          member.node.computed || member.node.property.type !== 'Identifier' ||
+          !call?.isCallExpression() || call.node.callee !== member.node ||
+          !statement?.isExpressionStatement() || statement.parentPath !== declaration.parentPath
+        ) {
+          return null;
+        }
+
+        const method = member.node.property.name;
+        if ((method !== 'open' && method !== 'send') || calls.has(method)) {
+          return null;
+        }
+        calls.set(method, { call: call.node, statement: statement.node });
+      }
+
+      const open = calls.get('open');
+      const send = calls.get('send');
+      if (!open || !send || open.statement.start! < declaration.node.end! || send.statement.start! < open.statement.end!) {
+        return null;
+      }
+
+      const [method, url, isAsync] = open.call.arguments as Expression[];
+      const [body] = send.call.arguments as Expression[];
+      const isGet = method?.type === 'StringLiteral' && method.value.toUpperCase() === 'GET';
+      if (
+        !method || !url || open.call.arguments.length > 3 || send.call.arguments.length > 1 ||
+        [...open.call.arguments, ...send.call.arguments].some(argument => argument.type === 'SpreadElement') ||
+        (isAsync && !(isAsync.type === 'BooleanLiteral' && isAsync.value)) ||
+        (isGet && body)
+      ) {
+        return null;
+      }
+
+      const options: string[] = [];
+      if (!isGet) {
+        options.push(`method: ${getText(method, content)}`);
+      }
+      if (body) {
+        options.push(`body: ${getText(body, content)}`);
+      }
+      const fetchCall = `fetch(${getText(url, content)}${options.length > 0 ? `, { ${options.join(', ')} }` : ''});`;
+
+      return [
+        removeStatement(declaration.node, content),
+        removeStatement(open.statement, content),
+        { start: send.statement.start!, end: send.statement.end!, newText: fetchCall }
+      ];
+    }
+  },
+  {
+    featureId: 'array-at',
+    language: 'javascript',
+    title: 'Convert .at() to bracket notation',
+    isPreferred: true,
+    matches: node => node.type === 'CallExpression' && node.callee.type === 'MemberExpression' &&
+      !node.callee.computed && node.callee.property.type === 'Identifier' && node.callee.property.name === 'at',
+    fix: (path, content) => {
+      const call = path.node as CallExpression;
+      const { object } = call.callee as MemberExpression;
+      const [index] = call.arguments;
+      // The receiver is repeated for negative indexes, so it must be side-effect free
+      if (call.arguments.length !== 1 || !isSimpleReference(object)) {
+        return null;
+      }
+
+      const target = getText(object, content);
+      let newText: string;
+      if (index.type === 'NumericLiteral' && Number.isInteger(index.value)) {
+        newText = `${target}[${getText(index, content)}]`;
+      } else if (
+        index.type === 'UnaryExpression' && index.operator === '-' &&
+        index.argument.type === 'NumericLiteral' && Number.isInteger(index.argument.value) && index.argument.value > 0
+      ) {
+        newText = `${target}[${target}.length - ${getText(index.argument, content)}]`;
+      } else if (index.type === 'Identifier') {
+        newText = `${target}[${index.name} < 0 ? ${target}.length + ${index.name} : ${index.name}]`;
+      } else {
+        return null;
+      }
+      return [{ start: call.start!, end: call.end!, newText }];
+    }
+  },
+  {
+    // web-features files optional chaining under the Object feature
+    featureId: 'object-object',
+    language: 'javascript',
+    title: 'Convert optional chaining to a null check',
+    matches: node => (node.type === 'OptionalMemberExpression' || node.type === 'OptionalCallExpression') && node.optional,
+    fix: (path, content) => {
+      const link = path.node;
+      const object = link.type === 'OptionalMemberExpression' ? link.object : link.type === 'OptionalCallExpression' ? link.callee : null;
+      if (!object || !isSimpleReference(object)) {
+        return null;
+      }
+
+      // `?.` short-circuits the rest of the chain, so the check wraps the outermost link
+      let chain: NodePath = path;
+      while (
+        (chain.parentPath?.isOptionalMemberExpression() && chain.parentPath.node.object === chain.node) ||
+        (chain.parentPath?.isOptionalCallExpression() && chain.parentPath.node.callee === chain.node)
+      ) {
+        chain = chain.parentPath;
+      }
+
+      // Further `?.` links would each need a check of their own
+      let optionalLinks = 0;
+      for (let node: Node = chain.node; node.type === 'OptionalMemberExpression' || node.type === 'OptionalCallExpression';) {
+        optionalLinks += node.optional ? 1 : 0;
+        node = node.type === 'OptionalMemberExpression' ? node.object : node.callee;
+      }
+      if (optionalLinks !== 1) {
+        return null;
+      }
+
+      const target = getText(object, content);
+      const rest = content.slice(content.indexOf('?.', object.end!) + 2, chain.node.end!);
+      const access = /^\s*[[(]/.test(rest) ? rest : `.${rest}`;
+      return [{ start: chain.node.start!, end: chain.node.end!, newText: `(${target} == null ? undefined : ${target}${access})` }];
+    }
+  }
+];
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { POLYFILL_CATALOG, PolyfillCatalog } from './polyfillCatalog';
+
+describe('PolyfillCatalog', () => {
+  it('should look polyfills up by web-features ID', () => {
+    expect(PolyfillCatalog.get('array-at')).toEqual({
+      featureId: 'array-at',
+      packageName: 'core-js',
+      version: '^3.38.0',
+      imports: ["import 'core-js/actual/array/at';"],
+      size: '~1 KB'
+    });
+    expect(PolyfillCatalog.get('structured-clone')?.packageName).toBe('@ungap/structured-clone');
+    expect(PolyfillCatalog.get('container-type')).toBeUndefined();
+    expect(PolyfillCatalog.get('toString')).toBeUndefined();
+  });
+
+  it('should list a package, version, size and statements for every entry', () => {
+    for (const polyfill of Object.values(POLYFILL_CATALOG)) {
+      expect(polyfill.packageName).toMatch(/^(@[-\w]+\/)?[-\w.]+$/);
+      expect(polyfill.version).toMatch(/^\^\d+\.\d+\.\d+$/);
+      expect(polyfill.size).toMatch(/KB$/);
+      expect(polyfill.imports.some(statement => statement.includes(`'${polyfill.packageName}`))).toBe(true);
+    }
+  });
+});
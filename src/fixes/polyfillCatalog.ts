@@ -0,0 +1,178 @@
+import { BaselineDataManager } from '../core/baselineData';
+
+/**
+ * Well-known polyfill for a feature, installed from npm and loaded once by the entry file
+ */
+export interface PolyfillEntry {
+  /** npm package providing the polyfill */
+  packageName: string;
+  /** Version range added to package.json */
+  version: string;
+  /** Statements the entry file needs, in order, e.g. `import 'core-js/actual/array/at';` */
+  imports: string[];
+  /** Approximate minified and gzipped size */
+  size: string;
+  /** What the polyfill does not cover, or extra setup it needs */
+  caveats?: string;
+}
+
+/**
+ * core-js polyfill of one or more modules under `core-js/actual/`
+ * @param modules Module paths, e.g. "array/at"
+ * @param size Approximate minified and gzipped size
+ * @param caveats What the polyfill does not cover
+ * @returns Catalog entry
+ */
+function coreJs(modules: string[], size: string, caveats?: string): PolyfillEntry {
+  return {
+    packageName: 'core-js',
+    version: '^3.38.0',
+    imports: modules.map(module => `import 'core-js/actual/${module}';`),
+    size,
+    ...(caveats ? { caveats } : {})
+  };
+}
+
+/**
+ * Curated polyfills keyed by web-features ID
+ * Bundled with the extension, so looking one up needs no network access or API key
+ */
+export const POLYFILL_CATALOG: Record<string, PolyfillEntry> = {
+  'array-at': coreJs(['array/at'], '~1 KB'),
+  'array-by-copy': coreJs(['array/to-reversed', 'array/to-sorted', 'array/to-spliced', 'array/with'], '~2 KB'),
+  'array-findlast': coreJs(['array/find-last', 'array/find-last-index'], '~1 KB'),
+  'array-flat': coreJs(['array/flat', 'array/flat-map'], '~1 KB'),
+  'array-fromasync': coreJs(['array/from-async'], '~3 KB'),
+  'array-group': coreJs(['object/group-by', 'map/group-by'], '~2 KB'),
+  'array-includes': coreJs(['array/includes'], '~1 KB'),
+  'globalthis': coreJs(['global-this'], '<1 KB'),
+  'iterator-methods': coreJs(['iterator'], '~6 KB'),
+  'object-hasown': coreJs(['object/has-own'], '<1 KB'),
+  'promise-allsettled': coreJs(['promise/all-settled'], '~4 KB', 'Pulls in the core-js Promise polyfill where Promise itself is incomplete.'),
+  'promise-any': coreJs(['promise/any'], '~4 KB', 'Also installs AggregateError.'),
+  'promise-withresolvers': coreJs(['promise/with-resolvers'], '~4 KB'),
+  'set-methods': coreJs(['set'], '~7 KB', 'Replaces the whole Set constructor where its new methods are missing.'),
+  'string-at': coreJs(['string/at'], '~1 KB'),
+  'string-replaceall': coreJs(['string/replace-all'], '~2 KB', 'Global regular expressions take the slower polyfilled path.'),
+  'url-canparse': coreJs(['url/can-parse'], '~8 KB', 'Installs the full core-js URL implementation where URL.canParse is missing.'),
+  'structured-clone': {
+    packageName: '@ungap/structured-clone',
+    version: '^1.2.0',
+    imports: [
+      "import structuredClone from '@ungap/structured-clone';",
+      "if (!('structuredClone' in globalThis)) { Object.assign(globalThis, { structuredClone }); }"
+    ],
+    size: '~1 KB',
+    caveats: 'Cannot clone or transfer platform objects such as ImageBitmap or MessagePort, and the global is only set once the entry module runs.'
+  },
+  'dialog': {
+    packageName: 'dialog-polyfill',
+    version: '^0.5.6',
+    imports: [
+      "import dialogPolyfill from 'dialog-polyfill';",
+      "import 'dialog-polyfill/dist/dialog-polyfill.css';",
+      "document.querySelectorAll('dialog').forEach(dialog => dialogPolyfill.registerDialog(dialog));"
+    ],
+    size: '~3 KB',
+    caveats: 'Dialogs created after start-up must be passed to dialogPolyfill.registerDialog(); the CSS import needs a bundler that handles stylesheets.'
+  },
+  'intersection-observer': {
+    packageName: 'intersection-observer',
+    version: '^0.12.2',
+    imports: ["import 'intersection-observer';"],
+    size: '~3 KB',
+    caveats: 'Changes inside iframes and from CSS animations are only seen when polling is enabled via POLL_INTERVAL.'
+  },
+  'resize-observer': {
+    packageName: '@juggle/resize-observer',
+    version: '^3.4.0',
+    imports: [
+      "import { ResizeObserver as ResizeObserverPolyfill } from '@juggle/resize-observer';",
+      "if (!('ResizeObserver' in window)) { Object.assign(window, { ResizeObserver: ResizeObserverPolyfill }); }"
+    ],
+    size: '~3 KB',
+    caveats: 'Observes with a MutationObserver and animation frames, so very frequent layout changes cost more than native.'
+  },
+  'fetch': {
+    packageName: 'whatwg-fetch',
+    version: '^3.6.20',
+    imports: ["import 'whatwg-fetch';"],
+    size: '~3 KB',
+    caveats: 'Built on XMLHttpRequest: no streaming bodies, and no keepalive or cache modes.'
+  },
+  'aborting': {
+    packageName: 'abortcontroller-polyfill',
+    version: '^1.7.5',
+    imports: ["import 'abortcontroller-polyfill/dist/polyfill-patch-fetch';"],
+    size: '~2 KB',
+    caveats: 'Aborting a patched fetch() rejects the promise but cannot cancel the underlying request.'
+  },
+  'inert': {
+    packageName: 'wicg-inert',
+    version: '^3.1.2',
+    imports: ["import 'wicg-inert';"],
+    size: '~3 KB',
+    caveats: 'Watches the DOM with MutationObservers, which can be slow on large pages.'
+  },
+  'popover': {
+    packageName: '@oddbird/popover-polyfill',
+    version: '^0.4.4',
+    imports: ["import '@oddbird/popover-polyfill';"],
+    size: '~5 KB',
+    caveats: 'Does not emulate the top layer; style :popover-open through the .\\:popover-open class as well.'
+  },
+  'container-queries': {
+    packageName: 'container-query-polyfill',
+    version: '^1.0.2',
+    imports: ["import 'container-query-polyfill';"],
+    size: '~9 KB',
+    caveats: 'Only rewrites same-origin stylesheets, and content can flash unstyled until the polyfill has run.'
+  },
+  'focus-visible': {
+    packageName: 'focus-visible',
+    version: '^5.2.0',
+    imports: ["import 'focus-visible';"],
+    size: '~1 KB',
+    caveats: 'Adds a .focus-visible class instead of matching :focus-visible, so selectors need the class as well.'
+  },
+  'requestidlecallback': {
+    packageName: 'requestidlecallback-polyfill',
+    version: '^1.0.2',
+    imports: ["import 'requestidlecallback-polyfill';"],
+    size: '<1 KB',
+    caveats: 'Falls back to setTimeout, so callbacks do not wait for the browser to be idle.'
+  },
+  'intl-segmenter': {
+    packageName: '@formatjs/intl-segmenter',
+    version: '^11.5.0',
+    imports: ["import '@formatjs/intl-segmenter/polyfill';"],
+    size: '~25 KB',
+    caveats: 'Large; consider loading it only where Intl.Segmenter is missing.'
+  },
+  'scroll-behavior': {
+    packageName: 'smoothscroll-polyfill',
+    version: '^0.4.4',
+    imports: [
+      "import smoothscroll from 'smoothscroll-polyfill';",
+      'smoothscroll.polyfill();'
+    ],
+    size: '~2 KB',
+    caveats: "Covers scrollTo(), scrollBy() and scrollIntoView() with behavior: 'smooth'; the scroll-behavior CSS property is not polyfilled."
+  }
+};
+
+/**
+ * PolyfillCatalog looks up the bundled polyfill for a reported feature
+ */
+export class PolyfillCatalog {
+  /**
+   * Gets the polyfill for a feature
+   * @param featureKey web-features ID or BCD compat key
+   * @returns Catalog entry and the web-features ID it is listed under, or undefined if there is none
+   */
+  public static get(featureKey: string): (PolyfillEntry & { featureId: string }) | undefined {
+    const featureId = BaselineDataManager.getInstance().resolveFeatureId(featureKey) || featureKey;
+    const entry = Object.prototype.hasOwnProperty.call(POLYFILL_CATALOG, featureId) ? POLYFILL_CATALOG[featureId] : undefined;
+    return entry ? { featureId, ...entry } : undefined;
+  }
+}
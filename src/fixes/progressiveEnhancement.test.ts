@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BaselineDataManager } from '../core/baselineData';
+import { CssParser } from '../core/cssParser';
+import { JsParser } from '../core/jsParser';
+import { FixRegistry } from './fixRegistry';
+import { ProgressiveEnhancement } from './progressiveEnhancement';
+
+describe('ProgressiveEnhancement', () => {
+  /**
+   * Computes the fixes for the first occurrence of a snippet and applies each of them
+   */
+  const wrap = (content: string, featureKey: string, snippet: string, languageId = 'javascript') => {
+    const start = content.indexOf(snippet);
+    return ProgressiveEnhancement.getFixes(content, featureKey, start, start + snippet.length, { languageId })
+      .map(fix => FixRegistry.applyReplacements(content, fix.replacements)!.content);
+  };
+
+  describe('@supports', () => {
+    it('should move the declaration into an @supports block and keep the fallback in the rule', () => {
+      const css = '.card {\n  width: 100%;\n  container-type: inline-size;\n}';
+
+      const [result] = wrap(css, 'css.properties.container-type', 'container-type', 'css');
+
+      expect(result).toBe(
+        '.card {\n  width: 100%;\n}\n\n' +
+        '@supports (container-type: inline-size) {\n  .card {\n    container-type: inline-size;\n  }\n}'
+      );
+      expect(CssParser.parseCss(result, { languageId: 'css' }).guarded?.has('css.properties.container-type')).toBe(true);
+    });
+
+    it('should follow the layout of the rule', () => {
+      expect(wrap('.a { color: red; text-wrap: balance }', 'css.properties.text-wrap', 'text-wrap', 'css'))
+        .toEqual(['.a { color: red; }\n@supports (text-wrap: balance) { .a { text-wrap: balance; } }']);
+      expect(wrap('@media print {\n\t.a {\n\t\ttext-wrap: balance;\n\t}\n}', 'css.properties.text-wrap', 'text-wrap', 'css'))
+        .toEqual(['@media print {\n\t@supports (text-wrap: balance) {\n\t\t.a {\n\t\t\ttext-wrap: balance;\n\t\t}\n\t}\n}']);
+    });
+
+    it('should leave declarations that are already guarded or outside style rules', () => {
+      expect(wrap('@supports (gap: 1px) { .a { gap: 1px; } }', 'css.properties.gap', 'gap', 'css')).toEqual([]);
+      expect(wrap('@font-face { font-display: swap; }', 'css.at-rules.font-face.font-display', 'font-display', 'css')).toEqual([]);
+    });
+
+    it('should leave widely available features', () => {
+      const spy = vi.spyOn(BaselineDataManager.getInstance(), 'getCompatKeyStatus')
+        .mockReturnValue({ status: { baseline: 'high' } } as any);
+
+      expect(wrap('.a { float: left; width: 50%; }', 'css.properties.float', 'float', 'css')).toEqual([]);
+      spy.mockRestore();
+    });
+  });
+
+  describe('feature detection', () => {
+    it('should test members of globals with in, with an optional fallback branch', () => {
+      const js = 'function share(data) {\n    navigator.share(data);\n}';
+
+      const [guarded, withFallback] = wrap(js, 'api.Navigator.share', 'navigator.share(data)');
+
+      expect(guarded).toBe("function share(data) {\n    if ('share' in navigator) {\n        navigator.share(data);\n    }\n}");
+      expect(withFallback).toBe(
+        "function share(data) {\n    if ('share' in navigator) {\n        navigator.share(data);\n    } else {\n" +
+        '        // Fallback for browsers without navigator.share\n    }\n}'
+      );
+      expect(JsParser.parseJavaScript(guarded, { uri: { fsPath: 'a.js' } }).guarded?.has('api.Navigator.share')).toBe(true);
+    });
+
+    it('should test globals with typeof and keep declared variables in scope', () => {
+      const js = 'const copy = structuredClone(value);\nconsole.log(copy);';
+
+      const [guarded] = wrap(js, 'api.structuredClone', 'structuredClone(value)');
+
+      expect(guarded).toBe(
+        "let copy;\nif (typeof structuredClone === 'function') {\n  copy = structuredClone(value);\n}\nconsole.log(copy);"
+      );
+      expect(JsParser.parseJavaScript(guarded, { uri: { fsPath: 'a.js' } }).guarded?.has('api.structuredClone')).toBe(true);
+    });
+
+    it('should test the first member of deeper paths and members of local values with typeof', () => {
+      expect(wrap('await window.navigator.clipboard.writeText(text);', 'api.Clipboard.writeText', 'window.navigator.clipboard.writeText(text)')[0])
+        .toBe("if ('clipboard' in navigator) {\n  await window.navigator.clipboard.writeText(text);\n}");
+      expect(wrap('function show(el) { el.showPopover(); }', 'api.HTMLElement.showPopover', 'el.showPopover()')[0])
+        .toBe("function show(el) { if (typeof el.showPopover === 'function') {\n  el.showPopover();\n} }");
+    });
+
+    it('should test members of built-ins with typeof', () => {
+      const js = 'const groups = Object.groupBy(items, item => item.type);';
+
+      const [guarded] = wrap(js, 'javascript.builtins.Object.groupBy', 'Object.groupBy(items, item => item.type)');
+
+      expect(guarded).toBe(
+        "let groups;\nif (typeof Object.groupBy === 'function') {\n  groups = Object.groupBy(items, item => item.type);\n}"
+      );
+      expect(JsParser.parseJavaScript(guarded, { uri: { fsPath: 'a.js' } }).guarded?.has('javascript.builtins.Object.groupBy')).toBe(true);
+      expect(wrap('Promise.withResolvers();', 'api.Promise.withResolvers', 'Promise.withResolvers()')[0])
+        .toBe("if (typeof Promise.withResolvers === 'function') {\n  Promise.withResolvers();\n}");
+    });
+
+    it('should leave guarded usages, syntax features and statements that cannot be wrapped', () => {
+      expect(wrap("if ('share' in navigator) { navigator.share(data); }", 'api.Navigator.share', 'navigator.share(data)')).toEqual([]);
+      expect(wrap('a?.b;', 'javascript.operators.optional_chaining', 'a?.b')).toEqual([]);
+      expect(wrap('function f() { return structuredClone(value); }', 'api.structuredClone', 'structuredClone(value)')).toEqual([]);
+    });
+  });
+});
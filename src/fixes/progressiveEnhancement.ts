@@ -0,0 +1,352 @@
+import traverse, { NodePath } from '@babel/traverse';
+import type { Node } from '@babel/types';
+import type * as postcss from 'postcss';
+import { AuditEngine } from '../core/auditEngine';
+import { BaselineDataManager } from '../core/baselineData';
+import { CssParser } from '../core/cssParser';
+import { Logger } from '../core/errorHandler';
+import { FeatureGuards, GuardableParseResult } from '../core/featureGuards';
+import { JsParser } from '../core/jsParser';
+import { removeDeclaration } from './cssFixers';
+import { FeatureFix, FixRegistry, TextReplacement } from './fixRegistry';
+
+/**
+ * Global object prefixes that do not change what a member path refers to
+ */
+const GLOBAL_PREFIXES = new Set(['window', 'self', 'globalThis']);
+
+/**
+ * ECMAScript built-in globals, whose new members are tested with `typeof` whichever key the parser reports
+ */
+const BUILTIN_GLOBALS = new Set([
+  'AggregateError', 'Array', 'ArrayBuffer', 'Atomics', 'BigInt', 'DataView', 'Date', 'Error', 'FinalizationRegistry',
+  'Intl', 'Iterator', 'JSON', 'Map', 'Math', 'Number', 'Object', 'Promise', 'Proxy', 'Reflect', 'RegExp', 'Set',
+  'SharedArrayBuffer', 'String', 'Symbol', 'WeakMap', 'WeakRef', 'WeakSet'
+]);
+
+/**
+ * ProgressiveEnhancement builds fixes that keep a non-Baseline feature but only use it where it is supported:
+ * stylesheet declarations move into an `@supports` block, and API calls are wrapped in feature detection.
+ * The guards it writes are the ones the parsers recognise, so the usage is reported as guarded afterwards
+ */
+export class ProgressiveEnhancement {
+  /**
+   * Computes the progressive enhancement fixes for one usage of a feature
+   * @param content Document content
+   * @param featureKey web-features ID or BCD compat key of the usage
+   * @param start Offset of the start of the usage
+   * @param end Offset of the end of the usage
+   * @param document Document, or any object with a `languageId`, for the parser to use
+   * @returns Fixes whose result parses, or none if the feature is widely available or the usage is already guarded or cannot be wrapped
+   */
+  public static getFixes(
+    content: string,
+    featureKey: string,
+    start: number,
+    end: number,
+    document: { languageId: string }
+  ): FeatureFix[] {
+    const baselineDataManager = BaselineDataManager.getInstance();
+    // Widely available features work in every browser the guard would test for
+    if (baselineDataManager.getCompatKeyStatus(featureKey)?.status.baseline === 'high') {
+      return [];
+    }
+
+    const featureId = baselineDataManager.resolveFeatureId(featureKey) || featureKey;
+    const languageType = AuditEngine.getLanguageTypeForLanguageId(document.languageId);
+
+    try {
+      let fixes: Array<Omit<FeatureFix, 'featureId'>> = [];
+      if (languageType === 'CSS') {
+        const fix = this.wrapInSupports(content, start, document);
+        fixes = fix ? [fix] : [];
+      } else if (languageType === 'JavaScript' && /^(?:api|javascript\.builtins)\./.test(featureKey)) {
+        fixes = this.wrapInFeatureDetection(content, featureKey, start, end);
+      }
+      if (fixes.length === 0) {
+        return [];
+      }
+
+      // Usages already behind @supports or feature detection need no guard of their own
+      const parseResult = languageType === 'CSS' ? CssParser.parseCss(content, document) : JsParser.parseJavaScript(content, document);
+      if (this.isGuarded(parseResult, featureKey, content, start)) {
+        return [];
+      }
+
+      return fixes
+        .filter(fix => this.parses(content, fix.replacements, languageType === 'CSS', document))
+        .map(fix => ({ featureId, ...fix }));
+    } catch (error) {
+      // Unparseable documents have nothing to wrap
+      Logger.getInstance().debug('Progressive enhancement is not available', { featureKey, error: String(error) });
+      return [];
+    }
+  }
+
+  /**
+   * Moves the declaration at an offset into an `@supports` block after its rule,
+   * leaving the rest of the rule outside as the fallback
+   * @param content Stylesheet content
+   * @param start Offset of the start of the usage
+   * @param document Document, for the stylesheet syntax
+   * @returns Fix without its feature ID, or null if the usage is not a declaration of a style rule
+   */
+  private static wrapInSupports(
+    content: string,
+    start: number,
+    document: { languageId: string }
+  ): Omit<FeatureFix, 'featureId'> | null {
+    let target: postcss.Declaration | undefined;
+    CssParser.parseAst(content, document).walkDecls(decl => {
+      const declStart = decl.source?.start?.offset;
+      const declEnd = decl.source?.end?.offset;
+      if (declStart !== undefined && declEnd !== undefined && declStart <= start && start < declEnd) {
+        target = decl;
+        return false;
+      }
+      return undefined;
+    });
+
+    const decl = target;
+    const rule = decl?.parent;
+    const declStart = decl?.source?.start?.offset;
+    const declEnd = decl?.source?.end?.offset;
+    const ruleStart = rule?.source?.start?.offset;
+    const ruleEnd = rule?.source?.end?.offset;
+    if (
+      !decl || !rule || rule.type !== 'rule' ||
+      declStart === undefined || declEnd === undefined || ruleStart === undefined || ruleEnd === undefined ||
+      /^(?:--|\$|@)/.test(decl.prop) || /[#@]\{/.test(decl.value)
+    ) {
+      return null;
+    }
+
+    const condition = `(${decl.prop}: ${decl.value})`;
+    const selector = (rule as postcss.Rule).selector;
+    let declaration = content.slice(declStart, declEnd).trim();
+    if (!declaration.endsWith(';')) {
+      declaration += ';';
+    }
+
+    // Follow the layout of the rule: one line, or one declaration per line
+    const ruleIndent = this.getIndentation(content, ruleStart);
+    let block: string;
+    if ((decl.raws.before ?? '').includes('\n')) {
+      const declIndent = this.getIndentation(content, declStart);
+      const unit = declIndent.startsWith(ruleIndent) && declIndent.length > ruleIndent.length
+        ? declIndent.slice(ruleIndent.length)
+        : this.getIndentUnit(content);
+      block = [
+        `@supports ${condition} {`,
+        `${ruleIndent}${unit}${selector} {`,
+        `${ruleIndent}${unit}${unit}${declaration}`,
+        `${ruleIndent}${unit}}`,
+        `${ruleIndent}}`
+      ].join('\n');
+    } else {
+      block = `@supports ${condition} { ${selector} { ${declaration} } }`;
+    }
+
+    // A rule with nothing else to fall back on is replaced by the block
+    const title = `Move into @supports ${condition}`;
+    if (rule.nodes.every(node => node === decl || node.type === 'comment')) {
+      return { title, isPreferred: false, replacements: [{ start: ruleStart, end: ruleEnd, newText: block }] };
+    }
+
+    const removal = removeDeclaration(decl);
+    if (!removal) {
+      return null;
+    }
+    const separator = block.includes('\n') ? '\n\n' : '\n';
+    return {
+      title,
+      isPreferred: false,
+      replacements: [removal, { start: ruleEnd, end: ruleEnd, newText: `${separator}${ruleIndent}${block}` }]
+    };
+  }
+
+  /**
+   * Wraps the statement using an API in feature detection, e.g. `if ('share' in navigator) { ... }`
+   * Globals are tested with `typeof`, members of globals with `in`, and members of built-ins and local values with `typeof`
+   * @param content JavaScript or TypeScript content
+   * @param featureKey BCD compat key of the usage
+   * @param start Offset of the start of the usage
+   * @param end Offset of the end of the usage
+   * @returns Fixes without their feature ID: the guard alone, and the guard with a fallback branch
+   */
+  private static wrapInFeatureDetection(
+    content: string,
+    featureKey: string,
+    start: number,
+    end: number
+  ): Array<Omit<FeatureFix, 'featureId'>> {
+    let target: NodePath | undefined;
+    traverse(JsParser.parseAst(content), {
+      enter(path) {
+        const { node } = path;
+        if (node.start == null || node.end == null || node.end < start || node.start > end) {
+          path.skip();
+          return;
+        }
+        if (node.start === start && node.end === end) {
+          target = path;
+          path.stop();
+        }
+      }
+    });
+    if (!target) {
+      return [];
+    }
+
+    const isCall = target.isCallExpression() || target.isNewExpression();
+    const reference = isCall ? (target.node as { callee: Node }).callee : target.node;
+    const apiPath = this.getMemberPath(reference);
+    if (!apiPath) {
+      return [];
+    }
+
+    // Only globals and members of globals can be tested with `in`; values in scope may be primitives,
+    // and a built-in method is only usable if it is a function
+    const isBuiltin = featureKey.startsWith('javascript.builtins.') || BUILTIN_GLOBALS.has(apiPath[0]);
+    let test: string;
+    if (apiPath.length === 1) {
+      test = `typeof ${apiPath[0]} ${isCall ? "=== 'function'" : "!== 'undefined'"}`;
+    } else if (!isBuiltin && !target.scope.hasBinding(apiPath[0])) {
+      test = `'${apiPath[1]}' in ${apiPath[0]}`;
+    } else {
+      test = `typeof ${apiPath.join('.')} ${isCall ? "=== 'function'" : "!== 'undefined'"}`;
+    }
+
+    const statement = target.getStatementParent();
+    const node = statement?.node;
+    if (!statement || !node || node.start == null || node.end == null || !Array.isArray(statement.container)) {
+      return [];
+    }
+
+    const indent = this.getIndentation(content, node.start);
+    const unit = this.getIndentUnit(content);
+    const statementText = content.slice(node.start, node.end);
+    // Template literals keep their line breaks verbatim
+    const reindent = (text: string) => text.includes('`') ? text : text.replace(/\n/g, `\n${unit}`);
+
+    let declaration = '';
+    let body: string;
+    if (node.type === 'ExpressionStatement') {
+      body = reindent(statementText);
+    } else if (
+      node.type === 'VariableDeclaration' && (node.kind === 'const' || node.kind === 'let' || node.kind === 'var') &&
+      node.declarations.length === 1 && node.declarations[0].id.type === 'Identifier' && node.declarations[0].init
+    ) {
+      // A declaration is hoisted out of the guard, so the variable stays in scope for the code after it
+      const { id, init } = node.declarations[0];
+      declaration = `${node.kind === 'var' ? 'var' : 'let'} ${content.slice(id.start!, id.end!)};\n${indent}`;
+      body = `${id.name} = ${reindent(content.slice(init.start!, init.end!))};`;
+    } else {
+      return [];
+    }
+
+    const name = apiPath.join('.');
+    const guarded = `${declaration}if (${test}) {\n${indent}${unit}${body}\n${indent}}`;
+    const fallback = ` else {\n${indent}${unit}// Fallback for browsers without ${name}\n${indent}}`;
+
+    return [
+      {
+        title: `Wrap in feature detection: if (${test})`,
+        isPreferred: false,
+        replacements: [{ start: node.start, end: node.end, newText: guarded }]
+      },
+      {
+        title: `Wrap in feature detection with a fallback: if (${test}) … else`,
+        isPreferred: false,
+        replacements: [{ start: node.start, end: node.end, newText: `${guarded}${fallback}` }]
+      }
+    ];
+  }
+
+  /**
+   * Checks whether the usage at an offset is reported as guarded by the parser
+   * @param parseResult Parse result of the document
+   * @param featureKey Feature of the usage
+   * @param content Document content
+   * @param start Offset of the start of the usage
+   * @returns true if the usage is already behind `@supports` or feature detection
+   */
+  private static isGuarded(parseResult: GuardableParseResult, featureKey: string, content: string, start: number): boolean {
+    const lines = content.slice(0, start).split('\n');
+    const line = lines.length - 1;
+    const character = lines[line].length;
+    return (parseResult.locations.get(featureKey) ?? []).some(range =>
+      range.start.line === line && range.start.character === character &&
+      FeatureGuards.isGuarded(parseResult, featureKey, range)
+    );
+  }
+
+  /**
+   * Reads the member path an expression refers to, without `window.`-style prefixes
+   * @param node Expression node
+   * @returns Path segments, or null for computed members and other expressions
+   */
+  private static getMemberPath(node: Node): string[] | null {
+    const segments: string[] = [];
+    let current = node;
+    while (current.type === 'MemberExpression' && !current.computed && current.property.type === 'Identifier') {
+      segments.unshift(current.property.name);
+      current = current.object;
+    }
+    if (current.type !== 'Identifier') {
+      return null;
+    }
+    segments.unshift(current.name);
+
+    while (segments.length > 1 && GLOBAL_PREFIXES.has(segments[0])) {
+      segments.shift();
+    }
+    return segments;
+  }
+
+  /**
+   * Gets the whitespace a line starts with
+   * @param content Document content
+   * @param offset Offset on the line
+   * @returns Leading whitespace of the line
+   */
+  private static getIndentation(content: string, offset: number): string {
+    const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+    return content.slice(lineStart, offset).match(/^[ \t]*/)![0];
+  }
+
+  /**
+   * Guesses one level of indentation from the first indented line of a document
+   * @param content Document content
+   * @returns Indentation unit, two spaces by default
+   */
+  private static getIndentUnit(content: string): string {
+    return content.match(/^([ \t]+)\S/m)?.[1] ?? '  ';
+  }
+
+  /**
+   * Checks that a fix leaves a document the parser accepts
+   * @param content Original content
+   * @param replacements Replacements of the fix
+   * @param isCss Whether the document is a stylesheet
+   * @param document Document, for the stylesheet syntax
+   * @returns true if the rewritten source parses
+   */
+  private static parses(content: string, replacements: TextReplacement[], isCss: boolean, document: { languageId: string }): boolean {
+    const applied = FixRegistry.applyReplacements(content, replacements);
+    if (!applied) {
+      return false;
+    }
+    try {
+      if (isCss) {
+        CssParser.parseAst(applied.content, document);
+      } else {
+        JsParser.parseAst(applied.content);
+      }
+      return true;
+    } catch (error) {
+      Logger.getInstance().debug('Progressive enhancement produced code that does not parse', { error: String(error) });
+      return false;
+    }
+  }
+}
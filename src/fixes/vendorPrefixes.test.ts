@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { FixRegistry } from './fixRegistry';
+import { VendorPrefixCleanup } from './vendorPrefixes';
+
+describe('VendorPrefixCleanup', () => {
+  /**
+   * Applies every cleanup in a stylesheet
+   */
+  const cleanUp = (css: string, isBaseline: (compatKey: string) => boolean = () => true) => {
+    const cleanups = VendorPrefixCleanup.findCleanups(css, { languageId: 'css' }, isBaseline);
+    return FixRegistry.applyReplacements(css, cleanups.flatMap(cleanup => cleanup.replacements))!.content;
+  };
+
+  describe('prefixed properties', () => {
+    it('should remove the prefix when the standard property is Baseline', () => {
+      const cleanups = VendorPrefixCleanup.findCleanups('.a { -webkit-transition: -webkit-transform 1s !important; }', { languageId: 'css' }, () => true);
+
+      expect(cleanups.map(cleanup => [cleanup.kind, cleanup.property, cleanup.title]))
+        .toEqual([['unprefix', 'transition', 'Remove vendor prefix from -webkit-transition']]);
+      expect(cleanUp('.a { -webkit-transition: -webkit-transform 1s !important; }')).toBe('.a { transition: transform 1s !important; }');
+    });
+
+    it('should delete the prefixed declaration when the standard one is already there', () => {
+      const css = '.a {\n  -webkit-user-select: none;\n  -moz-user-select: none;\n  user-select: none;\n}';
+
+      expect(cleanUp(css, () => false)).toBe('.a {\n  user-select: none;\n}');
+    });
+
+    it('should add the standard property after the prefix the target still needs', () => {
+      const css = '.a {\n  -webkit-backdrop-filter: blur(4px);\n  -moz-backdrop-filter: blur(4px)\n}';
+      const isBaseline = (compatKey: string) => compatKey !== 'css.properties.backdrop-filter';
+
+      expect(cleanUp(css, isBaseline)).toBe('.a {\n  -webkit-backdrop-filter: blur(4px);\n  backdrop-filter: blur(4px);\n}');
+    });
+
+    it('should leave prefixes that have no standard equivalent', () => {
+      expect(cleanUp('.a { -webkit-tap-highlight-color: transparent; -webkit-box-orient: vertical; }'))
+        .toBe('.a { -webkit-tap-highlight-color: transparent; -webkit-box-orient: vertical; }');
+    });
+  });
+
+  describe('prefixed values', () => {
+    it('should replace prefixed keywords with their standard equivalents', () => {
+      expect(cleanUp('.a { display: -webkit-box; }')).toBe('.a { display: flex; }');
+      expect(cleanUp('.a { display: -ms-flexbox; display: flex; }')).toBe('.a { display: flex; }');
+      expect(cleanUp('.a { position: -webkit-sticky; }', () => false)).toBe('.a { position: -webkit-sticky; position: sticky; }');
+    });
+
+    it('should keep the box display of the line-clamp idiom', () => {
+      const css = '.a { display: -webkit-box; -webkit-line-clamp: 3; }';
+
+      expect(cleanUp(css)).toBe(css);
+    });
+
+    it('should keep a legacy box that -webkit-box-* declarations lay out', () => {
+      const css = '.a { display: -webkit-box; -webkit-box-orient: vertical; -webkit-box-pack: center; }';
+
+      expect(cleanUp(css)).toBe(css);
+      expect(cleanUp('.a { display: -moz-inline-box; -moz-box-align: center; }')).toBe('.a { display: -moz-inline-box; -moz-box-align: center; }');
+      expect(cleanUp('.a { display: -webkit-box; -webkit-box-sizing: border-box; }')).toBe('.a { display: flex; box-sizing: border-box; }');
+    });
+
+    it('should convert legacy gradient directions', () => {
+      expect(cleanUp('.a { background: -webkit-linear-gradient(top, red, blue); }'))
+        .toBe('.a { background: linear-gradient(to bottom, red, blue); }');
+      expect(cleanUp('.a { background: -moz-linear-gradient(45deg, red, blue); }'))
+        .toBe('.a { background: linear-gradient(45deg, red, blue); }');
+      expect(cleanUp('.a { background: -o-linear-gradient(0deg, red, blue); }'))
+        .toBe('.a { background: linear-gradient(90deg, red, blue); }');
+    });
+
+    it('should convert -webkit-gradient() along one axis', () => {
+      expect(cleanUp('.a { background: -webkit-gradient(linear, left top, left bottom, from(red), color-stop(0.5, white), to(blue)); }'))
+        .toBe('.a { background: linear-gradient(to bottom, red, white 50%, blue); }');
+
+      const radial = '.a { background: -webkit-gradient(radial, 50% 50%, 0, 50% 50%, 100, from(red), to(blue)); }';
+      expect(cleanUp(radial)).toBe(radial);
+    });
+  });
+});
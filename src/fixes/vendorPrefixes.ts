@@ -0,0 +1,476 @@
+import type * as postcss from 'postcss';
+import valueParser from 'postcss-value-parser';
+import { CssParser } from '../core/cssParser';
+import { removeDeclaration } from './cssFixers';
+import { FeatureFix, FixRegistry, TextReplacement } from './fixRegistry';
+
+/**
+ * What a cleanup does with a prefixed declaration
+ * - unprefix: the standard equivalent is Baseline, so it replaces the prefixed one
+ * - remove-duplicate: the standard equivalent is already declared next to it
+ * - add-standard: the prefix is still needed, so the standard equivalent is added after it
+ */
+export type PrefixCleanupKind = 'unprefix' | 'remove-duplicate' | 'add-standard';
+
+/**
+ * Cleanup of one vendor-prefixed declaration
+ */
+export interface PrefixCleanup extends Omit<FeatureFix, 'featureId'> {
+  kind: PrefixCleanupKind;
+  /** Standard property the cleanup declares or keeps, e.g. `transition` for `-webkit-transition` */
+  property: string;
+  /** Offset of the start of the prefixed declaration */
+  start: number;
+  /** Offset of the end of the prefixed declaration */
+  end: number;
+}
+
+/**
+ * Standard equivalent of a prefixed declaration
+ */
+interface StandardDeclaration {
+  prop: string;
+  value: string;
+  /** Prefixed property, or first prefixed value, for action titles */
+  label: string;
+  /** Whether the property itself carries the prefix */
+  prefixedProperty: boolean;
+  /** Compat keys that must be Baseline for the standard declaration to replace the prefixed one */
+  compatKeys: string[];
+}
+
+const VENDOR_PREFIX = /^-(?:webkit|moz|ms|o)-/i;
+const PREFIXED_TOKEN = /(?:^|[\s,(])-(?:webkit|moz|ms|o)-/i;
+
+/**
+ * Prefixed properties with no standard counterpart, or whose counterpart takes different values
+ * (the 2009 and 2012 flexbox drafts, the old IE grid)
+ */
+const NON_STANDARD_PROPERTIES = new RegExp([
+  '^-webkit-box-(?!shadow$|sizing$|decoration-break$)',
+  '^-webkit-(?:tap-highlight-color|font-smoothing|touch-callout|overflow-scrolling|text-fill-color|text-security|user-drag|app-region|line-clamp|locale|mask-box-image)$',
+  '^-webkit-text-stroke',
+  '^-moz-(?:osx-font-smoothing|binding|user-focus)$',
+  '^-moz-box-(?!shadow$|sizing$)',
+  '^-ms-flex-(?:align|pack|item-align|line-pack)$',
+  '^-ms-(?:grid|filter$|interpolation-mode$|overflow-style$|high-contrast-adjust$)'
+].join('|'), 'i');
+
+/**
+ * Properties of the 2009 flexbox draft and the line-clamp idiom; `display: -webkit-box` next to them
+ * lays out a legacy box whose orient, pack and align `display: flex` would silently drop
+ */
+const LEGACY_BOX_PROPERTIES = /^-(?:webkit|moz)-box-(?!shadow$|sizing$|decoration-break$)|^-webkit-line-clamp$/i;
+
+/**
+ * Legacy box display keywords
+ */
+const LEGACY_BOX_KEYWORDS = new Set(['-webkit-box', '-webkit-inline-box', '-moz-box', '-moz-inline-box']);
+
+/**
+ * Prefixed properties whose standard name is not the name without the prefix
+ */
+const RENAMED_PROPERTIES: Record<string, string> = {
+  '-ms-flex-positive': 'flex-grow',
+  '-ms-flex-negative': 'flex-shrink',
+  '-ms-flex-preferred-size': 'flex-basis',
+  '-ms-flex-order': 'order'
+};
+
+/**
+ * Properties whose values name other properties, e.g. `transition: -webkit-transform 1s`
+ */
+const PROPERTY_NAME_VALUES = new Set(['transition', 'transition-property', 'will-change']);
+
+/**
+ * Prefixed keyword values and their standard equivalents
+ */
+const PREFIXED_KEYWORDS: Record<string, string> = {
+  '-webkit-box': 'flex',
+  '-moz-box': 'flex',
+  '-ms-flexbox': 'flex',
+  '-webkit-flex': 'flex',
+  '-webkit-inline-box': 'inline-flex',
+  '-moz-inline-box': 'inline-flex',
+  '-ms-inline-flexbox': 'inline-flex',
+  '-webkit-inline-flex': 'inline-flex',
+  ...Object.fromEntries(
+    ['sticky', 'max-content', 'min-content', 'fit-content', 'grab', 'grabbing', 'zoom-in', 'zoom-out']
+      .flatMap(keyword => [[`-webkit-${keyword}`, keyword], [`-moz-${keyword}`, keyword]])
+  )
+};
+
+/**
+ * Standard functions that prefixed functions map onto, with their compat keys
+ */
+const FUNCTION_COMPAT_KEYS: Record<string, string> = {
+  'calc': 'css.types.calc',
+  'image-set': 'css.types.image.image-set',
+  'linear-gradient': 'css.types.gradient.linear-gradient',
+  'repeating-linear-gradient': 'css.types.gradient.repeating-linear-gradient'
+};
+
+/**
+ * Legacy gradient sides and the side the standard `to` syntax names instead
+ */
+const OPPOSITE_SIDES: Record<string, string> = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' };
+
+/**
+ * Positions of the keywords in legacy `-webkit-gradient()` points, in percent
+ */
+const POINT_KEYWORDS: Record<string, number> = { left: 0, top: 0, center: 50, right: 100, bottom: 100 };
+
+/**
+ * VendorPrefixCleanup rewrites `-webkit-`, `-moz-`, `-ms-` and `-o-` declarations and values
+ * to their standard equivalents, keeping the prefixed form only where the target still needs it
+ */
+export class VendorPrefixCleanup {
+  /**
+   * Finds the cleanup for every prefixed declaration in a stylesheet
+   * @param content Stylesheet content
+   * @param document Document, for the stylesheet syntax
+   * @param isBaseline Whether a compat key is Baseline for the configured target
+   * @returns Non-overlapping cleanups whose combined result parses, in source order
+   */
+  public static findCleanups(
+    content: string,
+    document: { languageId: string },
+    isBaseline: (compatKey: string) => boolean
+  ): PrefixCleanup[] {
+    if (!PREFIXED_TOKEN.test(content)) {
+      return [];
+    }
+
+    const cleanups: PrefixCleanup[] = [];
+    // Standard declarations each rule gains, so `-webkit-x` and `-moz-x` do not both add `x`
+    const added = new Map<postcss.Container, Set<string>>();
+
+    CssParser.parseAst(content, document).walkDecls(decl => {
+      const standard = this.getStandardDeclaration(decl);
+      if (!standard || !decl.parent) {
+        return;
+      }
+
+      const addedToRule = added.get(decl.parent) ?? new Set<string>();
+      added.set(decl.parent, addedToRule);
+      const key = standard.prefixedProperty ? standard.prop : `${standard.prop}: ${standard.value}`;
+      const hasStandard = addedToRule.has(key) || this.hasStandardSibling(decl, standard);
+
+      const cleanup = this.getCleanup(decl, standard, hasStandard, isBaseline, content);
+      if (cleanup) {
+        cleanups.push(cleanup);
+        if (cleanup.kind !== 'remove-duplicate') {
+          addedToRule.add(key);
+        }
+      }
+    });
+
+    // Each cleanup touches its own declaration; the combination must still parse
+    try {
+      const applied = FixRegistry.applyReplacements(content, cleanups.flatMap(cleanup => cleanup.replacements));
+      if (!applied) {
+        return [];
+      }
+      CssParser.parseAst(applied.content, document);
+    } catch {
+      return [];
+    }
+    return cleanups;
+  }
+
+  /**
+   * Gets the standard equivalent of a declaration that uses a vendor prefix
+   * @param decl PostCSS declaration node
+   * @returns Standard declaration, null if a prefix has no safe equivalent, or undefined if nothing is prefixed
+   */
+  private static getStandardDeclaration(decl: postcss.Declaration): StandardDeclaration | null | undefined {
+    const prefixedProperty = VENDOR_PREFIX.test(decl.prop);
+    if (!prefixedProperty && !PREFIXED_TOKEN.test(decl.value)) {
+      return undefined;
+    }
+
+    const compatKeys: string[] = [];
+    let prop = decl.prop.toLowerCase();
+    if (prefixedProperty) {
+      if (NON_STANDARD_PROPERTIES.test(prop)) {
+        return null;
+      }
+      prop = RENAMED_PROPERTIES[prop] ?? prop.replace(VENDOR_PREFIX, '');
+      compatKeys.push(`css.properties.${prop}`);
+    }
+
+    const parsed = valueParser(decl.value);
+    const prefixedValues: string[] = [];
+    let convertible = true;
+
+    parsed.walk(node => {
+      if ((node.type !== 'word' && node.type !== 'function') || !VENDOR_PREFIX.test(node.value)) {
+        return undefined;
+      }
+      const name = node.value.toLowerCase();
+      prefixedValues.push(node.type === 'function' ? `${name}()` : name);
+
+      if (node.type === 'function') {
+        const compatKey = this.convertFunction(node);
+        if (compatKey) {
+          compatKeys.push(compatKey);
+        } else {
+          convertible = false;
+        }
+      } else if (PROPERTY_NAME_VALUES.has(prop)) {
+        convertible &&= !NON_STANDARD_PROPERTIES.test(name);
+        node.value = RENAMED_PROPERTIES[name] ?? name.replace(VENDOR_PREFIX, '');
+      } else if (PREFIXED_KEYWORDS[name] && !this.isLegacyBox(decl, name)) {
+        node.value = PREFIXED_KEYWORDS[name];
+        compatKeys.push(`css.properties.${prop}.${node.value}`);
+      } else {
+        convertible = false;
+      }
+      return false;
+    });
+
+    // Prefixes inside strings or URLs are not values of their own
+    if (!prefixedProperty && prefixedValues.length === 0) {
+      return undefined;
+    }
+    if (!convertible) {
+      return null;
+    }
+
+    return {
+      prop,
+      value: valueParser.stringify(parsed.nodes),
+      label: prefixedProperty ? decl.prop : prefixedValues[0],
+      prefixedProperty,
+      compatKeys
+    };
+  }
+
+  /**
+   * Chooses what to do with a prefixed declaration
+   * @param decl Prefixed declaration
+   * @param standard Its standard equivalent
+   * @param hasStandard Whether the rule already declares the standard equivalent
+   * @param isBaseline Whether a compat key is Baseline for the configured target
+   * @param content Stylesheet content
+   * @returns Cleanup, or null if the declaration has no source offsets
+   */
+  private static getCleanup(
+    decl: postcss.Declaration,
+    standard: StandardDeclaration,
+    hasStandard: boolean,
+    isBaseline: (compatKey: string) => boolean,
+    content: string
+  ): PrefixCleanup | null {
+    const start = decl.source?.start?.offset;
+    const end = decl.source?.end?.offset;
+    if (start === undefined || end === undefined) {
+      return null;
+    }
+
+    const info = { property: standard.prop, isPreferred: false, start, end };
+    const between = decl.raws.between ?? ': ';
+    const standardText = `${standard.prop}${between}${standard.value}`;
+
+    if (hasStandard) {
+      const removal = removeDeclaration(decl);
+      return removal && { ...info, kind: 'remove-duplicate', title: `Remove duplicate ${standard.label}`, replacements: [removal] };
+    }
+
+    if (standard.compatKeys.every(isBaseline)) {
+      // The value span ends before any `!important` and the semicolon
+      const rawValue = decl.raws.value?.raw ?? decl.value;
+      const replacement: TextReplacement = { start, end: start + decl.prop.length + between.length + rawValue.length, newText: standardText };
+      return { ...info, kind: 'unprefix', title: `Remove vendor prefix from ${standard.label}`, replacements: [replacement] };
+    }
+
+    const important = decl.important ? decl.raws.important ?? ' !important' : '';
+    const separator = decl.raws.before || ' ';
+    const newText = content.slice(start, end).endsWith(';')
+      ? `${separator}${standardText}${important};`
+      : `;${separator}${standardText}${important}`;
+    return {
+      ...info,
+      kind: 'add-standard',
+      title: `Add standard ${standard.prop} after ${standard.label}`,
+      replacements: [{ start: end, end, newText }]
+    };
+  }
+
+  /**
+   * Checks whether the rule of a prefixed declaration already declares its standard equivalent
+   * Prefixed values count as covered by any unprefixed value of the same property
+   * @param decl Prefixed declaration
+   * @param standard Its standard equivalent
+   * @returns true if a sibling declaration is the standard equivalent
+   */
+  private static hasStandardSibling(decl: postcss.Declaration, standard: StandardDeclaration): boolean {
+    return decl.parent!.some(node =>
+      node !== decl && node.type === 'decl' && node.prop.toLowerCase() === standard.prop &&
+      (standard.prefixedProperty || !PREFIXED_TOKEN.test(node.value))
+    );
+  }
+
+  /**
+   * Checks whether a legacy box display is configured by `-webkit-box-*` declarations or the `-webkit-line-clamp` idiom,
+   * which flexbox does not replace
+   * @param decl Declaration using the keyword
+   * @param keyword Prefixed keyword
+   * @returns true if the keyword must keep its prefix
+   */
+  private static isLegacyBox(decl: postcss.Declaration, keyword: string): boolean {
+    return LEGACY_BOX_KEYWORDS.has(keyword) &&
+      Boolean(decl.parent?.some(node => node.type === 'decl' && LEGACY_BOX_PROPERTIES.test(node.prop)));
+  }
+
+  /**
+   * Rewrites a prefixed function to its standard form in place
+   * @param node Function node
+   * @returns Compat key of the standard function, or null if it has no safe equivalent
+   */
+  private static convertFunction(node: valueParser.FunctionNode): string | null {
+    const name = node.value.toLowerCase();
+    if (name === '-webkit-gradient') {
+      return this.convertLegacyGradient(node) ? FUNCTION_COMPAT_KEYS['linear-gradient'] : null;
+    }
+
+    const standardName = name.replace(VENDOR_PREFIX, '');
+    if (!FUNCTION_COMPAT_KEYS[standardName]) {
+      return null;
+    }
+    if (standardName.endsWith('linear-gradient') && !this.convertGradientDirection(node)) {
+      return null;
+    }
+    node.value = standardName;
+    return FUNCTION_COMPAT_KEYS[standardName];
+  }
+
+  /**
+   * Rewrites the direction of a prefixed linear gradient, which names the start side
+   * and measures angles from the east, to the standard `to` side or compass angle
+   * @param node Gradient function node
+   * @returns true if the direction was rewritten or the gradient has none
+   */
+  private static convertGradientDirection(node: valueParser.FunctionNode): boolean {
+    const comma = node.nodes.findIndex(child => child.type === 'div' && child.value === ',');
+    const firstArgument = node.nodes.slice(0, comma === -1 ? node.nodes.length : comma).filter(child => child.type !== 'space');
+    if (firstArgument.some(child => child.type !== 'word')) {
+      return true;
+    }
+
+    const words = firstArgument.map(child => child.value.toLowerCase());
+    let direction: string;
+    if (words.every(word => word in OPPOSITE_SIDES || word === 'center')) {
+      const sides = words.filter(word => word !== 'center').map(word => OPPOSITE_SIDES[word]);
+      if (sides.length === 0) {
+        return false;
+      }
+      direction = `to ${sides.join(' ')}`;
+    } else {
+      const angle = words.length === 1 ? valueParser.unit(words[0]) : false;
+      if (!angle) {
+        // A color; the default direction is top to bottom in both syntaxes
+        return true;
+      }
+      if (angle.unit !== 'deg') {
+        return false;
+      }
+      direction = `${(((90 - Number(angle.number)) % 360) + 360) % 360}deg`;
+    }
+
+    const replaced = comma === -1 ? node.nodes.length : comma;
+    node.nodes.splice(0, replaced, { type: 'word', value: direction, sourceIndex: 0, sourceEndIndex: 0 });
+    return true;
+  }
+
+  /**
+   * Rewrites a `-webkit-gradient(linear, ...)` whose points span the box along one axis
+   * to `linear-gradient()`; other legacy gradients have no exact standard equivalent
+   * @param node `-webkit-gradient` function node
+   * @returns true if the gradient was rewritten
+   */
+  private static convertLegacyGradient(node: valueParser.FunctionNode): boolean {
+    const args = this.splitArguments(node.nodes);
+    if (args.length < 4 || args[0].length !== 1 || args[0][0].value.toLowerCase() !== 'linear') {
+      return false;
+    }
+
+    const from = this.parsePoint(args[1]);
+    const to = this.parsePoint(args[2]);
+    if (!from || !to) {
+      return false;
+    }
+
+    const [dx, dy] = [to[0] - from[0], to[1] - from[1]];
+    let direction: string;
+    if (dx === 0 && Math.abs(dy) === 100) {
+      direction = dy > 0 ? 'to bottom' : 'to top';
+    } else if (dy === 0 && Math.abs(dx) === 100) {
+      direction = dx > 0 ? 'to right' : 'to left';
+    } else {
+      return false;
+    }
+
+    const stops: string[] = [];
+    for (const [stop, ...rest] of args.slice(3)) {
+      if (rest.length > 0 || stop.type !== 'function') {
+        return false;
+      }
+      const stopName = stop.value.toLowerCase();
+      const stopArgs = this.splitArguments(stop.nodes).map(arg => valueParser.stringify(arg));
+      if ((stopName === 'from' || stopName === 'to') && stopArgs.length === 1) {
+        stops.push(stopArgs[0]);
+      } else if (stopName === 'color-stop' && stopArgs.length === 2) {
+        const position = valueParser.unit(stopArgs[0]);
+        if (!position || (position.unit !== '' && position.unit !== '%')) {
+          return false;
+        }
+        stops.push(`${stopArgs[1]} ${position.unit === '%' ? Number(position.number) : Number(position.number) * 100}%`);
+      } else {
+        return false;
+      }
+    }
+
+    const converted = node as unknown as valueParser.WordNode;
+    converted.type = 'word';
+    converted.value = `linear-gradient(${direction}, ${stops.join(', ')})`;
+    return true;
+  }
+
+  /**
+   * Splits function arguments at commas
+   * @param nodes Nodes inside a function
+   * @returns Arguments without surrounding spaces
+   */
+  private static splitArguments(nodes: valueParser.Node[]): valueParser.Node[][] {
+    const args: valueParser.Node[][] = [[]];
+    for (const node of nodes) {
+      if (node.type === 'div' && node.value === ',') {
+        args.push([]);
+      } else if (node.type !== 'space') {
+        args[args.length - 1].push(node);
+      }
+    }
+    return args;
+  }
+
+  /**
+   * Parses a legacy gradient point such as `left top` or `0% 100%`
+   * @param nodes Point argument
+   * @returns x and y in percent, or null if the point uses other units
+   */
+  private static parsePoint(nodes: valueParser.Node[]): [number, number] | null {
+    if (nodes.length !== 2) {
+      return null;
+    }
+    const coordinates = nodes.map(node => {
+      const word = node.value.toLowerCase();
+      if (word in POINT_KEYWORDS) {
+        return POINT_KEYWORDS[word];
+      }
+      const number = valueParser.unit(word);
+      return number && (number.unit === '%' || (number.unit === '' && Number(number.number) === 0)) ? Number(number.number) : NaN;
+    });
+    return coordinates.some(Number.isNaN) ? null : [coordinates[0], coordinates[1]];
+  }
+}
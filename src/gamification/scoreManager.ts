@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { BaselineDataManager } from '../core/baselineData';
 
 /**
  * Baseline Modernization Score Calculator & Gamification System
@@ -131,6 +132,7 @@ export class BaselineScoreManager {
 
     this.statusBarItem.text = `${icon} Baseline: ${overallScore}% (${grade})`;
     this.statusBarItem.backgroundColor = color;
+    this.statusBarItem.tooltip = `Scored against ${BaselineDataManager.getInstance().getTarget().label}. Click to view detailed Baseline score breakdown`;
     
     if (criticalIssues > 0) {
       this.statusBarItem.text += ` • ${criticalIssues} critical`;
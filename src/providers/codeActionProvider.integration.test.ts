@@ -1,26 +1,26 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import * as vscode from 'vscode';
 import { BaselineCodeActionProvider } from './codeActionProvider';
+import { HtmlParser } from '../core/htmlParser';
 
 // Mock VS Code API with more complete implementations
-vi.mock('vscode', () => ({
+vi.mock('vscode', async () => ({
     CodeAction: class {
         constructor(public title: string, public kind: any) {}
         public isPreferred?: boolean;
         public edit?: any;
+        public diagnostics?: any[];
     },
-    CodeActionKind: {
-        RefactorRewrite: 'refactor.rewrite'
-    },
+    CodeActionKind: (await vi.importActual<typeof import('../__mocks__/vscode')>('../__mocks__/vscode')).CodeActionKind,
     WorkspaceEdit: class {
-        private edits = new Map();
-        
+        public edits: Array<{ uri: any; range: any; newText: string }> = [];
+
         public replace(uri: any, range: any, newText: string) {
-            this.edits.set('replace', { uri, range, newText });
+            this.edits.push({ uri, range, newText });
         }
-        
-        public getEdit() {
-            return this.edits.get('replace');
+
+        public insert(uri: any, position: any, newText: string) {
+            this.edits.push({ uri, range: { start: position, end: position }, newText });
         }
     },
     Range: class {
@@ -39,11 +39,59 @@ vi.mock('../core/baselineData', () => ({
                 name: 'CSS float property',
                 status: { baseline: false }
             }),
-            isBaselineSupported: vi.fn().mockReturnValue(false)
+            getCompatKeyStatus: vi.fn((key: string) =>
+                key === 'css.properties.float' ? { status: { baseline: 'high' } } : undefined),
+            isBaselineSupported: vi.fn().mockReturnValue(false),
+            resolveFeatureId: vi.fn((key: string) => ({
+                'css.properties.float': 'float-clear',
+                'api.XMLHttpRequest': 'xhr',
+                'api.Array.at': 'array-at'
+            } as Record<string, string>)[key])
         }))
     }
 }));
 
+/**
+ * Creates a text document over real content
+ */
+function createDocument(content: string, languageId: string, fsPath: string): any {
+    const lines = content.split('\n');
+    const offsetAt = (position: any) =>
+        lines.slice(0, position.line).reduce((offset, line) => offset + line.length + 1, 0) + position.character;
+    const positionAt = (offset: number) => {
+        const before = content.slice(0, offset).split('\n');
+        return new vscode.Position(before.length - 1, before[before.length - 1].length);
+    };
+    return {
+        languageId,
+        uri: { fsPath, toString: () => fsPath },
+        getText: () => content,
+        lineAt: (line: number) => ({ text: lines[line] }),
+        offsetAt,
+        positionAt
+    };
+}
+
+/**
+ * Applies a code action's workspace edit to the document content
+ */
+function applyEdit(document: any, action: any): string {
+    const content = document.getText();
+    const edits = [...action.edit.edits].sort((a, b) => document.offsetAt(b.range.start) - document.offsetAt(a.range.start));
+    return edits.reduce(
+        (text: string, edit: any) => text.slice(0, document.offsetAt(edit.range.start)) + edit.newText + text.slice(document.offsetAt(edit.range.end)),
+        content
+    );
+}
+
+function createDiagnostic(featureId: string, startLine: number, startCharacter: number, endLine: number, endCharacter: number): any {
+    return {
+        source: 'Baseline Sidekick',
+        code: { value: featureId },
+        range: new vscode.Range(new vscode.Position(startLine, startCharacter), new vscode.Position(endLine, endCharacter))
+    };
+}
+
 describe('BaselineCodeActionProvider Integration Tests', () => {
     let provider: BaselineCodeActionProvider;
 
@@ -65,56 +113,44 @@ describe('BaselineCodeActionProvider Integration Tests', () => {
   width: 75%;
   padding: 20px;
 }`;
-
-            const mockDocument = {
-                getText: vi.fn()
-                    .mockReturnValueOnce('float: left;') // Diagnostic range text
-                    .mockReturnValueOnce(cssContent), // Full document for rule finding
-                positionAt: vi.fn()
-                    .mockReturnValueOnce(new vscode.Position(1, 2)) // Rule start
-                    .mockReturnValueOnce(new vscode.Position(4, 1)), // Rule end
-                offsetAt: vi.fn()
-                    .mockReturnValueOnce(12) // Float property offset
-                    .mockReturnValueOnce(0)  // Rule start offset
-                    .mockReturnValueOnce(85), // Rule end offset
-                uri: { toString: () => 'test.css' }
-            } as any;
-
-            const diagnostic = {
-                source: 'baseline-sidekick',
-                code: { value: 'css.properties.float' },
-                range: new vscode.Range(
-                    new vscode.Position(1, 2),
-                    new vscode.Position(1, 13)
-                )
-            } as any;
-
-            const context = {
-                diagnostics: [diagnostic]
-            } as any;
-
-            const actions = provider.provideCodeActions(
-                mockDocument,
-                diagnostic.range,
-                context,
-                {} as any
-            );
-
-            expect(actions).toHaveLength(1);
-            
-            const action = actions[0];
-            expect(action.title).toBe('Convert float to Flexbox layout');
-            expect(action.isPreferred).toBe(true);
-            expect(action.edit).toBeDefined();
-
-            // Verify the edit is defined (we can't easily test the exact content in integration tests)
-            expect(action.edit).toBeDefined();
-            expect(action.edit.replace).toBeDefined();
+            const document = createDocument(cssContent, 'css', '/project/test.css');
+            const diagnostic = createDiagnostic('css.properties.float', 1, 2, 1, 7);
+
+            const actions = provider.provideCodeActions(document, diagnostic.range, { diagnostics: [diagnostic] } as any, {} as any) as any[];
+
+            expect(actions.map(action => action.title)).toEqual([
+                'Convert float to Flexbox layout (changes layout)',
+                "Suppress 'float-clear' for this line"
+            ]);
+            expect(actions[0].kind).toBe(vscode.CodeActionKind.RefactorRewrite);
+            expect(actions[0].isPreferred).toBeFalsy();
+            expect(applyEdit(document, actions[0])).toBe(cssContent.replace(
+                '  float: left;',
+                '  display: flex;\n  flex-wrap: wrap;'
+            ));
         });
     });
 
     describe('End-to-end JavaScript refactoring', () => {
         it('should provide complete XMLHttpRequest to fetch refactoring workflow', () => {
+            const jsContent = `function saveUser(user) {
+  const xhr = new XMLHttpRequest();
+  xhr.open('POST', '/api/users');
+  xhr.send(JSON.stringify(user));
+}`;
+            const document = createDocument(jsContent, 'javascript', '/project/test.js');
+            const diagnostic = createDiagnostic('api.XMLHttpRequest', 1, 14, 1, 34);
+
+            const actions = provider.provideCodeActions(document, diagnostic.range, { diagnostics: [diagnostic] } as any, {} as any) as any[];
+
+            expect(actions[0].title).toBe('Convert XMLHttpRequest to fetch()');
+            expect(actions[0].isPreferred).toBe(true);
+            expect(applyEdit(document, actions[0])).toBe(`function saveUser(user) {
+  fetch('/api/users', { method: 'POST', body: JSON.stringify(user) });
+}`);
+        });
+
+        it('should not offer fetch() for requests with response handlers', () => {
             const jsContent = `function fetchUserData() {
   const xhr = new XMLHttpRequest();
   xhr.open('GET', '/api/users');
@@ -125,46 +161,16 @@ describe('BaselineCodeActionProvider Integration Tests', () => {
   };
   xhr.send();
 }`;
+            const document = createDocument(jsContent, 'javascript', '/project/test.js');
+            const diagnostic = createDiagnostic('api.XMLHttpRequest', 1, 14, 1, 34);
+
+            const actions = provider.provideCodeActions(document, diagnostic.range, { diagnostics: [diagnostic] } as any, {} as any) as any[];
 
-            const mockDocument = {
-                getText: vi.fn()
-                    .mockReturnValueOnce('new XMLHttpRequest()') // Diagnostic range
-                    .mockReturnValueOnce(jsContent), // Full usage range
-                positionAt: vi.fn()
-                    .mockReturnValue(new vscode.Position(1, 14)),
-                offsetAt: vi.fn()
-                    .mockReturnValue(35),
-                uri: { toString: () => 'test.js' }
-            } as any;
-
-            const diagnostic = {
-                source: 'baseline-sidekick',
-                code: { value: 'api.XMLHttpRequest' },
-                range: new vscode.Range(
-                    new vscode.Position(1, 14),
-                    new vscode.Position(1, 33)
-                )
-            } as any;
-
-            const context = {
-                diagnostics: [diagnostic]
-            } as any;
-
-            const actions = provider.provideCodeActions(
-                mockDocument,
-                diagnostic.range,
-                context,
-                {} as any
-            );
-
-            expect(actions).toHaveLength(1);
-            
-            const action = actions[0];
-            expect(action.title).toBe('Convert XMLHttpRequest to fetch API');
-            expect(action.isPreferred).toBe(true);
-            
-            expect(action.edit).toBeDefined();
-            expect(action.edit.replace).toBeDefined();
+            expect(actions.map(action => action.title)).toEqual([
+                "Wrap in feature detection: if (typeof XMLHttpRequest === 'function')",
+                "Wrap in feature detection with a fallback: if (typeof XMLHttpRequest === 'function') … else",
+                "Suppress 'xhr' for this line"
+            ]);
         });
 
         it('should provide complete Array.at() to bracket notation refactoring workflow', () => {
@@ -175,153 +181,113 @@ describe('BaselineCodeActionProvider Integration Tests', () => {
 function getSecondToLast(items) {
   return items.at(-2);
 }`;
+            const document = createDocument(jsContent, 'javascript', '/project/test.js');
+            const diagnostic = createDiagnostic('api.Array.at', 1, 9, 1, 15);
+
+            const actions = provider.provideCodeActions(document, diagnostic.range, { diagnostics: [diagnostic] } as any, {} as any) as any[];
 
-            const mockDocument = {
-                getText: vi.fn()
-                    .mockReturnValueOnce('arr.at(-1)'), // Diagnostic range
-                positionAt: vi.fn(),
-                offsetAt: vi.fn(),
-                uri: { toString: () => 'test.js' }
-            } as any;
-
-            const diagnostic = {
-                source: 'baseline-sidekick',
-                code: { value: 'api.Array.at' },
-                range: new vscode.Range(
-                    new vscode.Position(1, 9),
-                    new vscode.Position(1, 18)
-                )
-            } as any;
-
-            const context = {
-                diagnostics: [diagnostic]
-            } as any;
-
-            const actions = provider.provideCodeActions(
-                mockDocument,
-                diagnostic.range,
-                context,
-                {} as any
-            );
-
-            expect(actions).toHaveLength(1);
-            
-            const action = actions[0];
-            expect(action.title).toBe('Convert Array.at() to bracket notation');
-            expect(action.isPreferred).toBe(true);
-            
-            expect(action.edit).toBeDefined();
-            expect(action.edit.replace).toBeDefined();
+            expect(actions[0].title).toBe('Convert .at() to bracket notation');
+            expect(actions[0].isPreferred).toBe(true);
+            expect(applyEdit(document, actions[0])).toBe(jsContent.replace('arr.at(-1)', 'arr[arr.length - 1]'));
         });
     });
 
     describe('Multiple diagnostics handling', () => {
         it('should handle multiple diagnostics and provide actions for each', () => {
-            const mockDocument = {
-                getText: vi.fn()
-                    .mockReturnValueOnce('float: left;')
-                    .mockReturnValueOnce('arr.at(-1)')
-                    .mockReturnValueOnce('.container { float: left; }')
-                    .mockReturnValueOnce('function test() { return arr.at(-1); }'),
-                positionAt: vi.fn()
-                    .mockReturnValue(new vscode.Position(0, 0)),
-                offsetAt: vi.fn()
-                    .mockReturnValue(0),
-                uri: { toString: () => 'test.js' }
-            } as any;
-
+            const jsContent = 'const last = items.at(-1);\nconst first = items.at(0);';
+            const document = createDocument(jsContent, 'javascript', '/project/test.js');
             const diagnostics = [
-                {
-                    source: 'baseline-sidekick',
-                    code: { value: 'css.properties.float' },
-                    range: new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 11))
-                },
-                {
-                    source: 'baseline-sidekick',
-                    code: { value: 'api.Array.at' },
-                    range: new vscode.Range(new vscode.Position(1, 0), new vscode.Position(1, 9))
-                }
-            ] as any;
+                createDiagnostic('api.Array.at', 0, 13, 0, 21),
+                createDiagnostic('api.Array.at', 1, 14, 1, 22)
+            ];
 
-            const context = {
-                diagnostics
-            } as any;
+            const actions = provider.provideCodeActions(document, diagnostics[0].range, { diagnostics } as any, {} as any) as any[];
+            const fixes = actions.filter(action => action.title === 'Convert .at() to bracket notation');
 
-            const actions = provider.provideCodeActions(
-                mockDocument,
-                new vscode.Range(new vscode.Position(0, 0), new vscode.Position(1, 9)),
-                context,
-                {} as any
-            );
-
-            expect(actions).toHaveLength(2);
-            expect(actions[0].title).toBe('Convert float to Flexbox layout');
-            expect(actions[1].title).toBe('Convert Array.at() to bracket notation');
+            expect(fixes).toHaveLength(2);
+            expect(applyEdit(document, fixes[0])).toBe('const last = items[items.length - 1];\nconst first = items.at(0);');
+            expect(applyEdit(document, fixes[1])).toBe('const last = items.at(-1);\nconst first = items[0];');
         });
     });
 
     describe('Error handling', () => {
         it('should handle malformed diagnostics gracefully', () => {
-            const mockDocument = {
-                getText: vi.fn(),
-                positionAt: vi.fn(),
-                offsetAt: vi.fn(),
-                uri: { toString: () => 'test.css' }
-            } as any;
-
+            const document = createDocument('.a { float: left; }', 'css', '/project/test.css');
             const diagnostics = [
                 {
-                    source: 'baseline-sidekick',
+                    source: 'Baseline Sidekick',
                     code: 'invalid-code-format', // Not an object with value property
                     range: new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 10))
                 },
                 {
                     source: 'other-extension',
                     code: { value: 'css.properties.float' },
-                    range: new vscode.Range(new vscode.Position(1, 0), new vscode.Position(1, 10))
+                    range: new vscode.Range(new vscode.Position(0, 5), new vscode.Position(0, 10))
                 }
             ] as any;
 
-            const context = {
-                diagnostics
-            } as any;
-
-            const actions = provider.provideCodeActions(
-                mockDocument,
-                new vscode.Range(new vscode.Position(0, 0), new vscode.Position(1, 10)),
-                context,
-                {} as any
-            );
+            const actions = provider.provideCodeActions(document, diagnostics[0].range, { diagnostics } as any, {} as any);
 
             expect(actions).toEqual([]);
         });
 
-        it('should handle unknown feature IDs gracefully', () => {
-            const mockDocument = {
-                getText: vi.fn().mockReturnValue('unknown-feature'),
-                positionAt: vi.fn(),
-                offsetAt: vi.fn(),
-                uri: { toString: () => 'test.css' }
-            } as any;
-
-            const diagnostic = {
-                source: 'baseline-sidekick',
-                code: { value: 'unknown.feature.id' },
-                range: new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 10))
-            } as any;
-
-            const context = {
-                diagnostics: [diagnostic]
-            } as any;
-
-            const actions = provider.provideCodeActions(
-                mockDocument,
-                diagnostic.range,
-                context,
-                {} as any
-            );
+        it('should handle unknown feature IDs and unparseable documents gracefully', () => {
+            const document = createDocument('.a { unknown-feature: 1; float: left', 'css', '/project/test.css');
+            const diagnostics = [
+                createDiagnostic('unknown.feature.id', 0, 5, 0, 20),
+                createDiagnostic('css.properties.float', 0, 26, 0, 31)
+            ];
 
-            expect(actions).toEqual([]);
+            const actions = provider.provideCodeActions(document, diagnostics[0].range, { diagnostics } as any, {} as any) as any[];
+
+            expect(actions.every(action => action.title.startsWith('Suppress'))).toBe(true);
+        });
+    });
+
+    describe('Suppressions in embedded regions', () => {
+        /**
+         * Applies the suppression offered for a diagnostic
+         */
+        const suppress = (document: any, diagnostic: any) => {
+            const actions = provider.provideCodeActions(document, diagnostic.range, { diagnostics: [diagnostic] } as any, {} as any) as any[];
+            return applyEdit(document, actions.find(action => action.title.startsWith('Suppress')));
+        };
+
+        it('should use the comment syntax of an inline script or style', () => {
+            const html = '<style>\n  .a { float: left; }\n</style>\n<script>\n  navigator.share(data);\n</script>';
+            const document = createDocument(html, 'html', '/project/index.html');
+
+            const styled = suppress(document, createDiagnostic('css.properties.float', 1, 7, 1, 12));
+            const scripted = suppress(document, createDiagnostic('api.Navigator.share', 4, 2, 4, 23));
+
+            expect(styled).toBe(html.replace('  .a', '  /* baseline-ignore-next-line float-clear */\n  .a'));
+            expect(scripted).toBe(html.replace('  navigator', '  // baseline-ignore-next-line api.Navigator.share\n  navigator'));
+            expect(HtmlParser.parseHtml(styled, {}).suppressions).toContainEqual(expect.objectContaining({ kind: 'line', line: 2 }));
+            expect(HtmlParser.parseHtml(scripted, {}).suppressions).toContainEqual(expect.objectContaining({ kind: 'line', line: 5 }));
+        });
+
+        it('should use the comment syntax of Vue, Svelte and Astro blocks', () => {
+            const vue = '<template>\n  <p>Text</p>\n</template>\n<script lang="ts">\nnavigator.share(data);\n</script>\n' +
+                '<style lang="scss">\n.a {\n  float: left;\n}\n</style>';
+            const svelte = '<script>\n  navigator.share(data);\n</script>\n<p>Text</p>';
+            const astro = '---\nnavigator.share(data);\n---\n<p>Text</p>';
+
+            expect(suppress(createDocument(vue, 'vue', '/project/App.vue'), createDiagnostic('api.Navigator.share', 4, 0, 4, 21)))
+                .toBe(vue.replace('\nnavigator', '\n// baseline-ignore-next-line api.Navigator.share\nnavigator'));
+            expect(suppress(createDocument(vue, 'vue', '/project/App.vue'), createDiagnostic('css.properties.float', 8, 2, 8, 7)))
+                .toBe(vue.replace('  float', '  /* baseline-ignore-next-line float-clear */\n  float'));
+            expect(suppress(createDocument(svelte, 'svelte', '/project/App.svelte'), createDiagnostic('api.Navigator.share', 1, 2, 1, 23)))
+                .toBe(svelte.replace('  navigator', '  // baseline-ignore-next-line api.Navigator.share\n  navigator'));
+            expect(suppress(createDocument(astro, 'astro', '/project/index.astro'), createDiagnostic('api.Navigator.share', 1, 0, 1, 21)))
+                .toBe(astro.replace('\nnavigator', '\n// baseline-ignore-next-line api.Navigator.share\nnavigator'));
+        });
+
+        it('should use an HTML comment on a line that starts with markup', () => {
+            const html = '<p>Text</p>\n<script>navigator.share(data);</script>';
+            const document = createDocument(html, 'html', '/project/index.html');
+
+            expect(suppress(document, createDiagnostic('api.Navigator.share', 1, 8, 1, 29)))
+                .toBe('<p>Text</p>\n<!-- baseline-ignore-next-line api.Navigator.share -->\n<script>navigator.share(data);</script>');
         });
     });
-});
\ No newline at end of file
+});
@@ -4,17 +4,17 @@ import { BaselineCodeActionProvider } from './codeActionProvider';
 import { BaselineDataManager } from '../core/baselineData';
 
 // Mock VS Code API
-vi.mock('vscode', () => ({
+vi.mock('vscode', async () => ({
     CodeAction: class {
         constructor(public title: string, public kind: any) {}
         public isPreferred?: boolean;
         public edit?: any;
+        public diagnostics?: any[];
     },
-    CodeActionKind: {
-        RefactorRewrite: 'refactor.rewrite'
-    },
+    CodeActionKind: (await vi.importActual<typeof import('../__mocks__/vscode')>('../__mocks__/vscode')).CodeActionKind,
     WorkspaceEdit: class {
         public replace = vi.fn();
+        public insert = vi.fn();
     },
     Range: class {
         constructor(public start: any, public end: any) {}
@@ -29,7 +29,14 @@ vi.mock('../core/baselineData', () => ({
     BaselineDataManager: {
         getInstance: vi.fn(() => ({
             getFeatureData: vi.fn(),
-            isBaselineSupported: vi.fn()
+            getCompatKeyStatus: vi.fn((key: string) =>
+                key === 'css.properties.float' ? { status: { baseline: 'high' } } : undefined),
+            isBaselineSupported: vi.fn(),
+            resolveFeatureId: vi.fn((key: string) => ({
+                'css.properties.container-type': 'container-queries',
+                'css.properties.float': 'float-clear',
+                'api.Array.at': 'array-at'
+            } as Record<string, string>)[key])
         }))
     }
 }));
@@ -73,7 +80,7 @@ describe('BaselineCodeActionProvider', () => {
             expect(result).toEqual([]);
         });
 
-        it('should process baseline diagnostics and return code actions', () => {
+        it('should ignore diagnostics with the old source name', () => {
             mockContext.diagnostics = [
                 {
                     source: 'baseline-sidekick',
@@ -82,173 +89,184 @@ describe('BaselineCodeActionProvider', () => {
                 }
             ] as any;
 
-            mockDocument.getText = vi.fn()
-                .mockReturnValueOnce('float: left;') // For the diagnostic range
-                .mockReturnValueOnce('.container { float: left; width: 50%; }'); // For the full rule
-
-            mockDocument.positionAt = vi.fn()
-                .mockReturnValueOnce(new vscode.Position(0, 0))
-                .mockReturnValueOnce(new vscode.Position(2, 1));
-
-            mockDocument.offsetAt = vi.fn()
-                .mockReturnValueOnce(12) // Start of float property
-                .mockReturnValueOnce(12)
-                .mockReturnValueOnce(12);
-
             const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any);
-            
-            expect(Array.isArray(result)).toBe(true);
-            expect(result.length).toBeGreaterThan(0);
-            expect(result[0].title).toBe('Convert float to Flexbox layout');
-            expect(result[0].isPreferred).toBe(true);
+            expect(result).toEqual([]);
         });
     });
 
-    describe('CSS refactoring actions', () => {
-        it('should create float to flexbox conversion action', () => {
+    describe('suppression quick fix', () => {
+        it('should insert a baseline-ignore comment above the diagnostic line', () => {
             const diagnostic = {
-                source: 'baseline-sidekick',
-                code: { value: 'css.properties.float' },
-                range: mockRange
+                source: 'Baseline Sidekick',
+                code: { value: 'css.properties.container-type' },
+                range: new vscode.Range(new vscode.Position(2, 4), new vscode.Position(2, 18))
             } as any;
 
             mockContext.diagnostics = [diagnostic];
-            mockDocument.getText = vi.fn()
-                .mockReturnValueOnce('float: left;')
-                .mockReturnValueOnce('.container { float: left; width: 50%; }');
-
-            mockDocument.positionAt = vi.fn()
-                .mockReturnValue(new vscode.Position(0, 0));
-
-            mockDocument.offsetAt = vi.fn()
-                .mockReturnValue(12);
-
-            const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any);
-            
-            expect(result).toHaveLength(1);
-            expect(result[0].title).toBe('Convert float to Flexbox layout');
-            expect(result[0].kind).toBe('refactor.rewrite');
-            expect(result[0].isPreferred).toBe(true);
-            expect(result[0].edit).toBeDefined();
-        });
-
-        it('should convert float CSS rule to flexbox correctly', () => {
-            const provider = new BaselineCodeActionProvider();
-            const ruleText = '.container {\n  float: left;\n  width: 50%;\n  margin: 10px;\n}';
-            
-            // Access private method for testing
-            const convertMethod = (provider as any).convertFloatToFlexbox;
-            const result = convertMethod.call(provider, ruleText);
-            
-            expect(result).toContain('display: flex');
-            expect(result).toContain('flex-wrap: wrap');
-            expect(result).not.toContain('float: left');
-            expect(result).toContain('width: 50%');
-            expect(result).toContain('margin: 10px');
+            (mockDocument as any).languageId = 'css';
+            (mockDocument as any).lineAt = vi.fn(() => ({ text: '    container-type: size;' }));
+
+            const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any) as any[];
+
+            expect(result).toHaveLength(2);
+            expect(result[1].title).toBe("Suppress 'container-queries' for this line");
+            expect(result[1].kind).toBe(vscode.CodeActionKind.QuickFix);
+            expect(result[1].edit.insert).toHaveBeenCalledWith(
+                mockDocument.uri,
+                expect.objectContaining({ line: 2, character: 0 }),
+                '    /* baseline-ignore-next-line container-queries */\n'
+            );
         });
     });
 
-    describe('JavaScript refactoring actions', () => {
-        it('should create XMLHttpRequest to fetch conversion action', () => {
+    describe('registry fixes', () => {
+        const useContent = (content: string, languageId: string) => {
+            (mockDocument as any).languageId = languageId;
+            (mockDocument as any).lineAt = vi.fn((line: number) => ({ text: content.split('\n')[line] }));
+            mockDocument.getText = vi.fn(() => content);
+            mockDocument.offsetAt = vi.fn((position: any) =>
+                content.split('\n').slice(0, position.line).reduce((offset, line) => offset + line.length + 1, 0) + position.character);
+            mockDocument.positionAt = vi.fn((offset: number) => {
+                const lines = content.slice(0, offset).split('\n');
+                return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
+            });
+        };
+
+        it('should offer the float to flexbox refactor but no @supports for widely available float', () => {
+            useContent('.container { float: left; width: 50%; }', 'css');
             const diagnostic = {
-                source: 'baseline-sidekick',
-                code: { value: 'api.XMLHttpRequest' },
-                range: mockRange
+                source: 'Baseline Sidekick',
+                code: { value: 'css.properties.float' },
+                range: new vscode.Range(new vscode.Position(0, 13), new vscode.Position(0, 18))
             } as any;
-
             mockContext.diagnostics = [diagnostic];
-            mockDocument.getText = vi.fn()
-                .mockReturnValueOnce('new XMLHttpRequest()')
-                .mockReturnValueOnce('const xhr = new XMLHttpRequest(); xhr.open("GET", "/api/data");');
 
-            mockDocument.positionAt = vi.fn()
-                .mockReturnValue(new vscode.Position(0, 0));
+            const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any) as any[];
+
+            expect(result).toHaveLength(2);
+            expect(result[0].title).toBe('Convert float to Flexbox layout (changes layout)');
+            expect(result[0].kind).toBe(vscode.CodeActionKind.RefactorRewrite);
+            expect(result[0].isPreferred).toBeFalsy();
+            expect(result[0].edit.replace).toHaveBeenCalledWith(
+                mockDocument.uri,
+                expect.objectContaining({ start: expect.objectContaining({ character: 13 }), end: expect.objectContaining({ character: 25 }) }),
+                'display: flex; flex-wrap: wrap;'
+            );
+            expect(result[1].title).toBe("Suppress 'float-clear' for this line");
+        });
 
-            mockDocument.offsetAt = vi.fn()
-                .mockReturnValue(0);
+        it('should convert Array.at() to bracket notation', () => {
+            useContent('const last = items.at(-1);', 'javascript');
+            mockContext.diagnostics = [{
+                source: 'Baseline Sidekick',
+                code: { value: 'api.Array.at' },
+                range: new vscode.Range(new vscode.Position(0, 13), new vscode.Position(0, 21))
+            }] as any;
 
-            const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any);
-            
-            expect(result).toHaveLength(1);
-            expect(result[0].title).toBe('Convert XMLHttpRequest to fetch API');
-            expect(result[0].isPreferred).toBe(true);
+            const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any) as any[];
+
+            expect(result[0].title).toBe('Convert .at() to bracket notation');
+            expect(result[0].edit.replace).toHaveBeenCalledWith(
+                mockDocument.uri,
+                expect.anything(),
+                'items[items.length - 1]'
+            );
         });
 
-        it('should create Array.at() to bracket notation conversion action', () => {
-            const diagnostic = {
-                source: 'baseline-sidekick',
-                code: { value: 'api.Array.at' },
-                range: mockRange
+        it('should fix every usage in the document for source.fixAll.baseline', () => {
+            useContent('const last = items.at(-1);\nconst first = rows.at(0);', 'javascript');
+            (mockDocument as any).uri = { fsPath: '/workspace/a.js' };
+            mockContext = {
+                diagnostics: [],
+                only: vscode.CodeActionKind.SourceFixAll
             } as any;
 
-            mockContext.diagnostics = [diagnostic];
-            mockDocument.getText = vi.fn()
-                .mockReturnValueOnce('arr.at(-1)');
+            const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any) as any[];
 
-            const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any);
-            
             expect(result).toHaveLength(1);
-            expect(result[0].title).toBe('Convert Array.at() to bracket notation');
-            expect(result[0].isPreferred).toBe(true);
+            expect(result[0].title).toBe('Fix all Baseline issues (2 fixes)');
+            expect(result[0].kind.value).toBe('source.fixAll.baseline');
+            expect(result[0].edit.replace).toHaveBeenCalledTimes(2);
         });
 
-        it('should convert Array.at() to bracket notation correctly', () => {
-            const provider = new BaselineCodeActionProvider();
-            const text = 'arr.at(-1)';
-            
-            // Access private method for testing
-            const convertMethod = (provider as any).convertAtToBracketNotation;
-            const result = convertMethod.call(provider, text, mockRange);
-            
-            expect(result).toBe('arr[-1 >= 0 ? -1 : arr.length + -1]');
+        it('should offer vendor prefix cleanups for declarations in the range', () => {
+            useContent('.a {\n  -webkit-transition: opacity 1s;\n  -webkit-appearance: none;\n}', 'css');
+            (mockDocument as any).uri = { fsPath: '/workspace/a.css' };
+            mockRange = new vscode.Range(new vscode.Position(1, 4), new vscode.Position(1, 4));
+
+            const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any) as any[];
+
+            expect(result.map(action => action.title)).toEqual([
+                'Add standard transition after -webkit-transition',
+                'Clean up all vendor prefixes in this file (2)'
+            ]);
+            expect(result[0].kind).toBe(vscode.CodeActionKind.RefactorRewrite);
+            expect(result[0].edit.replace).toHaveBeenCalledWith(
+                mockDocument.uri,
+                expect.anything(),
+                '\n  transition: opacity 1s;',
+                { needsConfirmation: false, label: 'Add standard transition after -webkit-transition' }
+            );
         });
 
-        it('should convert positive index Array.at() correctly', () => {
-            const provider = new BaselineCodeActionProvider();
-            const text = 'items.at(2)';
-            
-            const convertMethod = (provider as any).convertAtToBracketNotation;
-            const result = convertMethod.call(provider, text, mockRange);
-            
-            expect(result).toBe('items[2 >= 0 ? 2 : items.length + 2]');
+        it('should wrap API calls in feature detection, with and without a fallback', () => {
+            useContent('navigator.share(data);', 'javascript');
+            mockContext.diagnostics = [{
+                source: 'Baseline Sidekick',
+                code: { value: 'api.Navigator.share' },
+                range: new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 21))
+            }] as any;
+
+            const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any) as any[];
+
+            expect(result.map(action => action.title)).toEqual([
+                "Wrap in feature detection: if ('share' in navigator)",
+                "Wrap in feature detection with a fallback: if ('share' in navigator) … else",
+                "Suppress 'api.Navigator.share' for this line"
+            ]);
+            expect(result[0].kind).toBe(vscode.CodeActionKind.QuickFix);
+            expect(result[0].edit.replace).toHaveBeenCalledWith(
+                mockDocument.uri,
+                expect.anything(),
+                "if ('share' in navigator) {\n  navigator.share(data);\n}"
+            );
         });
-    });
 
-    describe('XMLHttpRequest to fetch conversion', () => {
-        it('should convert GET request correctly', () => {
-            const provider = new BaselineCodeActionProvider();
-            const xhrCode = 'const xhr = new XMLHttpRequest();\nxhr.open("GET", "/api/users");';
-            
-            const convertMethod = (provider as any).convertXhrToFetch;
-            const result = convertMethod.call(provider, xhrCode);
-            
-            expect(result).toContain("fetch('/api/users')");
-            expect(result).toContain('.then(response => response.json())');
-            expect(result).toContain('.catch(error =>');
-        });
+        it('should not offer fixes that would change behaviour', () => {
+            useContent('const last = getItems().at(-1);', 'javascript');
+            mockContext.diagnostics = [{
+                source: 'Baseline Sidekick',
+                code: { value: 'api.Array.at' },
+                range: new vscode.Range(new vscode.Position(0, 13), new vscode.Position(0, 26))
+            }] as any;
 
-        it('should convert POST request correctly', () => {
-            const provider = new BaselineCodeActionProvider();
-            const xhrCode = 'const xhr = new XMLHttpRequest();\nxhr.open("POST", "/api/users");';
-            
-            const convertMethod = (provider as any).convertXhrToFetch;
-            const result = convertMethod.call(provider, xhrCode);
-            
-            expect(result).toContain("fetch('/api/users', {");
-            expect(result).toContain("method: 'POST'");
-            expect(result).toContain("'Content-Type': 'application/json'");
-            expect(result).toContain('body: JSON.stringify(data)');
+            const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any) as any[];
+
+            expect(result.map(action => action.title)).toEqual([
+                'Add polyfill: core-js (~1 KB)',
+                "Suppress 'array-at' for this line"
+            ]);
         });
 
-        it('should provide fallback conversion for unrecognized patterns', () => {
-            const provider = new BaselineCodeActionProvider();
-            const xhrCode = 'someOtherXhrUsage()';
-            
-            const convertMethod = (provider as any).convertXhrToFetch;
-            const result = convertMethod.call(provider, xhrCode);
-            
-            expect(result).toContain('fetch(url)');
-            expect(result).toContain('.then(response => response.json())');
+        it('should offer the bundled polyfill through the add polyfill command', () => {
+            useContent('.a { container-type: inline-size; }', 'css');
+            const diagnostic = {
+                source: 'Baseline Sidekick',
+                code: { value: 'css.properties.container-type' },
+                range: new vscode.Range(new vscode.Position(0, 5), new vscode.Position(0, 19))
+            } as any;
+            mockContext.diagnostics = [diagnostic];
+
+            const result = provider.provideCodeActions(mockDocument, mockRange, mockContext, {} as any) as any[];
+            const polyfillAction = result.find(action => action.title === 'Add polyfill: container-query-polyfill (~9 KB)');
+
+            expect(polyfillAction.kind).toBe(vscode.CodeActionKind.QuickFix);
+            expect(polyfillAction.diagnostics).toEqual([diagnostic]);
+            expect(polyfillAction.command).toEqual({
+                command: 'baseline.addPolyfill',
+                title: 'Add Polyfill',
+                arguments: ['css.properties.container-type', mockDocument.uri]
+            });
         });
     });
-});
\ No newline at end of file
+});
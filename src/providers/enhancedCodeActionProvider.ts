@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { BaselineDataManager } from '../core/baselineData';
 import { AIModernizationAssistant, AIModernizationSolution } from '../ai/modernizationAssistant';
+import { FixRegistry } from '../fixes/fixRegistry';
 
 /**
  * Enhanced Code Action Provider with AI-powered modernization
@@ -8,10 +9,12 @@ import { AIModernizationAssistant, AIModernizationSolution } from '../ai/moderni
 export class EnhancedCodeActionProvider implements vscode.CodeActionProvider {
   private baselineData: BaselineDataManager;
   private aiAssistant: AIModernizationAssistant;
+  private fixRegistry: FixRegistry;
 
   constructor() {
     this.baselineData = BaselineDataManager.getInstance();
     this.aiAssistant = AIModernizationAssistant.getInstance();
+    this.fixRegistry = FixRegistry.getInstance();
   }
 
   public async provideCodeActions(
@@ -22,19 +25,12 @@ export class EnhancedCodeActionProvider implements vscode.CodeActionProvider {
   ): Promise<vscode.CodeAction[]> {
     const actions: vscode.CodeAction[] = [];
 
-    // Process baseline diagnostics
-    const baselineDiagnostics = context.diagnostics.filter(diagnostic => 
-      diagnostic.source === 'baseline-sidekick'
-    );
-
-    for (const diagnostic of baselineDiagnostics) {
-      // Traditional quick fixes
-      const quickFixes = this.createTraditionalQuickFixes(diagnostic, range, document);
-      actions.push(...quickFixes);
-
-      // AI-powered solutions
-      const aiActions = this.createAIPoweredActions(diagnostic, range, document);
-      actions.push(...aiActions);
+    // Verified quick fixes come from BaselineCodeActionProvider; this provider adds the AI actions
+    for (const diagnostic of context.diagnostics) {
+      const featureKey = FixRegistry.getFeatureKey(diagnostic);
+      if (featureKey) {
+        actions.push(...this.createAIPoweredActions(featureKey, range, document));
+      }
     }
 
     // Add file-level AI actions
@@ -44,53 +40,15 @@ export class EnhancedCodeActionProvider implements vscode.CodeActionProvider {
     return actions;
   }
 
-  /**
-   * Create traditional quick fix actions
-   */
-  private createTraditionalQuickFixes(
-    diagnostic: vscode.Diagnostic,
-    range: vscode.Range,
-    document: vscode.TextDocument
-  ): vscode.CodeAction[] {
-    const actions: vscode.CodeAction[] = [];
-    
-    const featureMatch = diagnostic.message.match(/'([^']+)'/);
-    if (!featureMatch) {
-      return actions;
-    }
-
-    const feature = featureMatch[1];
-    const text = document.getText(range);
-
-    // CSS quick fixes
-    if (feature.includes('css.properties')) {
-      actions.push(...this.createCssQuickFixes(feature, text, range, document));
-    }
-
-    // JavaScript quick fixes  
-    if (feature.includes('javascript') || feature.includes('api')) {
-      actions.push(...this.createJavaScriptQuickFixes(feature, text, range, document));
-    }
-
-    return actions;
-  }
-
   /**
    * Create AI-powered modernization actions
    */
   private createAIPoweredActions(
-    diagnostic: vscode.Diagnostic,
+    feature: string,
     range: vscode.Range,
     document: vscode.TextDocument
   ): vscode.CodeAction[] {
     const actions: vscode.CodeAction[] = [];
-    
-    const featureMatch = diagnostic.message.match(/'([^']+)'/);
-    if (!featureMatch) {
-      return actions;
-    }
-
-    const feature = featureMatch[1];
     const codeSnippet = this.extractCodeSnippet(document, range);
     const fileType = this.getFileType(document);
 
@@ -129,7 +87,8 @@ export class EnhancedCodeActionProvider implements vscode.CodeActionProvider {
       title: 'AI Refactor Code',
       arguments: [codeSnippet, feature, fileType, range, document.uri]
     };
-    refactorAction.isPreferred = true;
+    // Prefer the registry's verified fixes over an AI rewrite where there are any
+    refactorAction.isPreferred = this.fixRegistry.getFixers(feature).length === 0;
     actions.push(refactorAction);
 
     // AI Alternative Suggestions
@@ -192,80 +151,6 @@ export class EnhancedCodeActionProvider implements vscode.CodeActionProvider {
     return actions;
   }
 
-  /**
-   * Create CSS-specific quick fixes
-   */
-  private createCssQuickFixes(
-    feature: string,
-    text: string,
-    range: vscode.Range,
-    document: vscode.TextDocument
-  ): vscode.CodeAction[] {
-    const actions: vscode.CodeAction[] = [];
-
-    // Float to Flexbox conversion
-    if (feature.includes('float')) {
-      const flexboxAction = new vscode.CodeAction(
-        '🔄 Convert to Flexbox layout',
-        vscode.CodeActionKind.QuickFix
-      );
-      flexboxAction.edit = this.createFloatToFlexboxEdit(text, range, document);
-      flexboxAction.isPreferred = true;
-      actions.push(flexboxAction);
-    }
-
-    // Position absolute alternatives
-    if (feature.includes('position') && text.includes('absolute')) {
-      const gridAction = new vscode.CodeAction(
-        '🎯 Use CSS Grid instead',
-        vscode.CodeActionKind.QuickFix
-      );
-      gridAction.command = {
-        command: 'baseline.showPositionAlternatives',
-        title: 'Show Position Alternatives',
-        arguments: [text, range, document.uri]
-      };
-      actions.push(gridAction);
-    }
-
-    return actions;
-  }
-
-  /**
-   * Create JavaScript-specific quick fixes
-   */
-  private createJavaScriptQuickFixes(
-    feature: string,
-    text: string,
-    range: vscode.Range,
-    document: vscode.TextDocument
-  ): vscode.CodeAction[] {
-    const actions: vscode.CodeAction[] = [];
-
-    // Array.at() to bracket notation
-    if (text.includes('.at(')) {
-      const bracketAction = new vscode.CodeAction(
-        '🔧 Convert to bracket notation',
-        vscode.CodeActionKind.QuickFix
-      );
-      bracketAction.edit = this.createArrayAtToBracketEdit(text, range, document);
-      bracketAction.isPreferred = true;
-      actions.push(bracketAction);
-    }
-
-    // Optional chaining alternatives
-    if (text.includes('?.')) {
-      const safeAction = new vscode.CodeAction(
-        '🛡️ Convert to safe property access',
-        vscode.CodeActionKind.QuickFix
-      );
-      safeAction.edit = this.createOptionalChainingEdit(text, range, document);
-      actions.push(safeAction);
-    }
-
-    return actions;
-  }
-
   /**
    * Helper methods
    */
@@ -308,42 +193,4 @@ export class EnhancedCodeActionProvider implements vscode.CodeActionProvider {
                  .replace(/[-_]/g, ' ')
                  .replace(/\b\w/g, l => l.toUpperCase());
   }
-
-  private createFloatToFlexboxEdit(
-    text: string,
-    range: vscode.Range,
-    document: vscode.TextDocument
-  ): vscode.WorkspaceEdit {
-    const edit = new vscode.WorkspaceEdit();
-    const newText = text.replace(/float:\s*(left|right)/g, 'display: flex; justify-content: $1 === "left" ? "flex-start" : "flex-end"');
-    edit.replace(document.uri, range, newText);
-    return edit;
-  }
-
-  private createArrayAtToBracketEdit(
-    text: string,
-    range: vscode.Range,
-    document: vscode.TextDocument
-  ): vscode.WorkspaceEdit {
-    const edit = new vscode.WorkspaceEdit();
-    const newText = text.replace(/(\w+)\.at\((-?\d+)\)/g, (match, array, index) => {
-      if (index === '-1') {
-        return `${array}[${array}.length - 1]`;
-      }
-      return `${array}[${index}]`;
-    });
-    edit.replace(document.uri, range, newText);
-    return edit;
-  }
-
-  private createOptionalChainingEdit(
-    text: string,
-    range: vscode.Range,
-    document: vscode.TextDocument
-  ): vscode.WorkspaceEdit {
-    const edit = new vscode.WorkspaceEdit();
-    const newText = text.replace(/(\w+)\?\./g, '$1 && $1.');
-    edit.replace(document.uri, range, newText);
-    return edit;
-  }
 }
\ No newline at end of file
@@ -79,6 +79,7 @@ vi.mock('vscode', () => ({
 
 // Mock web-features data
 vi.mock('web-features', () => ({
+  browsers: {},
   features: {
     'css.properties.gap': {
       name: 'CSS Gap Property',
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
 import * as vscode from 'vscode';
 import { BaselineHoverProvider } from './hoverProvider';
 import { BaselineDataManager, Feature } from '../core/baselineData';
+import { ProjectConfigManager } from '../core/projectConfigManager';
 import { EnhancedDiagnostic } from '../diagnostics';
 
 // Mock VS Code API
@@ -82,6 +83,10 @@ describe('BaselineHoverProvider', () => {
     initialize: Mock;
     getFeatureData: Mock;
     getMdnUrl: Mock;
+    resolveFeatureId: Mock;
+    getTarget: Mock;
+    isBaselineSupported: Mock;
+    getBlockingBrowsers: Mock;
   };
   let mockDocument: vscode.TextDocument;
   let mockPosition: vscode.Position;
@@ -96,7 +101,11 @@ describe('BaselineHoverProvider', () => {
       isInitialized: vi.fn().mockReturnValue(true),
       initialize: vi.fn().mockResolvedValue(undefined),
       getFeatureData: vi.fn(),
-      getMdnUrl: vi.fn()
+      getMdnUrl: vi.fn(),
+      resolveFeatureId: vi.fn((featureId: string) => featureId),
+      getTarget: vi.fn().mockReturnValue({ kind: 'newly', value: 'newly', label: 'Baseline Newly Available' }),
+      isBaselineSupported: vi.fn().mockReturnValue(false),
+      getBlockingBrowsers: vi.fn().mockReturnValue([])
     };
 
     (BaselineDataManager.getInstance as Mock).mockReturnValue(mockBaselineDataManager);
@@ -339,6 +348,123 @@ describe('BaselineHoverProvider', () => {
     });
   });
 
+  describe('browser support table', () => {
+    const diagnostic = (): EnhancedDiagnostic => ({
+      range: mockRange,
+      message: 'Not baseline supported',
+      severity: vscode.DiagnosticSeverity.Warning,
+      source: 'Baseline Sidekick',
+      code: {
+        value: 'css.properties.view-transition-name',
+        target: vscode.Uri.parse('https://example.com')
+      }
+    });
+
+    it('should render per-browser versions and highlight blocking browsers', async () => {
+      const featureData: Feature = {
+        name: 'View transitions',
+        status: {
+          baseline: false,
+          support: { chrome: '111', chrome_android: '111', edge: '111', safari: '18', safari_ios: '18' }
+        },
+        spec: 'https://drafts.csswg.org/css-view-transitions-1/'
+      };
+
+      (vscode.languages.getDiagnostics as Mock).mockReturnValue([diagnostic()]);
+      mockBaselineDataManager.getFeatureData.mockReturnValue(featureData);
+      mockBaselineDataManager.getBlockingBrowsers.mockReturnValue(['firefox', 'firefox_android']);
+
+      const result = await hoverProvider.provideHover(mockDocument, mockPosition, {} as any);
+      const markdownString = result!.contents as vscode.MarkdownString;
+
+      expect(markdownString.value).toContain('| Chrome | 111 |');
+      expect(markdownString.value).toContain('| Safari on iOS | 18 |');
+      expect(markdownString.value).toContain('| ❌ **Firefox** | **—** |');
+      expect(markdownString.value).toContain('| ❌ **Firefox for Android** | **—** |');
+    });
+
+    it('should evaluate against the project config target like the diagnostics do', async () => {
+      const target = { kind: 'widely' as const, value: 'widely', label: 'Baseline Widely Available' };
+      vi.spyOn(ProjectConfigManager.getInstance(), 'getConfigForUri')
+        .mockReturnValueOnce({ source: 'a', rules: {}, ignorePaths: [], mappings: {}, target });
+
+      (vscode.languages.getDiagnostics as Mock).mockReturnValue([diagnostic()]);
+      mockBaselineDataManager.getFeatureData.mockReturnValue({
+        name: 'View transitions',
+        status: { baseline: 'low', support: { chrome: '111' } },
+        spec: 'https://drafts.csswg.org/css-view-transitions-1/'
+      });
+
+      const result = await hoverProvider.provideHover(mockDocument, mockPosition, {} as any);
+      const markdownString = result!.contents as vscode.MarkdownString;
+
+      expect(markdownString.value).toContain('**Target:** Baseline Widely Available — ❌ does not meet target');
+      expect(mockBaselineDataManager.isBaselineSupported).toHaveBeenCalledWith('css.properties.view-transition-name', target);
+      expect(mockBaselineDataManager.getBlockingBrowsers).toHaveBeenCalledWith('css.properties.view-transition-name', target);
+    });
+
+    it('should project the Widely Available date 30 months after Newly Available', async () => {
+      const featureData: Feature = {
+        name: 'Popover',
+        status: {
+          baseline: 'low',
+          baseline_low_date: '2024-04-16',
+          support: {
+            chrome: '114', chrome_android: '114', edge: '114', firefox: '125',
+            firefox_android: '125', safari: '17', safari_ios: '17'
+          }
+        },
+        spec: 'https://html.spec.whatwg.org/multipage/popover.html'
+      };
+
+      (vscode.languages.getDiagnostics as Mock).mockReturnValue([diagnostic()]);
+      mockBaselineDataManager.getFeatureData.mockReturnValue(featureData);
+
+      const result = await hoverProvider.provideHover(mockDocument, mockPosition, {} as any);
+      const markdownString = result!.contents as vscode.MarkdownString;
+
+      expect(markdownString.value).toContain('**Newly available:** 2024-04-16');
+      expect(markdownString.value).toContain('**Projected widely available:** 2026-10-16');
+    });
+
+    it('should clamp the projected date to the end of shorter months', async () => {
+      const featureData: Feature = {
+        name: 'Popover',
+        status: { baseline: 'low', baseline_low_date: '2023-08-31' },
+        spec: 'https://html.spec.whatwg.org/multipage/popover.html'
+      };
+
+      (vscode.languages.getDiagnostics as Mock).mockReturnValue([diagnostic()]);
+      mockBaselineDataManager.getFeatureData.mockReturnValue(featureData);
+
+      const result = await hoverProvider.provideHover(mockDocument, mockPosition, {} as any);
+      const markdownString = result!.contents as vscode.MarkdownString;
+
+      expect(markdownString.value).toContain('**Projected widely available:** 2026-02-28');
+    });
+
+    it('should show the actual Widely Available date once reached', async () => {
+      const featureData: Feature = {
+        name: 'Container queries',
+        status: {
+          baseline: 'high',
+          baseline_low_date: '2023-02-14',
+          baseline_high_date: '2025-08-14'
+        },
+        spec: 'https://drafts.csswg.org/css-conditional-5/'
+      };
+
+      (vscode.languages.getDiagnostics as Mock).mockReturnValue([diagnostic()]);
+      mockBaselineDataManager.getFeatureData.mockReturnValue(featureData);
+
+      const result = await hoverProvider.provideHover(mockDocument, mockPosition, {} as any);
+      const markdownString = result!.contents as vscode.MarkdownString;
+
+      expect(markdownString.value).toContain('**Widely available:** 2025-08-14');
+      expect(markdownString.value).not.toContain('Projected');
+    });
+  });
+
   describe('CanIUse URL construction', () => {
     it('should construct correct CanIUse URLs for CSS properties', async () => {
       const featureData: Feature = {
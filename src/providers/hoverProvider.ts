@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import { BaselineDataManager, Feature } from '../core/baselineData';
+import { BaselineTarget, BaselineTargetResolver, CORE_BROWSERS, CORE_BROWSER_NAMES, WIDELY_AVAILABLE_MONTHS } from '../core/baselineTarget';
+import { ProjectConfigManager } from '../core/projectConfigManager';
 import { EnhancedDiagnostic } from '../diagnostics';
 
 /**
@@ -8,12 +10,14 @@ import { EnhancedDiagnostic } from '../diagnostics';
  */
 export class BaselineHoverProvider implements vscode.HoverProvider {
   private baselineDataManager: BaselineDataManager;
+  private projectConfigManager: ProjectConfigManager;
 
   /**
    * Creates a new BaselineHoverProvider instance
    */
   constructor() {
     this.baselineDataManager = BaselineDataManager.getInstance();
+    this.projectConfigManager = ProjectConfigManager.getInstance();
   }
 
   /**
@@ -57,8 +61,11 @@ export class BaselineHoverProvider implements vscode.HoverProvider {
         return undefined;
       }
 
+      // Evaluate against the same target as the diagnostics: the project config's, then the setting
+      const target = this.projectConfigManager.getConfigForUri(document.uri)?.target ?? this.baselineDataManager.getTarget();
+
       // Create rich hover content
-      const hoverContent = this.createHoverContent(featureData, featureId);
+      const hoverContent = this.createHoverContent(featureData, featureId, target);
       
       // Return hover with the diagnostic range for better UX
       return new vscode.Hover(hoverContent, relevantDiagnostic.range);
@@ -98,9 +105,10 @@ export class BaselineHoverProvider implements vscode.HoverProvider {
    * Includes clickable MDN and CanIUse links in hover content
    * @param featureData Feature data from web-features dataset
    * @param featureId Feature ID for constructing links
+   * @param target Target the feature is evaluated against
    * @returns MarkdownString with rich hover content
    */
-  private createHoverContent(featureData: Feature, featureId: string): vscode.MarkdownString {
+  private createHoverContent(featureData: Feature, featureId: string, target: BaselineTarget): vscode.MarkdownString {
     const markdown = new vscode.MarkdownString();
     markdown.isTrusted = true; // Allow command links
     markdown.supportHtml = true; // Allow HTML for better formatting
@@ -134,6 +142,13 @@ export class BaselineHoverProvider implements vscode.HoverProvider {
     markdown.appendMarkdown(`${badgeText}\n\n`);
     markdown.appendMarkdown(`${reasonText}\n\n`);
 
+    const meetsTarget = this.baselineDataManager.isBaselineSupported(featureId, target);
+    markdown.appendMarkdown(`**Target:** ${target.label} — ${meetsTarget ? '✅ meets target' : '❌ does not meet target'}\n\n`);
+
+    // Per-browser support table and Baseline dates
+    this.appendSupportTable(markdown, featureData, featureId, target);
+    this.appendBaselineDates(markdown, featureData);
+
     // Add specification information if available
     if (featureData.spec) {
       markdown.appendMarkdown(`**Specification:** ${featureData.spec}\n\n`);
@@ -154,8 +169,9 @@ export class BaselineHoverProvider implements vscode.HoverProvider {
       markdown.appendMarkdown(`- [🌐 Can I Use](${canIUseUrl})\n`);
     }
     
-    // Web Features link
-    const webFeaturesUrl = `https://web-platform-dx.github.io/web-features/${featureId}`;
+    // Web Features link - point at the owning web-feature rather than the raw compat key
+    const webFeatureId = this.baselineDataManager.resolveFeatureId(featureId) || featureId;
+    const webFeaturesUrl = `https://web-platform-dx.github.io/web-features/${webFeatureId}`;
     markdown.appendMarkdown(`- [🔍 Web Features](${webFeaturesUrl})\n`);
 
     // Add suggested alternatives if this is a known problematic feature
@@ -170,6 +186,71 @@ export class BaselineHoverProvider implements vscode.HoverProvider {
     return markdown;
   }
 
+  /**
+   * Appends a compact per-browser support table, highlighting the browsers blocking the target
+   * @param markdown MarkdownString to append to
+   * @param featureData Feature data from web-features dataset
+   * @param featureId Feature ID used to look up blocking browsers
+   * @param target Target the blocking browsers keep the feature from meeting
+   */
+  private appendSupportTable(markdown: vscode.MarkdownString, featureData: Feature, featureId: string, target: BaselineTarget): void {
+    const support = featureData.status.support;
+    if (!support) {
+      return;
+    }
+
+    const blockingBrowsers = new Set<string>(this.baselineDataManager.getBlockingBrowsers(featureId, target));
+
+    markdown.appendMarkdown(`| Browser | Supported since |\n|:--|:--|\n`);
+    for (const browser of CORE_BROWSERS) {
+      const name = CORE_BROWSER_NAMES[browser];
+      const version = support[browser] || '—';
+
+      if (blockingBrowsers.has(browser)) {
+        markdown.appendMarkdown(`| ❌ **${name}** | **${version}** |\n`);
+      } else {
+        markdown.appendMarkdown(`| ${name} | ${version} |\n`);
+      }
+    }
+    markdown.appendMarkdown(`\n`);
+  }
+
+  /**
+   * Appends the Baseline Newly/Widely Available dates, projecting the Widely Available
+   * date (Newly Available date + 30 months) when the feature has not reached it yet
+   * @param markdown MarkdownString to append to
+   * @param featureData Feature data from web-features dataset
+   */
+  private appendBaselineDates(markdown: vscode.MarkdownString, featureData: Feature): void {
+    const { baseline_low_date: lowDate, baseline_high_date: highDate } = featureData.status;
+    if (!lowDate) {
+      return;
+    }
+
+    markdown.appendMarkdown(`**Newly available:** ${lowDate}  \n`);
+    if (highDate) {
+      markdown.appendMarkdown(`**Widely available:** ${highDate}\n\n`);
+    } else {
+      const projected = this.getProjectedWidelyAvailableDate(lowDate);
+      markdown.appendMarkdown(`**Projected widely available:** ${projected ?? 'unknown'}\n\n`);
+    }
+  }
+
+  /**
+   * Projects the date a feature becomes Baseline Widely Available (30 months after Newly Available)
+   * @param lowDate Baseline Newly Available date (YYYY-MM-DD, optionally prefixed with ≤)
+   * @returns Projected date as YYYY-MM-DD or undefined if the date cannot be parsed
+   */
+  private getProjectedWidelyAvailableDate(lowDate: string): string | undefined {
+    const match = lowDate.match(/(\d{4})-(\d{2})-(\d{2})/);
+    if (!match) {
+      return undefined;
+    }
+
+    const date = new Date(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)));
+    return BaselineTargetResolver.addMonths(date, WIDELY_AVAILABLE_MONTHS).toISOString().slice(0, 10);
+  }
+
   /**
    * Constructs CanIUse URL from feature ID
    * Maps web-features IDs to CanIUse feature names where possible
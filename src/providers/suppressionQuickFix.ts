@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { BaselineDataManager } from '../core/baselineData';
+import { AuditEngine, LanguageType } from '../core/auditEngine';
+import { HtmlParser } from '../core/htmlParser';
+import { SuppressionParser } from '../core/suppressions';
+
+/**
+ * Builds quick fixes that silence a Baseline diagnostic with a baseline-ignore comment
+ */
+export class SuppressionQuickFix {
+  /**
+   * Creates a quick fix inserting a `baseline-ignore-next-line` directive above the diagnostic
+   * @param document Document containing the diagnostic
+   * @param diagnostic Baseline diagnostic to silence
+   * @param featureId Feature ID or BCD compat key reported by the diagnostic
+   * @returns Code action, or undefined for languages without a comment syntax
+   */
+  public static create(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    featureId: string
+  ): vscode.CodeAction | undefined {
+    const line = diagnostic.range.start.line;
+    const languageType = this.getDirectiveLanguageType(document, line);
+    if (!languageType) {
+      return undefined;
+    }
+
+    // Prefer the web-features ID so the directive reads the same as the docs
+    const directiveId = BaselineDataManager.getInstance().resolveFeatureId(featureId) || featureId;
+    const indentation = document.lineAt(line).text.match(/^\s*/)?.[0] ?? '';
+    const directive = SuppressionParser.formatNextLineDirective(languageType, directiveId);
+
+    const action = new vscode.CodeAction(
+      `Suppress '${directiveId}' for this line`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.diagnostics = [diagnostic];
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(document.uri, new vscode.Position(line, 0), `${indentation}${directive}\n`);
+    action.edit = edit;
+
+    return action;
+  }
+
+  /**
+   * Chooses the comment syntax for a directive inserted at the start of a line
+   * Lines inside an inline `<style>` or `<script>` of markup, or a block of a Vue, Svelte or Astro component,
+   * take the syntax of the embedded language
+   * @param document Document containing the line
+   * @param line Zero-based line the directive goes above
+   * @returns Language type whose comment syntax the directive uses, or undefined for unsupported languages
+   */
+  private static getDirectiveLanguageType(document: vscode.TextDocument, line: number): LanguageType | undefined {
+    const languageType = AuditEngine.getLanguageTypeForLanguageId(document.languageId);
+    if (languageType !== 'HTML') {
+      return languageType;
+    }
+
+    // A region's first line starts with markup unless the region starts at the beginning of it
+    const region = HtmlParser.findEmbeddedRegions(document.getText(), document).find(candidate =>
+      (line > candidate.line || (line === candidate.line && candidate.character === 0)) &&
+      line <= candidate.line + candidate.content.split('\n').length - 1
+    );
+    return region ? AuditEngine.getLanguageTypeForLanguageId(region.languageId) ?? languageType : languageType;
+  }
+}
@@ -2,7 +2,7 @@
 import { vi } from 'vitest';
 
 // Global mock for VS Code API to ensure consistency across all tests
-vi.mock('vscode', () => ({
+vi.mock('vscode', async () => ({
   languages: {
     createDiagnosticCollection: vi.fn(() => ({
       set: vi.fn(),
@@ -26,10 +26,7 @@ vi.mock('vscode', () => ({
   DiagnosticTag: {
     Deprecated: 1
   },
-  CodeActionKind: {
-    RefactorRewrite: 'refactor.rewrite',
-    QuickFix: 'quickfix'
-  },
+  CodeActionKind: (await vi.importActual<typeof import('./__mocks__/vscode')>('./__mocks__/vscode')).CodeActionKind,
   ProgressLocation: {
     Notification: 15,
     Window: 10
@@ -75,6 +72,7 @@ vi.mock('vscode', () => ({
     onDidChangeTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
     onDidOpenTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
     onDidSaveTextDocument: vi.fn(() => ({ dispose: vi.fn() })),
+    onDidChangeConfiguration: vi.fn(() => ({ dispose: vi.fn() })),
     getConfiguration: vi.fn(() => ({
       get: vi.fn((_key: string, defaultValue: any) => defaultValue)
     })),
@@ -0,0 +1,13 @@
+// postcss-less and sugarss ship without type declarations
+
+declare module 'postcss-less' {
+  import * as postcss from 'postcss';
+  export const parse: postcss.Parser<postcss.Root>;
+  export const stringify: postcss.Stringifier;
+}
+
+declare module 'sugarss' {
+  import * as postcss from 'postcss';
+  export const parse: postcss.Parser<postcss.Root>;
+  export const stringify: postcss.Stringifier;
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { FixAllBuilder } from '../fixes/fixAll';
 
 /**
  * Copilot-style quick access interface
@@ -163,13 +164,13 @@ export class QuickAccessInterface {
 
     switch (selection.label) {
       case '🔧 Quick Fixes Only':
-        await this.applyQuickFixes(editor);
+        await this.applyFixAll(editor, false);
         break;
       case '🤖 AI-Powered Fixes':
         await vscode.commands.executeCommand('baselineSidekick.showModernizationWizard');
         break;
       case '👀 Preview Changes':
-        await this.previewChanges(editor);
+        await this.applyFixAll(editor, true);
         break;
       case '📋 Show Issues List':
         await vscode.commands.executeCommand('baselineSidekick.showCompatibilityReport');
@@ -177,68 +178,27 @@ export class QuickAccessInterface {
     }
   }
 
-  private static async applyQuickFixes(editor: vscode.TextEditor): Promise<void> {
-    // Get all code actions for the file
-    const document = editor.document;
-    const diagnostics = vscode.languages.getDiagnostics(document.uri);
-    const baselineDiagnostics = diagnostics.filter(d => d.source === 'baseline-sidekick');
+  /**
+   * Applies every automated fix in the active file as one edit
+   * @param editor Active editor
+   * @param preview Whether the edit opens in the refactor preview first
+   */
+  private static async applyFixAll(editor: vscode.TextEditor, preview: boolean): Promise<void> {
+    const fixAllBuilder = FixAllBuilder.getInstance();
+    const fixes = fixAllBuilder.getDocumentFixes(editor.document);
 
-    if (baselineDiagnostics.length === 0) {
-      vscode.window.showInformationMessage('✅ No compatibility issues found! Your code looks great.');
+    if (fixes.length === 0) {
+      vscode.window.showInformationMessage('💡 No automatic fixes available. Try AI-powered solutions for complex cases.');
       return;
     }
 
-    const progress = await vscode.window.withProgress({
-      location: vscode.ProgressLocation.Notification,
-      title: 'Applying quick fixes...',
-      cancellable: false
-    }, async (progress) => {
-      let fixed = 0;
-      const total = baselineDiagnostics.length;
-
-      for (const diagnostic of baselineDiagnostics) {
-        progress.report({ 
-          message: `Fixing issue ${fixed + 1} of ${total}`,
-          increment: (100 / total)
-        });
-
-        // Apply code action if available
-        const codeActions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
-          'vscode.executeCodeActionProvider',
-          document.uri,
-          diagnostic.range
-        );
-
-        const quickFix = codeActions?.find(action => 
-          action.kind?.value.startsWith('quickfix') && 
-          action.title.includes('Replace with')
-        );
-
-        if (quickFix?.edit) {
-          await vscode.workspace.applyEdit(quickFix.edit);
-          fixed++;
-        }
-      }
-
-      return fixed;
-    });
-
-    const message = progress > 0 
-      ? `🎉 Fixed ${progress} compatibility issues!`
-      : '💡 No automatic fixes available. Try AI-powered solutions for complex cases.';
+    const applied = await vscode.workspace.applyEdit(
+      fixAllBuilder.createWorkspaceEdit([{ document: editor.document, fixes }], preview),
+      { isRefactoring: true }
+    );
 
-    vscode.window.showInformationMessage(message);
-  }
-
-  private static async previewChanges(editor: vscode.TextEditor): Promise<void> {
-    // Show diff preview of potential changes
-    vscode.window.showInformationMessage(
-      '👀 Preview feature coming soon! For now, use "Show Issues List" to see what needs fixing.',
-      'Show Issues'
-    ).then(choice => {
-      if (choice === 'Show Issues') {
-        vscode.commands.executeCommand('baselineSidekick.showCompatibilityReport');
-      }
-    });
+    if (applied) {
+      vscode.window.showInformationMessage(`🎉 Applied ${fixes.length} automatic fix${fixes.length === 1 ? '' : 'es'}!`);
+    }
   }
 }
\ No newline at end of file